@@ -0,0 +1,8 @@
+export class User {
+    constructor(
+        public id: string,
+        public email: string,
+        public passwordHash: string,
+        public isAdmin: boolean,
+    ) {}
+}
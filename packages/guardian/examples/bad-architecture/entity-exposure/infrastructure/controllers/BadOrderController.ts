@@ -1,21 +1,6 @@
 // ❌ BAD: Exposing domain entity Order in API response
 
-class Order {
-    constructor(
-        public id: string,
-        public items: OrderItem[],
-        public total: number,
-        public customerId: string,
-    ) {}
-}
-
-class OrderItem {
-    constructor(
-        public productId: string,
-        public quantity: number,
-        public price: number,
-    ) {}
-}
+import { Order } from "../../domain/entities/Order"
 
 class BadOrderController {
     async getOrder(orderId: string): Promise<Order> {
@@ -13,14 +13,7 @@
  * - Violates Clean Architecture
  */
 
-class User {
-    constructor(
-        public id: string,
-        public email: string,
-        public passwordHash: string,
-        public isAdmin: boolean,
-    ) {}
-}
+import { User } from "../../domain/entities/User"
 
 export class BadUserController {
     /**
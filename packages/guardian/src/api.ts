@@ -3,6 +3,15 @@ import {
     AnalyzeProjectRequest,
     AnalyzeProjectResponse,
 } from "./application/use-cases/AnalyzeProject"
+import { FixHardcodedValues } from "./application/use-cases/FixHardcodedValues"
+import { FixPublicModuleImports } from "./application/use-cases/FixPublicModuleImports"
+import { GraphViewBuilder, GraphViewOptions } from "./application/services/GraphViewBuilder"
+import { GraphView } from "./application/dtos/GraphView"
+import {
+    WatchProject,
+    WatchProjectRequest,
+    WatchProjectResponse,
+} from "./application/use-cases/WatchProject"
 import { IFileScanner } from "./domain/services/IFileScanner"
 import { ICodeParser } from "./domain/services/ICodeParser"
 import { IHardcodeDetector } from "./domain/services/IHardcodeDetector"
@@ -15,6 +24,16 @@ import { IAggregateBoundaryDetector } from "./domain/services/IAggregateBoundary
 import { ISecretDetector } from "./domain/services/ISecretDetector"
 import { IAnemicModelDetector } from "./domain/services/IAnemicModelDetector"
 import { IDuplicateValueTracker } from "./domain/services/IDuplicateValueTracker"
+import { IConfigLoader } from "./domain/services/IConfigLoader"
+import { IModuleResolver } from "./domain/services/IModuleResolver"
+import { IChangeDetector } from "./domain/services/IChangeDetector"
+import { IAnalysisCache } from "./domain/services/IAnalysisCache"
+import { IWorkerPool } from "./domain/services/IWorkerPool"
+import { IPluginLoader } from "./domain/services/IPluginLoader"
+import { IFileWatcher } from "./domain/services/IFileWatcher"
+import { FixPlan, IHardcodeFixer } from "./domain/services/IHardcodeFixer"
+import { IImportFixer } from "./domain/services/IImportFixer"
+import { FileAnalysis, FileAnalysisTask } from "./application/dtos/AnalysisCache"
 import { FileScanner } from "./infrastructure/scanners/FileScanner"
 import { CodeParser } from "./infrastructure/parsers/CodeParser"
 import { HardcodeDetector } from "./infrastructure/analyzers/HardcodeDetector"
@@ -27,18 +46,84 @@ import { AggregateBoundaryDetector } from "./infrastructure/analyzers/AggregateB
 import { SecretDetector } from "./infrastructure/analyzers/SecretDetector"
 import { AnemicModelDetector } from "./infrastructure/analyzers/AnemicModelDetector"
 import { DuplicateValueTracker } from "./infrastructure/analyzers/DuplicateValueTracker"
+import { ConfigLoader } from "./infrastructure/config/ConfigLoader"
+import { ModuleResolver } from "./infrastructure/resolvers/ModuleResolver"
+import { GitChangeDetector } from "./infrastructure/git/GitChangeDetector"
+import { FileAnalysisCache } from "./infrastructure/cache/FileAnalysisCache"
+import { AnalysisWorkerPool } from "./infrastructure/workers/AnalysisWorkerPool"
+import { HardcodeFixer } from "./infrastructure/fixers/HardcodeFixer"
+import { ImportFixer } from "./infrastructure/fixers/ImportFixer"
+import { PluginLoader } from "./infrastructure/plugins/PluginLoader"
+import { FileWatcher } from "./infrastructure/watchers/FileWatcher"
 import { ERROR_MESSAGES } from "./shared/constants"
+import { version } from "../package.json"
+
+/**
+ * Wires the analysis use case with the default infrastructure
+ */
+function createAnalyzeProject(
+    workerPool?: IWorkerPool<FileAnalysisTask, FileAnalysis>,
+): AnalyzeProject {
+    const fileScanner: IFileScanner = new FileScanner()
+    const codeParser: ICodeParser = new CodeParser()
+    const hardcodeDetector: IHardcodeDetector = new HardcodeDetector()
+    const namingConventionDetector: INamingConventionDetector = new NamingConventionDetector()
+    const frameworkLeakDetector: IFrameworkLeakDetector = new FrameworkLeakDetector()
+    const entityExposureDetector: IEntityExposureDetector = new EntityExposureDetector()
+    const dependencyDirectionDetector: IDependencyDirectionDetector =
+        new DependencyDirectionDetector()
+    const repositoryPatternDetector: IRepositoryPatternDetector = new RepositoryPatternDetector()
+    const aggregateBoundaryDetector: IAggregateBoundaryDetector = new AggregateBoundaryDetector()
+    const secretDetector: ISecretDetector = new SecretDetector()
+    const anemicModelDetector: IAnemicModelDetector = new AnemicModelDetector()
+    const duplicateValueTracker: IDuplicateValueTracker = new DuplicateValueTracker()
+    const configLoader: IConfigLoader = new ConfigLoader()
+    const moduleResolver: IModuleResolver = new ModuleResolver()
+    const changeDetector: IChangeDetector = new GitChangeDetector()
+    const analysisCache: IAnalysisCache<FileAnalysis> = new FileAnalysisCache(version)
+    const pluginLoader: IPluginLoader = new PluginLoader()
+
+    return new AnalyzeProject(
+        fileScanner,
+        codeParser,
+        hardcodeDetector,
+        namingConventionDetector,
+        frameworkLeakDetector,
+        entityExposureDetector,
+        dependencyDirectionDetector,
+        repositoryPatternDetector,
+        aggregateBoundaryDetector,
+        secretDetector,
+        anemicModelDetector,
+        duplicateValueTracker,
+        configLoader,
+        moduleResolver,
+        changeDetector,
+        analysisCache,
+        pluginLoader,
+        workerPool,
+    )
+}
 
 /**
  * Analyzes a TypeScript/JavaScript project for code quality issues
  *
  * Detects hardcoded values (magic numbers and strings) and validates
- * Clean Architecture layer dependencies.
+ * Clean Architecture layer dependencies. Plugins listed in the config add
+ * their own rules, reported in `customViolations`.
  *
  * @param options - Configuration for the analysis
  * @param options.rootDir - Root directory to analyze
  * @param options.include - File patterns to include (optional)
  * @param options.exclude - Directories to exclude (optional, defaults to node_modules, dist, build)
+ * @param options.config - Inline config object (optional, overrides any config file)
+ * @param options.configPath - Path to a config file (optional, otherwise guardian.config.ts,
+ * guardian.config.js or guardian.config.json is searched from rootDir upwards)
+ * @param options.since - Git ref, only files changed since its merge base with HEAD are reported (optional)
+ * @param options.staged - Only staged files are reported, analyzing the git index (optional)
+ * @param options.cacheDir - Directory to cache per-file results in, so unchanged files are not
+ * analyzed again (optional, no cache by default)
+ * @param options.jobs - Number of worker threads analyzing files in parallel (optional, default 1)
  *
  * @returns Analysis results including violations, metrics, and dependency graph
  *
@@ -71,39 +156,31 @@ import { ERROR_MESSAGES } from "./shared/constants"
  *     console.log(`  Location: ${violation.suggestion.location}`)
  * })
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Same rule settings as guardian.config.json
+ * const result = await analyzeProject({
+ *     rootDir: './src',
+ *     config: {
+ *         rules: {
+ *             'hardcoded-value': 'off',
+ *             'naming-convention': 'high',
+ *         },
+ *     },
+ * })
+ * ```
  */
 export async function analyzeProject(
     options: AnalyzeProjectRequest,
 ): Promise<AnalyzeProjectResponse> {
-    const fileScanner: IFileScanner = new FileScanner()
-    const codeParser: ICodeParser = new CodeParser()
-    const hardcodeDetector: IHardcodeDetector = new HardcodeDetector()
-    const namingConventionDetector: INamingConventionDetector = new NamingConventionDetector()
-    const frameworkLeakDetector: IFrameworkLeakDetector = new FrameworkLeakDetector()
-    const entityExposureDetector: IEntityExposureDetector = new EntityExposureDetector()
-    const dependencyDirectionDetector: IDependencyDirectionDetector =
-        new DependencyDirectionDetector()
-    const repositoryPatternDetector: IRepositoryPatternDetector = new RepositoryPatternDetector()
-    const aggregateBoundaryDetector: IAggregateBoundaryDetector = new AggregateBoundaryDetector()
-    const secretDetector: ISecretDetector = new SecretDetector()
-    const anemicModelDetector: IAnemicModelDetector = new AnemicModelDetector()
-    const duplicateValueTracker: IDuplicateValueTracker = new DuplicateValueTracker()
-    const useCase = new AnalyzeProject(
-        fileScanner,
-        codeParser,
-        hardcodeDetector,
-        namingConventionDetector,
-        frameworkLeakDetector,
-        entityExposureDetector,
-        dependencyDirectionDetector,
-        repositoryPatternDetector,
-        aggregateBoundaryDetector,
-        secretDetector,
-        anemicModelDetector,
-        duplicateValueTracker,
-    )
+    const workerPool: IWorkerPool<FileAnalysisTask, FileAnalysis> | undefined =
+        options.jobs !== undefined && options.jobs > 1
+            ? new AnalysisWorkerPool(options.jobs)
+            : undefined
+    const useCase = createAnalyzeProject(workerPool)
 
-    const result = await useCase.execute(options)
+    const result = await useCase.execute(options).finally(async () => workerPool?.close())
 
     if (!result.success || !result.data) {
         throw new Error(result.error ?? ERROR_MESSAGES.FAILED_TO_ANALYZE)
@@ -112,6 +189,211 @@ export async function analyzeProject(
     return result.data
 }
 
+export interface FixHardcodedValuesOptions
+    extends Pick<
+        AnalyzeProjectRequest,
+        "rootDir" | "include" | "exclude" | "config" | "configPath"
+    > {
+    /**
+     * Write the changed files, otherwise the plan is only returned for review
+     */
+    write?: boolean
+}
+
+/**
+ * Replaces hardcoded values with named constants
+ *
+ * Analyzes the project like {@link analyzeProject}, then moves every
+ * reported hardcoded value into the constants module its suggestion names,
+ * creating the module when needed and importing the constant where the
+ * value was. Identical values share one constant.
+ *
+ * @param options - Analysis options plus `write`
+ *
+ * @returns The changed files with their old and new contents, the constants
+ * and the values that could not be replaced automatically
+ *
+ * @throws {Error} If analysis fails or a file cannot be written
+ *
+ * @example
+ * ```typescript
+ * import { fixHardcodedValues } from '@puaros/guardian'
+ *
+ * const plan = await fixHardcodedValues({ rootDir: './src' })
+ * plan.changes.forEach(change => console.log(change.file))
+ *
+ * await fixHardcodedValues({ rootDir: './src', write: true })
+ * ```
+ */
+export async function fixHardcodedValues(options: FixHardcodedValuesOptions): Promise<FixPlan> {
+    const { write, ...analysisOptions } = options
+    const analysis = await analyzeProject(analysisOptions)
+
+    const hardcodeFixer: IHardcodeFixer = new HardcodeFixer()
+    const useCase = new FixHardcodedValues(hardcodeFixer)
+    const result = await useCase.execute({
+        rootDir: options.rootDir,
+        violations: analysis.hardcodeViolations,
+        write,
+    })
+
+    if (!result.success || !result.data) {
+        throw new Error(result.error ?? ERROR_MESSAGES.FAILED_TO_FIX)
+    }
+
+    return result.data
+}
+
+export type FixPublicModuleImportsOptions = FixHardcodedValuesOptions
+
+/**
+ * Rewrites deep imports of public modules to import their index
+ *
+ * Analyzes the project like {@link analyzeProject}, then replaces the
+ * specifier of every import reported by the `public-module` rule, e.g.
+ * `../billing/internal/calc` becomes `../billing`. Imports of names the
+ * index does not export as the same declaration are skipped, until they
+ * are exported from it by hand.
+ *
+ * @param options - Analysis options plus `write`
+ *
+ * @returns The changed files with their old and new contents, and the
+ * imports that were skipped
+ *
+ * @throws {Error} If analysis fails or a file cannot be written
+ *
+ * @example
+ * ```typescript
+ * import { fixPublicModuleImports } from '@puaros/guardian'
+ *
+ * const plan = await fixPublicModuleImports({ rootDir: './src' })
+ * plan.changes.forEach(change => console.log(change.file))
+ *
+ * await fixPublicModuleImports({ rootDir: './src', write: true })
+ * ```
+ */
+export async function fixPublicModuleImports(
+    options: FixPublicModuleImportsOptions,
+): Promise<FixPlan> {
+    const { write, ...analysisOptions } = options
+    const analysis = await analyzeProject(analysisOptions)
+
+    const importFixer: IImportFixer = new ImportFixer()
+    const useCase = new FixPublicModuleImports(importFixer)
+    const result = await useCase.execute({
+        rootDir: options.rootDir,
+        violations: analysis.publicModuleViolations,
+        write,
+    })
+
+    if (!result.success || !result.data) {
+        throw new Error(result.error ?? ERROR_MESSAGES.FAILED_TO_FIX_IMPORTS)
+    }
+
+    return result.data
+}
+
+export interface ExportDependencyGraphOptions
+    extends Pick<
+            AnalyzeProjectRequest,
+            "rootDir" | "include" | "exclude" | "config" | "configPath"
+        >,
+        GraphViewOptions {}
+
+/**
+ * Exports the dependency graph of a project
+ *
+ * Analyzes the project like {@link analyzeProject} and returns its files and
+ * imports as nodes and edges, optionally merged into folders or layers and
+ * limited to a directory or to the neighbourhood of one file. Edges that are
+ * part of a circular dependency or break the layer model are marked.
+ *
+ * @param options - Analysis options plus `level`, `root`, `focus` and `depth`
+ *
+ * @returns Nodes and edges, sorted so repeated exports are stable
+ *
+ * @throws {Error} If analysis fails, `root` contains no analyzed file or
+ * `focus` is not part of the graph
+ *
+ * @example
+ * ```typescript
+ * import { exportDependencyGraph } from '@puaros/guardian'
+ *
+ * const graph = await exportDependencyGraph({ rootDir: './src', level: 'layer' })
+ * graph.edges
+ *     .filter(edge => edge.layerViolation)
+ *     .forEach(edge => console.log(`${edge.from} -> ${edge.to}`))
+ * ```
+ */
+export async function exportDependencyGraph(
+    options: ExportDependencyGraphOptions,
+): Promise<GraphView> {
+    const { level, root, focus, depth, ...analysisOptions } = options
+    const analysis = await analyzeProject(analysisOptions)
+
+    return new GraphViewBuilder().build(analysis, { level, root, focus, depth })
+}
+
+export type WatchProjectOptions = WatchProjectRequest
+
+/**
+ * Analyzes a project and keeps re-analyzing it whenever files change
+ *
+ * Resolves after the initial analysis with its result. From then on every
+ * saved change re-analyzes only the changed files and the files importing
+ * them, and `onUpdate` receives the new result with the violations that
+ * appeared and those that were resolved. A change to the config file or a
+ * plugin module analyzes the whole project again.
+ *
+ * @param options - Analysis options like {@link analyzeProject} (without
+ * `since` and `staged`) plus `onUpdate` and `onError`
+ *
+ * @returns The initial result and `close()`, which stops watching
+ *
+ * @throws {Error} If the initial analysis fails or the directory cannot be watched
+ *
+ * @example
+ * ```typescript
+ * import { watchProject } from '@puaros/guardian'
+ *
+ * const watch = await watchProject({
+ *     rootDir: './src',
+ *     onUpdate: ({ appeared, resolved }) => {
+ *         appeared.hardcodeViolations.forEach(v => console.log(`+ ${v.file}:${v.line}`))
+ *         resolved.hardcodeViolations.forEach(v => console.log(`- ${v.file}:${v.line}`))
+ *     },
+ * })
+ *
+ * // later
+ * await watch.close()
+ * ```
+ */
+export async function watchProject(options: WatchProjectOptions): Promise<WatchProjectResponse> {
+    const workerPool: IWorkerPool<FileAnalysisTask, FileAnalysis> | undefined =
+        options.jobs !== undefined && options.jobs > 1
+            ? new AnalysisWorkerPool(options.jobs)
+            : undefined
+    const fileWatcher: IFileWatcher = new FileWatcher()
+    const useCase = new WatchProject(createAnalyzeProject(workerPool), fileWatcher)
+
+    const result = await useCase.execute(options)
+
+    if (!result.success || !result.data) {
+        await workerPool?.close()
+        throw new Error(result.error ?? ERROR_MESSAGES.FAILED_TO_ANALYZE)
+    }
+
+    const watch = result.data
+
+    return {
+        result: watch.result,
+        close: async (): Promise<void> => {
+            await watch.close()
+            await workerPool?.close()
+        },
+    }
+}
+
 export type {
     AnalyzeProjectRequest,
     AnalyzeProjectResponse,
@@ -125,5 +407,62 @@ export type {
     RepositoryPatternViolation,
     AggregateBoundaryViolation,
     AnemicModelViolation,
+    SuppressionViolation,
+    PackageMetricViolation,
+    BoundedContextViolation,
+    PublicModuleViolation,
+    DeadCodeViolation,
+    CustomRuleViolation,
     ProjectMetrics,
+    PackageMetrics,
 } from "./application/use-cases/AnalyzeProject"
+export type {
+    JsonReport,
+    JsonReportBaseline,
+    JsonReportChanges,
+    JsonReportFilters,
+    JsonReportSummary,
+    ViolationReport,
+} from "./application/dtos/JsonReport"
+export type {
+    BaselineComparison,
+    BaselineEntry,
+    BaselineFile,
+    ViolationDiff,
+} from "./application/dtos/Baseline"
+export type { WatchProjectResponse, WatchUpdate } from "./application/use-cases/WatchProject"
+export type {
+    GraphLevel,
+    GraphView,
+    GraphViewEdge,
+    GraphViewNode,
+} from "./application/dtos/GraphView"
+export type { AnalysisCacheStats } from "./domain/services/IAnalysisCache"
+export type {
+    ExtractedConstant,
+    FileChange,
+    FixPlan,
+    SkippedFix,
+} from "./domain/services/IHardcodeFixer"
+export type {
+    DetectorContext,
+    DetectorFinding,
+    GuardianPlugin,
+    ICustomDetector,
+} from "./domain/services/ICustomDetector"
+export type { ImportReference } from "./domain/services/ICodeParser"
+export type { ImportKind } from "./shared/constants"
+export type { PluginRuleName } from "./shared/constants/rules"
+export type {
+    BoundedContextSettings,
+    DeadCodeSettings,
+    FrameworkSettings,
+    GateSettings,
+    GuardianConfigFile,
+    LayerSettings,
+    NamingRuleSettings,
+    NamingSettings,
+    RuleSetting,
+    RuleSettingObject,
+    SuppressionSettings,
+} from "./domain/value-objects/GuardianConfig"
@@ -0,0 +1,102 @@
+import type { FileSymbols, ImportReference, TypeCounts } from "../../domain/services/ICodeParser"
+import type { ReturnedType } from "../../domain/services/IEntityExposureDetector"
+import type { FrameworkUsage } from "../../domain/services/IFrameworkLeakDetector"
+import type { HardcodeType, ValueType } from "../../domain/value-objects/HardcodedValue"
+import type { GuardianConfigFile } from "../../domain/value-objects/GuardianConfig"
+import type {
+    AggregateBoundaryViolation,
+    AnemicModelViolation,
+    CustomRuleViolation,
+    FrameworkLeakViolation,
+    NamingConventionViolation,
+    RepositoryPatternViolation,
+    SecretViolation,
+} from "../use-cases/AnalyzeProject"
+
+/**
+ * Hardcoded value as found by the detector, before duplicates across files are known
+ */
+export interface HardcodedValueSnapshot {
+    value: string | number | boolean
+    type: HardcodeType
+    valueType?: ValueType
+    line: number
+    column: number
+    context: string
+    withinFileUsageCount?: number
+}
+
+/**
+ * Results of the detectors that only look at one file
+ *
+ * Rules that need the dependency graph (`clean-architecture`,
+ * `dependency-direction`, `circular-dependency`) or the symbol table
+ * (`entity-exposure`, framework decorators and base classes) are not part of it.
+ */
+export interface FileDetectionResult {
+    hardcodedValues: HardcodedValueSnapshot[]
+    namingViolations: NamingConventionViolation[]
+    frameworkLeakViolations: FrameworkLeakViolation[]
+    /**
+     * Decorators and base classes, checked by `framework-leak` once the
+     * symbol table tells which package they come from
+     */
+    frameworkUsages: FrameworkUsage[]
+    /**
+     * Types returned by controllers, checked by `entity-exposure` once the
+     * symbol table tells where they are declared
+     */
+    returnedTypes: ReturnedType[]
+    repositoryPatternViolations: RepositoryPatternViolation[]
+    aggregateBoundaryViolations: AggregateBoundaryViolation[]
+    secretViolations: SecretViolation[]
+    anemicModelViolations: AnemicModelViolation[]
+    /**
+     * Findings of the plugin detectors, all rules together
+     */
+    customViolations: CustomRuleViolation[]
+    /**
+     * Imports found in the syntax tree, the edges of the dependency graph
+     */
+    imports: ImportReference[]
+}
+
+/**
+ * Everything computed for a single file, kept in the incremental analysis cache
+ */
+export interface FileAnalysis {
+    /**
+     * Number of functions, only counted for TypeScript and JavaScript files
+     */
+    functionCount?: number
+    /**
+     * Classes and interfaces, only counted for TypeScript and JavaScript files
+     */
+    typeCounts?: TypeCounts
+    /**
+     * Type declarations, imports and re-exports, only collected for
+     * TypeScript and JavaScript files
+     */
+    symbols?: FileSymbols
+    detection: FileDetectionResult
+}
+
+/**
+ * A file sent to a worker thread for analysis
+ *
+ * Only plain data, so it can be posted to the worker as is.
+ */
+export interface FileAnalysisTask {
+    absolutePath: string
+    rootDir: string
+    content: string
+    exports: string[]
+    /**
+     * Effective config the worker analyzes the file with
+     */
+    settings: GuardianConfigFile
+    /**
+     * Absolute paths of the plugin modules, loaded again by the worker
+     */
+    plugins: string[]
+}
@@ -0,0 +1,32 @@
+import type { LoadedPlugin } from "../../domain/services/IPluginLoader"
+import type { AnalyzeProjectResponse } from "../use-cases/AnalyzeProject"
+import type { FileAnalysis } from "./AnalysisCache"
+
+/**
+ * An analysis kept in memory, so the next one only re-analyzes what changed
+ *
+ * The source files, dependency graph and effective config are part of the
+ * result.
+ */
+export interface AnalysisSnapshot {
+    result: AnalyzeProjectResponse
+    plugins: LoadedPlugin[]
+    /**
+     * Per-file analyses by project-relative path
+     */
+    analyses: ReadonlyMap<string, FileAnalysis>
+}
+
+export interface SnapshotUpdate {
+    snapshot: AnalysisSnapshot
+    /**
+     * Files added, edited or removed since the previous snapshot, empty when
+     * none of the reported paths changed a source file
+     */
+    changedFiles: string[]
+    /**
+     * Files the per-file detectors ran on again: the changed files and the
+     * files importing them
+     */
+    analyzedFiles: string[]
+}
@@ -0,0 +1,62 @@
+import type { ViolationReport } from "./JsonReport"
+
+/**
+ * Version of the baseline file format
+ */
+export const BASELINE_SCHEMA_VERSION = 1
+
+/**
+ * A violation accepted into the baseline
+ *
+ * `rule`, `file` and `message` are informational, matching uses the fingerprint only.
+ */
+export interface BaselineEntry {
+    fingerprint: string
+    rule: string
+    file: string
+    message: string
+}
+
+/**
+ * Content of a baseline file (`guardian baseline create`)
+ */
+export interface BaselineFile {
+    schemaVersion: typeof BASELINE_SCHEMA_VERSION
+    tool: {
+        name: string
+        version: string
+    }
+    entries: BaselineEntry[]
+}
+
+/**
+ * Result of comparing an analysis with a baseline
+ */
+export interface BaselineComparison {
+    /**
+     * Violations that are not in the baseline
+     */
+    report: ViolationReport
+    /**
+     * Number of violations matched by baseline entries
+     */
+    baselined: number
+    /**
+     * Baseline entries without a matching violation, they can be pruned
+     */
+    fixed: BaselineEntry[]
+}
+
+/**
+ * Violations that differ between two analyses of the same project
+ */
+export interface ViolationDiff {
+    /**
+     * Violations of the newer analysis that the older one did not have
+     */
+    appeared: ViolationReport
+    /**
+     * Violations of the older analysis that are gone
+     */
+    resolved: ViolationReport
+}
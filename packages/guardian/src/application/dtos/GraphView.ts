@@ -0,0 +1,57 @@
+/**
+ * Granularity of an exported dependency graph
+ *
+ * `folder` and `layer` merge the files of one directory or one layer into a
+ * single node; the edges between two nodes are merged as well.
+ */
+export const GRAPH_LEVELS = {
+    FILE: "file",
+    FOLDER: "folder",
+    LAYER: "layer",
+} as const
+
+export type GraphLevel = (typeof GRAPH_LEVELS)[keyof typeof GRAPH_LEVELS]
+
+export interface GraphViewNode {
+    /**
+     * Project-relative file or directory path, or the layer name
+     */
+    id: string
+    /**
+     * Layer shared by all files of the node, if any
+     */
+    layer?: string
+    /**
+     * Number of files in the node
+     */
+    files: number
+}
+
+export interface GraphViewEdge {
+    from: string
+    to: string
+    /**
+     * Number of file-level imports the edge stands for
+     */
+    imports: number
+    /**
+     * At least one of the imports is part of a circular dependency
+     */
+    cycle: boolean
+    /**
+     * At least one of the imports goes to a layer its layer may not depend on
+     */
+    layerViolation: boolean
+}
+
+/**
+ * Dependency graph of an analysis, filtered and aggregated for export
+ *
+ * Nodes are sorted by id and edges by their ends, so exports of the same
+ * project are stable.
+ */
+export interface GraphView {
+    level: GraphLevel
+    nodes: GraphViewNode[]
+    edges: GraphViewEdge[]
+}
@@ -0,0 +1,119 @@
+import type { SeverityLevel } from "../../shared/constants"
+import type { BaselineEntry } from "./Baseline"
+import type { GateResult } from "../../domain/value-objects/QualityGate"
+import type { AnalyzeProjectResponse, ProjectMetrics } from "../use-cases/AnalyzeProject"
+
+/**
+ * Version of the `guardian check --format json` schema
+ *
+ * Bumped on every breaking change to {@link JsonReport}. New optional
+ * fields do not change the version.
+ */
+export const JSON_REPORT_SCHEMA_VERSION = 1
+
+/**
+ * Violation arrays of an analysis, after CLI filters have been applied
+ */
+export type ViolationReport = Omit<
+    AnalyzeProjectResponse,
+    "files" | "dependencyGraph" | "metrics" | "config" | "changedFiles" | "cacheStats"
+>
+
+/**
+ * Filters the CLI applied before writing the report
+ *
+ * `null` means the filter was not set.
+ */
+export interface JsonReportFilters {
+    /**
+     * Lowest severity included (`--min-severity`, `--only-critical` sets `critical`)
+     */
+    minSeverity: SeverityLevel | null
+    /**
+     * Maximum violations per category (`--limit`)
+     */
+    limit: number | null
+}
+
+export interface JsonReportSummary {
+    /**
+     * Violations matching the severity filter, before `--limit`
+     */
+    totalIssues: number
+    /**
+     * Violations included in this report, after `--limit`
+     */
+    reportedIssues: number
+    bySeverity: Record<SeverityLevel, number>
+}
+
+/**
+ * Baseline applied with `--baseline`
+ */
+export interface JsonReportBaseline {
+    path: string
+    /**
+     * Violations hidden because they are in the baseline
+     */
+    baselined: number
+    /**
+     * Baseline entries without a matching violation
+     */
+    fixed: BaselineEntry[]
+}
+
+/**
+ * Changed-files mode of `--since` or `--staged`
+ */
+export interface JsonReportChanges {
+    /**
+     * Git ref of `--since`, null with `--staged`
+     */
+    since: string | null
+    staged: boolean
+    /**
+     * Files violations were reported for, relative to `rootDir`
+     */
+    files: string[]
+}
+
+/**
+ * Output of `guardian check --format json`
+ *
+ * @example
+ * ```typescript
+ * import type { JsonReport } from "@samiyev/guardian"
+ *
+ * const report = JSON.parse(stdout) as JsonReport
+ *
+ * if (report.schemaVersion === 1) {
+ *     console.log(report.summary.totalIssues, report.metrics.totalFiles)
+ * }
+ * ```
+ */
+export interface JsonReport extends ViolationReport {
+    schemaVersion: typeof JSON_REPORT_SCHEMA_VERSION
+    tool: {
+        name: string
+        version: string
+    }
+    /**
+     * Analyzed directory, as passed to the CLI
+     */
+    rootDir: string
+    filters: JsonReportFilters
+    summary: JsonReportSummary
+    metrics: ProjectMetrics
+    /**
+     * Quality gate outcome, the CLI exits with 1 when it did not pass
+     */
+    gate: GateResult
+    /**
+     * Present when the check ran with `--baseline`
+     */
+    baseline?: JsonReportBaseline
+    /**
+     * Present when the check ran with `--since` or `--staged`
+     */
+    changes?: JsonReportChanges
+}
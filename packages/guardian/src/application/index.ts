@@ -1,4 +1,21 @@
 export * from "./use-cases/BaseUseCase"
 export * from "./use-cases/AnalyzeProject"
+export * from "./use-cases/FixHardcodedValues"
+export * from "./use-cases/FixPublicModuleImports"
+export * from "./use-cases/WatchProject"
 export * from "./dtos/ResponseDto"
+export * from "./dtos/JsonReport"
+export * from "./dtos/Baseline"
+export * from "./dtos/AnalysisCache"
+export * from "./dtos/AnalysisSnapshot"
+export * from "./dtos/GraphView"
+export * from "./services/ViolationFingerprinter"
+export * from "./services/BaselineMatcher"
+export * from "./services/SuppressionFilter"
+export * from "./services/AnalysisCacheSession"
+export * from "./services/FileAnalyzer"
+export * from "./services/GraphViewBuilder"
+export * from "./services/PackageMetricsCalculator"
+export * from "./services/ContextBoundaryChecker"
+export * from "./services/PublicModuleChecker"
 export * from "./mappers/BaseMapper"
@@ -0,0 +1,65 @@
+import { createHash } from "crypto"
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { AnalysisCacheStats, IAnalysisCache } from "../../domain/services/IAnalysisCache"
+import { CONTENT_HASH_ALGORITHM } from "../../shared/constants"
+import type { FileAnalysis } from "../dtos/AnalysisCache"
+
+/**
+ * Per-file cache entries of one analysis run
+ *
+ * Looks up every source file by its content hash once, collects the
+ * analyses of files that missed and writes all entries back on save.
+ *
+ * @example
+ * ```typescript
+ * await cache.load({ cacheDir: ".guardian-cache", rootDir, key })
+ * const session = new AnalysisCacheSession(cache, sourceFiles)
+ *
+ * const analysis = session.lookup(file) ?? (await analyzer.analyze(file, config))
+ * session.record(file, analysis)
+ * await session.save()
+ * ```
+ */
+export class AnalysisCacheSession {
+    private readonly hashes = new Map<string, string>()
+    private readonly entries = new Map<string, FileAnalysis>()
+
+    constructor(
+        private readonly cache: IAnalysisCache<FileAnalysis>,
+        sourceFiles: readonly SourceFile[],
+    ) {
+        for (const file of sourceFiles) {
+            const hash = createHash(CONTENT_HASH_ALGORITHM).update(file.content).digest("hex")
+            const cached = cache.get(file.path.relative, hash)
+
+            this.hashes.set(file.path.relative, hash)
+            if (cached) {
+                this.entries.set(file.path.relative, cached)
+            }
+        }
+    }
+
+    public lookup(file: SourceFile): FileAnalysis | undefined {
+        return this.entries.get(file.path.relative)
+    }
+
+    public record(file: SourceFile, analysis: FileAnalysis): void {
+        this.entries.set(file.path.relative, analysis)
+    }
+
+    public async save(): Promise<void> {
+        for (const [filePath, entry] of this.entries) {
+            const hash = this.hashes.get(filePath)
+
+            if (hash !== undefined) {
+                this.cache.set(filePath, hash, entry)
+            }
+        }
+
+        await this.cache.save()
+    }
+
+    public getStats(): AnalysisCacheStats {
+        return this.cache.getStats()
+    }
+}
@@ -0,0 +1,163 @@
+import { HARDCODE_MESSAGES } from "../../domain/constants/Messages"
+import {
+    BASELINE_SCHEMA_VERSION,
+    type BaselineComparison,
+    type BaselineEntry,
+    type BaselineFile,
+    type ViolationDiff,
+} from "../dtos/Baseline"
+import type { ViolationReport } from "../dtos/JsonReport"
+import {
+    type ReportedViolation,
+    VIOLATION_CATEGORIES,
+    type ViolationCategory,
+    ViolationFingerprinter,
+} from "./ViolationFingerprinter"
+
+/**
+ * Creates baselines and filters known violations out of an analysis
+ *
+ * Entries are matched by fingerprint as a multiset: a baseline entry matches
+ * at most one violation, so a second copy of a baselined violation in the
+ * same file is still reported as new.
+ *
+ * @example
+ * ```typescript
+ * const matcher = new BaselineMatcher()
+ * const baseline = matcher.create(result, { name: "guardian", version })
+ *
+ * // later
+ * const { report, fixed } = matcher.compare(nextResult, baseline)
+ * console.log(report.hardcodeViolations) // only new hardcoded values
+ * ```
+ */
+export class BaselineMatcher {
+    private readonly fingerprinter = new ViolationFingerprinter()
+
+    public create(report: ViolationReport, tool: BaselineFile["tool"]): BaselineFile {
+        const entries = this.entries(report)
+
+        entries.sort(
+            (a, b) =>
+                a.file.localeCompare(b.file) ||
+                a.rule.localeCompare(b.rule) ||
+                a.fingerprint.localeCompare(b.fingerprint),
+        )
+
+        return {
+            schemaVersion: BASELINE_SCHEMA_VERSION,
+            tool,
+            entries,
+        }
+    }
+
+    /**
+     * @param changedFiles - Files the report was limited to (`--since`,
+     * `--staged`); unmatched entries of other files are not listed as fixed,
+     * their violations were not looked for
+     */
+    public compare(
+        report: ViolationReport,
+        baseline: BaselineFile,
+        changedFiles?: readonly string[],
+    ): BaselineComparison {
+        const pool = this.pool(baseline.entries)
+        const newViolations = this.subtract(report, pool)
+
+        const changed = changedFiles && new Set(changedFiles)
+        const fixed = [...pool.values()]
+            .flat()
+            .filter((entry) => !changed || changed.has(entry.file))
+        const total = VIOLATION_CATEGORIES.reduce((sum, c) => sum + report[c].length, 0)
+        const remaining = VIOLATION_CATEGORIES.reduce((sum, c) => sum + newViolations[c].length, 0)
+
+        return { report: newViolations, baselined: total - remaining, fixed }
+    }
+
+    /**
+     * Compares two analyses of the same project, matching violations by
+     * fingerprint like baseline entries
+     *
+     * @example
+     * ```typescript
+     * const { appeared, resolved } = matcher.diff(previousResult, result)
+     * ```
+     */
+    public diff(previous: ViolationReport, next: ViolationReport): ViolationDiff {
+        return {
+            appeared: this.subtract(next, this.pool(this.entries(previous))),
+            resolved: this.subtract(previous, this.pool(this.entries(next))),
+        }
+    }
+
+    /**
+     * One-line description of a violation, e.g. "Hardcoded magic-number 3000"
+     */
+    public describe(violation: ReportedViolation): string {
+        return "message" in violation
+            ? violation.message
+            : `${HARDCODE_MESSAGES.HARDCODED} ${violation.type} ${JSON.stringify(violation.value)}`
+    }
+
+    private entries(report: ViolationReport): BaselineEntry[] {
+        return VIOLATION_CATEGORIES.flatMap((category) =>
+            report[category].map((violation: ReportedViolation) => ({
+                fingerprint: this.fingerprinter.fingerprint(category, violation),
+                rule: violation.rule,
+                file: violation.file,
+                message: this.describe(violation),
+            })),
+        )
+    }
+
+    private pool(entries: BaselineEntry[]): Map<string, BaselineEntry[]> {
+        const pool = new Map<string, BaselineEntry[]>()
+
+        for (const entry of entries) {
+            const matching = pool.get(entry.fingerprint) ?? []
+            matching.push(entry)
+            pool.set(entry.fingerprint, matching)
+        }
+
+        return pool
+    }
+
+    /**
+     * Returns the violations of every category without a pooled entry
+     */
+    private subtract(report: ViolationReport, pool: Map<string, BaselineEntry[]>): ViolationReport {
+        return Object.fromEntries(
+            VIOLATION_CATEGORIES.map((category) => [
+                category,
+                this.unmatched(report, category, pool),
+            ]),
+        ) as ViolationReport
+    }
+
+    /**
+     * Returns the violations without a baseline entry, consuming matched entries
+     */
+    private unmatched<K extends ViolationCategory>(
+        report: ViolationReport,
+        category: K,
+        pool: Map<string, BaselineEntry[]>,
+    ): ViolationReport[K] {
+        const violations: ReportedViolation<K>[] = report[category]
+
+        return violations.filter((violation) => {
+            const fingerprint = this.fingerprinter.fingerprint(category, violation)
+            const entries = pool.get(fingerprint)
+
+            if (!entries) {
+                return true
+            }
+
+            entries.pop()
+            if (entries.length === 0) {
+                pool.delete(fingerprint)
+            }
+
+            return false
+        }) as ViolationReport[K]
+    }
+}
@@ -0,0 +1,208 @@
+import type { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import type { ImportReference } from "../../domain/services/ICodeParser"
+import type { BoundedContextSettings } from "../../domain/value-objects/GuardianConfig"
+import { BOUNDED_CONTEXT_MESSAGES } from "../../domain/constants/Messages"
+import { RULES, VIOLATION_SEVERITY_MAP } from "../../shared/constants"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+import type { BoundedContextViolation } from "../use-cases/AnalyzeProject"
+
+const PATH_SEPARATOR = "/"
+const CHAIN_SEPARATOR = " → "
+
+/**
+ * Context a file belongs to
+ */
+interface ContextMembership {
+    name: string
+    /**
+     * Project-relative path of the context directory
+     */
+    root: string
+    isPublicApi: boolean
+}
+
+type ContextLookup = (file: string) => ContextMembership | undefined
+
+/**
+ * Checks that bounded contexts only import each other through their
+ * public API modules
+ *
+ * Every directory matching one of the `contexts` globs is a context,
+ * named after the directory. A file importing an internal module of
+ * another context is reported, and so is a file importing a module
+ * outside every context, such as the shared kernel, that leads to one:
+ * files outside the contexts are followed through their imports until a
+ * context is reached, and the violation carries the whole import chain.
+ *
+ * @example
+ * ```typescript
+ * const checker = new ContextBoundaryChecker()
+ *
+ * checker.check(graph, importsByFile, {
+ *     contexts: ["src/contexts/*"],
+ *     publicApi: ["index.ts"],
+ *     sharedKernel: ["src/contexts/shared-kernel/**"],
+ * })
+ * // [{ fromContext: "billing", toContext: "identity",
+ * //    chain: ["src/contexts/billing/domain/Invoice.ts",
+ * //            "src/contexts/identity/domain/entities/User.ts"], ... }]
+ * ```
+ */
+export class ContextBoundaryChecker {
+    /**
+     * @param imports - Imports by project-relative path of the importing file
+     */
+    public check(
+        graph: DependencyGraph,
+        imports: ReadonlyMap<string, ImportReference[]>,
+        settings: Required<BoundedContextSettings>,
+    ): BoundedContextViolation[] {
+        if (settings.contexts.length === 0) {
+            return []
+        }
+
+        const contextOf = this.createLookup(settings)
+        const reached = new Map<string, string[][]>()
+        const violations: BoundedContextViolation[] = []
+
+        for (const [file, references] of imports) {
+            const from = contextOf(file)
+            if (!from) {
+                continue
+            }
+
+            for (const reference of references) {
+                const target = graph.resolveImport(file, reference.specifier)
+                if (target === undefined) {
+                    continue
+                }
+
+                for (const chain of this.findInternals(target, graph, contextOf, reached)) {
+                    const to = contextOf(chain[chain.length - 1])
+
+                    if (to && to.root !== from.root) {
+                        violations.push(
+                            this.createViolation(file, reference, [file, ...chain], from, to),
+                        )
+                    }
+                }
+            }
+        }
+
+        return violations
+    }
+
+    /**
+     * Internal context modules a file leads to: the file itself when it
+     * is one, otherwise those reached through files outside every context.
+     * Chains start at the given file and are cached for files outside
+     * the contexts.
+     */
+    private findInternals(
+        start: string,
+        graph: DependencyGraph,
+        contextOf: ContextLookup,
+        reached: Map<string, string[][]>,
+    ): string[][] {
+        const membership = contextOf(start)
+        if (membership) {
+            return membership.isPublicApi ? [] : [[start]]
+        }
+
+        const cached = reached.get(start)
+        if (cached) {
+            return cached
+        }
+
+        const chains: string[][] = []
+        const visited = new Set([start])
+        const queue = [[start]]
+
+        for (let chain = queue.shift(); chain; chain = queue.shift()) {
+            for (const dependency of graph.getNode(chain[chain.length - 1])?.dependencies ?? []) {
+                if (visited.has(dependency)) {
+                    continue
+                }
+                visited.add(dependency)
+
+                const next = [...chain, dependency]
+                const target = contextOf(dependency)
+
+                if (!target) {
+                    queue.push(next)
+                } else if (!target.isPublicApi) {
+                    chains.push(next)
+                }
+            }
+        }
+
+        reached.set(start, chains)
+        return chains
+    }
+
+    /**
+     * Context of a file, by the shallowest context directory containing
+     * it. Shared kernel files belong to no context.
+     */
+    private createLookup(settings: Required<BoundedContextSettings>): ContextLookup {
+        const contexts = settings.contexts.map((pattern) => GlobMatcher.toRegExp(pattern))
+        const publicApi = new GlobMatcher(settings.publicApi)
+        const sharedKernel = new GlobMatcher(settings.sharedKernel)
+        const memberships = new Map<string, ContextMembership | undefined>()
+
+        const findMembership = (file: string): ContextMembership | undefined => {
+            if (sharedKernel.matches(file)) {
+                return undefined
+            }
+
+            const segments = GlobMatcher.normalizePath(file).split(PATH_SEPARATOR)
+
+            for (let depth = 1; depth < segments.length; depth++) {
+                const root = segments.slice(0, depth).join(PATH_SEPARATOR)
+
+                if (contexts.some((regex) => regex.test(root))) {
+                    return {
+                        name: segments[depth - 1],
+                        root,
+                        isPublicApi: publicApi.matches(segments.slice(depth).join(PATH_SEPARATOR)),
+                    }
+                }
+            }
+
+            return undefined
+        }
+
+        return (file) => {
+            if (!memberships.has(file)) {
+                memberships.set(file, findMembership(file))
+            }
+            return memberships.get(file)
+        }
+    }
+
+    private createViolation(
+        file: string,
+        reference: ImportReference,
+        chain: string[],
+        from: ContextMembership,
+        to: ContextMembership,
+    ): BoundedContextViolation {
+        const isIndirect = chain.length > 2
+        const target = chain[chain.length - 1]
+
+        return {
+            rule: RULES.BOUNDED_CONTEXT,
+            fromContext: from.name,
+            toContext: to.name,
+            importPath: reference.specifier,
+            chain,
+            file,
+            line: reference.line,
+            message: `Context "${from.name}" depends on "${target}", an internal module of context "${to.name}": ${chain.join(CHAIN_SEPARATOR)}`,
+            suggestion: isIndirect
+                ? BOUNDED_CONTEXT_MESSAGES.SHARED_KERNEL_LEAK
+                : BOUNDED_CONTEXT_MESSAGES.USE_PUBLIC_API,
+            severity: VIOLATION_SEVERITY_MAP.BOUNDED_CONTEXT,
+        }
+    }
+}
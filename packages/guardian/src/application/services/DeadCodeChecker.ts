@@ -0,0 +1,194 @@
+import type { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import type { FileSymbols } from "../../domain/services/ICodeParser"
+import type { DeadCodeSettings } from "../../domain/value-objects/GuardianConfig"
+import { DEAD_CODE_MESSAGES } from "../../domain/constants/Messages"
+import {
+    BUILT_IN_ENTRY_POINTS,
+    DEAD_CODE_TYPES,
+    RULES,
+    SYMBOL_NAMES,
+    VIOLATION_SEVERITY_MAP,
+} from "../../shared/constants"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+import type { DeadCodeViolation } from "../use-cases/AnalyzeProject"
+
+/**
+ * Exported names of each file that other files use, `*` when all of them are
+ */
+type UsedExports = Map<string, Set<string>>
+
+/**
+ * Finds exports no other file imports and files nothing imports
+ *
+ * A name counts as used when another file imports it, directly or
+ * through any number of re-exports. Namespace imports, entry points and
+ * imports that name nothing, like `import "./polyfills"` or `require()`,
+ * use every export of a file. A file without dependents is an orphan
+ * unless it is an entry point: a file package.json exposes, one matching
+ * `deadCode.entryPoints`, or a test, type declaration or tool config.
+ * Without a file package.json or the config names, the files nothing
+ * imports are taken as the entry points. The exports of orphan files are
+ * not reported one by one.
+ *
+ * @example
+ * ```typescript
+ * const checker = new DeadCodeChecker()
+ *
+ * checker.check(graph, symbolsByFile, new Set(["index.ts"]), config.deadCode)
+ * // [{ type: "orphan-file", file: "domain/value-objects/LegacyId.ts", ... },
+ * //  { type: "unused-export", file: "domain/entities/User.ts", symbol: "UserProps", line: 4, ... }]
+ * ```
+ */
+export class DeadCodeChecker {
+    /**
+     * @param symbols - Symbols by project-relative path, the files checked
+     * @param entryPoints - Project-relative paths of the package entry points
+     */
+    public check(
+        graph: DependencyGraph,
+        symbols: ReadonlyMap<string, FileSymbols>,
+        entryPoints: ReadonlySet<string>,
+        settings: Required<DeadCodeSettings>,
+    ): DeadCodeViolation[] {
+        const roots = this.findEntryPoints(graph, [...symbols.keys()], entryPoints, settings)
+        const used = this.collectUsedExports(graph, symbols, roots)
+        const violations: DeadCodeViolation[] = []
+
+        for (const [file, fileSymbols] of symbols) {
+            if (roots.has(file)) {
+                continue
+            }
+
+            if (this.isUnimported(graph, file)) {
+                violations.push(this.createOrphanViolation(file))
+                continue
+            }
+
+            const names = used.get(file)
+            if (names?.has(SYMBOL_NAMES.ALL_EXPORTS)) {
+                continue
+            }
+
+            for (const unused of fileSymbols.exports.filter(({ name }) => !names?.has(name))) {
+                violations.push(this.createExportViolation(file, unused.name, unused.line))
+            }
+        }
+
+        return violations
+    }
+
+    private findEntryPoints(
+        graph: DependencyGraph,
+        files: string[],
+        entryPoints: ReadonlySet<string>,
+        settings: Required<DeadCodeSettings>,
+    ): Set<string> {
+        const configured = new GlobMatcher(settings.entryPoints)
+        const builtIn = new GlobMatcher(BUILT_IN_ENTRY_POINTS)
+        const declared = files.filter((file) => entryPoints.has(file) || configured.matches(file))
+
+        return new Set([
+            ...(declared.length > 0
+                ? declared
+                : files.filter((file) => this.isUnimported(graph, file))),
+            ...files.filter((file) => builtIn.matches(file)),
+        ])
+    }
+
+    private isUnimported(graph: DependencyGraph, file: string): boolean {
+        return (graph.getNode(file)?.dependents.length ?? 0) === 0
+    }
+
+    private collectUsedExports(
+        graph: DependencyGraph,
+        symbols: ReadonlyMap<string, FileSymbols>,
+        entryPoints: ReadonlySet<string>,
+    ): UsedExports {
+        const used: UsedExports = new Map()
+        const resolve = (file: string, specifier: string): string | undefined =>
+            graph.resolveImport(file, specifier)
+
+        const markUsed = (file: string, name: string): void => {
+            const names = used.get(file) ?? new Set<string>()
+            used.set(file, names)
+
+            if (names.has(name) || names.has(SYMBOL_NAMES.ALL_EXPORTS)) {
+                return
+            }
+            names.add(name)
+
+            for (const reExport of symbols.get(file)?.reExports ?? []) {
+                const target = resolve(file, reExport.specifier)
+                const isWildcard = reExport.exported === SYMBOL_NAMES.ALL_EXPORTS
+
+                if (target === undefined) {
+                    continue
+                }
+
+                if (name === SYMBOL_NAMES.ALL_EXPORTS) {
+                    markUsed(target, isWildcard ? name : reExport.imported)
+                } else if (reExport.exported === name) {
+                    markUsed(target, reExport.imported)
+                } else if (isWildcard && name !== SYMBOL_NAMES.DEFAULT_EXPORT) {
+                    markUsed(target, name)
+                }
+            }
+        }
+
+        for (const file of entryPoints) {
+            markUsed(file, SYMBOL_NAMES.ALL_EXPORTS)
+        }
+
+        for (const [file, fileSymbols] of symbols) {
+            const named = new Set<string>()
+
+            for (const binding of fileSymbols.imports) {
+                const target = resolve(file, binding.specifier)
+                if (target !== undefined) {
+                    named.add(target)
+                    markUsed(target, binding.imported)
+                }
+            }
+
+            for (const reExport of fileSymbols.reExports) {
+                const target = resolve(file, reExport.specifier)
+                if (target !== undefined) {
+                    named.add(target)
+                }
+            }
+
+            // Imports that name nothing use the whole module
+            for (const dependency of graph.getNode(file)?.dependencies ?? []) {
+                if (!named.has(dependency)) {
+                    markUsed(dependency, SYMBOL_NAMES.ALL_EXPORTS)
+                }
+            }
+        }
+
+        return used
+    }
+
+    private createOrphanViolation(file: string): DeadCodeViolation {
+        return {
+            rule: RULES.DEAD_CODE,
+            type: DEAD_CODE_TYPES.ORPHAN_FILE,
+            file,
+            message: `${DEAD_CODE_MESSAGES.FILE} "${file}" ${DEAD_CODE_MESSAGES.ORPHAN_FILE}`,
+            suggestion: DEAD_CODE_MESSAGES.REMOVE_FILE,
+            severity: VIOLATION_SEVERITY_MAP.DEAD_CODE,
+        }
+    }
+
+    private createExportViolation(file: string, symbol: string, line: number): DeadCodeViolation {
+        return {
+            rule: RULES.DEAD_CODE,
+            type: DEAD_CODE_TYPES.UNUSED_EXPORT,
+            file,
+            line,
+            symbol,
+            message: `${DEAD_CODE_MESSAGES.EXPORT} "${symbol}" ${DEAD_CODE_MESSAGES.UNUSED_EXPORT}`,
+            suggestion: DEAD_CODE_MESSAGES.REMOVE_EXPORT,
+            severity: VIOLATION_SEVERITY_MAP.DEAD_CODE,
+        }
+    }
+}
@@ -0,0 +1,370 @@
+import { ICodeParser, ImportReference } from "../../domain/services/ICodeParser"
+import { IHardcodeDetector } from "../../domain/services/IHardcodeDetector"
+import { INamingConventionDetector } from "../../domain/services/INamingConventionDetector"
+import { IFrameworkLeakDetector } from "../../domain/services/IFrameworkLeakDetector"
+import { IEntityExposureDetector } from "../../domain/services/IEntityExposureDetector"
+import { IRepositoryPatternDetector } from "../../domain/services/RepositoryPatternDetectorService"
+import { IAggregateBoundaryDetector } from "../../domain/services/IAggregateBoundaryDetector"
+import { ISecretDetector } from "../../domain/services/ISecretDetector"
+import { IAnemicModelDetector } from "../../domain/services/IAnemicModelDetector"
+import type {
+    DetectorContext,
+    DetectorFinding,
+    GuardianPlugin,
+    ICustomDetector,
+} from "../../domain/services/ICustomDetector"
+import { SourceFile } from "../../domain/entities/SourceFile"
+import { GuardianConfig } from "../../domain/value-objects/GuardianConfig"
+import {
+    ERROR_MESSAGES,
+    PLUGIN_RULE_SEPARATOR,
+    type PluginRuleName,
+    REPOSITORY_VIOLATION_TYPES,
+    type RuleName,
+    RULES,
+    SEVERITY_LEVELS,
+    VIOLATION_SEVERITY_MAP,
+} from "../../shared/constants"
+import type { FileAnalysis, FileDetectionResult } from "../dtos/AnalysisCache"
+import type {
+    AggregateBoundaryViolation,
+    AnemicModelViolation,
+    CustomRuleViolation,
+    FrameworkLeakViolation,
+    NamingConventionViolation,
+    RepositoryPatternViolation,
+    SecretViolation,
+} from "../use-cases/AnalyzeProject"
+
+/**
+ * Runs everything that only needs a single file: function counting and
+ * the per-file detectors of the enabled rules, built-in and plugin ones
+ *
+ * The file is parsed once, with the grammar matching its extension, and
+ * the syntax tree is shared by function counting, import extraction and
+ * every detector that works on the AST.
+ *
+ * Results only depend on the file and the config, so they can be cached
+ * and computed in worker threads.
+ *
+ * @example
+ * ```typescript
+ * const analysis = await analyzer.analyze(sourceFile, config)
+ *
+ * console.log(analysis.functionCount)
+ * console.log(analysis.detection.namingViolations.length)
+ * ```
+ */
+export class FileAnalyzer {
+    // eslint-disable-next-line max-params
+    constructor(
+        private readonly codeParser: ICodeParser,
+        private readonly hardcodeDetector: IHardcodeDetector,
+        private readonly namingConventionDetector: INamingConventionDetector,
+        private readonly frameworkLeakDetector: IFrameworkLeakDetector,
+        private readonly entityExposureDetector: IEntityExposureDetector,
+        private readonly repositoryPatternDetector: IRepositoryPatternDetector,
+        private readonly aggregateBoundaryDetector: IAggregateBoundaryDetector,
+        private readonly secretDetector: ISecretDetector,
+        private readonly anemicModelDetector: IAnemicModelDetector,
+    ) {}
+
+    public async analyze(
+        file: SourceFile,
+        config: GuardianConfig,
+        plugins: readonly GuardianPlugin[] = [],
+    ): Promise<FileAnalysis> {
+        const tree =
+            file.path.isTypeScript() || file.path.isJavaScript()
+                ? this.codeParser.parse(file.content, file.path.relative)
+                : undefined
+
+        return {
+            functionCount:
+                tree === undefined ? undefined : this.codeParser.extractFunctions(tree).length,
+            typeCounts: tree === undefined ? undefined : this.codeParser.countTypes(tree),
+            symbols: tree === undefined ? undefined : this.codeParser.extractSymbols(tree),
+            detection: await this.detect(file, config, tree, plugins),
+        }
+    }
+
+    private async detect(
+        file: SourceFile,
+        config: GuardianConfig,
+        tree: unknown,
+        plugins: readonly GuardianPlugin[],
+    ): Promise<FileDetectionResult> {
+        const isEnabled = (rule: RuleName): boolean => config.isRuleEnabled(rule)
+        const imports = tree === undefined ? [] : this.codeParser.extractImports(tree)
+        const context: DetectorContext = {
+            file: file.path.relative,
+            absolutePath: file.path.absolute,
+            content: file.content,
+            layer: file.layer,
+            imports,
+            tree,
+        }
+
+        return {
+            hardcodedValues: isEnabled(RULES.HARDCODED_VALUE)
+                ? this.hardcodeDetector
+                      .detectAll(file.content, file.path.relative, tree)
+                      .map((value) => ({
+                          value: value.value,
+                          type: value.type,
+                          valueType: value.valueType,
+                          line: value.line,
+                          column: value.column,
+                          context: value.context,
+                          withinFileUsageCount: value.withinFileUsageCount,
+                      }))
+                : [],
+            namingViolations: isEnabled(RULES.NAMING_CONVENTION)
+                ? this.detectNamingConventions(file, config, tree)
+                : [],
+            frameworkLeakViolations: isEnabled(RULES.FRAMEWORK_LEAK)
+                ? this.detectFrameworkLeaks(file, config, imports)
+                : [],
+            frameworkUsages:
+                isEnabled(RULES.FRAMEWORK_LEAK) && file.layer !== undefined && tree !== undefined
+                    ? this.frameworkLeakDetector.findUsages(file.content, file.path.relative, tree)
+                    : [],
+            returnedTypes: isEnabled(RULES.ENTITY_EXPOSURE)
+                ? this.entityExposureDetector.findReturnedTypes(
+                      file.content,
+                      file.path.relative,
+                      file.layer,
+                      tree,
+                  )
+                : [],
+            repositoryPatternViolations: isEnabled(RULES.REPOSITORY_PATTERN)
+                ? this.detectRepositoryPatternViolations(file)
+                : [],
+            aggregateBoundaryViolations: isEnabled(RULES.AGGREGATE_BOUNDARY)
+                ? this.detectAggregateBoundaryViolations(file)
+                : [],
+            secretViolations: isEnabled(RULES.SECRET_EXPOSURE)
+                ? await this.detectSecrets(file)
+                : [],
+            anemicModelViolations: isEnabled(RULES.ANEMIC_MODEL)
+                ? this.detectAnemicModels(file, tree)
+                : [],
+            customViolations: await this.detectCustomRules(context, config, plugins),
+            imports,
+        }
+    }
+
+    /**
+     * Runs the detectors of the plugins whose rule is enabled
+     */
+    private async detectCustomRules(
+        context: DetectorContext,
+        config: GuardianConfig,
+        plugins: readonly GuardianPlugin[],
+    ): Promise<CustomRuleViolation[]> {
+        const violations: CustomRuleViolation[] = []
+
+        for (const plugin of plugins) {
+            for (const detector of plugin.detectors) {
+                const rule: PluginRuleName = `${plugin.name}${PLUGIN_RULE_SEPARATOR}${detector.name}`
+
+                if (!config.isRuleEnabled(rule)) {
+                    continue
+                }
+
+                const findings = await this.runDetector(rule, detector, context)
+                violations.push(
+                    ...findings.map((finding) => ({
+                        rule,
+                        file: context.file,
+                        line: finding.line,
+                        column: finding.column,
+                        message: finding.message,
+                        suggestion: finding.suggestion,
+                        severity:
+                            finding.severity ??
+                            detector.severity ??
+                            VIOLATION_SEVERITY_MAP.PLUGIN_RULE,
+                    })),
+                )
+            }
+        }
+
+        return violations
+    }
+
+    /**
+     * @throws {Error} If the detector throws or does not return findings
+     */
+    private async runDetector(
+        rule: PluginRuleName,
+        detector: ICustomDetector,
+        context: DetectorContext,
+    ): Promise<DetectorFinding[]> {
+        const failure = `${ERROR_MESSAGES.PLUGIN_RULE_FAILED} "${rule}" on ${context.file}`
+        let findings: unknown
+
+        try {
+            findings = await detector.detect(context)
+        } catch (error) {
+            throw new Error(`${failure}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (!Array.isArray(findings) || !findings.every((finding) => this.isFinding(finding))) {
+            throw new Error(`${failure}: ${ERROR_MESSAGES.INVALID_PLUGIN_FINDINGS}`)
+        }
+
+        return findings
+    }
+
+    private isFinding(finding: unknown): finding is DetectorFinding {
+        if (typeof finding !== "object" || finding === null) {
+            return false
+        }
+
+        const { message, severity } = finding as Partial<Record<keyof DetectorFinding, unknown>>
+        const severities: unknown[] = Object.values(SEVERITY_LEVELS)
+
+        return (
+            typeof message === "string" && (severity === undefined || severities.includes(severity))
+        )
+    }
+
+    private detectNamingConventions(
+        file: SourceFile,
+        config: GuardianConfig,
+        tree: unknown,
+    ): NamingConventionViolation[] {
+        const namingViolations = this.namingConventionDetector.detectViolations(
+            file.content,
+            file.path.filename,
+            file.layer,
+            file.path.relative,
+            tree,
+            config.naming,
+        )
+
+        return namingViolations.map((violation) => ({
+            rule: RULES.NAMING_CONVENTION,
+            type: violation.violationType,
+            fileName: violation.fileName,
+            layer: violation.layer,
+            file: violation.filePath,
+            expected: violation.expected,
+            actual: violation.actual,
+            message: violation.getMessage(),
+            suggestion: violation.suggestion,
+            severity: VIOLATION_SEVERITY_MAP.NAMING_CONVENTION,
+        }))
+    }
+
+    private detectFrameworkLeaks(
+        file: SourceFile,
+        config: GuardianConfig,
+        imports: ImportReference[],
+    ): FrameworkLeakViolation[] {
+        const leaks = this.frameworkLeakDetector.detectLeaks(
+            imports.map((reference) => reference.specifier),
+            file.path.relative,
+            file.layer,
+            config.frameworks,
+        )
+
+        return leaks.map((leak) => ({
+            rule: RULES.FRAMEWORK_LEAK,
+            packageName: leak.packageName,
+            category: leak.category,
+            categoryDescription: leak.getCategoryDescription(),
+            file: file.path.relative,
+            layer: leak.layer,
+            line: leak.line,
+            message: leak.getMessage(),
+            suggestion: leak.getSuggestion(),
+            severity: VIOLATION_SEVERITY_MAP.FRAMEWORK_LEAK,
+        }))
+    }
+
+    private detectRepositoryPatternViolations(file: SourceFile): RepositoryPatternViolation[] {
+        const patternViolations = this.repositoryPatternDetector.detectViolations(
+            file.content,
+            file.path.relative,
+            file.layer,
+        )
+
+        return patternViolations.map((violation) => ({
+            rule: RULES.REPOSITORY_PATTERN,
+            violationType: violation.violationType as
+                | typeof REPOSITORY_VIOLATION_TYPES.ORM_TYPE_IN_INTERFACE
+                | typeof REPOSITORY_VIOLATION_TYPES.CONCRETE_REPOSITORY_IN_USE_CASE
+                | typeof REPOSITORY_VIOLATION_TYPES.NEW_REPOSITORY_IN_USE_CASE
+                | typeof REPOSITORY_VIOLATION_TYPES.NON_DOMAIN_METHOD_NAME,
+            file: file.path.relative,
+            layer: violation.layer,
+            line: violation.line,
+            details: violation.details,
+            message: violation.getMessage(),
+            suggestion: violation.getSuggestion(),
+            severity: VIOLATION_SEVERITY_MAP.REPOSITORY_PATTERN,
+        }))
+    }
+
+    private detectAggregateBoundaryViolations(file: SourceFile): AggregateBoundaryViolation[] {
+        const boundaryViolations = this.aggregateBoundaryDetector.detectViolations(
+            file.content,
+            file.path.relative,
+            file.layer,
+        )
+
+        return boundaryViolations.map((violation) => ({
+            rule: RULES.AGGREGATE_BOUNDARY,
+            fromAggregate: violation.fromAggregate,
+            toAggregate: violation.toAggregate,
+            entityName: violation.entityName,
+            importPath: violation.importPath,
+            file: file.path.relative,
+            line: violation.line,
+            message: violation.getMessage(),
+            suggestion: violation.getSuggestion(),
+            severity: VIOLATION_SEVERITY_MAP.AGGREGATE_BOUNDARY,
+        }))
+    }
+
+    private async detectSecrets(file: SourceFile): Promise<SecretViolation[]> {
+        const secrets = await this.secretDetector.detectAll(file.content, file.path.relative)
+
+        return secrets.map((secret) => ({
+            rule: RULES.SECRET_EXPOSURE,
+            secretType: secret.secretType,
+            file: file.path.relative,
+            line: secret.line,
+            column: secret.column,
+            message: secret.getMessage(),
+            suggestion: secret.getSuggestion(),
+            severity: "critical",
+        }))
+    }
+
+    private detectAnemicModels(file: SourceFile, tree: unknown): AnemicModelViolation[] {
+        const anemicModels = this.anemicModelDetector.detectAnemicModels(
+            file.content,
+            file.path.relative,
+            file.layer,
+            tree,
+        )
+
+        return anemicModels.map((anemicModel) => ({
+            rule: RULES.ANEMIC_MODEL,
+            className: anemicModel.className,
+            file: file.path.relative,
+            layer: anemicModel.layer,
+            line: anemicModel.line,
+            methodCount: anemicModel.methodCount,
+            propertyCount: anemicModel.propertyCount,
+            hasOnlyGettersSetters: anemicModel.hasOnlyGettersSetters,
+            hasPublicSetters: anemicModel.hasPublicSetters,
+            message: anemicModel.getMessage(),
+            suggestion: anemicModel.getSuggestion(),
+            severity: VIOLATION_SEVERITY_MAP.ANEMIC_MODEL,
+        }))
+    }
+}
@@ -0,0 +1,260 @@
+import * as path from "path"
+import type { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { GuardianConfig } from "../../domain/value-objects/GuardianConfig"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+import {
+    GRAPH_LEVELS,
+    type GraphLevel,
+    type GraphView,
+    type GraphViewEdge,
+    type GraphViewNode,
+} from "../dtos/GraphView"
+import type { AnalyzeProjectResponse } from "../use-cases/AnalyzeProject"
+
+export interface GraphViewOptions {
+    /**
+     * Node granularity (default: `file`)
+     */
+    level?: GraphLevel
+    /**
+     * Directory to limit the graph to, relative to the analyzed directory or
+     * to the working directory
+     */
+    root?: string
+    /**
+     * File whose neighbourhood is exported: the file plus the files it
+     * imports and the files importing it, `depth` steps away
+     */
+    focus?: string
+    /**
+     * Steps around `focus` (default: 1)
+     */
+    depth?: number
+}
+
+interface NodeGroup {
+    layers: Set<string | undefined>
+    files: number
+}
+
+/**
+ * Turns the dependency graph of an analysis into a {@link GraphView}
+ *
+ * Filters are applied to files first, then files are merged into folder or
+ * layer nodes. An edge is marked as `cycle` when one of its imports is part
+ * of a cycle the `circular-dependency` rule reports, and as
+ * `layerViolation` when the layer model forbids one of its imports. Imports
+ * within one folder or layer are left out of aggregated graphs, and files
+ * outside every layer are left out of the layer graph.
+ *
+ * @example
+ * ```typescript
+ * const view = new GraphViewBuilder().build(result, {
+ *     level: "layer",
+ *     root: "src/orders",
+ * })
+ *
+ * view.edges.filter((edge) => edge.layerViolation)
+ * // [{ from: "domain", to: "infrastructure", imports: 2, cycle: false, layerViolation: true }]
+ * ```
+ */
+export class GraphViewBuilder {
+    /**
+     * @throws {Error} If `root` contains no analyzed file or `focus` is not
+     * part of the graph
+     */
+    public build(
+        result: Pick<AnalyzeProjectResponse, "dependencyGraph" | "config">,
+        options: GraphViewOptions = {},
+    ): GraphView {
+        const graph = result.dependencyGraph
+        const level = options.level ?? GRAPH_LEVELS.FILE
+        const selected = this.selectFiles(graph, options)
+        const cycleEdges = this.findCycleEdges(graph)
+
+        const groups = new Map<string, NodeGroup>()
+        const edges = new Map<string, GraphViewEdge>()
+
+        for (const filePath of selected) {
+            const node = graph.getNode(filePath)
+            const from = node ? this.nodeId(node.file, level) : undefined
+
+            if (!node || from === undefined) {
+                continue
+            }
+
+            const group = groups.get(from) ?? { layers: new Set(), files: 0 }
+            group.layers.add(node.file.layer)
+            group.files++
+            groups.set(from, group)
+
+            for (const dependency of node.dependencies) {
+                const target = selected.has(dependency) ? graph.getNode(dependency) : undefined
+                const to = target ? this.nodeId(target.file, level) : undefined
+
+                if (target && to !== undefined && to !== from) {
+                    this.addImport(edges, from, to, {
+                        cycle: cycleEdges.has(this.edgeKey(filePath, dependency)),
+                        layerViolation: this.violatesLayers(result.config, node.file, target.file),
+                    })
+                }
+            }
+        }
+
+        return {
+            level,
+            nodes: this.toNodes(groups),
+            edges: [...edges.values()].sort(
+                (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+            ),
+        }
+    }
+
+    /**
+     * Merges one file-level import into the edge between its nodes
+     */
+    private addImport(
+        edges: Map<string, GraphViewEdge>,
+        from: string,
+        to: string,
+        flags: Pick<GraphViewEdge, "cycle" | "layerViolation">,
+    ): void {
+        const key = this.edgeKey(from, to)
+        const edge = edges.get(key) ?? { from, to, imports: 0, cycle: false, layerViolation: false }
+
+        edge.imports++
+        edge.cycle ||= flags.cycle
+        edge.layerViolation ||= flags.layerViolation
+        edges.set(key, edge)
+    }
+
+    private violatesLayers(config: GuardianConfig, from: SourceFile, to: SourceFile): boolean {
+        return (
+            from.layer !== undefined &&
+            to.layer !== undefined &&
+            !config.layerModel.canDependOn(from.layer, to.layer)
+        )
+    }
+
+    /**
+     * Project-relative paths of the files left after `root` and `focus`
+     */
+    private selectFiles(graph: DependencyGraph, options: GraphViewOptions): Set<string> {
+        const root = options.root
+        const files = graph
+            .getAllNodes()
+            .map((node) => node.file)
+            .filter((file) => root === undefined || this.isWithin(file, root))
+
+        if (root !== undefined && files.length === 0) {
+            throw new Error(`${ERROR_MESSAGES.GRAPH_ROOT_EMPTY} "${root}"`)
+        }
+
+        const selected = new Set(files.map((file) => file.path.relative))
+
+        if (options.focus === undefined) {
+            return selected
+        }
+
+        const focus = options.focus
+        const focused = files.find((file) => this.isSameFile(file, focus))
+
+        if (!focused) {
+            throw new Error(`${ERROR_MESSAGES.GRAPH_FILE_NOT_FOUND} "${focus}"`)
+        }
+
+        return this.neighbourhood(graph, focused.path.relative, options.depth ?? 1, selected)
+    }
+
+    /**
+     * Files reachable from `start` in up to `depth` steps along imports in
+     * either direction
+     */
+    private neighbourhood(
+        graph: DependencyGraph,
+        start: string,
+        depth: number,
+        selected: ReadonlySet<string>,
+    ): Set<string> {
+        const reached = new Set([start])
+        let frontier = [start]
+
+        for (let step = 0; step < depth && frontier.length > 0; step++) {
+            const next: string[] = []
+
+            for (const filePath of frontier) {
+                const node = graph.getNode(filePath)
+                const neighbours = node ? [...node.dependencies, ...node.dependents] : []
+
+                for (const neighbour of neighbours) {
+                    if (selected.has(neighbour) && !reached.has(neighbour)) {
+                        reached.add(neighbour)
+                        next.push(neighbour)
+                    }
+                }
+            }
+
+            frontier = next
+        }
+
+        return reached
+    }
+
+    private findCycleEdges(graph: DependencyGraph): Set<string> {
+        const keys = new Set<string>()
+
+        for (const cycle of graph.findCycles()) {
+            cycle.forEach((file, index) => {
+                keys.add(this.edgeKey(file, cycle[(index + 1) % cycle.length]))
+            })
+        }
+
+        return keys
+    }
+
+    private nodeId(file: SourceFile, level: GraphLevel): string | undefined {
+        const relative = GlobMatcher.normalizePath(file.path.relative)
+
+        switch (level) {
+            case GRAPH_LEVELS.FOLDER:
+                return path.posix.dirname(relative)
+            case GRAPH_LEVELS.LAYER:
+                return file.layer
+            default:
+                return relative
+        }
+    }
+
+    private toNodes(groups: Map<string, NodeGroup>): GraphViewNode[] {
+        return [...groups.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([id, group]) => {
+                const [layer] = group.layers
+                return group.layers.size === 1 && layer !== undefined
+                    ? { id, layer, files: group.files }
+                    : { id, files: group.files }
+            })
+    }
+
+    private isWithin(file: SourceFile, dir: string): boolean {
+        return [file.path.relative, file.path.absolute].some((filePath) => {
+            const relative = path.relative(dir, filePath)
+            return (
+                relative !== ".." &&
+                !relative.startsWith(`..${path.sep}`) &&
+                !path.isAbsolute(relative)
+            )
+        })
+    }
+
+    private isSameFile(file: SourceFile, filePath: string): boolean {
+        const resolved = path.resolve(filePath)
+        return resolved === path.resolve(file.path.relative) || resolved === file.path.absolute
+    }
+
+    private edgeKey(from: string, to: string): string {
+        return `${from}\n${to}`
+    }
+}
@@ -0,0 +1,206 @@
+import * as path from "path"
+import type { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { TypeCounts } from "../../domain/services/ICodeParser"
+import type { PackageMetricThresholds } from "../../domain/value-objects/GuardianConfig"
+import { PACKAGE_METRIC_MESSAGES } from "../../domain/constants/Messages"
+import {
+    PACKAGE_METRIC_LEVELS,
+    PACKAGE_METRICS,
+    type PackageMetricLevel,
+    type PackageMetricName,
+    RULES,
+    VIOLATION_SEVERITY_MAP,
+} from "../../shared/constants"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+import type { PackageMetrics, PackageMetricViolation } from "../use-cases/AnalyzeProject"
+
+const METRIC_DECIMALS = 2
+
+interface ThresholdCheck {
+    metric: PackageMetricName
+    limit?: number
+    exceeds: (value: number, limit: number) => boolean
+    comparison: string
+    suggestion: string
+}
+
+/**
+ * Computes Robert C. Martin's package metrics on the dependency graph and
+ * checks them against the configured thresholds
+ *
+ * Coupling counts files: Ca is the number of files outside the package
+ * importing one of its files, Ce the number of files outside the package
+ * one of its files imports. Abstractness is the share of interfaces and
+ * abstract classes among the classes and interfaces of the package; a
+ * package without any has abstractness 0, one without dependencies in
+ * either direction instability 0. Metrics are rounded to two decimals
+ * before they are checked.
+ *
+ * @example
+ * ```typescript
+ * const calculator = new PackageMetricsCalculator()
+ * const packages = calculator.calculate(graph, typeCounts, "layer")
+ * // [{ name: "domain", files: 12, afferentCoupling: 9, efferentCoupling: 1,
+ * //    instability: 0.1, abstractness: 0.4, distance: 0.5 }, ...]
+ *
+ * calculator.check(graph, packages, { domain: { maxInstability: 0.3 } }, "layer")
+ * ```
+ */
+export class PackageMetricsCalculator {
+    /**
+     * @param typeCounts - Classes and interfaces by project-relative path
+     * @param level - Whether files are grouped by layer or by directory;
+     * files outside every layer are left out of layer packages
+     */
+    public calculate(
+        graph: DependencyGraph,
+        typeCounts: ReadonlyMap<string, TypeCounts>,
+        level: PackageMetricLevel,
+    ): PackageMetrics[] {
+        const coupling = graph.getPackageCoupling((file) => this.packageOf(file, level))
+
+        return [...coupling]
+            .map(([name, { files, afferent, efferent }]) => {
+                const types = files.reduce(
+                    (sum, file) => {
+                        const counts = typeCounts.get(file)
+                        return {
+                            total: sum.total + (counts?.total ?? 0),
+                            abstract: sum.abstract + (counts?.abstract ?? 0),
+                        }
+                    },
+                    { total: 0, abstract: 0 },
+                )
+                const instability = afferent + efferent > 0 ? efferent / (afferent + efferent) : 0
+                const abstractness = types.total > 0 ? types.abstract / types.total : 0
+
+                return {
+                    name,
+                    files: files.length,
+                    afferentCoupling: afferent,
+                    efferentCoupling: efferent,
+                    instability: this.round(instability),
+                    abstractness: this.round(abstractness),
+                    distance: this.round(Math.abs(abstractness + instability - 1)),
+                }
+            })
+            .sort((a, b) => a.name.localeCompare(b.name))
+    }
+
+    /**
+     * Returns a violation for every limit a package does not keep
+     *
+     * Violations are reported at the first file of the package in path
+     * order and list all its files, so they can be located and filtered
+     * to changed files like the others.
+     *
+     * @param thresholds - Limits by package name glob
+     * @param level - The level the packages were calculated at
+     */
+    public check(
+        graph: DependencyGraph,
+        packages: PackageMetrics[],
+        thresholds: Record<string, PackageMetricThresholds>,
+        level: PackageMetricLevel,
+    ): PackageMetricViolation[] {
+        const rules = Object.entries(thresholds).map(
+            ([pattern, limits]) => [GlobMatcher.toRegExp(pattern), limits] as const,
+        )
+        const filesByPackage = this.groupFiles(graph, level)
+        const violations: PackageMetricViolation[] = []
+
+        for (const metrics of packages) {
+            for (const [regex, limits] of rules) {
+                if (regex.test(GlobMatcher.normalizePath(metrics.name))) {
+                    violations.push(
+                        ...this.checkLimits(
+                            metrics,
+                            limits,
+                            filesByPackage.get(metrics.name) ?? [],
+                        ),
+                    )
+                }
+            }
+        }
+
+        return violations
+    }
+
+    private groupFiles(graph: DependencyGraph, level: PackageMetricLevel): Map<string, string[]> {
+        const files = new Map<string, string[]>()
+
+        for (const { file } of graph.getAllNodes()) {
+            const name = this.packageOf(file, level)
+
+            if (name !== undefined) {
+                files.set(name, [...(files.get(name) ?? []), file.path.relative])
+            }
+        }
+
+        return new Map([...files].map(([name, paths]) => [name, paths.sort()]))
+    }
+
+    private checkLimits(
+        metrics: PackageMetrics,
+        limits: PackageMetricThresholds,
+        packageFiles: string[],
+    ): PackageMetricViolation[] {
+        const checks: ThresholdCheck[] = [
+            {
+                metric: PACKAGE_METRICS.INSTABILITY,
+                limit: limits.maxInstability,
+                exceeds: (value, limit) => value > limit,
+                comparison: PACKAGE_METRIC_MESSAGES.ABOVE_LIMIT,
+                suggestion: PACKAGE_METRIC_MESSAGES.REDUCE_INSTABILITY,
+            },
+            {
+                metric: PACKAGE_METRICS.ABSTRACTNESS,
+                limit: limits.minAbstractness,
+                exceeds: (value, limit) => value < limit,
+                comparison: PACKAGE_METRIC_MESSAGES.BELOW_LIMIT,
+                suggestion: PACKAGE_METRIC_MESSAGES.RAISE_ABSTRACTNESS,
+            },
+            {
+                metric: PACKAGE_METRICS.DISTANCE,
+                limit: limits.maxDistance,
+                exceeds: (value, limit) => value > limit,
+                comparison: PACKAGE_METRIC_MESSAGES.ABOVE_LIMIT,
+                suggestion: PACKAGE_METRIC_MESSAGES.REDUCE_DISTANCE,
+            },
+        ]
+
+        return checks.flatMap(({ metric, limit, exceeds, comparison, suggestion }) => {
+            const value = metrics[metric]
+
+            if (limit === undefined || !exceeds(value, limit)) {
+                return []
+            }
+
+            return [
+                {
+                    rule: RULES.PACKAGE_METRICS,
+                    file: packageFiles[0] ?? metrics.name,
+                    package: metrics.name,
+                    packageFiles,
+                    metric,
+                    value,
+                    limit,
+                    message: `Package "${metrics.name}" has ${metric} ${String(value)}, ${comparison} ${String(limit)}`,
+                    suggestion,
+                    severity: VIOLATION_SEVERITY_MAP.PACKAGE_METRICS,
+                },
+            ]
+        })
+    }
+
+    private packageOf(file: SourceFile, level: PackageMetricLevel): string | undefined {
+        return level === PACKAGE_METRIC_LEVELS.FOLDER
+            ? path.posix.dirname(GlobMatcher.normalizePath(file.path.relative))
+            : file.layer
+    }
+
+    private round(value: number): number {
+        return Number(value.toFixed(METRIC_DECIMALS))
+    }
+}
@@ -0,0 +1,204 @@
+import * as path from "path"
+import type { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { SymbolTable } from "../../domain/entities/SymbolTable"
+import type { ImportReference } from "../../domain/services/ICodeParser"
+import { PUBLIC_MODULE_MESSAGES } from "../../domain/constants/Messages"
+import {
+    IMPORT_KINDS,
+    PUBLIC_MODULE_MARKER,
+    RULES,
+    SYMBOL_NAMES,
+    VIOLATION_SEVERITY_MAP,
+} from "../../shared/constants"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+import type { PublicModuleViolation } from "../use-cases/AnalyzeProject"
+
+const PATH_SEPARATOR = "/"
+const INDEX_FILE = /^index\.[cm]?[jt]sx?$/
+const INDEX_MODULE = "index"
+const PARENT_DIRECTORY = ".."
+const ESM_SPECIFIER = /\.[cm]?js$/
+const MARKER_PATTERN = new RegExp(`(?:\\/\\/|\\/\\*)\\s*${PUBLIC_MODULE_MARKER}(?![\\w-])`)
+
+/**
+ * Folder whose index file is marked as its only entry point
+ */
+interface PublicModule {
+    /**
+     * Project-relative directory, with `/` separators
+     */
+    directory: string
+    /**
+     * Project-relative path of the index file
+     */
+    index: string
+}
+
+/**
+ * Checks that public modules are only imported through their index
+ *
+ * A folder is a public module when its index file contains a
+ * `// guardian-public-module` comment. Files outside the folder importing
+ * any other of its files, like `../billing/internal/calc`, are reported
+ * with the specifier of the index to import instead. With nested public
+ * modules, the outermost folder the importing file is not part of counts.
+ * Violations list the names the import uses that the index does not
+ * export as the same declaration, so the import is only rewritten when
+ * that keeps its meaning.
+ *
+ * @example
+ * ```typescript
+ * const checker = new PublicModuleChecker()
+ *
+ * checker.check(sourceFiles, graph, importsByFile, symbolTable)
+ * // [{ module: "src/billing", importPath: "../billing/internal/calc",
+ * //    suggestedImport: "../billing", unexportedNames: [], ... }]
+ * ```
+ */
+export class PublicModuleChecker {
+    /**
+     * @param imports - Imports by project-relative path of the importing file
+     */
+    public check(
+        sourceFiles: readonly SourceFile[],
+        graph: DependencyGraph,
+        imports: ReadonlyMap<string, ImportReference[]>,
+        symbolTable: SymbolTable,
+    ): PublicModuleViolation[] {
+        const modules = this.findModules(sourceFiles)
+        if (modules.size === 0) {
+            return []
+        }
+
+        const violations: PublicModuleViolation[] = []
+
+        for (const [file, references] of imports) {
+            for (const reference of references) {
+                const target = graph.resolveImport(file, reference.specifier)
+                const module = target && this.enclosingModule(target, file, modules)
+
+                if (module && GlobMatcher.normalizePath(target) !== module.index) {
+                    const unexported = this.findUnexported(
+                        file,
+                        reference,
+                        target,
+                        module,
+                        symbolTable,
+                    )
+                    violations.push(this.createViolation(file, reference, module, unexported))
+                }
+            }
+        }
+
+        return violations
+    }
+
+    private findModules(sourceFiles: readonly SourceFile[]): Map<string, PublicModule> {
+        const modules = new Map<string, PublicModule>()
+
+        for (const file of sourceFiles) {
+            const index = GlobMatcher.normalizePath(file.path.relative)
+
+            if (INDEX_FILE.test(path.posix.basename(index)) && MARKER_PATTERN.test(file.content)) {
+                const directory = path.posix.dirname(index)
+                modules.set(directory, { directory, index })
+            }
+        }
+
+        return modules
+    }
+
+    /**
+     * Outermost public module containing the imported file but not the importing one
+     */
+    private enclosingModule(
+        target: string,
+        importer: string,
+        modules: ReadonlyMap<string, PublicModule>,
+    ): PublicModule | undefined {
+        const segments = GlobMatcher.normalizePath(target).split(PATH_SEPARATOR)
+        const from = GlobMatcher.normalizePath(importer)
+
+        for (let depth = 1; depth < segments.length; depth++) {
+            const module = modules.get(segments.slice(0, depth).join(PATH_SEPARATOR))
+
+            if (module && !from.startsWith(module.directory + PATH_SEPARATOR)) {
+                return module
+            }
+        }
+
+        return undefined
+    }
+
+    /**
+     * Names the import uses that the index does not export as the same
+     * declaration. Namespace imports, `export *`, `require()`, `import()`
+     * and side-effect imports use the whole module and count as `*`.
+     */
+    private findUnexported(
+        file: string,
+        reference: ImportReference,
+        target: string,
+        module: PublicModule,
+        symbolTable: SymbolTable,
+    ): string[] {
+        const usesModule =
+            reference.kind === IMPORT_KINDS.REQUIRE ||
+            reference.kind === IMPORT_KINDS.DYNAMIC_IMPORT
+        const names = usesModule ? [] : symbolTable.importedNames(file, reference.specifier)
+
+        if (names.length === 0) {
+            return [SYMBOL_NAMES.ALL_EXPORTS]
+        }
+
+        return [...new Set(names)].filter((name) => {
+            const fromIndex = symbolTable.findExport(module.index, name)
+            const fromTarget = symbolTable.findExport(target, name)
+
+            return (
+                name === SYMBOL_NAMES.ALL_EXPORTS ||
+                !fromIndex ||
+                fromIndex.file !== fromTarget?.file ||
+                fromIndex.name !== fromTarget.name
+            )
+        })
+    }
+
+    /**
+     * Relative specifier of the index, keeping the extension of ES module
+     * specifiers like `./internal/calc.js`
+     */
+    private suggestImport(file: string, specifier: string, module: PublicModule): string {
+        const relative = path.posix.relative(
+            path.posix.dirname(GlobMatcher.normalizePath(file)),
+            module.directory,
+        )
+        const directory = relative.startsWith(PARENT_DIRECTORY) ? relative : `./${relative}`
+        const extension = ESM_SPECIFIER.exec(specifier)?.[0]
+
+        return extension ? `${directory}${PATH_SEPARATOR}${INDEX_MODULE}${extension}` : directory
+    }
+
+    private createViolation(
+        file: string,
+        reference: ImportReference,
+        module: PublicModule,
+        unexportedNames: string[],
+    ): PublicModuleViolation {
+        const suggestedImport = this.suggestImport(file, reference.specifier, module)
+
+        return {
+            rule: RULES.PUBLIC_MODULE,
+            module: module.directory,
+            importPath: reference.specifier,
+            suggestedImport,
+            unexportedNames,
+            file,
+            line: reference.line,
+            message: `Import "${reference.specifier}" reaches into public module "${module.directory}" past its index`,
+            suggestion: `${PUBLIC_MODULE_MESSAGES.IMPORT_THROUGH_INDEX}: "${suggestedImport}". ${PUBLIC_MODULE_MESSAGES.EXPORT_FROM_INDEX}`,
+            severity: VIOLATION_SEVERITY_MAP.PUBLIC_MODULE,
+        }
+    }
+}
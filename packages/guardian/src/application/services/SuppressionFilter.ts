@@ -0,0 +1,124 @@
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { SuppressionSettings } from "../../domain/value-objects/GuardianConfig"
+import {
+    InlineSuppressions,
+    type SuppressionDirective,
+} from "../../domain/value-objects/InlineSuppressions"
+import { SUPPRESSION_MESSAGES } from "../../domain/constants/Messages"
+import { RULES, SUPPRESSION_VIOLATION_TYPES, VIOLATION_SEVERITY_MAP } from "../../shared/constants"
+import type { SuppressionViolation } from "../use-cases/AnalyzeProject"
+
+/**
+ * What the filter needs to know about a violation
+ */
+interface SuppressibleViolation {
+    file: string
+    line?: number
+}
+
+/**
+ * Removes violations silenced by `guardian-disable` comments
+ *
+ * Remembers which comments were used, so that unused ones can be
+ * reported once every rule has been filtered.
+ *
+ * @example
+ * ```typescript
+ * const filter = new SuppressionFilter(sourceFiles)
+ * const hardcode = filter.apply("hardcoded-value", detected)
+ *
+ * filter.report({ reportUnused: true, requireReason: false }, isRuleEnabled)
+ * ```
+ */
+export class SuppressionFilter {
+    private readonly suppressions = new Map<string, InlineSuppressions>()
+    private readonly used = new Set<SuppressionDirective>()
+
+    constructor(sourceFiles: readonly SourceFile[]) {
+        for (const file of sourceFiles) {
+            const suppressions = InlineSuppressions.parse(file.content)
+
+            if (suppressions.directives.length > 0) {
+                this.suppressions.set(file.path.relative, suppressions)
+            }
+        }
+    }
+
+    public apply<T extends SuppressibleViolation>(rule: string, violations: T[]): T[] {
+        return violations.filter((violation) => {
+            const directive = this.suppressions
+                .get(violation.file)
+                ?.findDirective(rule, violation.line)
+
+            if (directive) {
+                this.used.add(directive)
+            }
+
+            return !directive
+        })
+    }
+
+    /**
+     * Returns violations for unused and reason-less comments
+     *
+     * A comment naming a disabled rule is never reported as unused,
+     * the rule did not run.
+     */
+    public report(
+        settings: Required<SuppressionSettings>,
+        isRuleEnabled: (rule: string) => boolean,
+    ): SuppressionViolation[] {
+        const violations: SuppressionViolation[] = []
+
+        for (const [file, suppressions] of this.suppressions) {
+            for (const directive of suppressions.directives) {
+                const ran = directive.rules.every((rule) => isRuleEnabled(rule))
+
+                if (settings.reportUnused && ran && !this.used.has(directive)) {
+                    violations.push(
+                        this.toViolation(
+                            file,
+                            directive,
+                            SUPPRESSION_VIOLATION_TYPES.UNUSED,
+                            SUPPRESSION_MESSAGES.UNUSED,
+                            SUPPRESSION_MESSAGES.REMOVE_UNUSED,
+                        ),
+                    )
+                }
+
+                if (settings.requireReason && directive.reason === undefined) {
+                    violations.push(
+                        this.toViolation(
+                            file,
+                            directive,
+                            SUPPRESSION_VIOLATION_TYPES.MISSING_REASON,
+                            SUPPRESSION_MESSAGES.MISSING_REASON,
+                            SUPPRESSION_MESSAGES.ADD_REASON,
+                        ),
+                    )
+                }
+            }
+        }
+
+        return violations
+    }
+
+    private toViolation(
+        file: string,
+        directive: SuppressionDirective,
+        type: SuppressionViolation["type"],
+        message: string,
+        suggestion: string,
+    ): SuppressionViolation {
+        return {
+            rule: RULES.SUPPRESSION_COMMENT,
+            type,
+            file,
+            line: directive.line,
+            directive: directive.text,
+            message,
+            suggestion,
+            severity: VIOLATION_SEVERITY_MAP.SUPPRESSION_COMMENT,
+        }
+    }
+}
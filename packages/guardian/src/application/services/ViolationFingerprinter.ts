@@ -0,0 +1,115 @@
+import { createHash } from "crypto"
+import * as path from "path"
+import type { ViolationReport } from "../dtos/JsonReport"
+
+const FINGERPRINT_ALGORITHM = "sha256"
+const FINGERPRINT_SEPARATOR = "\0"
+const WHITESPACE_RUN = /\s+/g
+
+/**
+ * Violation category of a report, e.g. `hardcodeViolations`
+ */
+export type ViolationCategory = keyof ViolationReport
+
+/**
+ * A single violation of the given category
+ */
+export type ReportedViolation<K extends ViolationCategory = ViolationCategory> =
+    ViolationReport[K][number]
+
+type IdentityExtractors = {
+    [K in ViolationCategory]: (violation: ReportedViolation<K>) => string[]
+}
+
+type LocationExtractors = {
+    [K in ViolationCategory]?: (violation: ReportedViolation<K>) => string
+}
+
+/**
+ * Collapses whitespace so re-indented code keeps its fingerprint
+ */
+function normalize(text: string): string {
+    return text.replace(WHITESPACE_RUN, " ").trim()
+}
+
+/**
+ * Uses `/` separators so baselines can be shared across platforms
+ */
+function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join(path.posix.sep)
+}
+
+/**
+ * What identifies a violation besides rule and file
+ *
+ * Line and column numbers are left out on purpose, so a violation keeps its
+ * fingerprint when code above it is added or removed.
+ */
+const IDENTITY: IdentityExtractors = {
+    violations: (v) => [v.message],
+    hardcodeViolations: (v) => [v.type, String(v.value), normalize(v.context)],
+    circularDependencyViolations: (v) => v.cycle.map(toPosix).sort(),
+    namingViolations: (v) => [v.type, v.actual],
+    frameworkLeakViolations: (v) =>
+        v.symbol === undefined ? [v.packageName] : [v.packageName, v.symbol],
+    entityExposureViolations: (v) => [v.methodName ?? "", v.entityName, v.returnType],
+    dependencyDirectionViolations: (v) => [v.importPath],
+    repositoryPatternViolations: (v) => [v.violationType, normalize(v.details)],
+    aggregateBoundaryViolations: (v) => [v.importPath, v.entityName],
+    secretViolations: (v) => [v.secretType],
+    anemicModelViolations: (v) => [v.className],
+    suppressionViolations: (v) => [v.type, normalize(v.directive)],
+    packageMetricViolations: (v) => [v.metric],
+    boundedContextViolations: (v) => v.chain.slice(1).map(toPosix),
+    publicModuleViolations: (v) => [v.importPath],
+    deadCodeViolations: (v) => [v.type, v.symbol ?? ""],
+    customViolations: (v) => [normalize(v.message)],
+}
+
+/**
+ * What locates a violation in place of its file
+ *
+ * Package metric violations are reported at the first file of the package,
+ * which changes as files are added, so the package identifies them.
+ */
+const LOCATION: LocationExtractors = {
+    packageMetricViolations: (v) => v.package,
+}
+
+/**
+ * Every violation category, in report order
+ */
+export const VIOLATION_CATEGORIES = Object.keys(IDENTITY) as ViolationCategory[]
+
+/**
+ * Computes line-independent fingerprints of violations
+ *
+ * A fingerprint is a hash of the rule, the file and the violation's identity
+ * (e.g. value and normalized source line for hardcoded values). Identical
+ * violations in one file share a fingerprint, so baselines count them.
+ *
+ * @example
+ * ```typescript
+ * const fingerprinter = new ViolationFingerprinter()
+ *
+ * fingerprinter.fingerprint("hardcodeViolations", result.hardcodeViolations[0])
+ * // "3f1c9a..."
+ * ```
+ */
+export class ViolationFingerprinter {
+    public fingerprint<K extends ViolationCategory>(
+        category: K,
+        violation: ReportedViolation<K>,
+    ): string {
+        const extractIdentity: (violation: ReportedViolation<K>) => string[] = IDENTITY[category]
+        const locate = LOCATION[category] as
+            | ((violation: ReportedViolation<K>) => string)
+            | undefined
+        const location = locate ? locate(violation) : toPosix(violation.file)
+        const parts = [violation.rule, location, ...extractIdentity(violation)]
+
+        return createHash(FINGERPRINT_ALGORITHM)
+            .update(parts.join(FINGERPRINT_SEPARATOR))
+            .digest("hex")
+    }
+}
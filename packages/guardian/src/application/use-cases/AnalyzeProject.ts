@@ -1,7 +1,8 @@
+import * as path from "path"
 import { UseCase } from "./BaseUseCase"
 import { ResponseDto } from "../dtos/ResponseDto"
 import { IFileScanner } from "../../domain/services/IFileScanner"
-import { ICodeParser } from "../../domain/services/ICodeParser"
+import { FileSymbols, ICodeParser, TypeCounts } from "../../domain/services/ICodeParser"
 import { IHardcodeDetector } from "../../domain/services/IHardcodeDetector"
 import { INamingConventionDetector } from "../../domain/services/INamingConventionDetector"
 import { IFrameworkLeakDetector } from "../../domain/services/IFrameworkLeakDetector"
@@ -12,25 +13,71 @@ import { IAggregateBoundaryDetector } from "../../domain/services/IAggregateBoun
 import { ISecretDetector } from "../../domain/services/ISecretDetector"
 import { IAnemicModelDetector } from "../../domain/services/IAnemicModelDetector"
 import { IDuplicateValueTracker } from "../../domain/services/IDuplicateValueTracker"
+import { IConfigLoader } from "../../domain/services/IConfigLoader"
+import { IModuleResolver } from "../../domain/services/IModuleResolver"
+import { ChangeSet, IChangeDetector } from "../../domain/services/IChangeDetector"
+import { AnalysisCacheStats, IAnalysisCache } from "../../domain/services/IAnalysisCache"
+import { IWorkerPool } from "../../domain/services/IWorkerPool"
+import { IPluginLoader, LoadedPlugin } from "../../domain/services/IPluginLoader"
+import { GuardianConfig, GuardianConfigFile } from "../../domain/value-objects/GuardianConfig"
 import { SourceFile } from "../../domain/entities/SourceFile"
 import { DependencyGraph } from "../../domain/entities/DependencyGraph"
+import { SymbolTable } from "../../domain/entities/SymbolTable"
 import { CollectFiles } from "./pipeline/CollectFiles"
 import { ParseSourceFiles } from "./pipeline/ParseSourceFiles"
+import { AnalyzeFiles } from "./pipeline/AnalyzeFiles"
 import { ExecuteDetection } from "./pipeline/ExecuteDetection"
 import { AggregateResults } from "./pipeline/AggregateResults"
+import { AnalysisCacheSession } from "../services/AnalysisCacheSession"
+import { FileAnalyzer } from "../services/FileAnalyzer"
+import { PackageMetricsCalculator } from "../services/PackageMetricsCalculator"
+import { ContextBoundaryChecker } from "../services/ContextBoundaryChecker"
+import { PublicModuleChecker } from "../services/PublicModuleChecker"
+import { DeadCodeChecker } from "../services/DeadCodeChecker"
+import { FileAnalysis, FileAnalysisTask } from "../dtos/AnalysisCache"
+import { AnalysisSnapshot, SnapshotUpdate } from "../dtos/AnalysisSnapshot"
 import {
+    type DeadCodeType,
     ERROR_MESSAGES,
+    type FrameworkUsageKind,
     HARDCODE_TYPES,
     NAMING_VIOLATION_TYPES,
+    type PackageMetricName,
+    type PluginRuleName,
     REPOSITORY_VIOLATION_TYPES,
     RULES,
     type SeverityLevel,
+    SUPPRESSION_VIOLATION_TYPES,
 } from "../../shared/constants"
 
 export interface AnalyzeProjectRequest {
     rootDir: string
     include?: string[]
     exclude?: string[]
+    /**
+     * Inline config, takes precedence over any config file
+     */
+    config?: GuardianConfigFile
+    /**
+     * Explicit config file path, skips discovery
+     */
+    configPath?: string
+    /**
+     * Only report violations in files changed since this git ref (merge base with HEAD)
+     */
+    since?: string
+    /**
+     * Only report violations in staged files, analyzing the contents of the git index
+     */
+    staged?: boolean
+    /**
+     * Directory of the incremental analysis cache, results are not cached when unset
+     */
+    cacheDir?: string
+    /**
+     * Number of files analyzed at the same time (default 1)
+     */
+    jobs?: number
 }
 
 export interface AnalyzeProjectResponse {
@@ -47,7 +94,28 @@ export interface AnalyzeProjectResponse {
     aggregateBoundaryViolations: AggregateBoundaryViolation[]
     secretViolations: SecretViolation[]
     anemicModelViolations: AnemicModelViolation[]
+    suppressionViolations: SuppressionViolation[]
+    packageMetricViolations: PackageMetricViolation[]
+    boundedContextViolations: BoundedContextViolation[]
+    publicModuleViolations: PublicModuleViolation[]
+    deadCodeViolations: DeadCodeViolation[]
+    /**
+     * Findings of plugin rules, named "<plugin>/<detector>"
+     */
+    customViolations: CustomRuleViolation[]
     metrics: ProjectMetrics
+    /**
+     * Effective configuration the analysis ran with
+     */
+    config: GuardianConfig
+    /**
+     * Files violations were reported for, when the analysis ran with `since` or `staged`
+     */
+    changedFiles?: string[]
+    /**
+     * Cache hits and misses, when the analysis ran with `cacheDir`
+     */
+    cacheStats?: AnalysisCacheStats
 }
 
 export interface ArchitectureViolation {
@@ -80,6 +148,10 @@ export interface HardcodeViolation {
 export interface CircularDependencyViolation {
     rule: typeof RULES.CIRCULAR_DEPENDENCY
     message: string
+    /**
+     * First file of the cycle, so the violation can be reported like the others
+     */
+    file: string
     cycle: string[]
     severity: SeverityLevel
 }
@@ -92,6 +164,7 @@ export interface NamingConventionViolation {
         | typeof NAMING_VIOLATION_TYPES.WRONG_CASE
         | typeof NAMING_VIOLATION_TYPES.FORBIDDEN_PATTERN
         | typeof NAMING_VIOLATION_TYPES.WRONG_VERB_NOUN
+        | typeof NAMING_VIOLATION_TYPES.PATTERN_MISMATCH
     fileName: string
     layer: string
     file: string
@@ -107,6 +180,15 @@ export interface FrameworkLeakViolation {
     packageName: string
     category: string
     categoryDescription: string
+    /**
+     * Set when the package is used through a decorator or base class
+     * rather than imported
+     */
+    usage?: FrameworkUsageKind
+    /**
+     * Decorator or base class name exported by the package
+     */
+    symbol?: string
     file: string
     layer: string
     line?: number
@@ -195,11 +277,156 @@ export interface AnemicModelViolation {
     severity: SeverityLevel
 }
 
+export interface SuppressionViolation {
+    rule: typeof RULES.SUPPRESSION_COMMENT
+    type:
+        | typeof SUPPRESSION_VIOLATION_TYPES.UNUSED
+        | typeof SUPPRESSION_VIOLATION_TYPES.MISSING_REASON
+    file: string
+    line: number
+    /**
+     * Comment text, e.g. "guardian-disable-line hardcoded-value"
+     */
+    directive: string
+    message: string
+    suggestion: string
+    severity: SeverityLevel
+}
+
+export interface PackageMetricViolation {
+    rule: typeof RULES.PACKAGE_METRICS
+    /**
+     * First file of the package in path order, so the violation can be
+     * reported like the others
+     */
+    file: string
+    package: string
+    /**
+     * Project-relative paths of all files of the package
+     */
+    packageFiles: string[]
+    metric: PackageMetricName
+    value: number
+    limit: number
+    message: string
+    suggestion: string
+    severity: SeverityLevel
+}
+
+export interface BoundedContextViolation {
+    rule: typeof RULES.BOUNDED_CONTEXT
+    fromContext: string
+    toContext: string
+    importPath: string
+    /**
+     * Files from the importing file to the internal module of the other
+     * context, through files outside every context such as the shared kernel
+     */
+    chain: string[]
+    file: string
+    line?: number
+    message: string
+    suggestion: string
+    severity: SeverityLevel
+}
+
+export interface PublicModuleViolation {
+    rule: typeof RULES.PUBLIC_MODULE
+    /**
+     * Project-relative directory of the public module
+     */
+    module: string
+    importPath: string
+    /**
+     * Specifier importing the module through its index, e.g. `../billing`
+     */
+    suggestedImport: string
+    /**
+     * Names the import uses that the index does not export as the same
+     * declaration, `*` when it uses the whole module. `guardian fix` only
+     * rewrites imports without any.
+     */
+    unexportedNames: string[]
+    file: string
+    line: number
+    message: string
+    suggestion: string
+    severity: SeverityLevel
+}
+
+export interface DeadCodeViolation {
+    rule: typeof RULES.DEAD_CODE
+    type: DeadCodeType
+    file: string
+    /**
+     * Line of the unused export, unset for orphan files
+     */
+    line?: number
+    /**
+     * Unused exported name, `default` for the default export; unset for
+     * orphan files
+     */
+    symbol?: string
+    message: string
+    suggestion: string
+    severity: SeverityLevel
+}
+
+export interface CustomRuleViolation {
+    rule: PluginRuleName
+    file: string
+    line?: number
+    column?: number
+    message: string
+    suggestion?: string
+    severity: SeverityLevel
+}
+
 export interface ProjectMetrics {
     totalFiles: number
     totalFunctions: number
     totalImports: number
     layerDistribution: Record<string, number>
+    /**
+     * Robert C. Martin's package metrics, one entry per layer or directory
+     */
+    packages: PackageMetrics[]
+}
+
+export interface PackageMetrics {
+    /**
+     * Layer name or project-relative directory
+     */
+    name: string
+    files: number
+    /**
+     * Files outside the package that depend on it (Ca)
+     */
+    afferentCoupling: number
+    /**
+     * Files outside the package it depends on (Ce)
+     */
+    efferentCoupling: number
+    /**
+     * Ce / (Ca + Ce): 0 is maximally stable, 1 maximally unstable
+     */
+    instability: number
+    /**
+     * Share of interfaces and abstract classes among the package's types
+     */
+    abstractness: number
+    /**
+     * Distance from the main sequence, |A + I - 1|
+     */
+    distance: number
+}
+
+/**
+ * Last analysis and the paths that changed since
+ */
+interface PreviousAnalysis {
+    snapshot: AnalysisSnapshot
+    changed: ReadonlySet<string>
 }
 
 /**
@@ -211,9 +438,16 @@ export class AnalyzeProject extends UseCase<
     ResponseDto<AnalyzeProjectResponse>
 > {
     private readonly fileCollectionStep: CollectFiles
+    private readonly fileAnalysisStep: AnalyzeFiles
     private readonly parsingStep: ParseSourceFiles
     private readonly detectionPipeline: ExecuteDetection
     private readonly resultAggregator: AggregateResults
+    private readonly packageMetricsCalculator: PackageMetricsCalculator
+    private readonly configLoader: IConfigLoader
+    private readonly changeDetector: IChangeDetector
+    private readonly analysisCache: IAnalysisCache<FileAnalysis>
+    private readonly pluginLoader: IPluginLoader
+    private readonly workerPool?: IWorkerPool<FileAnalysisTask, FileAnalysis>
 
     // eslint-disable-next-line max-params
     constructor(
@@ -229,21 +463,44 @@ export class AnalyzeProject extends UseCase<
         secretDetector: ISecretDetector,
         anemicModelDetector: IAnemicModelDetector,
         duplicateValueTracker: IDuplicateValueTracker,
+        configLoader: IConfigLoader,
+        moduleResolver: IModuleResolver,
+        changeDetector: IChangeDetector,
+        analysisCache: IAnalysisCache<FileAnalysis>,
+        pluginLoader: IPluginLoader,
+        workerPool?: IWorkerPool<FileAnalysisTask, FileAnalysis>,
     ) {
         super()
+        this.configLoader = configLoader
+        this.changeDetector = changeDetector
+        this.analysisCache = analysisCache
+        this.pluginLoader = pluginLoader
+        this.workerPool = workerPool
         this.fileCollectionStep = new CollectFiles(fileScanner)
-        this.parsingStep = new ParseSourceFiles(codeParser)
+        this.fileAnalysisStep = new AnalyzeFiles(
+            new FileAnalyzer(
+                codeParser,
+                hardcodeDetector,
+                namingConventionDetector,
+                frameworkLeakDetector,
+                entityExposureDetector,
+                repositoryPatternDetector,
+                aggregateBoundaryDetector,
+                secretDetector,
+                anemicModelDetector,
+            ),
+        )
+        this.parsingStep = new ParseSourceFiles(moduleResolver)
+        this.packageMetricsCalculator = new PackageMetricsCalculator()
         this.detectionPipeline = new ExecuteDetection(
-            hardcodeDetector,
-            namingConventionDetector,
-            frameworkLeakDetector,
-            entityExposureDetector,
             dependencyDirectionDetector,
-            repositoryPatternDetector,
-            aggregateBoundaryDetector,
-            secretDetector,
-            anemicModelDetector,
+            entityExposureDetector,
+            frameworkLeakDetector,
             duplicateValueTracker,
+            this.packageMetricsCalculator,
+            new ContextBoundaryChecker(),
+            new PublicModuleChecker(),
+            new DeadCodeChecker(),
         )
         this.resultAggregator = new AggregateResults()
     }
@@ -252,33 +509,335 @@ export class AnalyzeProject extends UseCase<
         request: AnalyzeProjectRequest,
     ): Promise<ResponseDto<AnalyzeProjectResponse>> {
         try {
-            const { sourceFiles } = await this.fileCollectionStep.execute({
-                rootDir: request.rootDir,
-                include: request.include,
-                exclude: request.exclude,
-            })
-
-            const { dependencyGraph, totalFunctions } = this.parsingStep.execute({
-                sourceFiles,
-                rootDir: request.rootDir,
-            })
-
-            const detectionResult = await this.detectionPipeline.execute({
-                sourceFiles,
-                dependencyGraph,
-            })
-
-            const response = this.resultAggregator.execute({
-                sourceFiles,
-                dependencyGraph,
-                totalFunctions,
-                ...detectionResult,
-            })
-
-            return ResponseDto.ok(response)
+            const { snapshot } = await this.analyze(request)
+
+            return ResponseDto.ok(snapshot.result)
         } catch (error) {
             const errorMessage = `${ERROR_MESSAGES.FAILED_TO_ANALYZE}: ${error instanceof Error ? error.message : String(error)}`
             return ResponseDto.fail(errorMessage)
         }
     }
+
+    /**
+     * Analyzes the project and keeps the per-file analyses, so that
+     * {@link update} only re-analyzes what changes afterwards
+     */
+    public async snapshot(request: AnalyzeProjectRequest): Promise<ResponseDto<AnalysisSnapshot>> {
+        try {
+            const { snapshot } = await this.analyze(request)
+
+            return ResponseDto.ok(snapshot)
+        } catch (error) {
+            const errorMessage = `${ERROR_MESSAGES.FAILED_TO_ANALYZE}: ${error instanceof Error ? error.message : String(error)}`
+            return ResponseDto.fail(errorMessage)
+        }
+    }
+
+    /**
+     * Analyzes the project again after the given paths changed
+     *
+     * Unchanged files keep their per-file analyses unless they import a
+     * changed file; the dependency graph and the graph-level rules cover the
+     * whole project again. A changed config file or plugin module starts
+     * over with a full analysis.
+     *
+     * @param previous - Snapshot of the last analysis
+     * @param changedPaths - Absolute paths of changed files and directories
+     */
+    public async update(
+        request: AnalyzeProjectRequest,
+        previous: AnalysisSnapshot,
+        changedPaths: string[],
+    ): Promise<ResponseDto<SnapshotUpdate>> {
+        try {
+            const changed = new Set(changedPaths.map((changedPath) => path.resolve(changedPath)))
+            const { config } = previous.result
+            const setupFiles = [
+                ...(config.source ? [config.source] : []),
+                ...previous.plugins.map((plugin) => plugin.modulePath),
+            ].filter((file) => changed.has(path.resolve(file)))
+
+            if (setupFiles.length > 0) {
+                const { snapshot, analyzedFiles } = await this.analyze(request)
+                const changedFiles = setupFiles.map((file) => path.relative(request.rootDir, file))
+
+                return ResponseDto.ok({ snapshot, changedFiles, analyzedFiles })
+            }
+
+            return ResponseDto.ok(await this.analyze(request, { snapshot: previous, changed }))
+        } catch (error) {
+            const errorMessage = `${ERROR_MESSAGES.FAILED_TO_REANALYZE}: ${error instanceof Error ? error.message : String(error)}`
+            return ResponseDto.fail(errorMessage)
+        }
+    }
+
+    private async analyze(
+        request: AnalyzeProjectRequest,
+        previous?: PreviousAnalysis,
+    ): Promise<SnapshotUpdate> {
+        const { config, plugins } = await this.loadSetup(request, previous)
+
+        const jobs = this.validateJobs(request.jobs)
+
+        const changes = await this.detectChanges(request)
+
+        const { sourceFiles } = await this.fileCollectionStep.execute({
+            rootDir: request.rootDir,
+            include: request.include,
+            exclude: request.exclude,
+            additionalExclude: config.exclude,
+            layerModel: config.layerModel,
+            changes,
+            concurrency: jobs,
+            previous: previous && {
+                files: new Map(
+                    previous.snapshot.result.files.map((file) => [file.path.relative, file]),
+                ),
+                changedPaths: previous.changed,
+            },
+        })
+
+        const changedFiles = previous
+            ? this.findChangedFiles(previous.snapshot.result.files, sourceFiles)
+            : sourceFiles.map((file) => file.path.relative)
+
+        if (previous && changedFiles.length === 0) {
+            return { snapshot: previous.snapshot, changedFiles, analyzedFiles: [] }
+        }
+
+        const reusable = previous && this.findReusableAnalyses(previous.snapshot, changedFiles)
+
+        const cache = previous
+            ? undefined
+            : await this.openCache(request, config, plugins, sourceFiles)
+
+        const { fileResults, analyses, totalFunctions } = await this.fileAnalysisStep.execute({
+            sourceFiles,
+            rootDir: request.rootDir,
+            config,
+            plugins,
+            cache,
+            previous: reusable,
+            workerPool: jobs > 1 ? this.workerPool : undefined,
+        })
+
+        await cache?.save()
+
+        const { dependencyGraph, entryPoints } = await this.parsingStep.execute({
+            sourceFiles,
+            rootDir: request.rootDir,
+        })
+
+        const packages = this.packageMetricsCalculator.calculate(
+            dependencyGraph,
+            this.collectTypeCounts(sourceFiles, analyses),
+            config.packageMetrics.level,
+        )
+
+        const symbols = this.collectSymbols(sourceFiles, analyses)
+
+        // Graph-level rules run once, on the merged per-file results
+        const detectionResult = this.detectionPipeline.execute({
+            sourceFiles,
+            dependencyGraph,
+            symbolTable: this.buildSymbolTable(symbols, dependencyGraph),
+            symbols,
+            entryPoints,
+            config,
+            changedFiles: changes?.changedFiles,
+            fileResults,
+            packages,
+        })
+
+        const result = this.resultAggregator.execute({
+            sourceFiles,
+            dependencyGraph,
+            totalFunctions,
+            packages,
+            config,
+            changedFiles: changes ? [...changes.changedFiles].sort() : undefined,
+            cacheStats: cache?.getStats(),
+            ...detectionResult,
+        })
+
+        return {
+            snapshot: {
+                result,
+                plugins,
+                analyses: new Map(
+                    sourceFiles.map((file, index) => [file.path.relative, analyses[index]]),
+                ),
+            },
+            changedFiles,
+            analyzedFiles: sourceFiles
+                .map((file) => file.path.relative)
+                .filter((file) => !reusable?.has(file)),
+        }
+    }
+
+    /**
+     * Classes and interfaces by project-relative path, for the abstractness of packages
+     */
+    private collectTypeCounts(
+        sourceFiles: SourceFile[],
+        analyses: FileAnalysis[],
+    ): Map<string, TypeCounts> {
+        const typeCounts = new Map<string, TypeCounts>()
+
+        sourceFiles.forEach((file, index) => {
+            const counts = analyses[index].typeCounts
+            if (counts) {
+                typeCounts.set(file.path.relative, counts)
+            }
+        })
+
+        return typeCounts
+    }
+
+    /**
+     * Declarations, imports and exports by project-relative path, for the
+     * files they were collected for
+     */
+    private collectSymbols(
+        sourceFiles: SourceFile[],
+        analyses: FileAnalysis[],
+    ): Map<string, FileSymbols> {
+        const symbols = new Map<string, FileSymbols>()
+
+        sourceFiles.forEach((file, index) => {
+            const fileSymbols = analyses[index].symbols
+            if (fileSymbols) {
+                symbols.set(file.path.relative, fileSymbols)
+            }
+        })
+
+        return symbols
+    }
+
+    /**
+     * Type declarations of all files, imports resolved through the dependency graph
+     */
+    private buildSymbolTable(
+        symbols: ReadonlyMap<string, FileSymbols>,
+        dependencyGraph: DependencyGraph,
+    ): SymbolTable {
+        const symbolTable = new SymbolTable((from, specifier) =>
+            dependencyGraph.resolveImport(from, specifier),
+        )
+
+        for (const [file, fileSymbols] of symbols) {
+            symbolTable.addFile(file, fileSymbols)
+        }
+
+        return symbolTable
+    }
+
+    /**
+     * Effective config and plugins, kept from the previous analysis if there is one
+     */
+    private async loadSetup(
+        request: AnalyzeProjectRequest,
+        previous?: PreviousAnalysis,
+    ): Promise<{ config: GuardianConfig; plugins: LoadedPlugin[] }> {
+        if (previous) {
+            return { config: previous.snapshot.result.config, plugins: previous.snapshot.plugins }
+        }
+
+        const config = await this.configLoader.load({
+            rootDir: request.rootDir,
+            configPath: request.configPath,
+            config: request.config,
+        })
+
+        return { config, plugins: await this.pluginLoader.load(config, request.rootDir) }
+    }
+
+    /**
+     * Returns the files that were added, edited or removed since the previous analysis
+     */
+    private findChangedFiles(previousFiles: SourceFile[], sourceFiles: SourceFile[]): string[] {
+        const before = new Map(previousFiles.map((file) => [file.path.relative, file.content]))
+        const after = new Set(sourceFiles.map((file) => file.path.relative))
+
+        return [
+            ...sourceFiles
+                .filter((file) => before.get(file.path.relative) !== file.content)
+                .map((file) => file.path.relative),
+            ...[...before.keys()].filter((file) => !after.has(file)),
+        ]
+    }
+
+    /**
+     * Per-file analyses that stay valid: those of files that neither changed
+     * nor import a changed file
+     */
+    private findReusableAnalyses(
+        snapshot: AnalysisSnapshot,
+        changedFiles: string[],
+    ): Map<string, FileAnalysis> {
+        const { dependencyGraph } = snapshot.result
+        const outdated = new Set(
+            changedFiles.flatMap((file) => [
+                file,
+                ...(dependencyGraph.getNode(file)?.dependents ?? []),
+            ]),
+        )
+
+        return new Map([...snapshot.analyses].filter(([file]) => !outdated.has(file)))
+    }
+
+    /**
+     * Returns the files to report on for `since` and `staged` runs
+     *
+     * The whole project is still analyzed, so the dependency graph and
+     * cycle detection see every file.
+     */
+    private async detectChanges(request: AnalyzeProjectRequest): Promise<ChangeSet | undefined> {
+        if (request.since === undefined && !request.staged) {
+            return undefined
+        }
+
+        return this.changeDetector.detect({
+            rootDir: request.rootDir,
+            since: request.since,
+            staged: request.staged,
+        })
+    }
+
+    /**
+     * @throws {Error} If jobs is not a positive integer
+     */
+    private validateJobs(jobs = 1): number {
+        if (!Number.isInteger(jobs) || jobs < 1) {
+            throw new Error(`${ERROR_MESSAGES.INVALID_JOBS}: ${String(jobs)}`)
+        }
+
+        return jobs
+    }
+
+    /**
+     * Loads the results of the last run with the same guardian version,
+     * effective config and plugin modules
+     */
+    private async openCache(
+        request: AnalyzeProjectRequest,
+        config: GuardianConfig,
+        plugins: LoadedPlugin[],
+        sourceFiles: SourceFile[],
+    ): Promise<AnalysisCacheSession | undefined> {
+        if (request.cacheDir === undefined) {
+            return undefined
+        }
+
+        await this.analysisCache.load({
+            cacheDir: request.cacheDir,
+            rootDir: request.rootDir,
+            key: JSON.stringify({
+                settings: config.settings,
+                plugins: plugins.map((plugin) => plugin.fingerprint),
+            }),
+        })
+
+        return new AnalysisCacheSession(this.analysisCache, sourceFiles)
+    }
 }
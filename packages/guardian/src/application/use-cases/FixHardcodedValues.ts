@@ -0,0 +1,65 @@
+import { UseCase } from "./BaseUseCase"
+import { ResponseDto } from "../dtos/ResponseDto"
+import type { FixPlan, IHardcodeFixer } from "../../domain/services/IHardcodeFixer"
+import { HARDCODE_FIX_SKIP_REASONS } from "../../domain/constants/Messages"
+import { ERROR_MESSAGES, HARDCODE_TYPES } from "../../shared/constants"
+import type { HardcodeViolation } from "./AnalyzeProject"
+
+export interface FixHardcodedValuesRequest {
+    rootDir: string
+    violations: HardcodeViolation[]
+    /**
+     * Write the changed files, otherwise only the plan is returned
+     */
+    write?: boolean
+}
+
+/**
+ * Use case for replacing hardcoded values with the constants they suggest
+ *
+ * Configuration objects are reported as skipped, they need a reviewed
+ * config module rather than one constant per value.
+ */
+export class FixHardcodedValues extends UseCase<FixHardcodedValuesRequest, ResponseDto<FixPlan>> {
+    constructor(private readonly hardcodeFixer: IHardcodeFixer) {
+        super()
+    }
+
+    public async execute(request: FixHardcodedValuesRequest): Promise<ResponseDto<FixPlan>> {
+        try {
+            const fixable = request.violations.filter(
+                (violation) => violation.type !== HARDCODE_TYPES.MAGIC_CONFIG,
+            )
+            const plan = await this.hardcodeFixer.plan(
+                request.rootDir,
+                fixable.map((violation) => ({
+                    file: violation.file,
+                    line: violation.line,
+                    column: violation.column,
+                    constantName: violation.suggestion.constantName,
+                    location: violation.suggestion.location,
+                })),
+            )
+
+            plan.skipped.push(
+                ...request.violations
+                    .filter((violation) => violation.type === HARDCODE_TYPES.MAGIC_CONFIG)
+                    .map((violation) => ({
+                        file: violation.file,
+                        line: violation.line,
+                        column: violation.column,
+                        reason: HARDCODE_FIX_SKIP_REASONS.CONFIG_OBJECT,
+                    })),
+            )
+
+            if (request.write) {
+                await this.hardcodeFixer.apply(request.rootDir, plan)
+            }
+
+            return ResponseDto.ok(plan)
+        } catch (error) {
+            const errorMessage = `${ERROR_MESSAGES.FAILED_TO_FIX}: ${error instanceof Error ? error.message : String(error)}`
+            return ResponseDto.fail(errorMessage)
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { UseCase } from "./BaseUseCase"
+import { ResponseDto } from "../dtos/ResponseDto"
+import type { FixPlan } from "../../domain/services/IHardcodeFixer"
+import type { IImportFixer } from "../../domain/services/IImportFixer"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import type { PublicModuleViolation } from "./AnalyzeProject"
+
+export interface FixPublicModuleImportsRequest {
+    rootDir: string
+    violations: PublicModuleViolation[]
+    /**
+     * Write the changed files, otherwise only the plan is returned
+     */
+    write?: boolean
+}
+
+/**
+ * Use case for rewriting deep imports of public modules to import their index
+ */
+export class FixPublicModuleImports extends UseCase<
+    FixPublicModuleImportsRequest,
+    ResponseDto<FixPlan>
+> {
+    constructor(private readonly importFixer: IImportFixer) {
+        super()
+    }
+
+    public async execute(request: FixPublicModuleImportsRequest): Promise<ResponseDto<FixPlan>> {
+        try {
+            const plan = await this.importFixer.plan(
+                request.rootDir,
+                request.violations.map((violation) => ({
+                    file: violation.file,
+                    line: violation.line,
+                    specifier: violation.importPath,
+                    replacement: violation.suggestedImport,
+                    unexportedNames: violation.unexportedNames,
+                })),
+            )
+
+            if (request.write) {
+                await this.importFixer.apply(request.rootDir, plan)
+            }
+
+            return ResponseDto.ok(plan)
+        } catch (error) {
+            const errorMessage = `${ERROR_MESSAGES.FAILED_TO_FIX_IMPORTS}: ${error instanceof Error ? error.message : String(error)}`
+            return ResponseDto.fail(errorMessage)
+        }
+    }
+}
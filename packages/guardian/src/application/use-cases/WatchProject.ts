@@ -0,0 +1,139 @@
+import { UseCase } from "./BaseUseCase"
+import { ResponseDto } from "../dtos/ResponseDto"
+import type { ViolationDiff } from "../dtos/Baseline"
+import type { AnalysisSnapshot } from "../dtos/AnalysisSnapshot"
+import { BaselineMatcher } from "../services/BaselineMatcher"
+import type { IFileWatcher } from "../../domain/services/IFileWatcher"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import type {
+    AnalyzeProject,
+    AnalyzeProjectRequest,
+    AnalyzeProjectResponse,
+} from "./AnalyzeProject"
+
+export interface WatchProjectRequest extends Omit<AnalyzeProjectRequest, "since" | "staged"> {
+    /**
+     * Called after every re-analysis triggered by changed source files
+     */
+    onUpdate: (update: WatchUpdate) => void
+    /**
+     * Called when a re-analysis fails, watching continues
+     */
+    onError?: (message: string) => void
+}
+
+export interface WatchUpdate extends ViolationDiff {
+    /**
+     * Files added, edited or removed, or the config file or plugin module
+     * that made the whole project be analyzed again
+     */
+    changedFiles: string[]
+    /**
+     * Files the per-file detectors ran on again
+     */
+    analyzedFiles: string[]
+    result: AnalyzeProjectResponse
+}
+
+export interface WatchProjectResponse {
+    /**
+     * Result of the initial analysis
+     */
+    result: AnalyzeProjectResponse
+    /**
+     * Stops watching once a running re-analysis finished
+     */
+    close(): Promise<void>
+}
+
+/**
+ * Use case for re-analyzing a project whenever its files change
+ *
+ * The last analysis is kept in memory; on every change only the changed
+ * files and the files importing them are analyzed again, and the update
+ * reports which violations appeared and which were resolved. Changes that
+ * arrive during a re-analysis are handled right after it.
+ */
+export class WatchProject extends UseCase<WatchProjectRequest, ResponseDto<WatchProjectResponse>> {
+    private readonly matcher = new BaselineMatcher()
+
+    constructor(
+        private readonly analyzeProject: AnalyzeProject,
+        private readonly fileWatcher: IFileWatcher,
+    ) {
+        super()
+    }
+
+    public async execute(request: WatchProjectRequest): Promise<ResponseDto<WatchProjectResponse>> {
+        const initial = await this.analyzeProject.snapshot(request)
+
+        if (!initial.success || !initial.data) {
+            return ResponseDto.fail(initial.error ?? ERROR_MESSAGES.FAILED_TO_ANALYZE)
+        }
+
+        let snapshot = initial.data
+        let queue = Promise.resolve()
+
+        const reanalyze = async (paths: string[]): Promise<void> => {
+            const update = await this.analyzeProject.update(request, snapshot, paths)
+
+            if (!update.success || !update.data) {
+                request.onError?.(update.error ?? ERROR_MESSAGES.FAILED_TO_REANALYZE)
+                return
+            }
+
+            const { changedFiles, analyzedFiles } = update.data
+            const previous = snapshot
+            snapshot = update.data.snapshot
+
+            if (changedFiles.length > 0) {
+                request.onUpdate({
+                    changedFiles,
+                    analyzedFiles,
+                    result: snapshot.result,
+                    ...this.matcher.diff(previous.result, snapshot.result),
+                })
+            }
+        }
+
+        try {
+            const handle = await this.fileWatcher.watch({
+                rootDir: request.rootDir,
+                exclude: request.exclude,
+                additionalExclude: snapshot.result.config.exclude,
+                files: this.setupFiles(snapshot),
+                onChange: (paths) => {
+                    queue = queue
+                        .then(async () => reanalyze(paths))
+                        .catch((error: unknown) => {
+                            request.onError?.(
+                                error instanceof Error ? error.message : String(error),
+                            )
+                        })
+                },
+            })
+
+            return ResponseDto.ok({
+                result: snapshot.result,
+                close: async (): Promise<void> => {
+                    handle.close()
+                    await queue
+                },
+            })
+        } catch (error) {
+            return ResponseDto.fail(error instanceof Error ? error.message : String(error))
+        }
+    }
+
+    /**
+     * Config file and plugin modules, a change to them reloads the config
+     */
+    private setupFiles(snapshot: AnalysisSnapshot): string[] {
+        const { config } = snapshot.result
+
+        return [
+            ...(config.source ? [config.source] : []),
+            ...snapshot.plugins.map((plugin) => plugin.modulePath),
+        ]
+    }
+}
@@ -1,25 +1,38 @@
 import { SourceFile } from "../../../domain/entities/SourceFile"
 import { DependencyGraph } from "../../../domain/entities/DependencyGraph"
+import { GuardianConfig } from "../../../domain/value-objects/GuardianConfig"
+import type { AnalysisCacheStats } from "../../../domain/services/IAnalysisCache"
 import type {
     AggregateBoundaryViolation,
     AnalyzeProjectResponse,
     AnemicModelViolation,
     ArchitectureViolation,
+    BoundedContextViolation,
     CircularDependencyViolation,
+    CustomRuleViolation,
+    DeadCodeViolation,
     DependencyDirectionViolation,
     EntityExposureViolation,
     FrameworkLeakViolation,
     HardcodeViolation,
     NamingConventionViolation,
+    PackageMetrics,
+    PackageMetricViolation,
     ProjectMetrics,
+    PublicModuleViolation,
     RepositoryPatternViolation,
     SecretViolation,
+    SuppressionViolation,
 } from "../AnalyzeProject"
 
 export interface AggregationRequest {
     sourceFiles: SourceFile[]
     dependencyGraph: DependencyGraph
     totalFunctions: number
+    packages: PackageMetrics[]
+    config: GuardianConfig
+    changedFiles?: string[]
+    cacheStats?: AnalysisCacheStats
     violations: ArchitectureViolation[]
     hardcodeViolations: HardcodeViolation[]
     circularDependencyViolations: CircularDependencyViolation[]
@@ -31,6 +44,12 @@ export interface AggregationRequest {
     aggregateBoundaryViolations: AggregateBoundaryViolation[]
     secretViolations: SecretViolation[]
     anemicModelViolations: AnemicModelViolation[]
+    suppressionViolations: SuppressionViolation[]
+    packageMetricViolations: PackageMetricViolation[]
+    boundedContextViolations: BoundedContextViolation[]
+    publicModuleViolations: PublicModuleViolation[]
+    deadCodeViolations: DeadCodeViolation[]
+    customViolations: CustomRuleViolation[]
 }
 
 /**
@@ -41,7 +60,7 @@ export class AggregateResults {
         const metrics = this.calculateMetrics(
             request.sourceFiles,
             request.totalFunctions,
-            request.dependencyGraph,
+            request.packages,
         )
 
         return {
@@ -58,14 +77,23 @@ export class AggregateResults {
             aggregateBoundaryViolations: request.aggregateBoundaryViolations,
             secretViolations: request.secretViolations,
             anemicModelViolations: request.anemicModelViolations,
+            suppressionViolations: request.suppressionViolations,
+            packageMetricViolations: request.packageMetricViolations,
+            boundedContextViolations: request.boundedContextViolations,
+            publicModuleViolations: request.publicModuleViolations,
+            deadCodeViolations: request.deadCodeViolations,
+            customViolations: request.customViolations,
             metrics,
+            config: request.config,
+            changedFiles: request.changedFiles,
+            cacheStats: request.cacheStats,
         }
     }
 
     private calculateMetrics(
         sourceFiles: SourceFile[],
         totalFunctions: number,
-        _dependencyGraph: DependencyGraph,
+        packages: PackageMetrics[],
     ): ProjectMetrics {
         const layerDistribution: Record<string, number> = {}
         let totalImports = 0
@@ -82,6 +110,7 @@ export class AggregateResults {
             totalFunctions,
             totalImports,
             layerDistribution,
+            packages,
         }
     }
 }
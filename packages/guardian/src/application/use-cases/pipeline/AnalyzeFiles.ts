@@ -0,0 +1,120 @@
+import { IWorkerPool } from "../../../domain/services/IWorkerPool"
+import { LoadedPlugin } from "../../../domain/services/IPluginLoader"
+import { SourceFile } from "../../../domain/entities/SourceFile"
+import { GuardianConfig } from "../../../domain/value-objects/GuardianConfig"
+import { AnalysisCacheSession } from "../../services/AnalysisCacheSession"
+import { FileAnalyzer } from "../../services/FileAnalyzer"
+import type { FileAnalysis, FileAnalysisTask, FileDetectionResult } from "../../dtos/AnalysisCache"
+
+export interface FileAnalysisRequest {
+    sourceFiles: SourceFile[]
+    rootDir: string
+    config: GuardianConfig
+    /**
+     * Plugins whose detectors run on every file
+     */
+    plugins?: LoadedPlugin[]
+    /**
+     * Analyses of unchanged files are taken from here
+     */
+    cache?: AnalysisCacheSession
+    /**
+     * Analyses of an earlier run by project-relative path, reused for the
+     * files they contain
+     */
+    previous?: ReadonlyMap<string, FileAnalysis>
+    /**
+     * Analyzes the remaining files in parallel, otherwise they are analyzed one by one
+     */
+    workerPool?: IWorkerPool<FileAnalysisTask, FileAnalysis>
+}
+
+export interface FileAnalysisResult {
+    /**
+     * Per-file detector results, in source file order
+     */
+    fileResults: FileDetectionResult[]
+    /**
+     * Complete per-file analyses, in source file order
+     */
+    analyses: FileAnalysis[]
+    totalFunctions: number
+}
+
+/**
+ * Pipeline step responsible for everything that only needs a single file
+ *
+ * Results are merged in source file order, so the output does not depend
+ * on whether the files came from the cache, this thread or a worker. The
+ * imports found in the syntax trees are recorded on the source files, for
+ * the dependency graph.
+ */
+export class AnalyzeFiles {
+    constructor(private readonly fileAnalyzer: FileAnalyzer) {}
+
+    public async execute(request: FileAnalysisRequest): Promise<FileAnalysisResult> {
+        const { sourceFiles, cache, previous } = request
+
+        const cached = sourceFiles.map(
+            (file) => previous?.get(file.path.relative) ?? cache?.lookup(file),
+        )
+        const pending = sourceFiles.filter((_, index) => !cached[index])
+        const computed = await this.analyzeAll(pending, request)
+
+        let next = 0
+        const analyses = sourceFiles.map((file, index) => {
+            const analysis = cached[index] ?? computed[next++]
+
+            if (!cached[index]) {
+                cache?.record(file, analysis)
+            }
+            for (const reference of analysis.detection.imports) {
+                file.addImport(reference.specifier)
+            }
+            return analysis
+        })
+
+        return {
+            fileResults: analyses.map((analysis) => analysis.detection),
+            analyses,
+            totalFunctions: analyses.reduce(
+                (total, analysis) => total + (analysis.functionCount ?? 0),
+                0,
+            ),
+        }
+    }
+
+    private async analyzeAll(
+        files: SourceFile[],
+        request: FileAnalysisRequest,
+    ): Promise<FileAnalysis[]> {
+        const { config, workerPool } = request
+        const plugins = request.plugins ?? []
+
+        if (workerPool && files.length > 1) {
+            return workerPool.run(
+                files.map((file) => ({
+                    absolutePath: file.path.absolute,
+                    rootDir: request.rootDir,
+                    content: file.content,
+                    exports: file.exports,
+                    settings: config.settings,
+                    plugins: plugins.map((plugin) => plugin.modulePath),
+                })),
+            )
+        }
+
+        const analyses: FileAnalysis[] = []
+        for (const file of files) {
+            analyses.push(
+                await this.fileAnalyzer.analyze(
+                    file,
+                    config,
+                    plugins.map((loaded) => loaded.plugin),
+                ),
+            )
+        }
+
+        return analyses
+    }
+}
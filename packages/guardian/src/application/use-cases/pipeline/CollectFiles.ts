@@ -1,12 +1,40 @@
+import * as path from "path"
 import { IFileScanner } from "../../../domain/services/IFileScanner"
+import type { ChangeSet } from "../../../domain/services/IChangeDetector"
 import { SourceFile } from "../../../domain/entities/SourceFile"
 import { ProjectPath } from "../../../domain/value-objects/ProjectPath"
+import { LayerModel } from "../../../domain/value-objects/LayerModel"
 import { REGEX_PATTERNS } from "../../../shared/constants"
 
 export interface FileCollectionRequest {
     rootDir: string
     include?: string[]
     exclude?: string[]
+    additionalExclude?: string[]
+    layerModel?: LayerModel
+    /**
+     * Git changes, supplies index contents and files to leave out
+     */
+    changes?: ChangeSet
+    /**
+     * Number of files read at the same time (default 1)
+     */
+    concurrency?: number
+    /**
+     * Files of an earlier run, reused instead of read again
+     */
+    previous?: PreviousFiles
+}
+
+export interface PreviousFiles {
+    /**
+     * Source files by project-relative path
+     */
+    files: ReadonlyMap<string, SourceFile>
+    /**
+     * Absolute paths that changed since, these files are read again
+     */
+    changedPaths: ReadonlySet<string>
 }
 
 export interface FileCollectionResult {
@@ -15,6 +43,9 @@ export interface FileCollectionResult {
 
 /**
  * Pipeline step responsible for file collection and basic parsing
+ *
+ * Imports are left to the per-file analysis, which finds them in the
+ * syntax tree of the file.
  */
 export class CollectFiles {
     constructor(private readonly fileScanner: IFileScanner) {}
@@ -24,33 +55,52 @@ export class CollectFiles {
             rootDir: request.rootDir,
             include: request.include,
             exclude: request.exclude,
+            additionalExclude: request.additionalExclude,
+            extraFiles: [...(request.changes?.indexOnlyFiles ?? [])].map((file) =>
+                path.join(request.rootDir, file),
+            ),
         })
 
+        const projectPaths = filePaths
+            .map((filePath) => ProjectPath.create(filePath, request.rootDir))
+            .filter((projectPath) => !request.changes?.excludedFiles.has(projectPath.relative))
         const sourceFiles: SourceFile[] = []
+        let next = 0
 
-        for (const filePath of filePaths) {
-            const content = await this.fileScanner.readFile(filePath)
-            const projectPath = ProjectPath.create(filePath, request.rootDir)
-
-            const imports = this.extractImports(content)
-            const exports = this.extractExports(content)
-
-            const sourceFile = new SourceFile(projectPath, content, imports, exports)
-            sourceFiles.push(sourceFile)
+        const readNext = async (): Promise<void> => {
+            while (next < projectPaths.length) {
+                const index = next++
+                sourceFiles[index] = await this.readSourceFile(projectPaths[index], request)
+            }
         }
 
+        await Promise.all(Array.from({ length: request.concurrency ?? 1 }, async () => readNext()))
+
         return { sourceFiles }
     }
 
-    private extractImports(content: string): string[] {
-        const imports: string[] = []
-        let match
+    private async readSourceFile(
+        projectPath: ProjectPath,
+        request: FileCollectionRequest,
+    ): Promise<SourceFile> {
+        const previous = request.previous?.files.get(projectPath.relative)
+
+        if (previous && !request.previous?.changedPaths.has(path.resolve(projectPath.absolute))) {
+            return previous
+        }
+
+        const content =
+            request.changes?.contents.get(projectPath.relative) ??
+            (await this.fileScanner.readFile(projectPath.absolute))
+
+        const exports = this.extractExports(content)
 
-        while ((match = REGEX_PATTERNS.IMPORT_STATEMENT.exec(content)) !== null) {
-            imports.push(match[1])
+        const sourceFile = new SourceFile(projectPath, content, [], exports)
+        if (request.layerModel) {
+            sourceFile.applyLayerModel(request.layerModel)
         }
 
-        return imports
+        return sourceFile
     }
 
     private extractExports(content: string): string[] {
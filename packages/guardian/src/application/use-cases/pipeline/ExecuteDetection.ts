@@ -1,19 +1,23 @@
-import { IHardcodeDetector } from "../../../domain/services/IHardcodeDetector"
-import { INamingConventionDetector } from "../../../domain/services/INamingConventionDetector"
-import { IFrameworkLeakDetector } from "../../../domain/services/IFrameworkLeakDetector"
-import { IEntityExposureDetector } from "../../../domain/services/IEntityExposureDetector"
 import { IDependencyDirectionDetector } from "../../../domain/services/IDependencyDirectionDetector"
-import { IRepositoryPatternDetector } from "../../../domain/services/RepositoryPatternDetectorService"
-import { IAggregateBoundaryDetector } from "../../../domain/services/IAggregateBoundaryDetector"
-import { ISecretDetector } from "../../../domain/services/ISecretDetector"
-import { IAnemicModelDetector } from "../../../domain/services/IAnemicModelDetector"
+import { IEntityExposureDetector } from "../../../domain/services/IEntityExposureDetector"
+import { IFrameworkLeakDetector } from "../../../domain/services/IFrameworkLeakDetector"
 import { IDuplicateValueTracker } from "../../../domain/services/IDuplicateValueTracker"
 import { SourceFile } from "../../../domain/entities/SourceFile"
 import { DependencyGraph } from "../../../domain/entities/DependencyGraph"
+import { SymbolTable } from "../../../domain/entities/SymbolTable"
+import type { FileSymbols } from "../../../domain/services/ICodeParser"
 import { HardcodedValue } from "../../../domain/value-objects/HardcodedValue"
+import { GuardianConfig } from "../../../domain/value-objects/GuardianConfig"
+import { LayerModel } from "../../../domain/value-objects/LayerModel"
+import { SuppressionFilter } from "../../services/SuppressionFilter"
+import { PackageMetricsCalculator } from "../../services/PackageMetricsCalculator"
+import { ContextBoundaryChecker } from "../../services/ContextBoundaryChecker"
+import { PublicModuleChecker } from "../../services/PublicModuleChecker"
+import { DeadCodeChecker } from "../../services/DeadCodeChecker"
+import type { FileDetectionResult, HardcodedValueSnapshot } from "../../dtos/AnalysisCache"
 import {
-    LAYERS,
-    REPOSITORY_VIOLATION_TYPES,
+    type PluginRuleName,
+    type RuleName,
     RULES,
     SEVERITY_ORDER,
     type SeverityLevel,
@@ -23,19 +27,70 @@ import type {
     AggregateBoundaryViolation,
     AnemicModelViolation,
     ArchitectureViolation,
+    BoundedContextViolation,
     CircularDependencyViolation,
+    CustomRuleViolation,
+    DeadCodeViolation,
     DependencyDirectionViolation,
     EntityExposureViolation,
     FrameworkLeakViolation,
     HardcodeViolation,
     NamingConventionViolation,
+    PackageMetrics,
+    PackageMetricViolation,
+    PublicModuleViolation,
     RepositoryPatternViolation,
     SecretViolation,
+    SuppressionViolation,
 } from "../AnalyzeProject"
 
+interface RuleContext {
+    config: GuardianConfig
+    suppressions: SuppressionFilter
+    changedFiles?: ReadonlySet<string>
+}
+
+/**
+ * What every detected violation has in common
+ */
+interface DetectedViolation {
+    file: string
+    line?: number
+    severity: SeverityLevel
+    cycle?: string[]
+    packageFiles?: string[]
+}
+
 export interface DetectionRequest {
     sourceFiles: SourceFile[]
     dependencyGraph: DependencyGraph
+    /**
+     * Type declarations of all files, to tell which returned types are
+     * entities and which packages decorators and base classes come from
+     */
+    symbolTable: SymbolTable
+    /**
+     * Declarations, imports and exports by project-relative path, to tell
+     * which exports are used
+     */
+    symbols: ReadonlyMap<string, FileSymbols>
+    /**
+     * Project-relative paths of the files package.json exposes
+     */
+    entryPoints: ReadonlySet<string>
+    config: GuardianConfig
+    /**
+     * Report only violations in these files (project-relative paths)
+     */
+    changedFiles?: ReadonlySet<string>
+    /**
+     * Results of the per-file detectors, in source file order
+     */
+    fileResults: FileDetectionResult[]
+    /**
+     * Package metrics, checked against the configured thresholds
+     */
+    packages: PackageMetrics[]
 }
 
 export interface DetectionResult {
@@ -50,89 +105,215 @@ export interface DetectionResult {
     aggregateBoundaryViolations: AggregateBoundaryViolation[]
     secretViolations: SecretViolation[]
     anemicModelViolations: AnemicModelViolation[]
+    suppressionViolations: SuppressionViolation[]
+    packageMetricViolations: PackageMetricViolation[]
+    boundedContextViolations: BoundedContextViolation[]
+    publicModuleViolations: PublicModuleViolation[]
+    deadCodeViolations: DeadCodeViolation[]
+    customViolations: CustomRuleViolation[]
 }
 
 /**
- * Pipeline step responsible for running all detectors
+ * Pipeline step responsible for running the graph-level detectors and
+ * merging them with the per-file results
  */
 export class ExecuteDetection {
-    // eslint-disable-next-line max-params
     constructor(
-        private readonly hardcodeDetector: IHardcodeDetector,
-        private readonly namingConventionDetector: INamingConventionDetector,
-        private readonly frameworkLeakDetector: IFrameworkLeakDetector,
-        private readonly entityExposureDetector: IEntityExposureDetector,
         private readonly dependencyDirectionDetector: IDependencyDirectionDetector,
-        private readonly repositoryPatternDetector: IRepositoryPatternDetector,
-        private readonly aggregateBoundaryDetector: IAggregateBoundaryDetector,
-        private readonly secretDetector: ISecretDetector,
-        private readonly anemicModelDetector: IAnemicModelDetector,
+        private readonly entityExposureDetector: IEntityExposureDetector,
+        private readonly frameworkLeakDetector: IFrameworkLeakDetector,
         private readonly duplicateValueTracker: IDuplicateValueTracker,
+        private readonly packageMetricsCalculator: PackageMetricsCalculator,
+        private readonly contextBoundaryChecker: ContextBoundaryChecker,
+        private readonly publicModuleChecker: PublicModuleChecker,
+        private readonly deadCodeChecker: DeadCodeChecker,
     ) {}
 
-    public async execute(request: DetectionRequest): Promise<DetectionResult> {
-        const secretViolations = await this.detectSecrets(request.sourceFiles)
+    public execute(request: DetectionRequest): DetectionResult {
+        const {
+            sourceFiles,
+            dependencyGraph,
+            symbolTable,
+            symbols,
+            entryPoints,
+            config,
+            changedFiles,
+            fileResults,
+            packages,
+        } = request
+
+        const context: RuleContext = {
+            config,
+            suppressions: new SuppressionFilter(sourceFiles),
+            changedFiles,
+        }
+
+        const importsByFile = new Map(
+            sourceFiles.map((file, index) => [file.path.relative, fileResults[index].imports]),
+        )
+        const customViolations = this.sortBySeverity(
+            this.groupByRule(fileResults.flatMap((result) => result.customViolations)).flatMap(
+                ([rule, violations]) => this.runRule(context, rule, () => violations),
+            ),
+        )
 
         return {
-            violations: this.sortBySeverity(this.detectViolations(request.sourceFiles)),
-            hardcodeViolations: this.sortBySeverity(this.detectHardcode(request.sourceFiles)),
-            circularDependencyViolations: this.sortBySeverity(
-                this.detectCircularDependencies(request.dependencyGraph),
+            violations: this.runRule(context, RULES.CLEAN_ARCHITECTURE, () =>
+                this.detectViolations(sourceFiles, fileResults, dependencyGraph, config.layerModel),
+            ),
+            hardcodeViolations: this.runRule(context, RULES.HARDCODED_VALUE, () =>
+                this.detectHardcode(sourceFiles, fileResults),
+            ),
+            circularDependencyViolations: this.runRule(context, RULES.CIRCULAR_DEPENDENCY, () =>
+                this.detectCircularDependencies(dependencyGraph),
+            ),
+            namingViolations: this.runRule(context, RULES.NAMING_CONVENTION, () =>
+                fileResults.flatMap((result) => result.namingViolations),
+            ),
+            frameworkLeakViolations: this.runRule(context, RULES.FRAMEWORK_LEAK, () =>
+                this.detectFrameworkLeaks(sourceFiles, fileResults, symbolTable, config),
+            ),
+            entityExposureViolations: this.runRule(context, RULES.ENTITY_EXPOSURE, () =>
+                this.detectEntityExposures(sourceFiles, fileResults, symbolTable),
+            ),
+            dependencyDirectionViolations: this.runRule(context, RULES.DEPENDENCY_DIRECTION, () =>
+                this.detectDependencyDirections(
+                    sourceFiles,
+                    fileResults,
+                    dependencyGraph,
+                    config.layerModel,
+                ),
             ),
-            namingViolations: this.sortBySeverity(
-                this.detectNamingConventions(request.sourceFiles),
+            repositoryPatternViolations: this.runRule(context, RULES.REPOSITORY_PATTERN, () =>
+                fileResults.flatMap((result) => result.repositoryPatternViolations),
             ),
-            frameworkLeakViolations: this.sortBySeverity(
-                this.detectFrameworkLeaks(request.sourceFiles),
+            aggregateBoundaryViolations: this.runRule(context, RULES.AGGREGATE_BOUNDARY, () =>
+                fileResults.flatMap((result) => result.aggregateBoundaryViolations),
             ),
-            entityExposureViolations: this.sortBySeverity(
-                this.detectEntityExposures(request.sourceFiles),
+            secretViolations: this.runRule(context, RULES.SECRET_EXPOSURE, () =>
+                fileResults.flatMap((result) => result.secretViolations),
             ),
-            dependencyDirectionViolations: this.sortBySeverity(
-                this.detectDependencyDirections(request.sourceFiles),
+            anemicModelViolations: this.runRule(context, RULES.ANEMIC_MODEL, () =>
+                fileResults.flatMap((result) => result.anemicModelViolations),
             ),
-            repositoryPatternViolations: this.sortBySeverity(
-                this.detectRepositoryPatternViolations(request.sourceFiles),
+            packageMetricViolations: this.runRule(context, RULES.PACKAGE_METRICS, () =>
+                this.packageMetricsCalculator.check(
+                    dependencyGraph,
+                    packages,
+                    config.packageMetrics.thresholds,
+                    config.packageMetrics.level,
+                ),
             ),
-            aggregateBoundaryViolations: this.sortBySeverity(
-                this.detectAggregateBoundaryViolations(request.sourceFiles),
+            boundedContextViolations: this.runRule(context, RULES.BOUNDED_CONTEXT, () =>
+                this.contextBoundaryChecker.check(
+                    dependencyGraph,
+                    importsByFile,
+                    config.boundedContexts,
+                ),
             ),
-            secretViolations: this.sortBySeverity(secretViolations),
-            anemicModelViolations: this.sortBySeverity(
-                this.detectAnemicModels(request.sourceFiles),
+            publicModuleViolations: this.runRule(context, RULES.PUBLIC_MODULE, () =>
+                this.publicModuleChecker.check(
+                    sourceFiles,
+                    dependencyGraph,
+                    importsByFile,
+                    symbolTable,
+                ),
             ),
+            deadCodeViolations: this.runRule(context, RULES.DEAD_CODE, () =>
+                this.deadCodeChecker.check(dependencyGraph, symbols, entryPoints, config.deadCode),
+            ),
+            // Last, after the other rules have marked the comments they used
+            suppressionViolations: this.runRule(context, RULES.SUPPRESSION_COMMENT, () =>
+                context.suppressions.report(config.suppressions, (rule) =>
+                    config.isRuleEnabled(rule as RuleName),
+                ),
+            ),
+            customViolations,
         }
     }
 
-    private detectViolations(sourceFiles: SourceFile[]): ArchitectureViolation[] {
-        const violations: ArchitectureViolation[] = []
+    /**
+     * Plugin rules are configured and suppressed one by one, like built-in rules
+     */
+    private groupByRule(
+        violations: CustomRuleViolation[],
+    ): [PluginRuleName, CustomRuleViolation[]][] {
+        const groups = new Map<PluginRuleName, CustomRuleViolation[]>()
+
+        for (const violation of violations) {
+            groups.set(violation.rule, [...(groups.get(violation.rule) ?? []), violation])
+        }
+
+        return [...groups]
+    }
+
+    /**
+     * Runs a detector unless the rule is switched off in the config,
+     * drops violations silenced by `guardian-disable` comments or outside
+     * the changed files, then applies the configured severity and sorts the results
+     */
+    private runRule<T extends DetectedViolation>(
+        context: RuleContext,
+        rule: RuleName | PluginRuleName,
+        detect: () => T[],
+    ): T[] {
+        const { config, suppressions, changedFiles } = context
+
+        if (!config.isRuleEnabled(rule)) {
+            return []
+        }
+
+        const violations = suppressions
+            .apply(rule, detect())
+            .filter((violation) => this.isChanged(violation, changedFiles))
+            .map((violation) => ({
+                ...violation,
+                severity: config.getSeverity(rule, violation.severity),
+            }))
+
+        return this.sortBySeverity(violations)
+    }
 
-        const layerRules: Record<string, string[]> = {
-            [LAYERS.DOMAIN]: [LAYERS.SHARED],
-            [LAYERS.APPLICATION]: [LAYERS.DOMAIN, LAYERS.SHARED],
-            [LAYERS.INFRASTRUCTURE]: [LAYERS.DOMAIN, LAYERS.APPLICATION, LAYERS.SHARED],
-            [LAYERS.SHARED]: [],
+    /**
+     * A cycle or a package counts as changed when any of its files changed
+     */
+    private isChanged(violation: DetectedViolation, changedFiles?: ReadonlySet<string>): boolean {
+        if (!changedFiles) {
+            return true
         }
 
-        for (const file of sourceFiles) {
+        const files = violation.cycle ?? violation.packageFiles ?? [violation.file]
+        return files.some((file) => changedFiles.has(file))
+    }
+
+    private detectViolations(
+        sourceFiles: SourceFile[],
+        fileResults: FileDetectionResult[],
+        dependencyGraph: DependencyGraph,
+        layerModel: LayerModel,
+    ): ArchitectureViolation[] {
+        const violations: ArchitectureViolation[] = []
+
+        for (const [index, file] of sourceFiles.entries()) {
             if (!file.layer) {
                 continue
             }
 
-            const allowedLayers = layerRules[file.layer]
-
-            for (const imp of file.imports) {
-                const importedLayer = this.detectLayerFromImport(imp)
+            for (const { specifier, line, isTypeOnly } of fileResults[index].imports) {
+                const target = dependencyGraph.resolveImport(file.path.relative, specifier)
+                const importedLayer = target
+                    ? dependencyGraph.getNode(target)?.file.layer
+                    : layerModel.detectImportLayer(specifier, file.path.relative)
 
                 if (
                     importedLayer &&
-                    importedLayer !== file.layer &&
-                    !allowedLayers.includes(importedLayer)
+                    !layerModel.canDependOn(file.layer, importedLayer, isTypeOnly)
                 ) {
                     violations.push({
                         rule: RULES.CLEAN_ARCHITECTURE,
                         message: `Layer "${file.layer}" cannot import from "${importedLayer}"`,
                         file: file.path.relative,
+                        line,
                         severity: VIOLATION_SEVERITY_MAP.ARCHITECTURE,
                     })
                 }
@@ -142,34 +323,16 @@ export class ExecuteDetection {
         return violations
     }
 
-    private detectLayerFromImport(importPath: string): string | undefined {
-        const layers = Object.values(LAYERS)
-
-        for (const layer of layers) {
-            if (importPath.toLowerCase().includes(layer)) {
-                return layer
-            }
-        }
-
-        return undefined
-    }
-
-    private detectHardcode(sourceFiles: SourceFile[]): HardcodeViolation[] {
-        const allHardcodedValues: {
-            value: HardcodedValue
-            file: SourceFile
-        }[] = []
-
-        for (const file of sourceFiles) {
-            const hardcodedValues = this.hardcodeDetector.detectAll(
-                file.content,
-                file.path.relative,
-            )
-
-            for (const hardcoded of hardcodedValues) {
-                allHardcodedValues.push({ value: hardcoded, file })
-            }
-        }
+    private detectHardcode(
+        sourceFiles: SourceFile[],
+        fileResults: FileDetectionResult[],
+    ): HardcodeViolation[] {
+        const allHardcodedValues = sourceFiles.flatMap((file, index) =>
+            fileResults[index].hardcodedValues.map((snapshot) => ({
+                value: this.fromSnapshot(snapshot),
+                file,
+            })),
+        )
 
         this.duplicateValueTracker.clear()
         for (const { value, file } of allHardcodedValues) {
@@ -217,6 +380,19 @@ export class ExecuteDetection {
         return violations
     }
 
+    private fromSnapshot(snapshot: HardcodedValueSnapshot): HardcodedValue {
+        return HardcodedValue.create(
+            snapshot.value,
+            snapshot.type,
+            snapshot.line,
+            snapshot.column,
+            snapshot.context,
+            snapshot.valueType,
+            undefined,
+            snapshot.withinFileUsageCount,
+        )
+    }
+
     private detectCircularDependencies(
         dependencyGraph: DependencyGraph,
     ): CircularDependencyViolation[] {
@@ -228,6 +404,7 @@ export class ExecuteDetection {
             violations.push({
                 rule: RULES.CIRCULAR_DEPENDENCY,
                 message: `Circular dependency detected: ${cycleChain}`,
+                file: cycle[0],
                 cycle,
                 severity: VIOLATION_SEVERITY_MAP.CIRCULAR_DEPENDENCY,
             })
@@ -236,102 +413,21 @@ export class ExecuteDetection {
         return violations
     }
 
-    private detectNamingConventions(sourceFiles: SourceFile[]): NamingConventionViolation[] {
-        const violations: NamingConventionViolation[] = []
-
-        for (const file of sourceFiles) {
-            const namingViolations = this.namingConventionDetector.detectViolations(
-                file.content,
-                file.path.filename,
-                file.layer,
-                file.path.relative,
-            )
-
-            for (const violation of namingViolations) {
-                violations.push({
-                    rule: RULES.NAMING_CONVENTION,
-                    type: violation.violationType,
-                    fileName: violation.fileName,
-                    layer: violation.layer,
-                    file: violation.filePath,
-                    expected: violation.expected,
-                    actual: violation.actual,
-                    message: violation.getMessage(),
-                    suggestion: violation.suggestion,
-                    severity: VIOLATION_SEVERITY_MAP.NAMING_CONVENTION,
-                })
-            }
-        }
-
-        return violations
-    }
-
-    private detectFrameworkLeaks(sourceFiles: SourceFile[]): FrameworkLeakViolation[] {
-        const violations: FrameworkLeakViolation[] = []
-
-        for (const file of sourceFiles) {
-            const leaks = this.frameworkLeakDetector.detectLeaks(
-                file.imports,
-                file.path.relative,
-                file.layer,
-            )
-
-            for (const leak of leaks) {
-                violations.push({
-                    rule: RULES.FRAMEWORK_LEAK,
-                    packageName: leak.packageName,
-                    category: leak.category,
-                    categoryDescription: leak.getCategoryDescription(),
-                    file: file.path.relative,
-                    layer: leak.layer,
-                    line: leak.line,
-                    message: leak.getMessage(),
-                    suggestion: leak.getSuggestion(),
-                    severity: VIOLATION_SEVERITY_MAP.FRAMEWORK_LEAK,
-                })
-            }
-        }
-
-        return violations
-    }
-
-    private detectEntityExposures(sourceFiles: SourceFile[]): EntityExposureViolation[] {
-        const violations: EntityExposureViolation[] = []
-
-        for (const file of sourceFiles) {
-            const exposures = this.entityExposureDetector.detectExposures(
-                file.content,
-                file.path.relative,
-                file.layer,
-            )
-
-            for (const exposure of exposures) {
-                violations.push({
-                    rule: RULES.ENTITY_EXPOSURE,
-                    entityName: exposure.entityName,
-                    returnType: exposure.returnType,
-                    file: file.path.relative,
-                    layer: exposure.layer,
-                    line: exposure.line,
-                    methodName: exposure.methodName,
-                    message: exposure.getMessage(),
-                    suggestion: exposure.getSuggestion(),
-                    severity: VIOLATION_SEVERITY_MAP.ENTITY_EXPOSURE,
-                })
-            }
-        }
-
-        return violations
-    }
-
-    private detectDependencyDirections(sourceFiles: SourceFile[]): DependencyDirectionViolation[] {
+    private detectDependencyDirections(
+        sourceFiles: SourceFile[],
+        fileResults: FileDetectionResult[],
+        dependencyGraph: DependencyGraph,
+        layerModel: LayerModel,
+    ): DependencyDirectionViolation[] {
         const violations: DependencyDirectionViolation[] = []
 
-        for (const file of sourceFiles) {
-            const directionViolations = this.dependencyDirectionDetector.detectViolations(
-                file.content,
+        for (const [index, file] of sourceFiles.entries()) {
+            const directionViolations = this.dependencyDirectionDetector.detectImportViolations(
+                fileResults[index].imports,
                 file.path.relative,
                 file.layer,
+                layerModel,
+                (importPath) => dependencyGraph.resolveImport(file.path.relative, importPath),
             )
 
             for (const violation of directionViolations) {
@@ -352,64 +448,37 @@ export class ExecuteDetection {
         return violations
     }
 
-    private detectRepositoryPatternViolations(
+    private detectEntityExposures(
         sourceFiles: SourceFile[],
-    ): RepositoryPatternViolation[] {
-        const violations: RepositoryPatternViolation[] = []
-
-        for (const file of sourceFiles) {
-            const patternViolations = this.repositoryPatternDetector.detectViolations(
-                file.content,
-                file.path.relative,
-                file.layer,
-            )
+        fileResults: FileDetectionResult[],
+        symbolTable: SymbolTable,
+    ): EntityExposureViolation[] {
+        const violations: EntityExposureViolation[] = []
 
-            for (const violation of patternViolations) {
-                violations.push({
-                    rule: RULES.REPOSITORY_PATTERN,
-                    violationType: violation.violationType as
-                        | typeof REPOSITORY_VIOLATION_TYPES.ORM_TYPE_IN_INTERFACE
-                        | typeof REPOSITORY_VIOLATION_TYPES.CONCRETE_REPOSITORY_IN_USE_CASE
-                        | typeof REPOSITORY_VIOLATION_TYPES.NEW_REPOSITORY_IN_USE_CASE
-                        | typeof REPOSITORY_VIOLATION_TYPES.NON_DOMAIN_METHOD_NAME,
-                    file: file.path.relative,
-                    layer: violation.layer,
-                    line: violation.line,
-                    details: violation.details,
-                    message: violation.getMessage(),
-                    suggestion: violation.getSuggestion(),
-                    severity: VIOLATION_SEVERITY_MAP.REPOSITORY_PATTERN,
-                })
+        for (const [index, file] of sourceFiles.entries()) {
+            if (!file.layer) {
+                continue
             }
-        }
-
-        return violations
-    }
-
-    private detectAggregateBoundaryViolations(
-        sourceFiles: SourceFile[],
-    ): AggregateBoundaryViolation[] {
-        const violations: AggregateBoundaryViolation[] = []
 
-        for (const file of sourceFiles) {
-            const boundaryViolations = this.aggregateBoundaryDetector.detectViolations(
-                file.content,
+            const exposures = this.entityExposureDetector.resolveExposures(
+                fileResults[index].returnedTypes,
                 file.path.relative,
                 file.layer,
+                (name) => symbolTable.resolveType(file.path.relative, name),
             )
 
-            for (const violation of boundaryViolations) {
+            for (const exposure of exposures) {
                 violations.push({
-                    rule: RULES.AGGREGATE_BOUNDARY,
-                    fromAggregate: violation.fromAggregate,
-                    toAggregate: violation.toAggregate,
-                    entityName: violation.entityName,
-                    importPath: violation.importPath,
+                    rule: RULES.ENTITY_EXPOSURE,
+                    entityName: exposure.entityName,
+                    returnType: exposure.returnType,
                     file: file.path.relative,
-                    line: violation.line,
-                    message: violation.getMessage(),
-                    suggestion: violation.getSuggestion(),
-                    severity: VIOLATION_SEVERITY_MAP.AGGREGATE_BOUNDARY,
+                    layer: exposure.layer,
+                    line: exposure.line,
+                    methodName: exposure.methodName,
+                    message: exposure.getMessage(),
+                    suggestion: exposure.getSuggestion(),
+                    severity: VIOLATION_SEVERITY_MAP.ENTITY_EXPOSURE,
                 })
             }
         }
@@ -417,56 +486,50 @@ export class ExecuteDetection {
         return violations
     }
 
-    private async detectSecrets(sourceFiles: SourceFile[]): Promise<SecretViolation[]> {
-        const violations: SecretViolation[] = []
+    /**
+     * Import leaks found per file, plus decorators and base classes whose
+     * package is known from the symbol table. A usage of a package the
+     * file already imports directly is covered by the import leak.
+     */
+    private detectFrameworkLeaks(
+        sourceFiles: SourceFile[],
+        fileResults: FileDetectionResult[],
+        symbolTable: SymbolTable,
+        config: GuardianConfig,
+    ): FrameworkLeakViolation[] {
+        const violations: FrameworkLeakViolation[] = []
 
-        for (const file of sourceFiles) {
-            const secretViolations = await this.secretDetector.detectAll(
-                file.content,
+        for (const [index, file] of sourceFiles.entries()) {
+            const importLeaks = fileResults[index].frameworkLeakViolations
+            const imported = new Set(importLeaks.map((leak) => leak.packageName))
+            const usageLeaks = this.frameworkLeakDetector.resolveUsageLeaks(
+                fileResults[index].frameworkUsages,
                 file.path.relative,
+                file.layer,
+                (name) => symbolTable.resolveExternal(file.path.relative, name),
+                config.frameworks,
             )
 
-            for (const secret of secretViolations) {
-                violations.push({
-                    rule: RULES.SECRET_EXPOSURE,
-                    secretType: secret.secretType,
-                    file: file.path.relative,
-                    line: secret.line,
-                    column: secret.column,
-                    message: secret.getMessage(),
-                    suggestion: secret.getSuggestion(),
-                    severity: "critical",
-                })
-            }
-        }
+            violations.push(...importLeaks)
 
-        return violations
-    }
-
-    private detectAnemicModels(sourceFiles: SourceFile[]): AnemicModelViolation[] {
-        const violations: AnemicModelViolation[] = []
-
-        for (const file of sourceFiles) {
-            const anemicModels = this.anemicModelDetector.detectAnemicModels(
-                file.content,
-                file.path.relative,
-                file.layer,
-            )
+            for (const leak of usageLeaks) {
+                if (imported.has(leak.packageName)) {
+                    continue
+                }
 
-            for (const anemicModel of anemicModels) {
                 violations.push({
-                    rule: RULES.ANEMIC_MODEL,
-                    className: anemicModel.className,
+                    rule: RULES.FRAMEWORK_LEAK,
+                    packageName: leak.packageName,
+                    category: leak.category,
+                    categoryDescription: leak.getCategoryDescription(),
+                    usage: leak.usage?.kind,
+                    symbol: leak.usage?.symbol,
                     file: file.path.relative,
-                    layer: anemicModel.layer,
-                    line: anemicModel.line,
-                    methodCount: anemicModel.methodCount,
-                    propertyCount: anemicModel.propertyCount,
-                    hasOnlyGettersSetters: anemicModel.hasOnlyGettersSetters,
-                    hasPublicSetters: anemicModel.hasPublicSetters,
-                    message: anemicModel.getMessage(),
-                    suggestion: anemicModel.getSuggestion(),
-                    severity: VIOLATION_SEVERITY_MAP.ANEMIC_MODEL,
+                    layer: leak.layer,
+                    line: leak.line,
+                    message: leak.getMessage(),
+                    suggestion: leak.getSuggestion(),
+                    severity: VIOLATION_SEVERITY_MAP.FRAMEWORK_LEAK,
                 })
             }
         }
@@ -1,4 +1,5 @@
-import { ICodeParser } from "../../../domain/services/ICodeParser"
+import * as path from "path"
+import { IModuleResolver } from "../../../domain/services/IModuleResolver"
 import { SourceFile } from "../../../domain/entities/SourceFile"
 import { DependencyGraph } from "../../../domain/entities/DependencyGraph"
 
@@ -9,43 +10,55 @@ export interface ParsingRequest {
 
 export interface ParsingResult {
     dependencyGraph: DependencyGraph
-    totalFunctions: number
+    /**
+     * Project-relative paths of the files package.json exposes as entry points
+     */
+    entryPoints: Set<string>
 }
 
 /**
- * Pipeline step responsible for AST parsing and dependency graph construction
+ * Pipeline step responsible for dependency graph construction
  */
 export class ParseSourceFiles {
-    constructor(private readonly codeParser: ICodeParser) {}
+    constructor(private readonly moduleResolver: IModuleResolver) {}
 
-    public execute(request: ParsingRequest): ParsingResult {
+    public async execute(request: ParsingRequest): Promise<ParsingResult> {
         const dependencyGraph = new DependencyGraph()
-        let totalFunctions = 0
+        const relativePaths = new Map<string, string>()
 
         for (const sourceFile of request.sourceFiles) {
             dependencyGraph.addFile(sourceFile)
+            relativePaths.set(path.resolve(sourceFile.path.absolute), sourceFile.path.relative)
+        }
 
-            if (sourceFile.path.isTypeScript()) {
-                const tree = this.codeParser.parseTypeScript(sourceFile.content)
-                const functions = this.codeParser.extractFunctions(tree)
-                totalFunctions += functions.length
-            }
+        const resolutionContext = await this.moduleResolver.createContext(
+            request.rootDir,
+            Array.from(relativePaths.keys()),
+        )
 
+        for (const sourceFile of request.sourceFiles) {
             for (const imp of sourceFile.imports) {
-                dependencyGraph.addDependency(
-                    sourceFile.path.relative,
-                    this.resolveImportPath(imp, sourceFile.path.relative, request.rootDir),
+                const resolved = this.moduleResolver.resolve(
+                    imp,
+                    path.resolve(sourceFile.path.absolute),
+                    resolutionContext,
                 )
+                const target = resolved ? relativePaths.get(resolved) : undefined
+
+                if (target) {
+                    dependencyGraph.addDependency(sourceFile.path.relative, target, imp)
+                }
             }
         }
 
-        return { dependencyGraph, totalFunctions }
-    }
-
-    private resolveImportPath(importPath: string, _currentFile: string, _rootDir: string): string {
-        if (importPath.startsWith(".")) {
-            return importPath
+        const entryPoints = new Set<string>()
+        for (const entryPoint of resolutionContext.entryPoints) {
+            const relative = relativePaths.get(entryPoint)
+            if (relative) {
+                entryPoints.add(relative)
+            }
         }
-        return importPath
+
+        return { dependencyGraph, entryPoints }
     }
 }
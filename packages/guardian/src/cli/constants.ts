@@ -7,11 +7,39 @@
  * - Easy to maintain and translate
  */
 
+import {
+    AGGREGATE_VIOLATION_MESSAGES,
+    ANEMIC_MODEL_MESSAGES,
+    BOUNDED_CONTEXT_MESSAGES,
+    CIRCULAR_DEPENDENCY_MESSAGES,
+    DEAD_CODE_MESSAGES,
+    DEPENDENCY_VIOLATION_MESSAGES,
+    ENTITY_EXPOSURE_MESSAGES,
+    FRAMEWORK_LEAK_MESSAGES,
+    PACKAGE_METRIC_MESSAGES,
+    PUBLIC_MODULE_MESSAGES,
+    REPOSITORY_PATTERN_MESSAGES,
+    SECRET_VIOLATION_MESSAGES,
+    SUPPRESSION_MESSAGES,
+} from "../domain/constants/Messages"
+import { HARDCODE_SUGGESTIONS } from "../domain/constants/Suggestions"
+import { NAMING_SUGGESTION_DEFAULT } from "../infrastructure/constants/naming-patterns"
+import { type RuleName, RULES } from "../shared/constants/rules"
+
 export const CLI_COMMANDS = {
     NAME: "guardian",
     CHECK: "check",
+    BASELINE: "baseline",
+    BASELINE_CREATE: "create",
+    FIX: "fix",
+    WATCH: "watch",
+    GRAPH: "graph",
 } as const
 
+export const DEFAULT_BASELINE_FILE = "guardian-baseline.json"
+
+export const DEFAULT_CACHE_DIR = ".guardian-cache"
+
 export const CLI_DESCRIPTIONS = {
     MAIN:
         "🛡️  Guardian - Code quality analyzer for TypeScript/JavaScript projects\n\n" +
@@ -50,6 +78,57 @@ export const CLI_DESCRIPTIONS = {
     MIN_SEVERITY_OPTION: "Filter by severity: critical|high|medium|low (e.g., --min-severity high)",
     ONLY_CRITICAL_OPTION: "Show only 🔴 CRITICAL issues (shortcut for --min-severity critical)",
     LIMIT_OPTION: "Limit violations shown per category (e.g., -l 10 shows first 10)",
+    CONFIG_OPTION:
+        "Path to config file (default: nearest guardian.config.ts|js|json from <path> upwards)",
+    FORMAT_OPTION: "Output format: text|json|sarif|html (default: text)",
+    OUTPUT_OPTION:
+        "Write the report to a file instead of stdout (json, sarif and html formats only)",
+    BASELINE_OPTION: "Report only violations that are not in the baseline file",
+    FAIL_ON_OPTION:
+        "Lowest severity that fails the check: critical|high|medium|low (default: gate.failOn from config, or low)",
+    SINCE_OPTION:
+        "Report only files changed since the merge base of <ref> and HEAD (default ref: main)",
+    STAGED_OPTION: "Report only staged files, analyzing the contents of the git index",
+    JOBS_OPTION: "Number of worker threads analyzing files in parallel (default: 1)",
+    NO_CACHE_OPTION: `Analyze every file again instead of reusing results from <path>/${DEFAULT_CACHE_DIR}`,
+    BASELINE:
+        "Manage the baseline of accepted violations\n\n" +
+        "WORKFLOW:\n" +
+        "  1. Run: guardian baseline create ./src\n" +
+        "  2. Commit guardian-baseline.json\n" +
+        "  3. Run: guardian check ./src --baseline guardian-baseline.json\n" +
+        "  4. Only newly introduced violations are reported\n" +
+        "  5. Re-create the baseline to prune fixed entries",
+    BASELINE_CREATE: "Write a fingerprinted snapshot of the current violations",
+    BASELINE_OUTPUT_OPTION: `Baseline file to write (default: ${DEFAULT_BASELINE_FILE})`,
+    FIX:
+        "Apply automatic fixes for a rule, previewing them as a diff by default\n\n" +
+        "WORKFLOW:\n" +
+        "  1. Run: guardian fix ./src --rule hardcoded-value\n" +
+        "  2. Review the diff and the constant names\n" +
+        "  3. Run: guardian fix ./src --rule hardcoded-value --write\n" +
+        "  4. Rename constants where the suggested name does not fit\n\n" +
+        "Use --rule public-module to rewrite deep imports into public modules\n" +
+        "so they go through the index of the module. Imports of names the index\n" +
+        "does not export are skipped.",
+    RULE_OPTION: `Rule to fix (supported: ${RULES.HARDCODED_VALUE}, ${RULES.PUBLIC_MODULE})`,
+    WRITE_OPTION: "Write the changes instead of printing them as a diff",
+    WATCH:
+        "Re-analyze the project on every save and print the violations that appeared or were resolved\n\n" +
+        "Only changed files and the files importing them are analyzed again; the\n" +
+        "dependency graph and per-file results are kept in memory between runs.\n" +
+        "A change to the config file or a plugin reloads the config.",
+    GRAPH:
+        "Export the dependency graph as Graphviz DOT, Mermaid or JSON\n\n" +
+        "Edges that are part of a circular dependency are drawn red, imports the\n" +
+        "layer model forbids are drawn dashed orange. Folder and layer graphs\n" +
+        "label each edge with the number of imports it stands for.",
+    GRAPH_FORMAT_OPTION: "Output format: dot|mermaid|json (default: dot)",
+    GRAPH_OUTPUT_OPTION: "Write the graph to a file instead of stdout",
+    LEVEL_OPTION: "Node granularity: file|folder|layer (default: file)",
+    ROOT_OPTION: "Only include files under this directory",
+    FOCUS_OPTION: "Only include this file and the files around it (see --depth)",
+    DEPTH_OPTION: "Import steps around --focus, in both directions (default: 1)",
 } as const
 
 export const CLI_OPTIONS = {
@@ -60,8 +139,49 @@ export const CLI_OPTIONS = {
     MIN_SEVERITY: "--min-severity <level>",
     ONLY_CRITICAL: "--only-critical",
     LIMIT: "-l, --limit <number>",
+    CONFIG: "-c, --config <path>",
+    FORMAT: "-f, --format <format>",
+    OUTPUT: "-o, --output <path>",
+    BASELINE: "-b, --baseline <path>",
+    FAIL_ON: "--fail-on <level>",
+    SINCE: "--since [ref]",
+    STAGED: "--staged",
+    NO_CACHE: "--no-cache",
+    JOBS: "-j, --jobs <number>",
+    RULE: "-r, --rule <rule>",
+    WRITE: "-w, --write",
+    LEVEL: "--level <level>",
+    ROOT: "--root <dir>",
+    FOCUS: "--focus <file>",
+    DEPTH: "--depth <number>",
+} as const
+
+/**
+ * Process exit codes of `guardian check`
+ */
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    VIOLATIONS: 1,
+    ERROR: 2,
+} as const
+
+export const OUTPUT_FORMATS = {
+    TEXT: "text",
+    JSON: "json",
+    SARIF: "sarif",
+    HTML: "html",
+} as const
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[keyof typeof OUTPUT_FORMATS]
+
+export const GRAPH_FORMATS = {
+    DOT: "dot",
+    MERMAID: "mermaid",
+    JSON: "json",
 } as const
 
+export type GraphFormat = (typeof GRAPH_FORMATS)[keyof typeof GRAPH_FORMATS]
+
 export const SEVERITY_DISPLAY_LABELS = {
     CRITICAL: "🔴 CRITICAL",
     HIGH: "🟠 HIGH",
@@ -100,6 +220,8 @@ export const CLI_MESSAGES = {
     ANALYZING: "\n🛡️  Guardian - Analyzing your code...\n",
     METRICS_HEADER: "📊 Project Metrics:",
     LAYER_DISTRIBUTION_HEADER: "\n📦 Layer Distribution:",
+    PACKAGE_METRICS_HEADER:
+        "\n📐 Package Metrics (Ca/Ce coupling, I instability, A abstractness, D distance):",
     VIOLATIONS_HEADER: "\n⚠️  Found",
     CIRCULAR_DEPS_HEADER: "\n🔄 Found",
     NAMING_VIOLATIONS_HEADER: "\n📝 Found",
@@ -109,6 +231,38 @@ export const CLI_MESSAGES = {
     TIP: "\n💡 Tip: Fix these issues to improve code quality and maintainability.\n",
     HELP_FOOTER: "\nRun with --help for more options",
     ERROR_PREFIX: "Error analyzing project:",
+    UNKNOWN_FORMAT: "Unknown output format",
+    OUTPUT_REQUIRES_REPORT_FORMAT:
+        "--output can only be used with a report format (--format json, sarif or html)",
+    UNKNOWN_SEVERITY: "Unknown severity level",
+    GATE_PASSED: "\n🚦 Quality gate passed",
+    GATE_FAILED: "\n🚦 Quality gate failed:",
+    BASELINE_WRITTEN: "\n✅ Baseline written to",
+    BASELINE_SUPPRESSED: "\n📌 Baseline: hiding",
+    BASELINE_FIXED_HEADER: "\n🧹 Fixed since baseline",
+    BASELINE_PRUNE_TIP: "   Re-create the baseline to prune these entries.",
+    SINCE_WITH_STAGED: "--since and --staged cannot be used together",
+    INVALID_JOBS: "--jobs must be a positive integer, got",
+    CHANGED_FILES_HEADER: "\n🔀 Reporting violations in",
+    CACHE_HEADER: "\n💾 Cache:",
+    UNSUPPORTED_FIX_RULE: "Automatic fixes are not available for rule",
+    NOTHING_TO_FIX: "\n✅ No hardcoded values to fix",
+    NOTHING_TO_FIX_IMPORTS: "\n✅ No imports to fix",
+    FIX_CONSTANTS_HEADER: "\n🔧 Constants:",
+    FIX_SKIPPED_HEADER: "\n⏭️  Skipped",
+    FIX_DRY_RUN: "\n👀 Dry run, no files were changed. Re-run with --write to apply the fix.",
+    FIX_WRITTEN: "\n✅ Updated",
+    WATCHING: "\n👀 Watching",
+    WATCH_STOP_HINT: "Press Ctrl+C to stop.",
+    WATCH_CHANGED_HEADER: "\n🔄",
+    WATCH_APPEARED: "   ➕",
+    WATCH_RESOLVED: "   ✅",
+    WATCH_UNCHANGED: "   No new or resolved issues",
+    WATCH_ERROR: "\n❌",
+    UNKNOWN_GRAPH_FORMAT: "Unknown graph format",
+    UNKNOWN_GRAPH_LEVEL: "Unknown graph level",
+    INVALID_DEPTH: "--depth must be a positive integer, got",
+    DEPTH_REQUIRES_FOCUS: "--depth can only be used together with --focus",
 } as const
 
 export const CLI_LABELS = {
@@ -116,13 +270,45 @@ export const CLI_LABELS = {
     TOTAL_FUNCTIONS: "Total functions:",
     TOTAL_IMPORTS: "Total imports:",
     FILES: "files",
+    PACKAGE: "Package",
+    PACKAGE_METRIC_COLUMNS: ["Files", "Ca", "Ce", "I", "A", "D"],
     ARCHITECTURE_VIOLATIONS: "architecture violations:",
     CIRCULAR_DEPENDENCIES: "circular dependencies:",
     NAMING_VIOLATIONS: "naming convention violations:",
     HARDCODE_VIOLATIONS: "hardcoded values:",
     ISSUES_TOTAL: "issues total",
+    BASELINE_ENTRIES: "entries",
+    GATE_SEVERITY_FAILURE: "violation(s) with severity",
+    GATE_OR_ABOVE: "or above",
+    GATE_THRESHOLD_FAILURE: "violation(s), max",
+    BASELINE_KNOWN_VIOLATIONS: "known violations",
+    CHANGED_FILES: "changed file(s)",
+    CHANGED_SINCE: "since",
+    STAGED: "staged",
+    CACHE_HITS: "hits",
+    CACHE_MISSES: "misses",
+    FIX_VALUES: "value(s)",
+    FIX_IMPORTS: "import(s)",
+    FIX_FILES: "file(s)",
+    FIX_REUSED: "existing",
+    FIX_NEW_FILE: "new file",
+    WATCH_CHANGED: "changed",
+    WATCH_MORE_FILES: "more",
+    WATCH_REANALYZED: "file(s) re-analyzed",
+    WATCH_ISSUES: "issue(s)",
+    WATCH_IN: "in",
 } as const
 
+/**
+ * Signals that stop `guardian watch`
+ */
+export const WATCH_STOP_SIGNALS = ["SIGINT", "SIGTERM"] as const
+
+/**
+ * Changed files named in a `guardian watch` update before the rest are counted
+ */
+export const WATCH_LISTED_FILES = 3
+
 export const CLI_HELP_TEXT = {
     POSITION: "after",
     EXAMPLES_HEADER: "\nEXAMPLES:\n",
@@ -138,7 +324,31 @@ export const CLI_HELP_TEXT = {
     EXAMPLE_NO_ARCHITECTURE:
         "  $ guardian check ./src --no-architecture        # Skip architecture checks\n",
     EXAMPLE_EXCLUDE:
-        "  $ guardian check ./src -e dist build            # Exclude additional dirs\n\n",
+        "  $ guardian check ./src -e dist build            # Exclude additional dirs\n",
+    EXAMPLE_CONFIG:
+        "  $ guardian check ./src -c guardian.config.json  # Use a specific config file\n",
+    EXAMPLE_FAIL_ON:
+        "  $ guardian check ./src --fail-on high           # Fail only on high and critical issues\n",
+    EXAMPLE_BASELINE:
+        "  $ guardian check ./src -b guardian-baseline.json  # Only new violations (guardian baseline create)\n",
+    EXAMPLE_SINCE:
+        "  $ guardian check . --since main                # Only files changed on this branch\n",
+    EXAMPLE_STAGED:
+        "  $ guardian check . --staged                    # Only staged files (pre-commit hook)\n",
+    EXAMPLE_JOBS:
+        "  $ guardian check . --jobs 8                    # Analyze files in 8 worker threads\n",
+    EXAMPLE_NO_CACHE:
+        "  $ guardian check ./src --no-cache              # Analyze every file, ignoring the cache\n",
+    EXAMPLE_JSON:
+        "  $ guardian check ./src --format json           # Machine-readable JSON report\n",
+    EXAMPLE_SARIF:
+        "  $ guardian check ./src -f sarif -o guardian.sarif  # SARIF report for code scanning\n",
+    EXAMPLE_FIX:
+        "  $ guardian fix ./src --rule hardcoded-value --write  # Extract hardcoded values to constants\n",
+    EXAMPLE_WATCH:
+        "  $ guardian watch ./src                          # Re-check changed files on every save\n",
+    EXAMPLE_GRAPH:
+        "  $ guardian graph ./src --level layer -f mermaid  # Layer diagram for the docs\n\n",
     FIX_HEADER: "HOW TO FIX COMMON ISSUES:\n",
     FIX_HARDCODE: "  Hardcoded values    → Extract to constants file\n",
     FIX_CIRCULAR: "  Circular deps       → Break cycle by extracting shared code\n",
@@ -176,4 +386,198 @@ export const CLI_HELP_TEXT = {
         "       Context: <code-snippet>\n" +
         "       💡 Suggestion: <exact-fix-instruction>\n\n",
     AI_AGENT_PRIORITY: "  PRIORITY ORDER: CRITICAL → HIGH → MEDIUM → LOW\n\n",
+    AI_AGENT_WATCH:
+        "  DURING A SESSION: keep `guardian watch ./src` running, every save prints\n" +
+        "  the issues the edit introduced (➕) and the ones it resolved (✅)\n\n",
+} as const
+
+/**
+ * Unified diff layout used to preview fixes
+ */
+export const UNIFIED_DIFF = {
+    CONTEXT_LINES: 3,
+    OLD_PREFIX: "a/",
+    NEW_PREFIX: "b/",
+    DEV_NULL: "/dev/null",
+    CONTEXT: " ",
+    REMOVED: "-",
+    ADDED: "+",
+} as const
+
+/**
+ * Graphviz DOT and Mermaid syntax of `guardian graph`
+ */
+export const GRAPH_SYNTAX = {
+    DOT_HEADER: ["digraph dependencies {", "    rankdir=LR", "    node [shape=box]"],
+    DOT_FOOTER: "}",
+    DOT_CLUSTER_PREFIX: "cluster_",
+    DOT_ARROW: "->",
+    MERMAID_HEADER: "graph LR",
+    MERMAID_NODE_PREFIX: "n",
+    MERMAID_SUBGRAPH_PREFIX: "layer_",
+    MERMAID_END: "end",
+    MERMAID_ARROW: "-->",
+    MERMAID_LINK_STYLE: "linkStyle",
+    INDENT: "    ",
+} as const
+
+/**
+ * Edge highlighting of `guardian graph`: cycle edges are red and thick,
+ * edges breaking the layer model orange and dashed. An edge that is both is
+ * red and dashed.
+ */
+export const GRAPH_EDGE_STYLES = {
+    DOT_CYCLE_COLOR: 'color="red"',
+    DOT_CYCLE_WIDTH: "penwidth=2",
+    DOT_LAYER_VIOLATION_COLOR: 'color="orange"',
+    DOT_LAYER_VIOLATION_LINE: 'style="dashed"',
+    MERMAID_CYCLE_COLOR: "stroke:red",
+    MERMAID_CYCLE_WIDTH: "stroke-width:2px",
+    MERMAID_LAYER_VIOLATION_COLOR: "stroke:orange",
+    MERMAID_LAYER_VIOLATION_LINE: "stroke-dasharray:5 5",
+} as const
+
+/**
+ * Texts of the HTML report
+ */
+export const HTML_REPORT = {
+    TITLE: "Guardian report",
+    SUMMARY: "Summary",
+    ISSUES: "Issues",
+    FILES_ANALYZED: "Files analyzed",
+    FUNCTIONS: "Functions",
+    IMPORTS: "Imports",
+    GATE_PASSED: "Quality gate passed",
+    GATE_FAILED: "Quality gate failed",
+    RULES: "Violations by rule",
+    RULE: "Rule",
+    TOTAL: "Total",
+    DIAGRAM: "Dependency diagram",
+    DIAGRAM_LEGEND:
+        "Click a node to highlight its imports. Red edges are part of a cycle, dashed edges break the layer rules, numbers count imports.",
+    NO_DIAGRAM: "No dependencies between analyzed files.",
+    FINDINGS: "Findings",
+    NO_FINDINGS: "No violations found.",
+    SUGGESTION: "Suggestion:",
+    RELATED_FILES: "Also in the cycle:",
+    IMPORTS_LABEL: "import(s)",
+    SNIPPET_CONTEXT_LINES: 2,
+} as const
+
+/**
+ * Layout of the dependency diagram in the HTML report: nodes on a circle
+ */
+export const HTML_DIAGRAM = {
+    MIN_RADIUS: 120,
+    NODE_SPACING: 90,
+    MARGIN: 140,
+    NODE_RADIUS: 10,
+    LABEL_OFFSET: 16,
+    ARROW_GAP: 14,
+    EDGE_OFFSET: 4,
 } as const
+
+/**
+ * SARIF 2.1.0 log constants
+ */
+export const SARIF = {
+    VERSION: "2.1.0",
+    SCHEMA: "https://json.schemastore.org/sarif-2.1.0.json",
+    TOOL_NAME: CLI_COMMANDS.NAME,
+    INFORMATION_URI: "https://github.com/samiyev/puaros/tree/main/packages/guardian",
+    SRCROOT: "%SRCROOT%",
+    PLUGIN_RULE_DESCRIPTION: "Rule provided by a guardian plugin",
+    PLUGIN_RULE_HELP: "See the documentation of the plugin that provides this rule.",
+} as const
+
+export const SARIF_LEVELS = {
+    ERROR: "error",
+    WARNING: "warning",
+    NOTE: "note",
+} as const
+
+export type SarifLevel = (typeof SARIF_LEVELS)[keyof typeof SARIF_LEVELS]
+
+/**
+ * One-line rule descriptions for report formats
+ */
+export const RULE_DESCRIPTIONS: Record<RuleName, string> = {
+    [RULES.CLEAN_ARCHITECTURE]: "Files must only import from layers they may depend on",
+    [RULES.HARDCODED_VALUE]: "Magic numbers and strings should be extracted to named constants",
+    [RULES.CIRCULAR_DEPENDENCY]: "Modules must not import each other in a cycle",
+    [RULES.NAMING_CONVENTION]: "File and class names must follow the conventions of their layer",
+    [RULES.FRAMEWORK_LEAK]: "Domain code must not import frameworks or infrastructure libraries",
+    [RULES.ENTITY_EXPOSURE]: "Domain entities must not be returned from application boundaries",
+    [RULES.DEPENDENCY_DIRECTION]: "Dependencies must point inwards, towards the domain",
+    [RULES.REPOSITORY_PATTERN]: "Repositories must be persistence-agnostic domain interfaces",
+    [RULES.AGGREGATE_BOUNDARY]: "Aggregates must reference each other by ID only",
+    [RULES.SECRET_EXPOSURE]: "Secrets must not be committed to source code",
+    [RULES.ANEMIC_MODEL]: "Domain entities should contain behaviour, not just data",
+    [RULES.SUPPRESSION_COMMENT]: "guardian-disable comments must be used and explain why",
+    [RULES.PACKAGE_METRICS]:
+        "Packages must keep the configured instability, abstractness and distance",
+    [RULES.BOUNDED_CONTEXT]:
+        "Bounded contexts must only import each other through their public API",
+    [RULES.PUBLIC_MODULE]: "Public modules must only be imported through their index",
+    [RULES.DEAD_CODE]: "Exports and files should be imported somewhere or be entry points",
+}
+
+/**
+ * How-to-fix text per rule, built from the detectors' suggestion messages
+ */
+export const RULE_HELP: Record<RuleName, readonly string[]> = {
+    [RULES.CLEAN_ARCHITECTURE]: [
+        DEPENDENCY_VIOLATION_MESSAGES.DOMAIN_USE_DI,
+        DEPENDENCY_VIOLATION_MESSAGES.APPLICATION_DEFINE_PORT,
+        DEPENDENCY_VIOLATION_MESSAGES.APPLICATION_IMPLEMENT_ADAPTER,
+    ],
+    [RULES.HARDCODED_VALUE]: [
+        HARDCODE_SUGGESTIONS.EXTRACT_CONSTANT,
+        HARDCODE_SUGGESTIONS.MOVE_ENVIRONMENT_VALUES,
+    ],
+    [RULES.CIRCULAR_DEPENDENCY]: [
+        CIRCULAR_DEPENDENCY_MESSAGES.EXTRACT_SHARED_CODE,
+        DEPENDENCY_VIOLATION_MESSAGES.DOMAIN_USE_DI,
+    ],
+    [RULES.NAMING_CONVENTION]: [NAMING_SUGGESTION_DEFAULT],
+    [RULES.FRAMEWORK_LEAK]: [
+        FRAMEWORK_LEAK_MESSAGES.DEFAULT_MESSAGE,
+        DEPENDENCY_VIOLATION_MESSAGES.DOMAIN_USE_DI,
+    ],
+    [RULES.ENTITY_EXPOSURE]: [
+        ENTITY_EXPOSURE_MESSAGES.MAP_TO_DTO,
+        ENTITY_EXPOSURE_MESSAGES.KEEP_ENTITIES_INSIDE,
+    ],
+    [RULES.DEPENDENCY_DIRECTION]: [
+        DEPENDENCY_VIOLATION_MESSAGES.DOMAIN_INDEPENDENCE,
+        DEPENDENCY_VIOLATION_MESSAGES.DOMAIN_USE_DI,
+        DEPENDENCY_VIOLATION_MESSAGES.APPLICATION_NO_INFRA,
+        DEPENDENCY_VIOLATION_MESSAGES.APPLICATION_DEFINE_PORT,
+        DEPENDENCY_VIOLATION_MESSAGES.APPLICATION_IMPLEMENT_ADAPTER,
+    ],
+    [RULES.REPOSITORY_PATTERN]: [
+        REPOSITORY_PATTERN_MESSAGES.STEP_REMOVE_ORM_TYPES,
+        REPOSITORY_PATTERN_MESSAGES.STEP_USE_DOMAIN_TYPES,
+        REPOSITORY_PATTERN_MESSAGES.STEP_KEEP_CLEAN,
+    ],
+    [RULES.AGGREGATE_BOUNDARY]: Object.values(AGGREGATE_VIOLATION_MESSAGES),
+    [RULES.SECRET_EXPOSURE]: Object.values(SECRET_VIOLATION_MESSAGES),
+    [RULES.ANEMIC_MODEL]: [
+        ANEMIC_MODEL_MESSAGES.REMOVE_PUBLIC_SETTERS,
+        ANEMIC_MODEL_MESSAGES.USE_METHODS_FOR_CHANGES,
+        ANEMIC_MODEL_MESSAGES.ENCAPSULATE_INVARIANTS,
+        ANEMIC_MODEL_MESSAGES.USE_DOMAIN_EVENTS,
+    ],
+    [RULES.SUPPRESSION_COMMENT]: [
+        SUPPRESSION_MESSAGES.REMOVE_UNUSED,
+        SUPPRESSION_MESSAGES.ADD_REASON,
+    ],
+    [RULES.PACKAGE_METRICS]: [
+        PACKAGE_METRIC_MESSAGES.REDUCE_INSTABILITY,
+        PACKAGE_METRIC_MESSAGES.RAISE_ABSTRACTNESS,
+        PACKAGE_METRIC_MESSAGES.REDUCE_DISTANCE,
+    ],
+    [RULES.BOUNDED_CONTEXT]: Object.values(BOUNDED_CONTEXT_MESSAGES),
+    [RULES.PUBLIC_MODULE]: Object.values(PUBLIC_MODULE_MESSAGES),
+    [RULES.DEAD_CODE]: Object.values(DEAD_CODE_MESSAGES),
+}
@@ -0,0 +1,160 @@
+import type { FileChange } from "../../domain/services/IHardcodeFixer"
+import { UNIFIED_DIFF } from "../constants"
+
+type DiffMarker =
+    | typeof UNIFIED_DIFF.CONTEXT
+    | typeof UNIFIED_DIFF.REMOVED
+    | typeof UNIFIED_DIFF.ADDED
+
+interface DiffLine {
+    marker: DiffMarker
+    text: string
+}
+
+/**
+ * Renders a file change as a unified diff, like `git diff` does
+ *
+ * Lines are compared with the Myers algorithm, so the diff is minimal,
+ * and changes closer than twice the context are merged into one hunk.
+ *
+ * @example
+ * ```typescript
+ * const diff = new DiffFormatter().format({
+ *     file: "domain/User.ts",
+ *     before: "const a = 1\n",
+ *     after: "const a = ONE\n",
+ *     created: false,
+ * })
+ * ```
+ */
+export class DiffFormatter {
+    format(change: FileChange): string {
+        const oldFile = change.created
+            ? UNIFIED_DIFF.DEV_NULL
+            : UNIFIED_DIFF.OLD_PREFIX + change.file
+        const script = this.diff(this.splitLines(change.before), this.splitLines(change.after))
+
+        return [
+            `--- ${oldFile}`,
+            `+++ ${UNIFIED_DIFF.NEW_PREFIX}${change.file}`,
+            ...this.hunks(script),
+        ].join("\n")
+    }
+
+    private splitLines(text: string): string[] {
+        const lines = text.split("\n")
+
+        if (lines.at(-1) === "") {
+            lines.pop()
+        }
+        return lines
+    }
+
+    /**
+     * Shortest edit script turning `before` into `after`
+     */
+    private diff(before: string[], after: string[]): DiffLine[] {
+        const trace = this.trace(before, after)
+        const offset = before.length + after.length + 1
+        const script: DiffLine[] = []
+        let x = before.length
+        let y = after.length
+
+        for (let depth = trace.length - 1; depth >= 0; depth--) {
+            const frontier = trace[depth]
+            const k = x - y
+            const previousK =
+                k === -depth || (k !== depth && frontier[offset + k - 1] < frontier[offset + k + 1])
+                    ? k + 1
+                    : k - 1
+            const previousX = depth === 0 ? 0 : frontier[offset + previousK]
+            const previousY = depth === 0 ? 0 : previousX - previousK
+
+            while (x > previousX && y > previousY) {
+                script.push({ marker: UNIFIED_DIFF.CONTEXT, text: before[--x] })
+                y--
+            }
+
+            if (depth > 0 && x === previousX) {
+                script.push({ marker: UNIFIED_DIFF.ADDED, text: after[--y] })
+            } else if (depth > 0) {
+                script.push({ marker: UNIFIED_DIFF.REMOVED, text: before[--x] })
+            }
+        }
+
+        return script.reverse()
+    }
+
+    /**
+     * Furthest reaching x of every diagonal, before each number of edits
+     */
+    private trace(before: string[], after: string[]): number[][] {
+        const offset = before.length + after.length + 1
+        const frontier = new Array<number>(2 * offset + 1).fill(0)
+        const trace: number[][] = []
+
+        for (let depth = 0; depth < offset; depth++) {
+            trace.push([...frontier])
+
+            for (let k = -depth; k <= depth; k += 2) {
+                let x =
+                    k === -depth ||
+                    (k !== depth && frontier[offset + k - 1] < frontier[offset + k + 1])
+                        ? frontier[offset + k + 1]
+                        : frontier[offset + k - 1] + 1
+                let y = x - k
+
+                while (x < before.length && y < after.length && before[x] === after[y]) {
+                    x++
+                    y++
+                }
+                frontier[offset + k] = x
+
+                if (x >= before.length && y >= after.length) {
+                    return trace
+                }
+            }
+        }
+
+        return trace
+    }
+
+    private hunks(script: DiffLine[]): string[] {
+        const context = UNIFIED_DIFF.CONTEXT_LINES
+        const changed = script.flatMap((line, index) =>
+            line.marker === UNIFIED_DIFF.CONTEXT ? [] : [index],
+        )
+        const output: string[] = []
+
+        for (let first = 0; first < changed.length; ) {
+            let last = first
+            while (
+                last + 1 < changed.length &&
+                changed[last + 1] - changed[last] <= 2 * context + 1
+            ) {
+                last++
+            }
+
+            const start = Math.max(0, changed[first] - context)
+            const end = Math.min(script.length, changed[last] + context + 1)
+            output.push(this.hunkHeader(script, start, end))
+            output.push(...script.slice(start, end).map((line) => line.marker + line.text))
+
+            first = last + 1
+        }
+
+        return output
+    }
+
+    private hunkHeader(script: DiffLine[], start: number, end: number): string {
+        const count = (lines: DiffLine[], excluded: DiffMarker): number =>
+            lines.filter((line) => line.marker !== excluded).length
+        const range = (before: number, length: number): string =>
+            `${String(length === 0 ? before : before + 1)},${String(length)}`
+
+        const preceding = script.slice(0, start)
+        const hunk = script.slice(start, end)
+
+        return `@@ -${range(count(preceding, UNIFIED_DIFF.ADDED), count(hunk, UNIFIED_DIFF.ADDED))} +${range(count(preceding, UNIFIED_DIFF.REMOVED), count(hunk, UNIFIED_DIFF.REMOVED))} @@`
+    }
+}
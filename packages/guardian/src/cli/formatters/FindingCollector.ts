@@ -0,0 +1,73 @@
+import type { ViolationReport } from "../../application/dtos/JsonReport"
+import { HARDCODE_MESSAGES } from "../../domain/constants/Messages"
+import { HARDCODE_SUGGESTIONS } from "../../domain/constants/Suggestions"
+import type { SeverityLevel } from "../../shared/constants"
+
+/**
+ * A violation reduced to what every report format needs
+ */
+export interface Finding {
+    rule: string
+    severity: SeverityLevel
+    message: string
+    file: string
+    line?: number
+    /**
+     * 1-based column
+     */
+    column?: number
+    suggestion?: string
+    relatedFiles?: string[]
+}
+
+/**
+ * Flattens the violation arrays of a report into findings, in report order
+ *
+ * Hardcode columns come from tree-sitter and are 0-based, finding columns
+ * are 1-based like in editors and SARIF viewers.
+ */
+export class FindingCollector {
+    public collect(report: ViolationReport): Finding[] {
+        return [
+            ...report.violations,
+            ...report.hardcodeViolations.map((v) => ({
+                rule: v.rule,
+                severity: v.severity,
+                message: `${HARDCODE_MESSAGES.HARDCODED} ${v.type} ${JSON.stringify(v.value)}`,
+                file: v.file,
+                line: v.line,
+                column: v.column + 1,
+                suggestion: `${HARDCODE_SUGGESTIONS.EXTRACT_TO} ${v.suggestion.constantName} ${HARDCODE_SUGGESTIONS.IN_LOCATION} ${v.suggestion.location}`,
+            })),
+            ...report.circularDependencyViolations.map((v) => ({
+                rule: v.rule,
+                severity: v.severity,
+                message: v.message,
+                file: v.file,
+                relatedFiles: v.cycle.slice(1),
+            })),
+            ...report.namingViolations,
+            ...report.frameworkLeakViolations,
+            ...report.entityExposureViolations,
+            ...report.dependencyDirectionViolations,
+            ...report.repositoryPatternViolations,
+            ...report.aggregateBoundaryViolations,
+            ...report.secretViolations,
+            ...report.anemicModelViolations,
+            ...report.suppressionViolations,
+            ...report.packageMetricViolations,
+            ...report.boundedContextViolations.map((v) => ({
+                rule: v.rule,
+                severity: v.severity,
+                message: v.message,
+                file: v.file,
+                line: v.line,
+                suggestion: v.suggestion,
+                relatedFiles: v.chain.slice(1),
+            })),
+            ...report.publicModuleViolations,
+            ...report.deadCodeViolations,
+            ...report.customViolations,
+        ]
+    }
+}
@@ -0,0 +1,73 @@
+import type { FixPlan } from "../../domain/services/IHardcodeFixer"
+import { RULES } from "../../shared/constants/rules"
+import { CLI_LABELS, CLI_MESSAGES } from "../constants"
+import { DiffFormatter } from "./DiffFormatter"
+
+/**
+ * Rules `guardian fix` can fix
+ */
+export type FixableRule = typeof RULES.HARDCODED_VALUE | typeof RULES.PUBLIC_MODULE
+
+/**
+ * Prints the result of `guardian fix`
+ *
+ * A dry run shows every change as a unified diff, a write only lists the
+ * updated files.
+ */
+export class FixFormatter {
+    private readonly diffFormatter = new DiffFormatter()
+
+    displayPlan(plan: FixPlan, written: boolean, rule: FixableRule = RULES.HARDCODED_VALUE): void {
+        const isImportFix = rule === RULES.PUBLIC_MODULE
+
+        if (plan.changes.length === 0) {
+            console.log(
+                isImportFix ? CLI_MESSAGES.NOTHING_TO_FIX_IMPORTS : CLI_MESSAGES.NOTHING_TO_FIX,
+            )
+        }
+
+        if (!written) {
+            for (const change of plan.changes) {
+                console.log(`\n${this.diffFormatter.format(change)}`)
+            }
+        }
+
+        if (plan.constants.length > 0) {
+            console.log(CLI_MESSAGES.FIX_CONSTANTS_HEADER)
+            for (const constant of plan.constants) {
+                const reused = constant.reused ? ` (${CLI_LABELS.FIX_REUSED})` : ""
+                console.log(
+                    `   ${constant.name} = ${constant.value} → ${constant.file}${reused}, ${String(constant.usages)} ${CLI_LABELS.FIX_VALUES}`,
+                )
+            }
+        }
+
+        if (plan.skipped.length > 0) {
+            console.log(
+                `${CLI_MESSAGES.FIX_SKIPPED_HEADER} ${String(plan.skipped.length)} ${isImportFix ? CLI_LABELS.FIX_IMPORTS : CLI_LABELS.FIX_VALUES}:`,
+            )
+            for (const skipped of plan.skipped) {
+                console.log(
+                    `   ${skipped.file}:${String(skipped.line)}:${String(skipped.column)} - ${skipped.reason}`,
+                )
+            }
+        }
+
+        if (plan.changes.length === 0) {
+            return
+        }
+
+        if (!written) {
+            console.log(CLI_MESSAGES.FIX_DRY_RUN)
+            return
+        }
+
+        console.log(
+            `${CLI_MESSAGES.FIX_WRITTEN} ${String(plan.changes.length)} ${CLI_LABELS.FIX_FILES}:`,
+        )
+        for (const change of plan.changes) {
+            const created = change.created ? ` (${CLI_LABELS.FIX_NEW_FILE})` : ""
+            console.log(`   ${change.file}${created}`)
+        }
+    }
+}
@@ -0,0 +1,178 @@
+import {
+    GRAPH_LEVELS,
+    type GraphView,
+    type GraphViewEdge,
+    type GraphViewNode,
+} from "../../application/dtos/GraphView"
+import { GRAPH_EDGE_STYLES, GRAPH_FORMATS, GRAPH_SYNTAX, type GraphFormat } from "../constants"
+
+const JSON_INDENT = 2
+
+/**
+ * Renders a {@link GraphView} as Graphviz DOT, Mermaid or JSON
+ *
+ * In file and folder graphs, nodes of the same layer are grouped into a
+ * DOT cluster or Mermaid subgraph. Edges of folder and layer graphs are
+ * labelled with the number of imports they stand for.
+ *
+ * @example
+ * ```typescript
+ * const mermaid = new GraphFormatter().format(view, "mermaid")
+ * // graph LR
+ * //     n0["domain"]
+ * //     n1["infrastructure"]
+ * //     n1 -->|4| n0
+ * ```
+ */
+export class GraphFormatter {
+    format(view: GraphView, format: GraphFormat): string {
+        switch (format) {
+            case GRAPH_FORMATS.MERMAID:
+                return this.toMermaid(view)
+            case GRAPH_FORMATS.JSON:
+                return JSON.stringify(view, null, JSON_INDENT)
+            default:
+                return this.toDot(view)
+        }
+    }
+
+    private toDot(view: GraphView): string {
+        const { INDENT } = GRAPH_SYNTAX
+        const lines: string[] = [...GRAPH_SYNTAX.DOT_HEADER]
+
+        for (const [layer, nodes] of this.groupByLayer(view)) {
+            if (layer === undefined) {
+                lines.push(...nodes.map((node) => INDENT + this.dotId(node.id)))
+                continue
+            }
+
+            lines.push(
+                `${INDENT}subgraph ${this.dotId(GRAPH_SYNTAX.DOT_CLUSTER_PREFIX + layer)} {`,
+                `${INDENT}${INDENT}label=${this.dotId(layer)}`,
+                ...nodes.map((node) => INDENT + INDENT + this.dotId(node.id)),
+                `${INDENT}}`,
+            )
+        }
+
+        for (const edge of view.edges) {
+            const attributes = this.dotAttributes(edge, view)
+            const suffix = attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""
+
+            lines.push(
+                `${INDENT}${this.dotId(edge.from)} ${GRAPH_SYNTAX.DOT_ARROW} ${this.dotId(edge.to)}${suffix}`,
+            )
+        }
+
+        lines.push(GRAPH_SYNTAX.DOT_FOOTER)
+        return lines.join("\n")
+    }
+
+    private toMermaid(view: GraphView): string {
+        const { INDENT } = GRAPH_SYNTAX
+        const ids = new Map(
+            view.nodes.map((node, index) => [
+                node.id,
+                GRAPH_SYNTAX.MERMAID_NODE_PREFIX + String(index),
+            ]),
+        )
+        const lines: string[] = [GRAPH_SYNTAX.MERMAID_HEADER]
+        const nodeLine = (node: GraphViewNode): string =>
+            `${ids.get(node.id) ?? node.id}["${this.mermaidLabel(node.id)}"]`
+
+        for (const [layer, nodes] of this.groupByLayer(view)) {
+            if (layer === undefined) {
+                lines.push(...nodes.map((node) => INDENT + nodeLine(node)))
+                continue
+            }
+
+            const subgraphId = GRAPH_SYNTAX.MERMAID_SUBGRAPH_PREFIX + layer.replace(/\W/g, "_")
+            lines.push(
+                `${INDENT}subgraph ${subgraphId} ["${this.mermaidLabel(layer)}"]`,
+                ...nodes.map((node) => INDENT + INDENT + nodeLine(node)),
+                INDENT + GRAPH_SYNTAX.MERMAID_END,
+            )
+        }
+
+        const linkStyles = new Map<string, number[]>()
+
+        view.edges.forEach((edge, index) => {
+            const arrow =
+                view.level === GRAPH_LEVELS.FILE
+                    ? GRAPH_SYNTAX.MERMAID_ARROW
+                    : `${GRAPH_SYNTAX.MERMAID_ARROW}|${String(edge.imports)}|`
+            lines.push(
+                `${INDENT}${ids.get(edge.from) ?? edge.from} ${arrow} ${ids.get(edge.to) ?? edge.to}`,
+            )
+
+            const style = this.mermaidStyle(edge)
+            if (style) {
+                linkStyles.set(style, [...(linkStyles.get(style) ?? []), index])
+            }
+        })
+
+        for (const [style, indexes] of linkStyles) {
+            lines.push(`${INDENT}${GRAPH_SYNTAX.MERMAID_LINK_STYLE} ${indexes.join(",")} ${style}`)
+        }
+
+        return lines.join("\n")
+    }
+
+    /**
+     * Nodes by layer in order of appearance, nodes without a layer under
+     * `undefined`; layer graphs are not grouped
+     */
+    private groupByLayer(view: GraphView): Map<string | undefined, GraphViewNode[]> {
+        const groups = new Map<string | undefined, GraphViewNode[]>()
+
+        for (const node of view.nodes) {
+            const layer = view.level === GRAPH_LEVELS.LAYER ? undefined : node.layer
+            groups.set(layer, [...(groups.get(layer) ?? []), node])
+        }
+
+        return groups
+    }
+
+    private dotAttributes(edge: GraphViewEdge, view: GraphView): string[] {
+        const attributes: string[] = []
+
+        if (edge.cycle) {
+            attributes.push(GRAPH_EDGE_STYLES.DOT_CYCLE_COLOR, GRAPH_EDGE_STYLES.DOT_CYCLE_WIDTH)
+        } else if (edge.layerViolation) {
+            attributes.push(GRAPH_EDGE_STYLES.DOT_LAYER_VIOLATION_COLOR)
+        }
+        if (edge.layerViolation) {
+            attributes.push(GRAPH_EDGE_STYLES.DOT_LAYER_VIOLATION_LINE)
+        }
+        if (view.level !== GRAPH_LEVELS.FILE) {
+            attributes.push(`label=${this.dotId(String(edge.imports))}`)
+        }
+
+        return attributes
+    }
+
+    private mermaidStyle(edge: GraphViewEdge): string | undefined {
+        const styles: string[] = []
+
+        if (edge.cycle) {
+            styles.push(
+                GRAPH_EDGE_STYLES.MERMAID_CYCLE_COLOR,
+                GRAPH_EDGE_STYLES.MERMAID_CYCLE_WIDTH,
+            )
+        } else if (edge.layerViolation) {
+            styles.push(GRAPH_EDGE_STYLES.MERMAID_LAYER_VIOLATION_COLOR)
+        }
+        if (edge.layerViolation) {
+            styles.push(GRAPH_EDGE_STYLES.MERMAID_LAYER_VIOLATION_LINE)
+        }
+
+        return styles.length > 0 ? styles.join(",") : undefined
+    }
+
+    private dotId(value: string): string {
+        return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+    }
+
+    private mermaidLabel(value: string): string {
+        return value.replace(/"/g, "#quot;")
+    }
+}
@@ -0,0 +1,413 @@
+import { GRAPH_LEVELS, type GraphView } from "../../application/dtos/GraphView"
+import type { ViolationReport } from "../../application/dtos/JsonReport"
+import type { ProjectMetrics } from "../../application/use-cases/AnalyzeProject"
+import type { SourceFile } from "../../domain/entities/SourceFile"
+import type { GateResult } from "../../domain/value-objects/QualityGate"
+import { SEVERITY_LEVELS, SEVERITY_ORDER, type SeverityLevel } from "../../shared/constants"
+import { CLI_COMMANDS, HTML_DIAGRAM, HTML_REPORT } from "../constants"
+import { type Finding, FindingCollector } from "./FindingCollector"
+import { HTML_REPORT_SCRIPT, HTML_REPORT_STYLES } from "./html-report-assets"
+import { SEVERITY_LABELS } from "./OutputFormatter"
+
+export interface HtmlReportContext {
+    rootDir: string
+    metrics: ProjectMetrics
+    /**
+     * Violations matching the severity filter, before `--limit`
+     */
+    totalIssues: number
+    gate: GateResult
+    /**
+     * Analyzed files, for the code around each finding
+     */
+    files: SourceFile[]
+    /**
+     * Dependency graphs to draw, the first one is shown initially
+     */
+    graphs: GraphView[]
+}
+
+/**
+ * Directory or file of the file tree, with the findings below it
+ */
+interface TreeEntry {
+    children: Map<string, TreeEntry>
+    count: number
+    anchor?: string
+}
+
+interface Point {
+    x: number
+    y: number
+}
+
+const SEVERITIES: SeverityLevel[] = Object.values(SEVERITY_LEVELS)
+
+/**
+ * Renders guardian results as a single HTML file
+ *
+ * Styles, script and diagrams are inlined, so the report can be opened
+ * without network access. It contains a summary per severity and rule, a
+ * file tree with violation counts, the findings of every file with the
+ * source lines around them, and a dependency diagram per graph level
+ * whose nodes highlight their imports when clicked.
+ *
+ * @example
+ * ```typescript
+ * const html = new HtmlFormatter(version).format(report, {
+ *     rootDir: "./src",
+ *     metrics: result.metrics,
+ *     totalIssues: 12,
+ *     gate,
+ *     files: result.files,
+ *     graphs: [new GraphViewBuilder().build(result, { level: "layer" })],
+ * })
+ *
+ * await fs.writeFile("report.html", html)
+ * ```
+ */
+export class HtmlFormatter {
+    constructor(private readonly toolVersion: string) {}
+
+    public format(report: ViolationReport, context: HtmlReportContext): string {
+        const findings = new FindingCollector().collect(report)
+        const title = `${HTML_REPORT.TITLE}: ${context.rootDir}`
+
+        return [
+            "<!DOCTYPE html>",
+            '<html lang="en">',
+            "<head>",
+            '<meta charset="utf-8">',
+            '<meta name="viewport" content="width=device-width, initial-scale=1">',
+            `<title>${this.escape(title)}</title>`,
+            `<style>${HTML_REPORT_STYLES}</style>`,
+            "</head>",
+            "<body>",
+            `<header><h1>🛡️ ${this.escape(title)}</h1><p>${CLI_COMMANDS.NAME} ${this.escape(this.toolVersion)}</p></header>`,
+            "<main>",
+            this.renderSummary(findings, context),
+            this.renderRules(findings),
+            this.renderDiagrams(context.graphs),
+            this.renderFindings(findings, context.files),
+            "</main>",
+            `<script>${HTML_REPORT_SCRIPT}</script>`,
+            "</body>",
+            "</html>",
+            "",
+        ].join("\n")
+    }
+
+    private renderSummary(findings: Finding[], context: HtmlReportContext): string {
+        const card = (label: string, value: number, className = ""): string =>
+            `<div class="card ${className}"><strong>${String(value)}</strong>${this.escape(label)}</div>`
+        const gate = context.gate.passed
+            ? `<p class="gate-passed">✔ ${HTML_REPORT.GATE_PASSED}</p>`
+            : `<p class="gate-failed">✘ ${HTML_REPORT.GATE_FAILED}</p>`
+
+        return [
+            `<section id="summary"><h2>${HTML_REPORT.SUMMARY}</h2>`,
+            '<div class="cards">',
+            card(HTML_REPORT.ISSUES, context.totalIssues),
+            ...SEVERITIES.map((severity) =>
+                card(
+                    SEVERITY_LABELS[severity],
+                    findings.filter((finding) => finding.severity === severity).length,
+                    severity,
+                ),
+            ),
+            card(HTML_REPORT.FILES_ANALYZED, context.metrics.totalFiles),
+            card(HTML_REPORT.FUNCTIONS, context.metrics.totalFunctions),
+            card(HTML_REPORT.IMPORTS, context.metrics.totalImports),
+            "</div>",
+            gate,
+            "</section>",
+        ].join("\n")
+    }
+
+    private renderRules(findings: Finding[]): string {
+        const counts = new Map<string, Record<SeverityLevel, number>>()
+
+        for (const finding of findings) {
+            const row =
+                counts.get(finding.rule) ??
+                (Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as Record<
+                    SeverityLevel,
+                    number
+                >)
+            row[finding.severity]++
+            counts.set(finding.rule, row)
+        }
+
+        if (counts.size === 0) {
+            return ""
+        }
+
+        const cell = (count: number): string =>
+            `<td${count === 0 ? ' class="zero"' : ""}>${String(count)}</td>`
+        const rows = [...counts]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([rule, row]) => {
+                const total = SEVERITIES.reduce((sum, severity) => sum + row[severity], 0)
+                return `<tr><td><code>${this.escape(rule)}</code></td>${SEVERITIES.map((severity) => cell(row[severity])).join("")}${cell(total)}</tr>`
+            })
+
+        return [
+            `<section id="rules"><h2>${HTML_REPORT.RULES}</h2>`,
+            `<table><thead><tr><th>${HTML_REPORT.RULE}</th>${SEVERITIES.map((severity) => `<th>${SEVERITY_LABELS[severity]}</th>`).join("")}<th>${HTML_REPORT.TOTAL}</th></tr></thead>`,
+            `<tbody>${rows.join("\n")}</tbody></table>`,
+            "</section>",
+        ].join("\n")
+    }
+
+    private renderDiagrams(graphs: GraphView[]): string {
+        const drawn = graphs.filter((graph) => graph.nodes.length > 0)
+        const body =
+            drawn.length === 0
+                ? `<p class="legend">${HTML_REPORT.NO_DIAGRAM}</p>`
+                : [
+                      '<div class="toolbar">',
+                      ...drawn.map(
+                          (graph, index) =>
+                              `<button data-view="graph-${graph.level}"${index === 0 ? ' class="active"' : ""}>${this.escape(graph.level)}</button>`,
+                      ),
+                      "</div>",
+                      `<p class="legend">${HTML_REPORT.DIAGRAM_LEGEND}</p>`,
+                      ...drawn.map((graph, index) => this.renderDiagram(graph, index === 0)),
+                  ].join("\n")
+
+        return `<section id="diagram"><h2>${HTML_REPORT.DIAGRAM}</h2>\n${body}\n</section>`
+    }
+
+    /**
+     * Draws the graph as SVG with its nodes on a circle
+     */
+    private renderDiagram(graph: GraphView, visible: boolean): string {
+        const { MARGIN, MIN_RADIUS, NODE_RADIUS, NODE_SPACING, LABEL_OFFSET } = HTML_DIAGRAM
+        const radius = Math.max(MIN_RADIUS, (graph.nodes.length * NODE_SPACING) / (2 * Math.PI))
+        const size = 2 * (radius + MARGIN)
+        const positions = new Map<string, Point>(
+            graph.nodes.map((node, index) => {
+                const angle = (2 * Math.PI * index) / graph.nodes.length - Math.PI / 2
+                return [
+                    node.id,
+                    {
+                        x: size / 2 + radius * Math.cos(angle),
+                        y: size / 2 + radius * Math.sin(angle),
+                    },
+                ]
+            }),
+        )
+        const markerId = `arrow-${graph.level}`
+
+        const edges = graph.edges.map((edge) => {
+            const from = positions.get(edge.from)
+            const to = positions.get(edge.to)
+            return from && to ? this.renderEdge(graph, edge, from, to, markerId) : ""
+        })
+        const nodes = graph.nodes.map((node) => {
+            const { x, y } = positions.get(node.id) ?? { x: 0, y: 0 }
+            const below = y > size / 2
+            const labelY = below ? y + LABEL_OFFSET + NODE_RADIUS : y - LABEL_OFFSET
+
+            return [
+                `<g class="node" data-id="${this.escape(node.id)}">`,
+                `<title>${this.escape(node.id)} (${String(node.files)})</title>`,
+                `<circle cx="${this.coordinate(x)}" cy="${this.coordinate(y)}" r="${String(NODE_RADIUS)}"/>`,
+                `<text x="${this.coordinate(x)}" y="${this.coordinate(labelY)}">${this.escape(node.id)}</text>`,
+                "</g>",
+            ].join("")
+        })
+
+        return [
+            `<svg id="graph-${graph.level}" class="graph" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${this.coordinate(size)} ${this.coordinate(size)}" width="${this.coordinate(size)}"${visible ? "" : ' style="display: none"'}>`,
+            `<defs><marker id="${markerId}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#8c959f"/></marker></defs>`,
+            ...edges,
+            ...nodes,
+            "</svg>",
+        ].join("\n")
+    }
+
+    /**
+     * Edges are shifted to their right, so imports in both directions
+     * between two nodes do not overlap
+     */
+    private renderEdge(
+        graph: GraphView,
+        edge: GraphView["edges"][number],
+        from: Point,
+        to: Point,
+        markerId: string,
+    ): string {
+        const { ARROW_GAP, EDGE_OFFSET } = HTML_DIAGRAM
+        const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+        const unit = { x: (to.x - from.x) / length, y: (to.y - from.y) / length }
+        const shift = { x: -unit.y * EDGE_OFFSET, y: unit.x * EDGE_OFFSET }
+        const start = {
+            x: from.x + unit.x * ARROW_GAP + shift.x,
+            y: from.y + unit.y * ARROW_GAP + shift.y,
+        }
+        const end = {
+            x: to.x - unit.x * ARROW_GAP + shift.x,
+            y: to.y - unit.y * ARROW_GAP + shift.y,
+        }
+        const classes = [
+            "edge",
+            ...(edge.cycle ? ["cycle"] : []),
+            ...(edge.layerViolation ? ["layer-violation"] : []),
+        ].join(" ")
+        const label =
+            graph.level === GRAPH_LEVELS.FILE
+                ? ""
+                : `<text class="count" x="${this.coordinate((start.x + end.x) / 2)}" y="${this.coordinate((start.y + end.y) / 2)}">${String(edge.imports)}</text>`
+
+        return [
+            `<g><title>${this.escape(`${edge.from} → ${edge.to}: ${String(edge.imports)} ${HTML_REPORT.IMPORTS_LABEL}`)}</title>`,
+            `<line class="${classes}" data-from="${this.escape(edge.from)}" data-to="${this.escape(edge.to)}" x1="${this.coordinate(start.x)}" y1="${this.coordinate(start.y)}" x2="${this.coordinate(end.x)}" y2="${this.coordinate(end.y)}" marker-end="url(#${markerId})"/>`,
+            `${label}</g>`,
+        ].join("")
+    }
+
+    private renderFindings(findings: Finding[], files: SourceFile[]): string {
+        if (findings.length === 0) {
+            return `<section id="findings"><h2>${HTML_REPORT.FINDINGS}</h2><p>${HTML_REPORT.NO_FINDINGS}</p></section>`
+        }
+
+        const byFile = new Map<string, Finding[]>()
+        for (const finding of findings) {
+            byFile.set(finding.file, [...(byFile.get(finding.file) ?? []), finding])
+        }
+
+        const contents = new Map(files.map((file) => [file.path.relative, file.content]))
+        const groups = [...byFile].sort(([a], [b]) => a.localeCompare(b))
+        const anchors = new Map(groups.map(([file], index) => [file, `file-${String(index)}`]))
+
+        const sections = groups.map(([file, fileFindings]) => {
+            const sorted = [...fileFindings].sort(
+                (a, b) =>
+                    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+                    (a.line ?? 0) - (b.line ?? 0),
+            )
+            return [
+                `<details class="file" id="${anchors.get(file) ?? ""}">`,
+                `<summary>${this.escape(file)} <span class="badge">${String(sorted.length)}</span></summary>`,
+                ...sorted.map((finding) => this.renderFinding(finding, contents.get(file))),
+                "</details>",
+            ].join("\n")
+        })
+
+        return [
+            `<section id="findings"><h2>${HTML_REPORT.FINDINGS}</h2>`,
+            '<div class="toolbar">',
+            ...SEVERITIES.map(
+                (severity) =>
+                    `<button data-severity-filter="${severity}">${SEVERITY_LABELS[severity]}</button>`,
+            ),
+            "</div>",
+            '<div class="layout">',
+            `<nav class="tree">${this.renderTree(this.buildTree(byFile, anchors))}</nav>`,
+            `<div>${sections.join("\n")}</div>`,
+            "</div>",
+            "</section>",
+        ].join("\n")
+    }
+
+    private renderFinding(finding: Finding, content?: string): string {
+        const location = [finding.line, finding.line === undefined ? undefined : finding.column]
+            .filter((part) => part !== undefined)
+            .join(":")
+
+        return [
+            `<div class="finding" data-severity="${finding.severity}">`,
+            `<div><span class="severity">${finding.severity}</span> <span class="rule">${this.escape(finding.rule)}</span>${location ? ` <code>:${location}</code>` : ""}</div>`,
+            `<div>${this.escape(finding.message)}</div>`,
+            finding.suggestion
+                ? `<div class="suggestion">💡 ${HTML_REPORT.SUGGESTION} ${this.escape(finding.suggestion)}</div>`
+                : "",
+            finding.relatedFiles
+                ? `<div class="suggestion">${HTML_REPORT.RELATED_FILES} ${finding.relatedFiles.map((file) => `<code>${this.escape(file)}</code>`).join(", ")}</div>`
+                : "",
+            this.renderSnippet(content, finding.line),
+            "</div>",
+        ].join("")
+    }
+
+    /**
+     * Source lines around the finding, the finding's line highlighted
+     */
+    private renderSnippet(content: string | undefined, line: number | undefined): string {
+        if (content === undefined || line === undefined || line < 1) {
+            return ""
+        }
+
+        const lines = content.split(/\r?\n/)
+        const first = Math.max(1, line - HTML_REPORT.SNIPPET_CONTEXT_LINES)
+        const last = Math.min(lines.length, line + HTML_REPORT.SNIPPET_CONTEXT_LINES)
+
+        if (first > last) {
+            return ""
+        }
+
+        const rendered = lines.slice(first - 1, last).map((text, index) => {
+            const number = first + index
+            return `<span${number === line ? ' class="hit"' : ""}><i>${String(number)}</i>${this.escape(text)}</span>`
+        })
+
+        return `<pre class="snippet">${rendered.join("")}</pre>`
+    }
+
+    private buildTree(
+        byFile: Map<string, Finding[]>,
+        anchors: Map<string, string>,
+    ): Map<string, TreeEntry> {
+        const root = new Map<string, TreeEntry>()
+
+        for (const [file, fileFindings] of byFile) {
+            const parts = file.split(/[\\/]/)
+            let level = root
+
+            parts.forEach((part, index) => {
+                const entry: TreeEntry = level.get(part) ?? { children: new Map(), count: 0 }
+                entry.count += fileFindings.length
+                if (index === parts.length - 1) {
+                    entry.anchor = anchors.get(file)
+                }
+                level.set(part, entry)
+                level = entry.children
+            })
+        }
+
+        return root
+    }
+
+    private renderTree(entries: Map<string, TreeEntry>): string {
+        const items = [...entries]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, entry]) => {
+                const badge = `<span class="badge">${String(entry.count)}</span>`
+                const link = entry.anchor
+                    ? `<a href="#${entry.anchor}">${this.escape(name)}</a> ${badge}`
+                    : ""
+
+                if (entry.children.size === 0) {
+                    return `<li>${link}</li>`
+                }
+
+                return `<li>${link}<details open><summary>${this.escape(name)}/ ${badge}</summary>${this.renderTree(entry.children)}</details></li>`
+            })
+
+        return `<ul>${items.join("")}</ul>`
+    }
+
+    private coordinate(value: number): string {
+        return value.toFixed(1)
+    }
+
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;")
+    }
+}
@@ -0,0 +1,81 @@
+import {
+    JSON_REPORT_SCHEMA_VERSION,
+    type JsonReport,
+    type JsonReportBaseline,
+    type JsonReportChanges,
+    type JsonReportFilters,
+    type ViolationReport,
+} from "../../application/dtos/JsonReport"
+import type { ProjectMetrics } from "../../application/use-cases/AnalyzeProject"
+import type { GateResult } from "../../domain/value-objects/QualityGate"
+import { SEVERITY_LEVELS, type SeverityLevel } from "../../shared/constants"
+import { CLI_COMMANDS } from "../constants"
+
+export interface JsonReportContext {
+    rootDir: string
+    filters: JsonReportFilters
+    metrics: ProjectMetrics
+    /**
+     * Violations matching the severity filter, before `--limit`
+     */
+    totalIssues: number
+    gate: GateResult
+    baseline?: JsonReportBaseline
+    changes?: JsonReportChanges
+}
+
+/**
+ * Converts guardian results to the versioned JSON report
+ *
+ * @example
+ * ```typescript
+ * const formatter = new JsonFormatter(version)
+ * const report = formatter.format(violations, {
+ *     rootDir: "./src",
+ *     filters: { minSeverity: "high", limit: null },
+ *     metrics: result.metrics,
+ *     totalIssues: 12,
+ * })
+ * ```
+ */
+export class JsonFormatter {
+    constructor(private readonly toolVersion: string) {}
+
+    public format(report: ViolationReport, context: JsonReportContext): JsonReport {
+        const bySeverity = this.countBySeverity(report)
+
+        return {
+            schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+            tool: { name: CLI_COMMANDS.NAME, version: this.toolVersion },
+            rootDir: context.rootDir,
+            filters: context.filters,
+            summary: {
+                totalIssues: context.totalIssues,
+                reportedIssues: Object.values(bySeverity).reduce((sum, count) => sum + count, 0),
+                bySeverity,
+            },
+            metrics: context.metrics,
+            gate: context.gate,
+            baseline: context.baseline,
+            changes: context.changes,
+            ...report,
+        }
+    }
+
+    private countBySeverity(report: ViolationReport): Record<SeverityLevel, number> {
+        const counts: Record<SeverityLevel, number> = {
+            [SEVERITY_LEVELS.CRITICAL]: 0,
+            [SEVERITY_LEVELS.HIGH]: 0,
+            [SEVERITY_LEVELS.MEDIUM]: 0,
+            [SEVERITY_LEVELS.LOW]: 0,
+        }
+
+        for (const violations of Object.values(report)) {
+            for (const violation of violations) {
+                counts[violation.severity]++
+            }
+        }
+
+        return counts
+    }
+}
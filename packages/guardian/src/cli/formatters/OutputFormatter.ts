@@ -3,19 +3,25 @@ import type {
     AggregateBoundaryViolation,
     AnemicModelViolation,
     ArchitectureViolation,
+    BoundedContextViolation,
     CircularDependencyViolation,
+    CustomRuleViolation,
+    DeadCodeViolation,
     DependencyDirectionViolation,
     EntityExposureViolation,
     FrameworkLeakViolation,
     HardcodeViolation,
     NamingConventionViolation,
+    PackageMetricViolation,
+    PublicModuleViolation,
     RepositoryPatternViolation,
     SecretViolation,
+    SuppressionViolation,
 } from "../../application/use-cases/AnalyzeProject"
 import { SEVERITY_DISPLAY_LABELS, SEVERITY_SECTION_HEADERS } from "../constants"
 import { ViolationGrouper } from "../groupers/ViolationGrouper"
 
-const SEVERITY_LABELS: Record<SeverityLevel, string> = {
+export const SEVERITY_LABELS: Record<SeverityLevel, string> = {
     [SEVERITY_LEVELS.CRITICAL]: SEVERITY_DISPLAY_LABELS.CRITICAL,
     [SEVERITY_LEVELS.HIGH]: SEVERITY_DISPLAY_LABELS.HIGH,
     [SEVERITY_LEVELS.MEDIUM]: SEVERITY_DISPLAY_LABELS.MEDIUM,
@@ -107,7 +113,8 @@ export class OutputFormatter {
     }
 
     formatFrameworkLeak(fl: FrameworkLeakViolation, index: number): void {
-        console.log(`${String(index + 1)}. ${fl.file}`)
+        const location = fl.line ? `${fl.file}:${String(fl.line)}` : fl.file
+        console.log(`${String(index + 1)}. ${location}`)
         console.log(`   Severity: ${SEVERITY_LABELS[fl.severity]}`)
         console.log(`   Package: ${fl.packageName}`)
         console.log(`   Category: ${fl.categoryDescription}`)
@@ -232,4 +239,67 @@ export class OutputFormatter {
         })
         console.log("")
     }
+
+    formatSuppressionViolation(sc: SuppressionViolation, index: number): void {
+        console.log(`${String(index + 1)}. ${sc.file}:${String(sc.line)}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[sc.severity]}`)
+        console.log(`   Comment: ${sc.directive}`)
+        console.log(`   ${sc.message}`)
+        console.log(`   💡 Suggestion: ${sc.suggestion}`)
+        console.log("")
+    }
+
+    formatPackageMetricViolation(pm: PackageMetricViolation, index: number): void {
+        console.log(`${String(index + 1)}. ${pm.package}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[pm.severity]}`)
+        console.log(`   ${pm.message}`)
+        console.log(`   💡 Suggestion: ${pm.suggestion}`)
+        console.log("")
+    }
+
+    formatBoundedContextViolation(bc: BoundedContextViolation, index: number): void {
+        const location = bc.line === undefined ? bc.file : `${bc.file}:${String(bc.line)}`
+        console.log(`${String(index + 1)}. ${location}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[bc.severity]}`)
+        console.log(`   Contexts: ${bc.fromContext} → ${bc.toContext}`)
+        console.log("   Import chain:")
+        bc.chain.forEach((file, i) => {
+            console.log(`     ${String(i + 1)}. ${file}`)
+        })
+        console.log(`   💡 Suggestion: ${bc.suggestion}`)
+        console.log("")
+    }
+
+    formatPublicModuleViolation(pm: PublicModuleViolation, index: number): void {
+        console.log(`${String(index + 1)}. ${pm.file}:${String(pm.line)}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[pm.severity]}`)
+        console.log(`   Import: ${pm.importPath} → ${pm.suggestedImport}`)
+        console.log(`   ${pm.message}`)
+        console.log(`   💡 Suggestion: ${pm.suggestion}`)
+        console.log("")
+    }
+
+    formatDeadCodeViolation(dc: DeadCodeViolation, index: number): void {
+        const location = dc.line === undefined ? dc.file : `${dc.file}:${String(dc.line)}`
+        console.log(`${String(index + 1)}. ${location}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[dc.severity]}`)
+        console.log(`   Type: ${dc.type}`)
+        console.log(`   ${dc.message}`)
+        console.log(`   💡 Suggestion: ${dc.suggestion}`)
+        console.log("")
+    }
+
+    formatCustomViolation(cv: CustomRuleViolation, index: number): void {
+        const location = [cv.file, cv.line, cv.line === undefined ? undefined : cv.column]
+            .filter((part) => part !== undefined)
+            .join(":")
+        console.log(`${String(index + 1)}. ${location}`)
+        console.log(`   Severity: ${SEVERITY_LABELS[cv.severity]}`)
+        console.log(`   Rule: ${cv.rule}`)
+        console.log(`   ${cv.message}`)
+        if (cv.suggestion) {
+            console.log(`   💡 Suggestion: ${cv.suggestion}`)
+        }
+        console.log("")
+    }
 }
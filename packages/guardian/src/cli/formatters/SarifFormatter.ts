@@ -0,0 +1,164 @@
+import * as path from "path"
+import { pathToFileURL } from "url"
+import type { ViolationReport } from "../../application/dtos/JsonReport"
+import { type PluginRuleName, type RuleName, RULES } from "../../shared/constants/rules"
+import { SEVERITY_LEVELS, type SeverityLevel } from "../../shared/constants"
+import { RULE_DESCRIPTIONS, RULE_HELP, SARIF, SARIF_LEVELS, type SarifLevel } from "../constants"
+import { type Finding, FindingCollector } from "./FindingCollector"
+
+export interface SarifRegion {
+    startLine: number
+    startColumn?: number
+}
+
+export interface SarifLocation {
+    physicalLocation: {
+        artifactLocation: { uri: string; uriBaseId: string }
+        region?: SarifRegion
+    }
+}
+
+export interface SarifResult {
+    ruleId: string
+    ruleIndex: number
+    level: SarifLevel
+    message: { text: string }
+    locations: SarifLocation[]
+    relatedLocations?: SarifLocation[]
+    properties: { severity: SeverityLevel; suggestion?: string }
+}
+
+export interface SarifRule {
+    id: string
+    name: string
+    shortDescription: { text: string }
+    help: { text: string }
+}
+
+export interface SarifLog {
+    $schema: string
+    version: string
+    runs: {
+        tool: {
+            driver: {
+                name: string
+                version: string
+                informationUri: string
+                rules: SarifRule[]
+            }
+        }
+        originalUriBaseIds: Record<string, { uri: string }>
+        results: SarifResult[]
+    }[]
+}
+
+const SEVERITY_TO_LEVEL: Record<SeverityLevel, SarifLevel> = {
+    [SEVERITY_LEVELS.CRITICAL]: SARIF_LEVELS.ERROR,
+    [SEVERITY_LEVELS.HIGH]: SARIF_LEVELS.ERROR,
+    [SEVERITY_LEVELS.MEDIUM]: SARIF_LEVELS.WARNING,
+    [SEVERITY_LEVELS.LOW]: SARIF_LEVELS.NOTE,
+}
+
+/**
+ * Converts guardian results to a SARIF 2.1.0 log
+ *
+ * File paths are written relative to `%SRCROOT%`, which points at the
+ * analyzed directory, so viewers can map results back to the sources.
+ * Plugin rules are listed after the built-in ones when they have results.
+ *
+ * @example
+ * ```typescript
+ * const formatter = new SarifFormatter(version)
+ * const log = formatter.format(result, "./src")
+ *
+ * fs.writeFileSync("guardian.sarif", JSON.stringify(log, null, 2))
+ * ```
+ */
+export class SarifFormatter {
+    private readonly builtInRules: RuleName[] = Object.values(RULES)
+
+    constructor(private readonly toolVersion: string) {}
+
+    public format(report: ViolationReport, rootDir: string): SarifLog {
+        const pluginRules = [...new Set(report.customViolations.map((v) => v.rule))].sort()
+        const ruleIds: string[] = [...this.builtInRules, ...pluginRules]
+
+        return {
+            $schema: SARIF.SCHEMA,
+            version: SARIF.VERSION,
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: SARIF.TOOL_NAME,
+                            version: this.toolVersion,
+                            informationUri: SARIF.INFORMATION_URI,
+                            rules: [
+                                ...this.builtInRules.map((rule) => this.createRule(rule)),
+                                ...pluginRules.map((rule) => this.createPluginRule(rule)),
+                            ],
+                        },
+                    },
+                    originalUriBaseIds: {
+                        [SARIF.SRCROOT]: { uri: `${pathToFileURL(path.resolve(rootDir)).href}/` },
+                    },
+                    results: new FindingCollector()
+                        .collect(report)
+                        .map((finding) => this.createResult(finding, ruleIds)),
+                },
+            ],
+        }
+    }
+
+    private createRule(rule: RuleName): SarifRule {
+        return {
+            id: rule,
+            name: rule,
+            shortDescription: { text: RULE_DESCRIPTIONS[rule] },
+            help: { text: RULE_HELP[rule].join("\n") },
+        }
+    }
+
+    private createPluginRule(rule: PluginRuleName): SarifRule {
+        return {
+            id: rule,
+            name: rule,
+            shortDescription: { text: SARIF.PLUGIN_RULE_DESCRIPTION },
+            help: { text: SARIF.PLUGIN_RULE_HELP },
+        }
+    }
+
+    private createResult(finding: Finding, ruleIds: string[]): SarifResult {
+        const result: SarifResult = {
+            ruleId: finding.rule,
+            ruleIndex: ruleIds.indexOf(finding.rule),
+            level: SEVERITY_TO_LEVEL[finding.severity],
+            message: { text: finding.message },
+            locations: [this.createLocation(finding.file, finding.line, finding.column)],
+            properties: { severity: finding.severity, suggestion: finding.suggestion },
+        }
+
+        if (finding.relatedFiles) {
+            result.relatedLocations = finding.relatedFiles.map((file) => this.createLocation(file))
+        }
+
+        return result
+    }
+
+    private createLocation(file: string, line?: number, column?: number): SarifLocation {
+        const location: SarifLocation = {
+            physicalLocation: {
+                artifactLocation: {
+                    uri: encodeURI(file.split(path.sep).join(path.posix.sep)),
+                    uriBaseId: SARIF.SRCROOT,
+                },
+            },
+        }
+
+        if (line !== undefined && line > 0) {
+            location.physicalLocation.region = { startLine: line, startColumn: column }
+        }
+
+        return location
+    }
+}
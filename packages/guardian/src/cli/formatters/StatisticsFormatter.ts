@@ -1,12 +1,30 @@
-import { CLI_LABELS, CLI_MESSAGES } from "../constants"
+import type { BaselineComparison } from "../../application/dtos/Baseline"
+import type { AnalysisCacheStats } from "../../domain/services/IAnalysisCache"
+import type { GateResult } from "../../domain/value-objects/QualityGate"
+import { GATE_FAILURE_KINDS } from "../../shared/constants"
+import { CLI_LABELS, CLI_MESSAGES, EXIT_CODES } from "../constants"
+
+interface PackageMetrics {
+    name: string
+    files: number
+    afferentCoupling: number
+    efferentCoupling: number
+    instability: number
+    abstractness: number
+    distance: number
+}
 
 interface ProjectMetrics {
     totalFiles: number
     totalFunctions: number
     totalImports: number
     layerDistribution: Record<string, number>
+    packages: PackageMetrics[]
 }
 
+const METRIC_DECIMALS = 2
+const METRIC_COLUMN_WIDTH = 6
+
 export class StatisticsFormatter {
     displayMetrics(metrics: ProjectMetrics): void {
         console.log(CLI_MESSAGES.METRICS_HEADER)
@@ -20,23 +38,72 @@ export class StatisticsFormatter {
                 console.log(`   ${layer}: ${String(count)} ${CLI_LABELS.FILES}`)
             }
         }
+
+        if (metrics.packages.length > 0) {
+            this.displayPackageMetrics(metrics.packages)
+        }
+    }
+
+    displayPackageMetrics(packages: PackageMetrics[]): void {
+        const nameWidth = Math.max(
+            CLI_LABELS.PACKAGE.length,
+            ...packages.map((metrics) => metrics.name.length),
+        )
+        const row = (name: string, columns: string[]): string =>
+            `   ${name.padEnd(nameWidth)}${columns.map((column) => column.padStart(METRIC_COLUMN_WIDTH)).join("")}`
+
+        console.log(CLI_MESSAGES.PACKAGE_METRICS_HEADER)
+        console.log(row(CLI_LABELS.PACKAGE, [...CLI_LABELS.PACKAGE_METRIC_COLUMNS]))
+        for (const metrics of packages) {
+            console.log(
+                row(metrics.name, [
+                    String(metrics.files),
+                    String(metrics.afferentCoupling),
+                    String(metrics.efferentCoupling),
+                    metrics.instability.toFixed(METRIC_DECIMALS),
+                    metrics.abstractness.toFixed(METRIC_DECIMALS),
+                    metrics.distance.toFixed(METRIC_DECIMALS),
+                ]),
+            )
+        }
     }
 
-    displaySummary(totalIssues: number, verbose: boolean): void {
+    displaySummary(totalIssues: number, verbose: boolean, gate: GateResult): void {
         if (totalIssues === 0) {
             console.log(CLI_MESSAGES.NO_ISSUES)
-            process.exit(0)
+            process.exit(EXIT_CODES.SUCCESS)
         } else {
             console.log(
                 `${CLI_MESSAGES.ISSUES_TOTAL} ${String(totalIssues)} ${CLI_LABELS.ISSUES_TOTAL}`,
             )
+            this.displayGate(gate)
             console.log(CLI_MESSAGES.TIP)
 
             if (verbose) {
                 console.log(CLI_MESSAGES.HELP_FOOTER)
             }
 
-            process.exit(1)
+            process.exit(gate.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.VIOLATIONS)
+        }
+    }
+
+    displayGate(gate: GateResult): void {
+        if (gate.passed) {
+            console.log(CLI_MESSAGES.GATE_PASSED)
+            return
+        }
+
+        console.log(CLI_MESSAGES.GATE_FAILED)
+        for (const failure of gate.failures) {
+            if (failure.kind === GATE_FAILURE_KINDS.SEVERITY) {
+                console.log(
+                    `   ✗ ${String(failure.count)} ${CLI_LABELS.GATE_SEVERITY_FAILURE} ${failure.target} ${CLI_LABELS.GATE_OR_ABOVE}`,
+                )
+            } else {
+                console.log(
+                    `   ✗ ${failure.target}: ${String(failure.count)} ${CLI_LABELS.GATE_THRESHOLD_FAILURE} ${String(failure.max)}`,
+                )
+            }
         }
     }
 
@@ -50,10 +117,41 @@ export class StatisticsFormatter {
         }
     }
 
+    displayChangedFiles(changedFiles: string[], since?: string): void {
+        const source = since ? `${CLI_LABELS.CHANGED_SINCE} ${since}` : CLI_LABELS.STAGED
+        console.log(
+            `${CLI_MESSAGES.CHANGED_FILES_HEADER} ${String(changedFiles.length)} ${CLI_LABELS.CHANGED_FILES} (${source})`,
+        )
+    }
+
+    displayCacheStats(stats: AnalysisCacheStats): void {
+        console.log(
+            `${CLI_MESSAGES.CACHE_HEADER} ${String(stats.hits)} ${CLI_LABELS.CACHE_HITS}, ${String(stats.misses)} ${CLI_LABELS.CACHE_MISSES} (${stats.path})`,
+        )
+    }
+
+    displayBaselineComparison(comparison: BaselineComparison, baselinePath: string): void {
+        console.log(
+            `${CLI_MESSAGES.BASELINE_SUPPRESSED} ${String(comparison.baselined)} ${CLI_LABELS.BASELINE_KNOWN_VIOLATIONS} (${baselinePath})`,
+        )
+
+        if (comparison.fixed.length === 0) {
+            return
+        }
+
+        console.log(
+            `${CLI_MESSAGES.BASELINE_FIXED_HEADER}: ${String(comparison.fixed.length)} ${CLI_LABELS.BASELINE_ENTRIES}`,
+        )
+        for (const entry of comparison.fixed) {
+            console.log(`   ${entry.file} [${entry.rule}] ${entry.message}`)
+        }
+        console.log(CLI_MESSAGES.BASELINE_PRUNE_TIP)
+    }
+
     displayError(message: string): void {
         console.error(`\n❌ ${CLI_MESSAGES.ERROR_PREFIX}`)
         console.error(message)
         console.error("")
-        process.exit(1)
+        process.exit(EXIT_CODES.ERROR)
     }
 }
@@ -0,0 +1,79 @@
+import type { ViolationReport } from "../../application/dtos/JsonReport"
+import { BaselineMatcher } from "../../application/services/BaselineMatcher"
+import {
+    type ReportedViolation,
+    VIOLATION_CATEGORIES,
+} from "../../application/services/ViolationFingerprinter"
+import type { WatchUpdate } from "../../application/use-cases/WatchProject"
+import type { SeverityLevel } from "../../shared/constants"
+import { CLI_LABELS, CLI_MESSAGES, WATCH_LISTED_FILES } from "../constants"
+import { ViolationGrouper } from "../groupers/ViolationGrouper"
+import { SEVERITY_LABELS } from "./OutputFormatter"
+
+/**
+ * Prints the rolling output of `guardian watch`
+ *
+ * Each update is one block: the changed files, one line per violation that
+ * appeared (➕) or was resolved (✅), and the new total.
+ */
+export class WatchFormatter {
+    private readonly grouper = new ViolationGrouper()
+    private readonly matcher = new BaselineMatcher()
+
+    constructor(private readonly minSeverity?: SeverityLevel) {}
+
+    displayStart(path: string, report: ViolationReport, totalFiles: number): void {
+        console.log(
+            `${CLI_MESSAGES.WATCHING} ${path}: ${String(this.collect(report).length)} ${CLI_LABELS.WATCH_ISSUES} ${CLI_LABELS.WATCH_IN} ${String(totalFiles)} ${CLI_LABELS.FILES}. ${CLI_MESSAGES.WATCH_STOP_HINT}`,
+        )
+    }
+
+    displayUpdate(update: WatchUpdate): void {
+        const listed = update.changedFiles.slice(0, WATCH_LISTED_FILES).join(", ")
+        const more = update.changedFiles.length - WATCH_LISTED_FILES
+        const files =
+            more > 0 ? `${listed} +${String(more)} ${CLI_LABELS.WATCH_MORE_FILES}` : listed
+
+        console.log(
+            `${CLI_MESSAGES.WATCH_CHANGED_HEADER} ${files} ${CLI_LABELS.WATCH_CHANGED}, ${String(update.analyzedFiles.length)} ${CLI_LABELS.WATCH_REANALYZED}`,
+        )
+
+        const appeared = this.collect(update.appeared)
+        const resolved = this.collect(update.resolved)
+
+        if (appeared.length === 0 && resolved.length === 0) {
+            console.log(CLI_MESSAGES.WATCH_UNCHANGED)
+        }
+
+        for (const violation of appeared) {
+            console.log(`${CLI_MESSAGES.WATCH_APPEARED} ${this.formatViolation(violation)}`)
+        }
+        for (const violation of resolved) {
+            console.log(`${CLI_MESSAGES.WATCH_RESOLVED} ${this.formatViolation(violation)}`)
+        }
+
+        console.log(
+            `   ${String(this.collect(update.result).length)} ${CLI_LABELS.WATCH_ISSUES} (+${String(appeared.length)}, -${String(resolved.length)})`,
+        )
+    }
+
+    displayError(message: string): void {
+        console.error(`${CLI_MESSAGES.WATCH_ERROR} ${message}`)
+    }
+
+    private collect(report: ViolationReport): ReportedViolation[] {
+        return this.grouper.filterBySeverity(
+            VIOLATION_CATEGORIES.flatMap<ReportedViolation>((category) => report[category]),
+            this.minSeverity,
+        )
+    }
+
+    private formatViolation(violation: ReportedViolation): string {
+        const location =
+            "line" in violation && violation.line !== undefined
+                ? `${violation.file}:${String(violation.line)}`
+                : violation.file
+
+        return `${location} [${violation.rule}] ${this.matcher.describe(violation)} (${SEVERITY_LABELS[violation.severity]})`
+    }
+}
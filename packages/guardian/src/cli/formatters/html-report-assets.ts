@@ -0,0 +1,132 @@
+/**
+ * Stylesheet of the HTML report, inlined so the report works offline
+ */
+export const HTML_REPORT_STYLES = `
+:root {
+    --critical: #c62828;
+    --high: #ef6c00;
+    --medium: #f9a825;
+    --low: #2e7d32;
+    --border: #d0d7de;
+    --muted: #57606a;
+    --background: #f6f8fa;
+}
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; }
+header { padding: 16px 24px; background: #24292f; color: #fff; }
+header h1 { margin: 0; font-size: 20px; }
+header p { margin: 4px 0 0; color: #d0d7de; }
+main { padding: 0 24px 24px; }
+h2 { margin: 24px 0 12px; font-size: 16px; }
+code, pre { font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { min-width: 120px; padding: 12px 16px; border: 1px solid var(--border); border-radius: 6px; background: var(--background); }
+.card strong { display: block; font-size: 22px; }
+.card.critical { border-left: 4px solid var(--critical); }
+.card.high { border-left: 4px solid var(--high); }
+.card.medium { border-left: 4px solid var(--medium); }
+.card.low { border-left: 4px solid var(--low); }
+.gate-passed { color: var(--low); }
+.gate-failed { color: var(--critical); }
+table { border-collapse: collapse; }
+th, td { padding: 4px 12px; border-bottom: 1px solid var(--border); text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+td.zero { color: #afb8c1; }
+.toolbar { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 12px; }
+button { padding: 4px 12px; border: 1px solid var(--border); border-radius: 6px; background: #fff; cursor: pointer; }
+button.active { background: #24292f; color: #fff; }
+button.off { opacity: 0.4; text-decoration: line-through; }
+.graph { max-width: 100%; border: 1px solid var(--border); border-radius: 6px; background: #fff; }
+.graph .node { cursor: pointer; }
+.graph .node circle { fill: #0969da; stroke: #fff; stroke-width: 2; }
+.graph .node.selected circle { fill: #8250df; }
+.graph .node text { font-size: 12px; text-anchor: middle; }
+.graph .edge { stroke: #8c959f; stroke-width: 1.5; fill: none; }
+.graph .edge.cycle { stroke: var(--critical); stroke-width: 2.5; }
+.graph .edge.layer-violation { stroke-dasharray: 6 4; }
+.graph .edge.layer-violation:not(.cycle) { stroke: var(--high); }
+.graph.focused .edge:not(.related) { opacity: 0.1; }
+.graph .count { font-size: 10px; fill: var(--muted); }
+.legend { color: var(--muted); }
+.layout { display: grid; grid-template-columns: minmax(200px, 1fr) 3fr; gap: 24px; align-items: start; }
+.tree { position: sticky; top: 0; max-height: 100vh; overflow: auto; padding: 8px; border: 1px solid var(--border); border-radius: 6px; }
+.tree ul { margin: 0; padding-left: 16px; list-style: none; }
+.tree > ul { padding-left: 0; }
+.tree summary { cursor: pointer; }
+.tree a { color: inherit; }
+.badge { display: inline-block; min-width: 20px; padding: 0 6px; border-radius: 10px; background: #eaeef2; font-size: 11px; text-align: center; }
+details.file { margin-bottom: 8px; border: 1px solid var(--border); border-radius: 6px; }
+details.file > summary { padding: 8px 12px; background: var(--background); cursor: pointer; font-weight: 600; }
+.finding { padding: 8px 12px; border-top: 1px solid var(--border); }
+.finding .severity { font-weight: 600; text-transform: uppercase; font-size: 11px; }
+.finding[data-severity="critical"] .severity { color: var(--critical); }
+.finding[data-severity="high"] .severity { color: var(--high); }
+.finding[data-severity="medium"] .severity { color: #9a6700; }
+.finding[data-severity="low"] .severity { color: var(--low); }
+.finding .rule { color: var(--muted); }
+.finding .suggestion { color: var(--muted); }
+.hide-critical .finding[data-severity="critical"],
+.hide-high .finding[data-severity="high"],
+.hide-medium .finding[data-severity="medium"],
+.hide-low .finding[data-severity="low"] { display: none; }
+pre.snippet { margin: 8px 0 0; padding: 8px 0; overflow-x: auto; background: var(--background); border-radius: 6px; }
+pre.snippet span { display: block; padding: 0 12px; }
+pre.snippet span.hit { background: #fff8c5; }
+pre.snippet i { display: inline-block; width: 48px; color: #8c959f; font-style: normal; user-select: none; }
+`
+
+/**
+ * Script of the HTML report: severity filter, graph level switch, node
+ * highlighting and tree navigation, without any external dependency
+ */
+export const HTML_REPORT_SCRIPT = `
+(function () {
+    function all(selector, root) {
+        return Array.prototype.slice.call((root || document).querySelectorAll(selector))
+    }
+
+    all("[data-severity-filter]").forEach(function (button) {
+        button.addEventListener("click", function () {
+            button.classList.toggle("off")
+            document.body.classList.toggle("hide-" + button.getAttribute("data-severity-filter"))
+        })
+    })
+
+    all("[data-view]").forEach(function (button) {
+        button.addEventListener("click", function () {
+            all(".graph").forEach(function (graph) {
+                graph.style.display = graph.id === button.getAttribute("data-view") ? "" : "none"
+            })
+            all("[data-view]").forEach(function (other) {
+                other.classList.toggle("active", other === button)
+            })
+        })
+    })
+
+    all(".graph .node").forEach(function (node) {
+        node.addEventListener("click", function () {
+            var graph = node.closest("svg")
+            var id = node.getAttribute("data-id")
+            var selected = !node.classList.contains("selected")
+
+            all(".node", graph).forEach(function (other) {
+                other.classList.toggle("selected", selected && other === node)
+            })
+            all(".edge", graph).forEach(function (edge) {
+                var touches = edge.getAttribute("data-from") === id || edge.getAttribute("data-to") === id
+                edge.classList.toggle("related", selected && touches)
+            })
+            graph.classList.toggle("focused", selected)
+        })
+    })
+
+    all(".tree a").forEach(function (link) {
+        link.addEventListener("click", function () {
+            var target = document.getElementById(link.getAttribute("href").slice(1))
+            if (target) {
+                target.open = true
+            }
+        })
+    })
+})()
+`
@@ -26,4 +26,11 @@ export class ViolationGrouper {
         const minSeverityOrder = SEVERITY_ORDER[minSeverity]
         return violations.filter((v) => SEVERITY_ORDER[v.severity] <= minSeverityOrder)
     }
+
+    /**
+     * Keeps the first `limit` violations; detectors return them sorted by severity
+     */
+    limit<T>(violations: T[], limit?: number): T[] {
+        return limit !== undefined ? violations.slice(0, limit) : violations
+    }
 }
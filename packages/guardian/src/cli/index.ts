@@ -1,6 +1,13 @@
 #!/usr/bin/env node
 import { Command } from "commander"
-import { analyzeProject } from "../api"
+import { resolve as resolvePath } from "path"
+import {
+    analyzeProject,
+    exportDependencyGraph,
+    fixHardcodedValues,
+    fixPublicModuleImports,
+    watchProject,
+} from "../api"
 import { version } from "../../package.json"
 import {
     CLI_ARGUMENTS,
@@ -10,12 +17,37 @@ import {
     CLI_LABELS,
     CLI_MESSAGES,
     CLI_OPTIONS,
+    DEFAULT_BASELINE_FILE,
+    DEFAULT_CACHE_DIR,
     DEFAULT_EXCLUDES,
+    EXIT_CODES,
+    GRAPH_FORMATS,
+    type GraphFormat,
+    OUTPUT_FORMATS,
+    type OutputFormat,
+    WATCH_STOP_SIGNALS,
 } from "./constants"
-import { SEVERITY_LEVELS, type SeverityLevel } from "../shared/constants"
+import { RULES, SEVERITY_LEVELS, type SeverityLevel } from "../shared/constants"
 import { ViolationGrouper } from "./groupers/ViolationGrouper"
 import { OutputFormatter } from "./formatters/OutputFormatter"
 import { StatisticsFormatter } from "./formatters/StatisticsFormatter"
+import { JsonFormatter } from "./formatters/JsonFormatter"
+import { SarifFormatter } from "./formatters/SarifFormatter"
+import { FixableRule, FixFormatter } from "./formatters/FixFormatter"
+import { WatchFormatter } from "./formatters/WatchFormatter"
+import { GraphFormatter } from "./formatters/GraphFormatter"
+import { HtmlFormatter } from "./formatters/HtmlFormatter"
+import { GRAPH_LEVELS, type GraphLevel } from "../application/dtos/GraphView"
+import type { ViolationReport } from "../application/dtos/JsonReport"
+import { BaselineMatcher } from "../application/services/BaselineMatcher"
+import { GraphViewBuilder } from "../application/services/GraphViewBuilder"
+import {
+    type ReportedViolation,
+    VIOLATION_CATEGORIES,
+} from "../application/services/ViolationFingerprinter"
+import { BaselineStore } from "../infrastructure/baseline/BaselineStore"
+import { GIT_DEFAULTS } from "../infrastructure/constants/defaults"
+import { ReportWriter } from "./writers/ReportWriter"
 
 const program = new Command()
 
@@ -33,6 +65,18 @@ program
             CLI_HELP_TEXT.EXAMPLE_NO_HARDCODE +
             CLI_HELP_TEXT.EXAMPLE_NO_ARCHITECTURE +
             CLI_HELP_TEXT.EXAMPLE_EXCLUDE +
+            CLI_HELP_TEXT.EXAMPLE_CONFIG +
+            CLI_HELP_TEXT.EXAMPLE_FAIL_ON +
+            CLI_HELP_TEXT.EXAMPLE_BASELINE +
+            CLI_HELP_TEXT.EXAMPLE_SINCE +
+            CLI_HELP_TEXT.EXAMPLE_STAGED +
+            CLI_HELP_TEXT.EXAMPLE_JOBS +
+            CLI_HELP_TEXT.EXAMPLE_NO_CACHE +
+            CLI_HELP_TEXT.EXAMPLE_JSON +
+            CLI_HELP_TEXT.EXAMPLE_SARIF +
+            CLI_HELP_TEXT.EXAMPLE_FIX +
+            CLI_HELP_TEXT.EXAMPLE_WATCH +
+            CLI_HELP_TEXT.EXAMPLE_GRAPH +
             CLI_HELP_TEXT.FIX_HEADER +
             CLI_HELP_TEXT.FIX_HARDCODE +
             CLI_HELP_TEXT.FIX_CIRCULAR +
@@ -54,7 +98,8 @@ program
             CLI_HELP_TEXT.AI_AGENT_STEP4_CMDS +
             CLI_HELP_TEXT.AI_AGENT_OUTPUT +
             CLI_HELP_TEXT.AI_AGENT_OUTPUT_DETAIL +
-            CLI_HELP_TEXT.AI_AGENT_PRIORITY,
+            CLI_HELP_TEXT.AI_AGENT_PRIORITY +
+            CLI_HELP_TEXT.AI_AGENT_WATCH,
     )
 
 program
@@ -68,20 +113,112 @@ program
     .option(CLI_OPTIONS.MIN_SEVERITY, CLI_DESCRIPTIONS.MIN_SEVERITY_OPTION)
     .option(CLI_OPTIONS.ONLY_CRITICAL, CLI_DESCRIPTIONS.ONLY_CRITICAL_OPTION, false)
     .option(CLI_OPTIONS.LIMIT, CLI_DESCRIPTIONS.LIMIT_OPTION)
+    .option(CLI_OPTIONS.CONFIG, CLI_DESCRIPTIONS.CONFIG_OPTION)
+    .option(CLI_OPTIONS.FORMAT, CLI_DESCRIPTIONS.FORMAT_OPTION, OUTPUT_FORMATS.TEXT)
+    .option(CLI_OPTIONS.OUTPUT, CLI_DESCRIPTIONS.OUTPUT_OPTION)
+    .option(CLI_OPTIONS.BASELINE, CLI_DESCRIPTIONS.BASELINE_OPTION)
+    .option(CLI_OPTIONS.FAIL_ON, CLI_DESCRIPTIONS.FAIL_ON_OPTION)
+    .option(CLI_OPTIONS.SINCE, CLI_DESCRIPTIONS.SINCE_OPTION)
+    .option(CLI_OPTIONS.STAGED, CLI_DESCRIPTIONS.STAGED_OPTION, false)
+    .option(CLI_OPTIONS.NO_CACHE, CLI_DESCRIPTIONS.NO_CACHE_OPTION)
+    .option(CLI_OPTIONS.JOBS, CLI_DESCRIPTIONS.JOBS_OPTION, "1")
     .action(async (path: string, options) => {
         const grouper = new ViolationGrouper()
         const outputFormatter = new OutputFormatter()
         const statsFormatter = new StatisticsFormatter()
 
         try {
-            console.log(CLI_MESSAGES.ANALYZING)
+            const format = String(options.format).toLowerCase() as OutputFormat
+            const isTextFormat = format === OUTPUT_FORMATS.TEXT
+
+            if (!Object.values(OUTPUT_FORMATS).includes(format)) {
+                statsFormatter.displayError(`${CLI_MESSAGES.UNKNOWN_FORMAT} "${format}"`)
+                return
+            }
+
+            if (isTextFormat && options.output) {
+                statsFormatter.displayError(CLI_MESSAGES.OUTPUT_REQUIRES_REPORT_FORMAT)
+                return
+            }
+
+            const failOn = options.failOn
+                ? (String(options.failOn).toLowerCase() as SeverityLevel)
+                : undefined
+
+            if (failOn && !Object.values(SEVERITY_LEVELS).includes(failOn)) {
+                statsFormatter.displayError(`${CLI_MESSAGES.UNKNOWN_SEVERITY} "${failOn}"`)
+                return
+            }
+
+            const since: string | undefined =
+                options.since === true ? GIT_DEFAULTS.BRANCH : options.since
+            const staged = Boolean(options.staged)
+
+            if (since !== undefined && staged) {
+                statsFormatter.displayError(CLI_MESSAGES.SINCE_WITH_STAGED)
+                return
+            }
+
+            const jobs = Number(options.jobs)
+
+            if (!Number.isInteger(jobs) || jobs < 1) {
+                statsFormatter.displayError(
+                    `${CLI_MESSAGES.INVALID_JOBS} "${String(options.jobs)}"`,
+                )
+                return
+            }
+
+            if (isTextFormat) {
+                console.log(CLI_MESSAGES.ANALYZING)
+            }
 
             const result = await analyzeProject({
                 rootDir: path,
                 exclude: options.exclude,
+                configPath: options.config,
+                since,
+                staged,
+                cacheDir: options.cache ? resolvePath(path, DEFAULT_CACHE_DIR) : undefined,
+                jobs,
             })
 
+            const comparison = options.baseline
+                ? new BaselineMatcher().compare(
+                      result,
+                      await new BaselineStore().read(options.baseline),
+                      result.changedFiles,
+                  )
+                : undefined
+
             const { metrics } = result
+            const reported: ViolationReport = comparison?.report ?? result
+            const architecture = Boolean(options.architecture)
+            const selectChecked = (report: ViolationReport): ViolationReport => ({
+                ...report,
+                violations: architecture ? report.violations : [],
+                hardcodeViolations: options.hardcode ? report.hardcodeViolations : [],
+                circularDependencyViolations: architecture
+                    ? report.circularDependencyViolations
+                    : [],
+                namingViolations: architecture ? report.namingViolations : [],
+                frameworkLeakViolations: architecture ? report.frameworkLeakViolations : [],
+                entityExposureViolations: architecture ? report.entityExposureViolations : [],
+                dependencyDirectionViolations: architecture
+                    ? report.dependencyDirectionViolations
+                    : [],
+                repositoryPatternViolations: architecture ? report.repositoryPatternViolations : [],
+                aggregateBoundaryViolations: architecture ? report.aggregateBoundaryViolations : [],
+                packageMetricViolations: architecture ? report.packageMetricViolations : [],
+                boundedContextViolations: architecture ? report.boundedContextViolations : [],
+                publicModuleViolations: architecture ? report.publicModuleViolations : [],
+            })
+            const qualityGate = failOn ? result.config.gate.withFailOn(failOn) : result.config.gate
+            // --min-severity and --only-critical only filter the output, the gate sees every checked violation
+            const gate = qualityGate.evaluate(
+                VIOLATION_CATEGORIES.flatMap<ReportedViolation>(
+                    (category) => selectChecked(reported)[category],
+                ),
+            )
             let {
                 hardcodeViolations,
                 violations,
@@ -94,7 +231,13 @@ program
                 aggregateBoundaryViolations,
                 secretViolations,
                 anemicModelViolations,
-            } = result
+                suppressionViolations,
+                packageMetricViolations,
+                boundedContextViolations,
+                publicModuleViolations,
+                deadCodeViolations,
+                customViolations,
+            } = reported
 
             const minSeverity: SeverityLevel | undefined = options.onlyCritical
                 ? SEVERITY_LEVELS.CRITICAL
@@ -136,15 +279,115 @@ program
                 )
                 secretViolations = grouper.filterBySeverity(secretViolations, minSeverity)
                 anemicModelViolations = grouper.filterBySeverity(anemicModelViolations, minSeverity)
-
-                statsFormatter.displaySeverityFilterMessage(
-                    options.onlyCritical,
-                    options.minSeverity,
+                suppressionViolations = grouper.filterBySeverity(suppressionViolations, minSeverity)
+                packageMetricViolations = grouper.filterBySeverity(
+                    packageMetricViolations,
+                    minSeverity,
                 )
+                boundedContextViolations = grouper.filterBySeverity(
+                    boundedContextViolations,
+                    minSeverity,
+                )
+                publicModuleViolations = grouper.filterBySeverity(
+                    publicModuleViolations,
+                    minSeverity,
+                )
+                deadCodeViolations = grouper.filterBySeverity(deadCodeViolations, minSeverity)
+                customViolations = grouper.filterBySeverity(customViolations, minSeverity)
+
+                if (isTextFormat) {
+                    statsFormatter.displaySeverityFilterMessage(
+                        options.onlyCritical,
+                        options.minSeverity,
+                    )
+                }
+            }
+
+            const checked = selectChecked({
+                violations,
+                hardcodeViolations,
+                circularDependencyViolations,
+                namingViolations,
+                frameworkLeakViolations,
+                entityExposureViolations,
+                dependencyDirectionViolations,
+                repositoryPatternViolations,
+                aggregateBoundaryViolations,
+                secretViolations,
+                anemicModelViolations,
+                suppressionViolations,
+                packageMetricViolations,
+                boundedContextViolations,
+                publicModuleViolations,
+                deadCodeViolations,
+                customViolations,
+            })
+            const totalIssues = VIOLATION_CATEGORIES.reduce(
+                (total, category) => total + checked[category].length,
+                0,
+            )
+
+            if (!isTextFormat) {
+                const report = Object.fromEntries(
+                    VIOLATION_CATEGORIES.map((category) => [
+                        category,
+                        grouper.limit<ReportedViolation>(checked[category], limit),
+                    ]),
+                ) as ViolationReport
+
+                if (format === OUTPUT_FORMATS.HTML) {
+                    const html = new HtmlFormatter(version).format(report, {
+                        rootDir: path,
+                        metrics,
+                        totalIssues,
+                        gate,
+                        files: result.files,
+                        graphs: [GRAPH_LEVELS.LAYER, GRAPH_LEVELS.FOLDER].map((level) =>
+                            new GraphViewBuilder().build(result, { level }),
+                        ),
+                    })
+                    await new ReportWriter().write(html, options.output)
+
+                    process.exitCode = gate.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.VIOLATIONS
+                    return
+                }
+
+                const content =
+                    format === OUTPUT_FORMATS.JSON
+                        ? new JsonFormatter(version).format(report, {
+                              rootDir: path,
+                              filters: { minSeverity: minSeverity ?? null, limit: limit ?? null },
+                              metrics,
+                              totalIssues,
+                              gate,
+                              baseline: comparison && {
+                                  path: options.baseline,
+                                  baselined: comparison.baselined,
+                                  fixed: comparison.fixed,
+                              },
+                              changes: result.changedFiles && {
+                                  since: since ?? null,
+                                  staged,
+                                  files: result.changedFiles,
+                              },
+                          })
+                        : new SarifFormatter(version).format(report, path)
+                await new ReportWriter().write(JSON.stringify(content, null, 2), options.output)
+
+                process.exitCode = gate.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.VIOLATIONS
+                return
             }
 
             statsFormatter.displayMetrics(metrics)
 
+            if (result.changedFiles) {
+                statsFormatter.displayChangedFiles(result.changedFiles, since)
+            }
+
+            if (options.verbose && result.cacheStats) {
+                statsFormatter.displayCacheStats(result.cacheStats)
+            }
+
             if (options.architecture && violations.length > 0) {
                 console.log(
                     `\n${CLI_MESSAGES.VIOLATIONS_HEADER} ${String(violations.length)} ${CLI_LABELS.ARCHITECTURE_VIOLATIONS}`,
@@ -275,6 +518,82 @@ program
                 )
             }
 
+            if (options.architecture && packageMetricViolations.length > 0) {
+                console.log(
+                    `\n📐 Found ${String(packageMetricViolations.length)} package metric violation(s)`,
+                )
+                outputFormatter.displayGroupedViolations(
+                    packageMetricViolations,
+                    (pm, i) => {
+                        outputFormatter.formatPackageMetricViolation(pm, i)
+                    },
+                    limit,
+                )
+            }
+
+            if (options.architecture && boundedContextViolations.length > 0) {
+                console.log(
+                    `\n🧱 Found ${String(boundedContextViolations.length)} bounded context violation(s)`,
+                )
+                outputFormatter.displayGroupedViolations(
+                    boundedContextViolations,
+                    (bc, i) => {
+                        outputFormatter.formatBoundedContextViolation(bc, i)
+                    },
+                    limit,
+                )
+            }
+
+            if (options.architecture && publicModuleViolations.length > 0) {
+                console.log(
+                    `\n🚪 Found ${String(publicModuleViolations.length)} public module violation(s)`,
+                )
+                outputFormatter.displayGroupedViolations(
+                    publicModuleViolations,
+                    (pm, i) => {
+                        outputFormatter.formatPublicModuleViolation(pm, i)
+                    },
+                    limit,
+                )
+            }
+
+            if (deadCodeViolations.length > 0) {
+                console.log(`\n🪦 Found ${String(deadCodeViolations.length)} dead code issue(s)`)
+                outputFormatter.displayGroupedViolations(
+                    deadCodeViolations,
+                    (dc, i) => {
+                        outputFormatter.formatDeadCodeViolation(dc, i)
+                    },
+                    limit,
+                )
+            }
+
+            if (suppressionViolations.length > 0) {
+                console.log(
+                    `\n🤫 Found ${String(suppressionViolations.length)} suppression comment issue(s)`,
+                )
+                outputFormatter.displayGroupedViolations(
+                    suppressionViolations,
+                    (sc, i) => {
+                        outputFormatter.formatSuppressionViolation(sc, i)
+                    },
+                    limit,
+                )
+            }
+
+            if (customViolations.length > 0) {
+                console.log(
+                    `\n🧩 Found ${String(customViolations.length)} plugin rule violation(s)`,
+                )
+                outputFormatter.displayGroupedViolations(
+                    customViolations,
+                    (cv, i) => {
+                        outputFormatter.formatCustomViolation(cv, i)
+                    },
+                    limit,
+                )
+            }
+
             if (options.hardcode && hardcodeViolations.length > 0) {
                 console.log(
                     `\n${CLI_MESSAGES.HARDCODE_VIOLATIONS_HEADER} ${String(hardcodeViolations.length)} ${CLI_LABELS.HARDCODE_VIOLATIONS}`,
@@ -288,20 +607,203 @@ program
                 )
             }
 
-            const totalIssues =
-                violations.length +
-                hardcodeViolations.length +
-                circularDependencyViolations.length +
-                namingViolations.length +
-                frameworkLeakViolations.length +
-                entityExposureViolations.length +
-                dependencyDirectionViolations.length +
-                repositoryPatternViolations.length +
-                aggregateBoundaryViolations.length +
-                secretViolations.length +
-                anemicModelViolations.length
+            if (comparison) {
+                statsFormatter.displayBaselineComparison(comparison, options.baseline)
+            }
+
+            statsFormatter.displaySummary(totalIssues, options.verbose, gate)
+        } catch (error) {
+            statsFormatter.displayError(error instanceof Error ? error.message : String(error))
+        }
+    })
+
+program
+    .command(CLI_COMMANDS.BASELINE)
+    .description(CLI_DESCRIPTIONS.BASELINE)
+    .command(CLI_COMMANDS.BASELINE_CREATE)
+    .description(CLI_DESCRIPTIONS.BASELINE_CREATE)
+    .argument(CLI_ARGUMENTS.PATH, CLI_DESCRIPTIONS.PATH_ARG)
+    .option(CLI_OPTIONS.EXCLUDE, CLI_DESCRIPTIONS.EXCLUDE_OPTION, [...DEFAULT_EXCLUDES])
+    .option(CLI_OPTIONS.CONFIG, CLI_DESCRIPTIONS.CONFIG_OPTION)
+    .option(CLI_OPTIONS.OUTPUT, CLI_DESCRIPTIONS.BASELINE_OUTPUT_OPTION, DEFAULT_BASELINE_FILE)
+    .action(async (path: string, options) => {
+        const statsFormatter = new StatisticsFormatter()
+
+        try {
+            const result = await analyzeProject({
+                rootDir: path,
+                exclude: options.exclude,
+                configPath: options.config,
+            })
+
+            const baseline = new BaselineMatcher().create(result, {
+                name: CLI_COMMANDS.NAME,
+                version,
+            })
+            await new BaselineStore().write(options.output, baseline)
+
+            console.log(
+                `${CLI_MESSAGES.BASELINE_WRITTEN} ${String(options.output)} (${String(baseline.entries.length)} ${CLI_LABELS.BASELINE_ENTRIES})`,
+            )
+        } catch (error) {
+            statsFormatter.displayError(error instanceof Error ? error.message : String(error))
+        }
+    })
+
+program
+    .command(CLI_COMMANDS.FIX)
+    .description(CLI_DESCRIPTIONS.FIX)
+    .argument(CLI_ARGUMENTS.PATH, CLI_DESCRIPTIONS.PATH_ARG)
+    .requiredOption(CLI_OPTIONS.RULE, CLI_DESCRIPTIONS.RULE_OPTION)
+    .option(CLI_OPTIONS.WRITE, CLI_DESCRIPTIONS.WRITE_OPTION, false)
+    .option(CLI_OPTIONS.EXCLUDE, CLI_DESCRIPTIONS.EXCLUDE_OPTION, [...DEFAULT_EXCLUDES])
+    .option(CLI_OPTIONS.CONFIG, CLI_DESCRIPTIONS.CONFIG_OPTION)
+    .action(async (path: string, options) => {
+        const statsFormatter = new StatisticsFormatter()
+
+        try {
+            if (options.rule !== RULES.HARDCODED_VALUE && options.rule !== RULES.PUBLIC_MODULE) {
+                statsFormatter.displayError(
+                    `${CLI_MESSAGES.UNSUPPORTED_FIX_RULE} "${String(options.rule)}"`,
+                )
+                return
+            }
+
+            const rule: FixableRule = options.rule
+            const fix = rule === RULES.PUBLIC_MODULE ? fixPublicModuleImports : fixHardcodedValues
+
+            const write = Boolean(options.write)
+            const plan = await fix({
+                rootDir: path,
+                exclude: options.exclude,
+                configPath: options.config,
+                write,
+            })
+
+            new FixFormatter().displayPlan(plan, write, rule)
+        } catch (error) {
+            statsFormatter.displayError(error instanceof Error ? error.message : String(error))
+        }
+    })
+
+program
+    .command(CLI_COMMANDS.WATCH)
+    .description(CLI_DESCRIPTIONS.WATCH)
+    .argument(CLI_ARGUMENTS.PATH, CLI_DESCRIPTIONS.PATH_ARG)
+    .option(CLI_OPTIONS.EXCLUDE, CLI_DESCRIPTIONS.EXCLUDE_OPTION, [...DEFAULT_EXCLUDES])
+    .option(CLI_OPTIONS.CONFIG, CLI_DESCRIPTIONS.CONFIG_OPTION)
+    .option(CLI_OPTIONS.MIN_SEVERITY, CLI_DESCRIPTIONS.MIN_SEVERITY_OPTION)
+    .option(CLI_OPTIONS.NO_CACHE, CLI_DESCRIPTIONS.NO_CACHE_OPTION)
+    .option(CLI_OPTIONS.JOBS, CLI_DESCRIPTIONS.JOBS_OPTION, "1")
+    .action(async (path: string, options) => {
+        const statsFormatter = new StatisticsFormatter()
+
+        try {
+            const minSeverity = options.minSeverity
+                ? (String(options.minSeverity).toLowerCase() as SeverityLevel)
+                : undefined
+
+            if (minSeverity && !Object.values(SEVERITY_LEVELS).includes(minSeverity)) {
+                statsFormatter.displayError(`${CLI_MESSAGES.UNKNOWN_SEVERITY} "${minSeverity}"`)
+                return
+            }
+
+            const jobs = Number(options.jobs)
+
+            if (!Number.isInteger(jobs) || jobs < 1) {
+                statsFormatter.displayError(
+                    `${CLI_MESSAGES.INVALID_JOBS} "${String(options.jobs)}"`,
+                )
+                return
+            }
+
+            const watchFormatter = new WatchFormatter(minSeverity)
+
+            console.log(CLI_MESSAGES.ANALYZING)
+
+            const watch = await watchProject({
+                rootDir: path,
+                exclude: options.exclude,
+                configPath: options.config,
+                cacheDir: options.cache ? resolvePath(path, DEFAULT_CACHE_DIR) : undefined,
+                jobs,
+                onUpdate: (update) => {
+                    watchFormatter.displayUpdate(update)
+                },
+                onError: (message) => {
+                    watchFormatter.displayError(message)
+                },
+            })
+
+            watchFormatter.displayStart(path, watch.result, watch.result.metrics.totalFiles)
+
+            for (const signal of WATCH_STOP_SIGNALS) {
+                process.once(signal, () => {
+                    void watch.close()
+                })
+            }
+        } catch (error) {
+            statsFormatter.displayError(error instanceof Error ? error.message : String(error))
+        }
+    })
+
+program
+    .command(CLI_COMMANDS.GRAPH)
+    .description(CLI_DESCRIPTIONS.GRAPH)
+    .argument(CLI_ARGUMENTS.PATH, CLI_DESCRIPTIONS.PATH_ARG)
+    .option(CLI_OPTIONS.FORMAT, CLI_DESCRIPTIONS.GRAPH_FORMAT_OPTION, GRAPH_FORMATS.DOT)
+    .option(CLI_OPTIONS.LEVEL, CLI_DESCRIPTIONS.LEVEL_OPTION, GRAPH_LEVELS.FILE)
+    .option(CLI_OPTIONS.ROOT, CLI_DESCRIPTIONS.ROOT_OPTION)
+    .option(CLI_OPTIONS.FOCUS, CLI_DESCRIPTIONS.FOCUS_OPTION)
+    .option(CLI_OPTIONS.DEPTH, CLI_DESCRIPTIONS.DEPTH_OPTION)
+    .option(CLI_OPTIONS.OUTPUT, CLI_DESCRIPTIONS.GRAPH_OUTPUT_OPTION)
+    .option(CLI_OPTIONS.EXCLUDE, CLI_DESCRIPTIONS.EXCLUDE_OPTION, [...DEFAULT_EXCLUDES])
+    .option(CLI_OPTIONS.CONFIG, CLI_DESCRIPTIONS.CONFIG_OPTION)
+    .action(async (path: string, options) => {
+        const statsFormatter = new StatisticsFormatter()
+
+        try {
+            const format = String(options.format).toLowerCase() as GraphFormat
+            const level = String(options.level).toLowerCase() as GraphLevel
+
+            if (!Object.values(GRAPH_FORMATS).includes(format)) {
+                statsFormatter.displayError(`${CLI_MESSAGES.UNKNOWN_GRAPH_FORMAT} "${format}"`)
+                return
+            }
+
+            if (!Object.values(GRAPH_LEVELS).includes(level)) {
+                statsFormatter.displayError(`${CLI_MESSAGES.UNKNOWN_GRAPH_LEVEL} "${level}"`)
+                return
+            }
+
+            const depth = options.depth === undefined ? undefined : Number(options.depth)
+
+            if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+                statsFormatter.displayError(
+                    `${CLI_MESSAGES.INVALID_DEPTH} "${String(options.depth)}"`,
+                )
+                return
+            }
+
+            if (depth !== undefined && options.focus === undefined) {
+                statsFormatter.displayError(CLI_MESSAGES.DEPTH_REQUIRES_FOCUS)
+                return
+            }
+
+            const graph = await exportDependencyGraph({
+                rootDir: path,
+                exclude: options.exclude,
+                configPath: options.config,
+                level,
+                root: options.root,
+                focus: options.focus,
+                depth,
+            })
 
-            statsFormatter.displaySummary(totalIssues, options.verbose)
+            await new ReportWriter().write(
+                new GraphFormatter().format(graph, format),
+                options.output,
+            )
         } catch (error) {
             statsFormatter.displayError(error instanceof Error ? error.message : String(error))
         }
@@ -0,0 +1,21 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+/**
+ * Writes machine-readable reports to a file or stdout
+ */
+export class ReportWriter {
+    /**
+     * @param content - Serialized report
+     * @param outputPath - Target file; the report goes to stdout when omitted
+     */
+    public async write(content: string, outputPath?: string): Promise<void> {
+        if (!outputPath) {
+            process.stdout.write(`${content}\n`)
+            return
+        }
+
+        await fs.mkdir(path.dirname(path.resolve(outputPath)), { recursive: true })
+        await fs.writeFile(outputPath, `${content}\n`)
+    }
+}
@@ -13,6 +13,16 @@ export const DEPENDENCY_VIOLATION_MESSAGES = {
 export const ENTITY_EXPOSURE_MESSAGES = {
     METHOD_DEFAULT: "Method",
     METHOD_DEFAULT_NAME: "getEntity",
+    MAP_TO_DTO: "Create a DTO and map the entity to it before returning",
+    KEEP_ENTITIES_INSIDE: "Keep entities inside the domain and application layers",
+}
+
+export const HARDCODE_MESSAGES = {
+    HARDCODED: "Hardcoded",
+}
+
+export const CIRCULAR_DEPENDENCY_MESSAGES = {
+    EXTRACT_SHARED_CODE: "Break the cycle by extracting shared code into a separate module",
 }
 
 export const FRAMEWORK_LEAK_MESSAGES = {
@@ -89,3 +99,57 @@ export const VIOLATION_EXAMPLE_VALUES = {
     USER_REPOSITORY: "UserRepository",
     FIND_ONE: "findOne",
 }
+
+export const SUPPRESSION_MESSAGES = {
+    UNUSED: "Suppression comment does not suppress any violation",
+    MISSING_REASON: "Suppression comment has no reason",
+    REMOVE_UNUSED: "Remove the comment, the violation it was written for is gone",
+    ADD_REASON: 'Explain why the violation is accepted: "-- <reason>" after the rules',
+}
+
+export const HARDCODE_FIX_SKIP_REASONS = {
+    CONFIG_OBJECT: "Configuration objects are not extracted automatically",
+    NOT_TYPESCRIPT: "Only TypeScript files are fixed automatically",
+    LITERAL_NOT_FOUND: "No literal at the reported position, the file changed since the analysis",
+    ENUM_MEMBER: "Enum member values must stay literals",
+    MODULE_SPECIFIER: "Module specifiers must stay literals",
+    CONSTANTS_MODULE: "The value is already in the suggested constants module",
+}
+
+export const IMPORT_FIX_SKIP_REASONS = {
+    IMPORT_NOT_FOUND:
+        "No import of the module at the reported line, the file changed since the analysis",
+    NOT_EXPORTED_FROM_INDEX: "Not exported from the index",
+}
+
+export const PACKAGE_METRIC_MESSAGES = {
+    ABOVE_LIMIT: "above the limit of",
+    BELOW_LIMIT: "below the limit of",
+    REDUCE_INSTABILITY:
+        "Depend on fewer outside packages, or invert the dependencies through interfaces the package owns",
+    RAISE_ABSTRACTNESS: "Move the contracts other packages use into interfaces or abstract classes",
+    REDUCE_DISTANCE:
+        "Balance the package: stable packages should be abstract, unstable ones concrete",
+}
+
+export const BOUNDED_CONTEXT_MESSAGES = {
+    USE_PUBLIC_API:
+        "Import it through the public API of its context, or move code several contexts need into the shared kernel",
+    SHARED_KERNEL_LEAK: "Keep the shared kernel independent of the contexts",
+}
+
+export const PUBLIC_MODULE_MESSAGES = {
+    IMPORT_THROUGH_INDEX: "Import the module through its index",
+    EXPORT_FROM_INDEX: "Export what other folders need from the index of the module",
+    RUN_FIX: "Run guardian fix --rule public-module to rewrite the imports",
+}
+
+export const DEAD_CODE_MESSAGES = {
+    FILE: "File",
+    EXPORT: "Export",
+    ORPHAN_FILE: "is never imported and is not an entry point",
+    UNUSED_EXPORT: "is never imported",
+    REMOVE_EXPORT: "Remove the export, or the declaration if the file does not use it either",
+    REMOVE_FILE:
+        "Delete the file, or list it in deadCode.entryPoints if it is run or loaded without being imported",
+}
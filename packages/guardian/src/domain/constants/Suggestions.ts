@@ -199,3 +199,13 @@ export const LOCATIONS = {
     CONFIG_PATHS: "src/config/paths.ts",
     CONFIG_DATES: "src/config/dates.ts",
 } as const
+
+/**
+ * General advice for hardcoded values
+ */
+export const HARDCODE_SUGGESTIONS = {
+    EXTRACT_CONSTANT: `Extract the value to a named constant in ${LOCATIONS.SHARED_CONSTANTS} or ${LOCATIONS.DOMAIN_CONSTANTS}`,
+    MOVE_ENVIRONMENT_VALUES: `Move environment-specific values to ${LOCATIONS.CONFIG_ENVIRONMENT}`,
+    EXTRACT_TO: "Extract to",
+    IN_LOCATION: "in",
+} as const
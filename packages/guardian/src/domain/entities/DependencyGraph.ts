@@ -5,6 +5,28 @@ interface GraphNode {
     file: SourceFile
     dependencies: string[]
     dependents: string[]
+    /**
+     * Import specifier as written in the file → project-relative path of its target
+     */
+    resolvedImports: Map<string, string>
+}
+
+/**
+ * Dependencies between one package and the rest of the graph
+ */
+export interface PackageCoupling {
+    /**
+     * Project-relative paths of the package's files
+     */
+    files: string[]
+    /**
+     * Files outside the package that import one of its files (Ca)
+     */
+    afferent: number
+    /**
+     * Files outside the package that one of its files imports (Ce)
+     */
+    efferent: number
 }
 
 /**
@@ -26,17 +48,30 @@ export class DependencyGraph extends BaseEntity {
                 file,
                 dependencies: [],
                 dependents: [],
+                resolvedImports: new Map(),
             })
         }
 
         this.touch()
     }
 
-    public addDependency(from: string, to: string): void {
+    /**
+     * Adds an edge between two files of the graph
+     *
+     * Edges to files that are not part of the graph are ignored.
+     *
+     * @param from - Project-relative path of the importing file
+     * @param to - Project-relative path of the imported file
+     * @param importPath - Import specifier that produced the edge, if known
+     */
+    public addDependency(from: string, to: string, importPath?: string): void {
         const fromNode = this.nodes.get(from)
         const toNode = this.nodes.get(to)
 
         if (fromNode && toNode) {
+            if (importPath !== undefined) {
+                fromNode.resolvedImports.set(importPath, to)
+            }
             if (!fromNode.dependencies.includes(to)) {
                 fromNode.dependencies.push(to)
             }
@@ -47,6 +82,13 @@ export class DependencyGraph extends BaseEntity {
         }
     }
 
+    /**
+     * Returns the project-relative path an import of the given file resolved to
+     */
+    public resolveImport(from: string, importPath: string): string | undefined {
+        return this.nodes.get(from)?.resolvedImports.get(importPath)
+    }
+
     public getNode(filePath: string): GraphNode | undefined {
         return this.nodes.get(filePath)
     }
@@ -89,6 +131,59 @@ export class DependencyGraph extends BaseEntity {
         return cycles
     }
 
+    /**
+     * Groups the files into packages and counts the files each package
+     * depends on and is depended on by
+     *
+     * @param packageOf - Package of a file, `undefined` to leave the file
+     * out; files outside every package still count as coupling
+     */
+    public getPackageCoupling(
+        packageOf: (file: SourceFile) => string | undefined,
+    ): Map<string, PackageCoupling> {
+        const packages = new Map<
+            string,
+            { files: string[]; afferent: Set<string>; efferent: Set<string> }
+        >()
+        const packageOfPath = (filePath: string): string | undefined => {
+            const node = this.nodes.get(filePath)
+            return node ? packageOf(node.file) : undefined
+        }
+
+        for (const [filePath, node] of this.nodes) {
+            const name = packageOf(node.file)
+
+            if (name === undefined) {
+                continue
+            }
+
+            const entry = packages.get(name) ?? {
+                files: [],
+                afferent: new Set<string>(),
+                efferent: new Set<string>(),
+            }
+            entry.files.push(filePath)
+            node.dependents
+                .filter((dependent) => packageOfPath(dependent) !== name)
+                .forEach((dependent) => entry.afferent.add(dependent))
+            node.dependencies
+                .filter((dependency) => packageOfPath(dependency) !== name)
+                .forEach((dependency) => entry.efferent.add(dependency))
+            packages.set(name, entry)
+        }
+
+        return new Map(
+            [...packages].map(([name, entry]) => [
+                name,
+                {
+                    files: entry.files,
+                    afferent: entry.afferent.size,
+                    efferent: entry.efferent.size,
+                },
+            ]),
+        )
+    }
+
     public getMetrics(): {
         totalFiles: number
         totalDependencies: number
@@ -1,6 +1,6 @@
 import { BaseEntity } from "./BaseEntity"
 import { ProjectPath } from "../value-objects/ProjectPath"
-import { LAYERS } from "../../shared/constants/rules"
+import { LayerModel } from "../value-objects/LayerModel"
 
 /**
  * Represents a source code file in the analyzed project
@@ -10,7 +10,7 @@ export class SourceFile extends BaseEntity {
     private readonly _content: string
     private readonly _imports: string[]
     private readonly _exports: string[]
-    private readonly _layer?: string
+    private _layer?: string
 
     constructor(
         path: ProjectPath,
@@ -24,7 +24,7 @@ export class SourceFile extends BaseEntity {
         this._content = content
         this._imports = imports
         this._exports = exports
-        this._layer = this.detectLayer()
+        this._layer = LayerModel.default().detectLayer(path.relative)
     }
 
     public get path(): ProjectPath {
@@ -61,23 +61,16 @@ export class SourceFile extends BaseEntity {
         }
     }
 
-    private detectLayer(): string | undefined {
-        const dir = this._path.directory.toLowerCase()
+    /**
+     * Re-detects the layer of this file using the project's layer model
+     */
+    public applyLayerModel(model: LayerModel): void {
+        const layer = model.detectLayer(this._path.relative)
 
-        if (dir.includes(LAYERS.DOMAIN)) {
-            return LAYERS.DOMAIN
-        }
-        if (dir.includes(LAYERS.APPLICATION)) {
-            return LAYERS.APPLICATION
-        }
-        if (dir.includes(LAYERS.INFRASTRUCTURE)) {
-            return LAYERS.INFRASTRUCTURE
-        }
-        if (dir.includes(LAYERS.SHARED)) {
-            return LAYERS.SHARED
+        if (layer !== this._layer) {
+            this._layer = layer
+            this.touch()
         }
-
-        return undefined
     }
 
     public importsFrom(layer: string): boolean {
@@ -0,0 +1,348 @@
+import { BaseEntity } from "./BaseEntity"
+import type { FileSymbols, ReExport, TypeDeclaration } from "../services/ICodeParser"
+import { SYMBOL_NAMES } from "../../shared/constants"
+
+/**
+ * Type declaration together with the file declaring it
+ */
+export interface DeclaredType {
+    name: string
+    /**
+     * Project-relative path of the declaring file
+     */
+    file: string
+    line: number
+}
+
+/**
+ * Name exported by a module outside the project
+ */
+export interface ExternalSymbol {
+    name: string
+    /**
+     * Module specifier as written in the import or re-export, e.g. `typeorm`
+     */
+    specifier: string
+}
+
+/**
+ * Declaration an exported name stands for
+ */
+export interface ExportOrigin {
+    /**
+     * Name in the declaring file, `default` for default exports
+     */
+    name: string
+    /**
+     * Project-relative path of the declaring file
+     */
+    file: string
+}
+
+const QUALIFIED_NAME_SEPARATOR = "."
+const RELATIVE_SPECIFIER_PREFIX = "."
+
+/**
+ * Type declarations of the whole project, to tell which declaration a
+ * type name used in a file refers to
+ *
+ * A name is looked up among the declarations of the file first, then
+ * followed through its imports and the re-exports of the imported
+ * modules. Type aliases are expanded into the types they stand for.
+ * Names imported from modules outside the project do not resolve to a
+ * declaration, `resolveExternal` tells which module they come from.
+ * `findExport` tells which declaration an exported name of a module
+ * stands for, of any kind.
+ *
+ * @example
+ * ```typescript
+ * const table = new SymbolTable((from, specifier) => graph.resolveImport(from, specifier))
+ * table.addFile("domain/entities/User.ts", parser.extractSymbols(userTree))
+ * table.addFile("infrastructure/UserController.ts", parser.extractSymbols(controllerTree))
+ *
+ * table.resolveType("infrastructure/UserController.ts", "User")
+ * // [{ name: "User", file: "domain/entities/User.ts", line: 3 }]
+ * ```
+ */
+export class SymbolTable extends BaseEntity {
+    private readonly files = new Map<string, FileSymbols>()
+
+    /**
+     * @param resolveImport - Project-relative path of the file an import
+     * specifier of a file refers to
+     */
+    constructor(
+        private readonly resolveImport: (from: string, specifier: string) => string | undefined,
+        id?: string,
+    ) {
+        super(id)
+    }
+
+    public addFile(file: string, symbols: FileSymbols): void {
+        this.files.set(file, symbols)
+        this.touch()
+    }
+
+    /**
+     * Returns the declarations a type name used in a file stands for
+     *
+     * @param name - Type name as written in the file, `ns.User` for types
+     * of namespace imports
+     * @returns Several declarations for aliases of unions, none when the
+     * name is not declared in the project
+     */
+    public resolveType(file: string, name: string): DeclaredType[] {
+        return this.resolve(file, name, new Set())
+    }
+
+    /**
+     * Returns the module outside the project a name used in a file comes
+     * from, following imports and re-exports through project files
+     *
+     * @param name - Name as written in the file, `ns.Entity` for members
+     * of namespace imports
+     * @returns Undefined for names declared in the project or not imported
+     */
+    public resolveExternal(file: string, name: string): ExternalSymbol | undefined {
+        return this.resolveExternalName(file, name, new Set())
+    }
+
+    /**
+     * Returns the names a file imports or re-exports from a module
+     * specifier, `*` for namespace imports and `export *`
+     *
+     * @returns Empty for side-effect imports and `export * as ns from`
+     */
+    public importedNames(file: string, specifier: string): string[] {
+        const symbols = this.files.get(file)
+
+        return [
+            ...(symbols?.imports ?? []).filter((binding) => binding.specifier === specifier),
+            ...(symbols?.reExports ?? []).filter((reExport) => reExport.specifier === specifier),
+        ].map((named) => named.imported)
+    }
+
+    /**
+     * Returns the declaration a name exported by a file stands for,
+     * following re-exports and imported names the file exports again
+     *
+     * @returns Undefined when the file does not export the name
+     */
+    public findExport(file: string, name: string): ExportOrigin | undefined {
+        return this.findExportIn(file, name, new Set())
+    }
+
+    private findExportIn(
+        file: string,
+        name: string,
+        visited: Set<string>,
+    ): ExportOrigin | undefined {
+        const key = `${file}\0${name}`
+        const symbols = this.files.get(file)
+
+        if (!symbols || visited.has(key)) {
+            return undefined
+        }
+        visited.add(key)
+
+        if (symbols.exports.some((exported) => exported.name === name)) {
+            const binding = symbols.imports.find(
+                (candidate) =>
+                    candidate.local === name && candidate.imported !== SYMBOL_NAMES.ALL_EXPORTS,
+            )
+            const target = binding && this.resolveImport(file, binding.specifier)
+            const imported =
+                binding && target !== undefined
+                    ? this.findExportIn(target, binding.imported, visited)
+                    : undefined
+
+            return imported ?? { name, file }
+        }
+
+        for (const reExport of symbols.reExports) {
+            const found = this.findReExport(file, reExport, name, visited)
+            if (found) {
+                return found
+            }
+        }
+
+        return undefined
+    }
+
+    private findReExport(
+        file: string,
+        reExport: ReExport,
+        name: string,
+        visited: Set<string>,
+    ): ExportOrigin | undefined {
+        const isWildcard = reExport.exported === SYMBOL_NAMES.ALL_EXPORTS
+        const matches = isWildcard
+            ? name !== SYMBOL_NAMES.DEFAULT_EXPORT
+            : reExport.exported === name
+        const target = matches ? this.resolveImport(file, reExport.specifier) : undefined
+
+        return target === undefined
+            ? undefined
+            : this.findExportIn(target, isWildcard ? name : reExport.imported, visited)
+    }
+
+    private resolveExternalName(
+        file: string,
+        name: string,
+        visited: Set<string>,
+    ): ExternalSymbol | undefined {
+        const key = `${file}\0${name}`
+        const symbols = this.files.get(file)
+
+        if (!symbols || visited.has(key)) {
+            return undefined
+        }
+        visited.add(key)
+
+        const [qualifier, ...rest] = name.split(QUALIFIED_NAME_SEPARATOR)
+        const member = rest.join(QUALIFIED_NAME_SEPARATOR)
+        const binding = symbols.imports.find((candidate) => candidate.local === qualifier)
+
+        const imported =
+            binding?.imported === SYMBOL_NAMES.ALL_EXPORTS
+                ? member
+                : rest.length === 0
+                  ? binding?.imported
+                  : undefined
+
+        if (!binding || !imported) {
+            return undefined
+        }
+
+        const target = this.resolveImport(file, binding.specifier)
+        if (target === undefined) {
+            return this.isExternal(binding.specifier)
+                ? { name: imported, specifier: binding.specifier }
+                : undefined
+        }
+
+        return this.resolveExternalExport(target, imported, visited)
+    }
+
+    /**
+     * Looks an external name up among the exports of a project file. A
+     * name not found otherwise is taken from the first external
+     * `export * from` of the file.
+     */
+    private resolveExternalExport(
+        file: string,
+        name: string,
+        visited: Set<string>,
+    ): ExternalSymbol | undefined {
+        const own = this.resolveExternalName(file, name, visited)
+        if (own) {
+            return own
+        }
+
+        let wildcard: ExternalSymbol | undefined
+
+        for (const reExport of this.files.get(file)?.reExports ?? []) {
+            const isWildcard = reExport.exported === SYMBOL_NAMES.ALL_EXPORTS
+            if (!isWildcard && reExport.exported !== name) {
+                continue
+            }
+
+            const imported = isWildcard ? name : reExport.imported
+            const target = this.resolveImport(file, reExport.specifier)
+
+            if (target !== undefined) {
+                const found = this.resolveExternalExport(target, imported, visited)
+                if (found) {
+                    return found
+                }
+            } else if (!this.isExternal(reExport.specifier)) {
+                continue
+            } else if (!isWildcard) {
+                return { name: imported, specifier: reExport.specifier }
+            } else {
+                wildcard ??= { name: imported, specifier: reExport.specifier }
+            }
+        }
+
+        return wildcard
+    }
+
+    private isExternal(specifier: string): boolean {
+        return !specifier.startsWith(RELATIVE_SPECIFIER_PREFIX)
+    }
+
+    private resolve(file: string, name: string, visited: Set<string>): DeclaredType[] {
+        const key = `${file}\0${name}`
+        const symbols = this.files.get(file)
+
+        if (!symbols || visited.has(key)) {
+            return []
+        }
+        visited.add(key)
+
+        const declaration = symbols.declarations.find((candidate) => candidate.name === name)
+        if (declaration) {
+            return this.expand(file, declaration, visited)
+        }
+
+        const [qualifier, ...rest] = name.split(QUALIFIED_NAME_SEPARATOR)
+        const member = rest.join(QUALIFIED_NAME_SEPARATOR)
+        const binding = symbols.imports.find((candidate) => candidate.local === qualifier)
+        const target = binding && this.resolveImport(file, binding.specifier)
+
+        if (!binding || target === undefined) {
+            return []
+        }
+
+        if (binding.imported === SYMBOL_NAMES.ALL_EXPORTS) {
+            return member ? this.resolveExport(target, member, visited) : []
+        }
+
+        return rest.length === 0 ? this.resolveExport(target, binding.imported, visited) : []
+    }
+
+    /**
+     * Looks a name up among the exports of a file, following its re-exports
+     */
+    private resolveExport(file: string, name: string, visited: Set<string>): DeclaredType[] {
+        const own = this.resolve(file, name, visited)
+        if (own.length > 0) {
+            return own
+        }
+
+        const reExports = this.files.get(file)?.reExports ?? []
+
+        for (const reExport of reExports) {
+            const target = this.resolveImport(file, reExport.specifier)
+
+            if (target === undefined) {
+                continue
+            }
+
+            const found =
+                reExport.exported === SYMBOL_NAMES.ALL_EXPORTS
+                    ? this.resolveExport(target, name, visited)
+                    : reExport.exported === name
+                      ? this.resolveExport(target, reExport.imported, visited)
+                      : []
+
+            if (found.length > 0) {
+                return found
+            }
+        }
+
+        return []
+    }
+
+    private expand(
+        file: string,
+        declaration: TypeDeclaration,
+        visited: Set<string>,
+    ): DeclaredType[] {
+        if (declaration.references.length === 0) {
+            return [{ name: declaration.name, file, line: declaration.line }]
+        }
+
+        return declaration.references.flatMap((reference) => this.resolve(file, reference, visited))
+    }
+}
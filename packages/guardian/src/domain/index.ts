@@ -1,12 +1,27 @@
 export * from "./entities/BaseEntity"
 export * from "./entities/SourceFile"
 export * from "./entities/DependencyGraph"
+export * from "./entities/SymbolTable"
 export * from "./value-objects/ValueObject"
 export * from "./value-objects/ProjectPath"
 export * from "./value-objects/HardcodedValue"
 export * from "./value-objects/NamingViolation"
 export * from "./value-objects/RepositoryViolation"
+export * from "./value-objects/GuardianConfig"
+export * from "./value-objects/LayerModel"
+export * from "./value-objects/QualityGate"
+export * from "./value-objects/InlineSuppressions"
 export * from "./services/IFileScanner"
+export * from "./services/IConfigLoader"
+export * from "./services/IModuleResolver"
+export * from "./services/IChangeDetector"
+export * from "./services/IAnalysisCache"
+export * from "./services/IWorkerPool"
+export * from "./services/IHardcodeFixer"
+export * from "./services/IImportFixer"
+export * from "./services/ICustomDetector"
+export * from "./services/IPluginLoader"
+export * from "./services/IFileWatcher"
 export * from "./services/ICodeParser"
 export * from "./services/IHardcodeDetector"
 export * from "./services/INamingConventionDetector"
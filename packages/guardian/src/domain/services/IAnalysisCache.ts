@@ -0,0 +1,41 @@
+export interface AnalysisCacheOptions {
+    /**
+     * Directory the cache files are kept in
+     */
+    cacheDir: string
+    /**
+     * Analyzed directory, each one gets its own cache file
+     */
+    rootDir: string
+    /**
+     * Everything besides file contents that affects results (e.g. the effective config).
+     * A cache written with another key is discarded.
+     */
+    key: string
+}
+
+export interface AnalysisCacheStats {
+    hits: number
+    misses: number
+    /**
+     * Cache file the results were read from and written to
+     */
+    path: string
+}
+
+/**
+ * Interface for persisting per-file analysis results between runs
+ *
+ * Entries are keyed by file path and content hash, so an edited file
+ * never returns a stale result.
+ */
+export interface IAnalysisCache<T> {
+    load(options: AnalysisCacheOptions): Promise<void>
+    get(filePath: string, contentHash: string): T | undefined
+    set(filePath: string, contentHash: string, value: T): void
+    /**
+     * Writes the entries of this run, files that were not seen are dropped
+     */
+    save(): Promise<void>
+    getStats(): AnalysisCacheStats
+}
@@ -19,11 +19,13 @@ export interface IAnemicModelDetector {
      * @param code - Source code to analyze
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param tree - Syntax tree of the code, when the caller already parsed it
      * @returns Array of detected anemic model violations
      */
     detectAnemicModels(
         code: string,
         filePath: string,
         layer: string | undefined,
+        tree?: unknown,
     ): AnemicModelViolation[]
 }
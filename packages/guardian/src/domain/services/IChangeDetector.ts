@@ -0,0 +1,49 @@
+export interface ChangeDetectionOptions {
+    /**
+     * Analyzed directory, must be inside a git work tree
+     */
+    rootDir: string
+    /**
+     * Report files changed since the merge base of this ref and HEAD
+     */
+    since?: string
+    /**
+     * Report files staged in the index and analyze the index contents
+     */
+    staged?: boolean
+}
+
+/**
+ * Files of one analysis run that differ from a git ref or the index
+ *
+ * All paths are relative to the analyzed directory.
+ */
+export interface ChangeSet {
+    /**
+     * Files whose violations are reported
+     */
+    readonly changedFiles: ReadonlySet<string>
+    /**
+     * Contents to analyze instead of the working tree (the git index in staged mode)
+     */
+    readonly contents: ReadonlyMap<string, string>
+    /**
+     * Files on disk that are not part of the analyzed snapshot (untracked files in staged mode)
+     */
+    readonly excludedFiles: ReadonlySet<string>
+    /**
+     * Files missing from disk that are analyzed from `contents` (files
+     * deleted from the working tree but still in the index in staged mode)
+     */
+    readonly indexOnlyFiles: ReadonlySet<string>
+}
+
+/**
+ * Interface for finding changed files in version control
+ */
+export interface IChangeDetector {
+    /**
+     * @throws {Error} If the directory is not a git work tree or the ref does not exist
+     */
+    detect(options: ChangeDetectionOptions): Promise<ChangeSet>
+}
@@ -1,3 +1,95 @@
+import type { ImportKind } from "../../shared/constants"
+
+/**
+ * Module specifier imported by a file, with the line of the import
+ */
+export interface ImportReference {
+    specifier: string
+    line: number
+    kind: ImportKind
+    /**
+     * `import type`, `export type ... from` and imports naming only
+     * `type` specifiers, which are erased from the compiled code
+     */
+    isTypeOnly: boolean
+}
+
+/**
+ * Classes and interfaces declared in a file
+ */
+export interface TypeCounts {
+    /**
+     * Classes, abstract classes and interfaces
+     */
+    total: number
+    /**
+     * Abstract classes and interfaces
+     */
+    abstract: number
+}
+
+/**
+ * Class, interface, enum or type alias declared in a file
+ */
+export interface TypeDeclaration {
+    name: string
+    line: number
+    /**
+     * Type names a type alias stands for, e.g. `User` for
+     * `type UserView = User | null`; empty for other declarations
+     */
+    references: string[]
+}
+
+/**
+ * Name an import statement binds in a file
+ */
+export interface ImportBinding {
+    /**
+     * Name used in the file
+     */
+    local: string
+    /**
+     * Exported name in the imported module, `default` for default imports
+     * and `*` for namespace imports
+     */
+    imported: string
+    specifier: string
+}
+
+/**
+ * Names a file exports from another module, `export { User } from "./User"`
+ * or `export * from "./User"`
+ */
+export interface ReExport {
+    /**
+     * Name under which the file exports it, `*` for `export *`
+     */
+    exported: string
+    imported: string
+    specifier: string
+}
+
+/**
+ * Name a file exports from its own declarations, `default` for the default export
+ */
+export interface LocalExport {
+    name: string
+    line: number
+}
+
+/**
+ * Type declarations of a file and the names it imports and exports,
+ * everything needed to tell which declaration a type name refers to and
+ * which exports are used
+ */
+export interface FileSymbols {
+    declarations: TypeDeclaration[]
+    imports: ImportBinding[]
+    reExports: ReExport[]
+    exports: LocalExport[]
+}
+
 /**
  * Interface for parsing source code
  * Allows infrastructure implementations without domain coupling
@@ -6,5 +98,23 @@ export interface ICodeParser {
     parseJavaScript(code: string): unknown
     parseTypeScript(code: string): unknown
     parseTsx(code: string): unknown
+    /**
+     * Parses code with the grammar matching the file extension
+     */
+    parse(code: string, filePath: string): unknown
     extractFunctions(tree: unknown): string[]
+    /**
+     * Finds import statements, `export ... from` re-exports, `require()`
+     * calls and dynamic `import()` expressions
+     */
+    extractImports(tree: unknown): ImportReference[]
+    /**
+     * Counts class and interface declarations, for the abstractness of packages
+     */
+    countTypes(tree: unknown): TypeCounts
+    /**
+     * Collects type declarations, import bindings, re-exports and local
+     * exports, for the project-wide symbol table
+     */
+    extractSymbols(tree: unknown): FileSymbols
 }
@@ -0,0 +1,20 @@
+import { GuardianConfig, GuardianConfigFile } from "../value-objects/GuardianConfig"
+
+export interface ConfigLoadOptions {
+    rootDir: string
+    configPath?: string
+    config?: GuardianConfigFile
+}
+
+/**
+ * Interface for loading the project configuration
+ *
+ * Resolution order:
+ * 1. Inline `config` object
+ * 2. Explicit `configPath`
+ * 3. Config file discovered from `rootDir` up the directory tree
+ * 4. Built-in defaults
+ */
+export interface IConfigLoader {
+    load(options: ConfigLoadOptions): Promise<GuardianConfig>
+}
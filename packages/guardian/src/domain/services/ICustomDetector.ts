@@ -0,0 +1,91 @@
+import type { SeverityLevel } from "../../shared/constants"
+import type { ImportReference } from "./ICodeParser"
+
+/**
+ * What a custom detector gets to know about the analyzed file
+ *
+ * The same data the built-in per-file detectors work with, computed once
+ * and shared by every detector.
+ */
+export interface DetectorContext {
+    /**
+     * Path relative to the analyzed directory, e.g. "domain/Order.ts"
+     */
+    file: string
+    absolutePath: string
+    content: string
+    /**
+     * Layer of the file in the configured layer model, if any
+     */
+    layer?: string
+    /**
+     * Imports found in the syntax tree, with their line
+     */
+    imports: ImportReference[]
+    /**
+     * tree-sitter `Tree` of the file, undefined for files that are not
+     * TypeScript or JavaScript
+     */
+    tree?: unknown
+}
+
+/**
+ * A problem reported by a custom detector
+ */
+export interface DetectorFinding {
+    message: string
+    line?: number
+    /**
+     * 1-based column
+     */
+    column?: number
+    suggestion?: string
+    /**
+     * Overrides the detector severity for this finding
+     */
+    severity?: SeverityLevel
+}
+
+/**
+ * A rule provided by a plugin
+ *
+ * Runs once per analyzed file. Findings are reported under the rule
+ * `<plugin name>/<detector name>` and can be configured, suppressed and
+ * baselined like the built-in rules.
+ *
+ * @example
+ * ```typescript
+ * const noDateNow: ICustomDetector = {
+ *     name: "no-date-now",
+ *     severity: "high",
+ *     detect: ({ layer, content }) =>
+ *         layer === "domain" && content.includes("Date.now()")
+ *             ? [{ message: "Inject a clock instead of calling Date.now()" }]
+ *             : [],
+ * }
+ * ```
+ */
+export interface ICustomDetector {
+    /**
+     * Rule name within the plugin, without "/" or whitespace
+     */
+    name: string
+    description?: string
+    /**
+     * Severity of the findings (default: "medium")
+     */
+    severity?: SeverityLevel
+    detect(context: DetectorContext): DetectorFinding[] | Promise<DetectorFinding[]>
+}
+
+/**
+ * What a plugin module exports, either as `module.exports` or as default export
+ */
+export interface GuardianPlugin {
+    /**
+     * Prefix of the plugin's rule names, without "/" or whitespace
+     */
+    name: string
+    version?: string
+    detectors: ICustomDetector[]
+}
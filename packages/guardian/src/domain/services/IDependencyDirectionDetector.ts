@@ -1,4 +1,6 @@
+import { ImportReference } from "./ICodeParser"
 import { DependencyViolation } from "../value-objects/DependencyViolation"
+import { LayerModel } from "../value-objects/LayerModel"
 
 /**
  * Interface for detecting dependency direction violations in the codebase
@@ -20,12 +22,36 @@ export interface IDependencyDirectionDetector {
      * @param code - Source code to analyze
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param resolveImport - Maps an import to the project file it resolves to; unresolved
+     * imports fall back to matching the specifier against the layer patterns
      * @returns Array of detected dependency direction violations
      */
     detectViolations(
         code: string,
         filePath: string,
         layer: string | undefined,
+        layerModel?: LayerModel,
+        resolveImport?: (importPath: string) => string | undefined,
+    ): DependencyViolation[]
+
+    /**
+     * Detects dependency direction violations in imports that were already
+     * extracted from the file
+     *
+     * @param imports - Imports of the file with their lines
+     * @param filePath - Path to the file being analyzed
+     * @param layer - The architectural layer of the file
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param resolveImport - Maps an import to the project file it resolves to
+     * @returns Array of detected dependency direction violations
+     */
+    detectImportViolations(
+        imports: ImportReference[],
+        filePath: string,
+        layer: string | undefined,
+        layerModel?: LayerModel,
+        resolveImport?: (importPath: string) => string | undefined,
     ): DependencyViolation[]
 
     /**
@@ -33,15 +59,28 @@ export interface IDependencyDirectionDetector {
      *
      * @param fromLayer - The layer that is importing
      * @param toLayer - The layer being imported
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param isTypeOnly - Whether the import only brings in types
      * @returns True if the import violates dependency rules
      */
-    isViolation(fromLayer: string, toLayer: string): boolean
+    isViolation(
+        fromLayer: string,
+        toLayer: string,
+        layerModel?: LayerModel,
+        isTypeOnly?: boolean,
+    ): boolean
 
     /**
      * Extracts the layer from an import path
      *
      * @param importPath - The import path to analyze
+     * @param fromFile - Path of the importing file, used to resolve relative imports
+     * @param layerModel - Layers to match against, defaults to the built-in model
      * @returns The layer name if detected, undefined otherwise
      */
-    extractLayerFromImport(importPath: string): string | undefined
+    extractLayerFromImport(
+        importPath: string,
+        fromFile?: string,
+        layerModel?: LayerModel,
+    ): string | undefined
 }
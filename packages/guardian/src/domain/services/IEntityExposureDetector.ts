@@ -1,4 +1,25 @@
 import { EntityExposure } from "../value-objects/EntityExposure"
+import type { DeclaredType } from "../entities/SymbolTable"
+
+/**
+ * Types a controller method or route handler returns
+ */
+export interface ReturnedType {
+    methodName: string
+    /**
+     * Line of the method name
+     */
+    line: number
+    /**
+     * Declared return type with `Promise<...>` unwrapped, or the inferred
+     * type names joined by ` | `
+     */
+    returnType: string
+    /**
+     * Names of the returned types as written in the file
+     */
+    typeNames: string[]
+}
 
 /**
  * Interface for detecting entity exposure violations in the codebase
@@ -12,14 +33,50 @@ export interface IEntityExposureDetector {
      * Detects entity exposure violations in the given code
      *
      * Analyzes method return types in controllers/routes to identify
-     * domain entities being directly exposed to external clients.
+     * domain entities being directly exposed to external clients. Without
+     * a symbol table, every PascalCase type without a DTO suffix counts as
+     * an entity.
      *
      * @param code - Source code to analyze
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param tree - Syntax tree of the code, when the caller already parsed it
      * @returns Array of detected entity exposure violations
      */
-    detectExposures(code: string, filePath: string, layer: string | undefined): EntityExposure[]
+    detectExposures(
+        code: string,
+        filePath: string,
+        layer: string | undefined,
+        tree?: unknown,
+    ): EntityExposure[]
+
+    /**
+     * Finds the types controllers and route handlers return, from the
+     * declared return type or, without one, from the returned expressions
+     *
+     * @returns Nothing for files outside controllers in the infrastructure layer
+     */
+    findReturnedTypes(
+        code: string,
+        filePath: string,
+        layer: string | undefined,
+        tree?: unknown,
+    ): ReturnedType[]
+
+    /**
+     * Reports the returned types that are domain entities
+     *
+     * @param resolveType - Declarations a type name of the file refers to;
+     * entities are the types declared under `domain/entities` or
+     * `domain/aggregates`. Without it, PascalCase types without a DTO
+     * suffix count as entities.
+     */
+    resolveExposures(
+        returnedTypes: ReturnedType[],
+        filePath: string,
+        layer: string,
+        resolveType?: (name: string) => DeclaredType[],
+    ): EntityExposure[]
 
     /**
      * Checks if a return type is a domain entity
@@ -2,7 +2,16 @@ export interface FileScanOptions {
     rootDir: string
     include?: string[]
     exclude?: string[]
+    /**
+     * Patterns excluded on top of `exclude` (or the default excludes)
+     */
+    additionalExclude?: string[]
     extensions?: string[]
+    /**
+     * Absolute paths of files missing from disk that are scanned as if
+     * they were there, like files only left in the git index
+     */
+    extraFiles?: string[]
 }
 
 /**
@@ -0,0 +1,39 @@
+export interface FileWatchOptions {
+    /**
+     * Directory watched with all its subdirectories
+     */
+    rootDir: string
+    /**
+     * Directory names left out, like the file scanner excludes them
+     */
+    exclude?: string[]
+    /**
+     * Directory names left out on top of `exclude` (or the default excludes)
+     */
+    additionalExclude?: string[]
+    /**
+     * Single files watched besides the directory, e.g. the config file
+     */
+    files?: string[]
+    /**
+     * Receives the absolute paths that changed, batched until changes settle
+     */
+    onChange(paths: string[]): void
+}
+
+export interface FileWatchHandle {
+    /**
+     * Stops watching, pending changes are dropped
+     */
+    close(): void
+}
+
+/**
+ * Interface for being notified about changed files
+ */
+export interface IFileWatcher {
+    /**
+     * @throws {Error} If the directory cannot be watched
+     */
+    watch(options: FileWatchOptions): Promise<FileWatchHandle>
+}
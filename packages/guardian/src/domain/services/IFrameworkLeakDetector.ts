@@ -1,4 +1,20 @@
 import { FrameworkLeak } from "../value-objects/FrameworkLeak"
+import type { FrameworkSettings } from "../value-objects/GuardianConfig"
+import type { ExternalSymbol } from "../entities/SymbolTable"
+import type { FrameworkUsageKind } from "../../shared/constants/rules"
+
+/**
+ * Decorator or base class used in a file, whose origin is resolved once
+ * all files are known
+ */
+export interface FrameworkUsage {
+    kind: FrameworkUsageKind
+    /**
+     * Name as written, `orm.Entity` for members of namespace imports
+     */
+    name: string
+    line: number
+}
 
 /**
  * Interface for detecting framework-specific imports in domain layer
@@ -13,9 +29,15 @@ export interface IFrameworkLeakDetector {
      * @param imports - Array of import paths from the file
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param settings - Configured framework catalog, the built-in one when not given
      * @returns Array of detected framework leaks
      */
-    detectLeaks(imports: string[], filePath: string, layer: string | undefined): FrameworkLeak[]
+    detectLeaks(
+        imports: string[],
+        filePath: string,
+        layer: string | undefined,
+        settings?: FrameworkSettings,
+    ): FrameworkLeak[]
 
     /**
      * Checks if a specific import is a framework package
@@ -24,4 +46,30 @@ export interface IFrameworkLeakDetector {
      * @returns True if the import is a framework package
      */
     isFrameworkPackage(importPath: string): boolean
+
+    /**
+     * Collects the decorators and base classes used in a file
+     *
+     * @param code - Source code to analyze
+     * @param filePath - Path to the file, to pick the grammar
+     * @param tree - Syntax tree of the code, parsed here when not given
+     */
+    findUsages(code: string, filePath: string, tree?: unknown): FrameworkUsage[]
+
+    /**
+     * Reports the usages whose decorator or base class comes from a framework package
+     *
+     * @param usages - Usages found by `findUsages`
+     * @param filePath - Path to the file being analyzed
+     * @param layer - The architectural layer of the file
+     * @param resolveExternal - Module outside the project a name comes from
+     * @param settings - Configured framework catalog, the built-in one when not given
+     */
+    resolveUsageLeaks(
+        usages: FrameworkUsage[],
+        filePath: string,
+        layer: string | undefined,
+        resolveExternal: (name: string) => ExternalSymbol | undefined,
+        settings?: FrameworkSettings,
+    ): FrameworkLeak[]
 }
@@ -6,5 +6,8 @@ import { HardcodedValue } from "../value-objects/HardcodedValue"
 export interface IHardcodeDetector {
     detectMagicNumbers(code: string, filePath: string): HardcodedValue[]
     detectMagicStrings(code: string, filePath: string): HardcodedValue[]
-    detectAll(code: string, filePath: string): HardcodedValue[]
+    /**
+     * @param tree - Syntax tree of the code, when the caller already parsed it
+     */
+    detectAll(code: string, filePath: string, tree?: unknown): HardcodedValue[]
 }
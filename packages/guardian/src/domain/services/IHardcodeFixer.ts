@@ -0,0 +1,84 @@
+/**
+ * Hardcoded value to move into a named constant
+ */
+export interface HardcodeFixTarget {
+    /**
+     * File with the value, relative to the project root
+     */
+    file: string
+    line: number
+    column: number
+    constantName: string
+    /**
+     * Suggested constants module, e.g. `shared/constants` or `src/config/environment.ts`
+     */
+    location: string
+}
+
+/**
+ * New contents of a file touched by a fix
+ */
+export interface FileChange {
+    /**
+     * Path relative to the project root
+     */
+    file: string
+    /**
+     * Empty for files the fix creates
+     */
+    before: string
+    after: string
+    created: boolean
+}
+
+/**
+ * Constant a fix declares or reuses
+ */
+export interface ExtractedConstant {
+    name: string
+    /**
+     * Literal as written in the source, e.g. `"admin"` or `5000`
+     */
+    value: string
+    /**
+     * Constants module, relative to the project root
+     */
+    file: string
+    /**
+     * Number of values replaced with the constant
+     */
+    usages: number
+    /**
+     * True when the module already declared the constant with this value
+     */
+    reused: boolean
+}
+
+export interface SkippedFix {
+    file: string
+    line: number
+    column: number
+    reason: string
+}
+
+export interface FixPlan {
+    changes: FileChange[]
+    constants: ExtractedConstant[]
+    skipped: SkippedFix[]
+}
+
+/**
+ * Interface for rewriting hardcoded values into constants
+ * Changes are planned before they are applied, so they can be shown as a
+ * diff first
+ */
+export interface IHardcodeFixer {
+    /**
+     * Computes the new file contents without writing anything
+     *
+     * Identical values share one constant, and constant names never clash
+     * with declarations or imports already in scope.
+     */
+    plan(rootDir: string, targets: HardcodeFixTarget[]): Promise<FixPlan>
+    apply(rootDir: string, plan: FixPlan): Promise<void>
+}
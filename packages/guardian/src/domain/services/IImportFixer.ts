@@ -0,0 +1,36 @@
+import type { FixPlan } from "./IHardcodeFixer"
+
+/**
+ * Import whose module specifier is replaced
+ */
+export interface ImportFixTarget {
+    /**
+     * Importing file, relative to the project root
+     */
+    file: string
+    /**
+     * Line the import statement or `require` call starts on
+     */
+    line: number
+    specifier: string
+    replacement: string
+    /**
+     * Names the import uses that the replacement does not export, the
+     * import is skipped when there are any
+     */
+    unexportedNames?: string[]
+}
+
+/**
+ * Interface for rewriting the module specifiers of imports
+ * Only the specifier is rewritten, the imported names stay as they are
+ */
+export interface IImportFixer {
+    /**
+     * Computes the new file contents without writing anything
+     *
+     * Plans of import fixes never declare constants.
+     */
+    plan(rootDir: string, targets: ImportFixTarget[]): Promise<FixPlan>
+    apply(rootDir: string, plan: FixPlan): Promise<void>
+}
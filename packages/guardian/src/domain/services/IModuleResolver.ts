@@ -0,0 +1,54 @@
+/**
+ * Project-wide data needed to resolve imports
+ *
+ * Created once per analysis run by {@link IModuleResolver.createContext}.
+ */
+export interface ModuleResolutionContext {
+    /**
+     * Absolute paths of all analyzed files
+     */
+    readonly files: ReadonlySet<string>
+    /**
+     * Absolute `compilerOptions.baseUrl` from tsconfig, if set
+     */
+    readonly baseUrl?: string
+    /**
+     * `compilerOptions.paths` with substitutions made absolute
+     */
+    readonly paths: ReadonlyMap<string, readonly string[]>
+    /**
+     * Absolute paths of the analyzed files the nearest package.json exposes
+     * as entry points of the package
+     */
+    readonly entryPoints: ReadonlySet<string>
+}
+
+/**
+ * Interface for resolving import specifiers to project files
+ * Relative imports and tsconfig `baseUrl`/`paths` aliases are resolved,
+ * package imports are not
+ */
+export interface IModuleResolver {
+    /**
+     * Reads the project's tsconfig and package.json and indexes the analyzed files
+     *
+     * @param rootDir - Analyzed directory, tsconfig.json and package.json
+     * are searched from here upwards
+     * @param files - Absolute paths of all analyzed files
+     */
+    createContext(rootDir: string, files: string[]): Promise<ModuleResolutionContext>
+
+    /**
+     * Resolves an import specifier to the absolute path of an analyzed file
+     *
+     * @param importPath - Import specifier as written in the source
+     * @param fromFile - Absolute path of the importing file
+     * @param context - Context created by {@link createContext}
+     * @returns Absolute file path, or undefined for packages and files outside the project
+     */
+    resolve(
+        importPath: string,
+        fromFile: string,
+        context: ModuleResolutionContext,
+    ): string | undefined
+}
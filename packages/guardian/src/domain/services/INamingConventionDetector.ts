@@ -1,3 +1,4 @@
+import type { NamingSettings } from "../value-objects/GuardianConfig"
 import { NamingViolation } from "../value-objects/NamingViolation"
 
 /**
@@ -11,6 +12,8 @@ export interface INamingConventionDetector {
      * @param fileName - Name of the file to check (e.g., "UserService.ts")
      * @param layer - Architectural layer of the file (domain, application, infrastructure, shared)
      * @param filePath - Relative file path for context
+     * @param tree - Syntax tree of the content, when the caller already parsed it
+     * @param settings - Configured naming conventions, the built-in ones when not given
      * @returns Array of naming convention violations
      */
     detectViolations(
@@ -18,5 +21,7 @@ export interface INamingConventionDetector {
         fileName: string,
         layer: string | undefined,
         filePath: string,
+        tree?: unknown,
+        settings?: NamingSettings,
     ): NamingViolation[]
 }
@@ -0,0 +1,33 @@
+import type { GuardianConfig } from "../value-objects/GuardianConfig"
+import type { GuardianPlugin } from "./ICustomDetector"
+
+/**
+ * A plugin module loaded from the config's `plugins` list
+ */
+export interface LoadedPlugin {
+    plugin: GuardianPlugin
+    /**
+     * Absolute path of the module, so worker threads can load it again
+     */
+    modulePath: string
+    /**
+     * Hash of the module file and the project files it requires, results are
+     * not reused from the cache once one of them changed
+     */
+    fingerprint: string
+}
+
+/**
+ * Interface for loading the plugins listed in the project configuration
+ * Plugin modules are evaluated in the guardian process itself
+ */
+export interface IPluginLoader {
+    /**
+     * Loads every plugin of the config, resolving paths and package names
+     * from the config file's directory, or from `rootDir` without a config file
+     *
+     * @throws {Error} If a plugin cannot be loaded, is malformed, or the config
+     * names a plugin rule that no plugin provides
+     */
+    load(config: GuardianConfig, rootDir: string): Promise<LoadedPlugin[]>
+}
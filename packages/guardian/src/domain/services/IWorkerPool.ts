@@ -0,0 +1,21 @@
+/**
+ * Interface for running independent tasks in parallel
+ * Tasks may run on other threads, so tasks and results must survive
+ * structured cloning
+ */
+export interface IWorkerPool<TTask, TResult> {
+    /**
+     * Number of tasks that run at the same time
+     */
+    readonly size: number
+    /**
+     * Results are returned in task order, however the tasks were scheduled
+     *
+     * @throws {Error} If a task fails or a worker exits unexpectedly
+     */
+    run(tasks: readonly TTask[]): Promise<TResult[]>
+    /**
+     * Stops all workers, the pool cannot be used afterwards
+     */
+    close(): Promise<void>
+}
@@ -1,23 +1,40 @@
 import { ValueObject } from "./ValueObject"
-import { FRAMEWORK_LEAK_MESSAGES } from "../../shared/constants/rules"
+import {
+    FRAMEWORK_LEAK_MESSAGES,
+    FRAMEWORK_USAGE_KINDS,
+    type FrameworkUsageKind,
+} from "../../shared/constants/rules"
 import {
     DEFAULT_FRAMEWORK_CATEGORY_DESCRIPTION,
     FRAMEWORK_CATEGORY_DESCRIPTIONS,
 } from "../constants/FrameworkCategories"
 
+/**
+ * Decorator or base class through which a file uses a framework package
+ */
+export interface FrameworkLeakUsage {
+    kind: FrameworkUsageKind
+    /**
+     * Name exported by the package, e.g. `Entity`
+     */
+    symbol: string
+}
+
 interface FrameworkLeakProps {
     readonly packageName: string
     readonly filePath: string
     readonly layer: string
     readonly category: string
     readonly line?: number
+    readonly usage?: FrameworkLeakUsage
 }
 
 /**
  * Represents a framework leak violation in the codebase
  *
  * A framework leak occurs when a domain layer file imports a framework-specific package,
- * creating tight coupling and violating Clean Architecture principles.
+ * or uses its decorators or base classes, creating tight coupling and violating
+ * Clean Architecture principles.
  *
  * @example
  * ```typescript
@@ -45,6 +62,7 @@ export class FrameworkLeak extends ValueObject<FrameworkLeakProps> {
         layer: string,
         category: string,
         line?: number,
+        usage?: FrameworkLeakUsage,
     ): FrameworkLeak {
         return new FrameworkLeak({
             packageName,
@@ -52,6 +70,7 @@ export class FrameworkLeak extends ValueObject<FrameworkLeakProps> {
             layer,
             category,
             line,
+            usage,
         })
     }
 
@@ -75,11 +94,25 @@ export class FrameworkLeak extends ValueObject<FrameworkLeakProps> {
         return this.props.line
     }
 
+    public get usage(): FrameworkLeakUsage | undefined {
+        return this.props.usage
+    }
+
     public getMessage(): string {
-        return FRAMEWORK_LEAK_MESSAGES.DOMAIN_IMPORT.replace(
-            FRAMEWORK_LEAK_MESSAGES.PACKAGE_PLACEHOLDER,
-            this.props.packageName,
-        )
+        const { layer, packageName, usage } = this.props
+        const template = !usage
+            ? FRAMEWORK_LEAK_MESSAGES.IMPORT
+            : usage.kind === FRAMEWORK_USAGE_KINDS.DECORATOR
+              ? FRAMEWORK_LEAK_MESSAGES.DECORATOR
+              : FRAMEWORK_LEAK_MESSAGES.BASE_CLASS
+
+        return template
+            .replace(
+                FRAMEWORK_LEAK_MESSAGES.LAYER_PLACEHOLDER,
+                layer.charAt(0).toUpperCase() + layer.slice(1),
+            )
+            .replace(FRAMEWORK_LEAK_MESSAGES.PACKAGE_PLACEHOLDER, packageName)
+            .replace(FRAMEWORK_LEAK_MESSAGES.SYMBOL_PLACEHOLDER, usage?.symbol ?? "")
     }
 
     public getSuggestion(): string {
@@ -0,0 +1,438 @@
+import { ValueObject } from "./ValueObject"
+import { LayerModel } from "./LayerModel"
+import { type GateTarget, QualityGate } from "./QualityGate"
+import type { SeverityLevel } from "../../shared/constants"
+import {
+    DEFAULT_CONTEXT_PUBLIC_API,
+    NAMING_PRESETS,
+    type NamingPreset,
+    PACKAGE_METRIC_LEVELS,
+    type PackageMetricLevel,
+    type PluginRuleName,
+    RULE_SETTING_OFF,
+    type RuleName,
+} from "../../shared/constants/rules"
+
+/**
+ * Object form of a rule setting
+ */
+export interface RuleSettingObject {
+    enabled?: boolean
+    severity?: SeverityLevel
+}
+
+/**
+ * A rule can be switched off, re-graded to another severity,
+ * or configured with the object form
+ */
+export type RuleSetting = typeof RULE_SETTING_OFF | SeverityLevel | RuleSettingObject
+
+/**
+ * Layer definition in the config file
+ */
+export interface LayerSettings {
+    patterns: string[]
+    mayDependOn?: string[]
+    /**
+     * Layers that may only be imported with type-only imports
+     */
+    mayImportTypesFrom?: string[]
+}
+
+/**
+ * Quality gate of `guardian check`
+ */
+export interface GateSettings {
+    /**
+     * Lowest severity that fails the check (default: "low", any violation fails)
+     */
+    failOn?: SeverityLevel
+    /**
+     * Allowed number of violations per rule or hardcode type.
+     * Violations with a threshold are not checked against `failOn`.
+     */
+    maxViolations?: Partial<Record<GateTarget, number>>
+}
+
+/**
+ * Reporting of `guardian-disable` comments under the `suppression-comment` rule
+ */
+export interface SuppressionSettings {
+    /**
+     * Report comments that do not suppress any violation (default: false)
+     */
+    reportUnused?: boolean
+    /**
+     * Report comments without a `-- reason` (default: false)
+     */
+    requireReason?: boolean
+}
+
+/**
+ * Limits a package is held to by the `package-metrics` rule, all between 0 and 1
+ */
+export interface PackageMetricThresholds {
+    maxInstability?: number
+    minAbstractness?: number
+    maxDistance?: number
+}
+
+/**
+ * Package metrics: what a package is and the limits packages are held to
+ */
+export interface PackageMetricsSettings {
+    /**
+     * Packages are layers or directories (default: "layer")
+     */
+    level?: PackageMetricLevel
+    /**
+     * Limits by package name glob, e.g. `{ "domain": { "maxInstability": 0.3 } }`.
+     * A package matching several globs is held to all of them.
+     */
+    thresholds?: Record<string, PackageMetricThresholds>
+}
+
+/**
+ * Conventions a configured naming rule holds files to: a named style
+ * (PascalCase, camelCase, kebab-case, snake_case, dot-suffix) or a regex
+ */
+export interface NamingRuleSettings {
+    /**
+     * File names, checked without their extension against a style and
+     * with it against a regex, e.g. `"dot-suffix"` for `user.entity.ts`
+     */
+    files?: string
+    /**
+     * Class names, in place of the built-in class conventions of the layer
+     */
+    classes?: string
+}
+
+/**
+ * Naming conventions of the `naming-convention` rule
+ */
+export interface NamingSettings {
+    /**
+     * Built-in conventions: the Clean Architecture ones of each layer, or
+     * none (default: "default")
+     */
+    preset?: NamingPreset
+    /**
+     * Verbs use case names may start with, on top of the built-in ones
+     */
+    useCaseVerbs?: string[]
+    /**
+     * Rules by layer name or path glob, e.g. `{ "domain": { "files": "kebab-case" } }`.
+     * A file matching several keys is held to all of them.
+     */
+    rules?: Record<string, NamingRuleSettings>
+}
+
+/**
+ * Framework catalog of the `framework-leak` rule
+ */
+export interface FrameworkSettings {
+    /**
+     * Packages by category, added to the built-in catalog, e.g.
+     * `{ "messaging": ["kafkajs", "@nestjs/microservices"] }`.
+     * Entries are package names or globs like `@opentelemetry/*`.
+     */
+    categories?: Record<string, string[]>
+    /**
+     * Layers checked for framework leaks, each with the categories and
+     * packages it may still use. The domain layer is checked unless listed
+     * with its own allowances.
+     */
+    layers?: Record<string, string[]>
+}
+
+/**
+ * Bounded contexts of the `bounded-context` rule
+ */
+export interface BoundedContextSettings {
+    /**
+     * Globs of the context directories, each matching directory is a
+     * context named after it, e.g. `["src/contexts/*"]`
+     */
+    contexts?: string[]
+    /**
+     * Modules other contexts may import, as globs relative to the context
+     * directory (default: `["index.{ts,tsx,js,jsx}"]`)
+     */
+    publicApi?: string[]
+    /**
+     * Globs of the shared kernel files, which belong to no context and may
+     * be imported by all of them
+     */
+    sharedKernel?: string[]
+}
+
+/**
+ * Files of the `dead-code` rule that are used without being imported
+ */
+export interface DeadCodeSettings {
+    /**
+     * Globs of entry point files besides those of package.json, tests,
+     * type declarations and tool configs, e.g. scripts and framework routes
+     */
+    entryPoints?: string[]
+}
+
+/**
+ * Shape of guardian.config.json / guardian.config.ts
+ */
+export interface GuardianConfigFile {
+    exclude?: string[]
+    /**
+     * Plugin modules providing custom rules: package names, or paths
+     * relative to the config file
+     */
+    plugins?: string[]
+    rules?: Partial<Record<RuleName | PluginRuleName, RuleSetting>>
+    /**
+     * Replaces the built-in domain/application/infrastructure/shared model.
+     * Layers are matched in the order they are listed.
+     */
+    layers?: Record<string, LayerSettings>
+    gate?: GateSettings
+    suppressions?: SuppressionSettings
+    packageMetrics?: PackageMetricsSettings
+    naming?: NamingSettings
+    frameworks?: FrameworkSettings
+    boundedContexts?: BoundedContextSettings
+    deadCode?: DeadCodeSettings
+}
+
+interface ResolvedRuleSetting {
+    readonly enabled: boolean
+    readonly severity?: SeverityLevel
+}
+
+interface GuardianConfigProps {
+    readonly source?: string
+    readonly settings: GuardianConfigFile
+    readonly exclude: string[]
+    readonly plugins: string[]
+    readonly rules: Partial<Record<RuleName | PluginRuleName, ResolvedRuleSetting>>
+    readonly layerModel: LayerModel
+    readonly gate: QualityGate
+    readonly suppressions: Required<SuppressionSettings>
+    readonly packageMetrics: Required<PackageMetricsSettings>
+    readonly naming: Required<NamingSettings>
+    readonly frameworks: Required<FrameworkSettings>
+    readonly boundedContexts: Required<BoundedContextSettings>
+    readonly deadCode: Required<DeadCodeSettings>
+}
+
+/**
+ * Effective project configuration used by the analysis pipeline
+ *
+ * Rules that are not mentioned in the config file stay enabled
+ * with their built-in severity.
+ *
+ * @example
+ * ```typescript
+ * const config = GuardianConfig.create({
+ *     rules: {
+ *         "hardcoded-value": "off",
+ *         "naming-convention": "high",
+ *     },
+ * })
+ *
+ * config.isRuleEnabled("hardcoded-value") // false
+ * config.getSeverity("naming-convention", "medium") // "high"
+ * ```
+ */
+export class GuardianConfig extends ValueObject<GuardianConfigProps> {
+    private constructor(props: GuardianConfigProps) {
+        super(props)
+    }
+
+    public static create(file: GuardianConfigFile, source?: string): GuardianConfig {
+        const rules: Partial<Record<RuleName | PluginRuleName, ResolvedRuleSetting>> = {}
+
+        for (const [rule, setting] of Object.entries(file.rules ?? {})) {
+            if (setting !== undefined) {
+                rules[rule as RuleName | PluginRuleName] =
+                    GuardianConfig.resolveRuleSetting(setting)
+            }
+        }
+
+        return new GuardianConfig({
+            source,
+            settings: JSON.parse(JSON.stringify(file)) as GuardianConfigFile,
+            exclude: [...(file.exclude ?? [])],
+            plugins: [...(file.plugins ?? [])],
+            rules,
+            layerModel: file.layers
+                ? GuardianConfig.resolveLayers(file.layers)
+                : LayerModel.default(),
+            gate: QualityGate.create(file.gate?.failOn, file.gate?.maxViolations),
+            suppressions: {
+                reportUnused: file.suppressions?.reportUnused ?? false,
+                requireReason: file.suppressions?.requireReason ?? false,
+            },
+            packageMetrics: GuardianConfig.resolvePackageMetrics(file.packageMetrics ?? {}),
+            naming: GuardianConfig.resolveNaming(file.naming),
+            frameworks: GuardianConfig.resolveFrameworks(file.frameworks),
+            boundedContexts: GuardianConfig.resolveBoundedContexts(file.boundedContexts),
+            deadCode: GuardianConfig.resolveDeadCode(file.deadCode),
+        })
+    }
+
+    public static default(): GuardianConfig {
+        return GuardianConfig.create({})
+    }
+
+    /**
+     * Path of the config file this config was loaded from, if any
+     */
+    public get source(): string | undefined {
+        return this.props.source
+    }
+
+    /**
+     * Settings as written in the config file, e.g. to detect config changes
+     */
+    public get settings(): GuardianConfigFile {
+        return JSON.parse(JSON.stringify(this.props.settings)) as GuardianConfigFile
+    }
+
+    public get exclude(): string[] {
+        return [...this.props.exclude]
+    }
+
+    public get plugins(): string[] {
+        return [...this.props.plugins]
+    }
+
+    /**
+     * Rules named in the config, built-in and plugin ones
+     */
+    public get configuredRules(): string[] {
+        return Object.keys(this.props.rules)
+    }
+
+    public get layerModel(): LayerModel {
+        return this.props.layerModel
+    }
+
+    public get gate(): QualityGate {
+        return this.props.gate
+    }
+
+    public get suppressions(): Required<SuppressionSettings> {
+        return { ...this.props.suppressions }
+    }
+
+    public get packageMetrics(): Required<PackageMetricsSettings> {
+        return {
+            level: this.props.packageMetrics.level,
+            thresholds: { ...this.props.packageMetrics.thresholds },
+        }
+    }
+
+    public get naming(): Required<NamingSettings> {
+        return {
+            preset: this.props.naming.preset,
+            useCaseVerbs: [...this.props.naming.useCaseVerbs],
+            rules: { ...this.props.naming.rules },
+        }
+    }
+
+    public get frameworks(): Required<FrameworkSettings> {
+        return {
+            categories: { ...this.props.frameworks.categories },
+            layers: { ...this.props.frameworks.layers },
+        }
+    }
+
+    public get boundedContexts(): Required<BoundedContextSettings> {
+        return {
+            contexts: [...this.props.boundedContexts.contexts],
+            publicApi: [...this.props.boundedContexts.publicApi],
+            sharedKernel: [...this.props.boundedContexts.sharedKernel],
+        }
+    }
+
+    public get deadCode(): Required<DeadCodeSettings> {
+        return { entryPoints: [...this.props.deadCode.entryPoints] }
+    }
+
+    public isRuleEnabled(rule: RuleName | PluginRuleName): boolean {
+        return this.props.rules[rule]?.enabled ?? true
+    }
+
+    /**
+     * Returns the configured severity for the rule, or the built-in one
+     */
+    public getSeverity(
+        rule: RuleName | PluginRuleName,
+        defaultSeverity: SeverityLevel,
+    ): SeverityLevel {
+        return this.props.rules[rule]?.severity ?? defaultSeverity
+    }
+
+    private static resolveRuleSetting(setting: RuleSetting): ResolvedRuleSetting {
+        if (setting === RULE_SETTING_OFF) {
+            return { enabled: false }
+        }
+
+        if (typeof setting === "string") {
+            return { enabled: true, severity: setting }
+        }
+
+        return { enabled: setting.enabled ?? true, severity: setting.severity }
+    }
+
+    private static resolvePackageMetrics(
+        settings: PackageMetricsSettings,
+    ): Required<PackageMetricsSettings> {
+        return {
+            level: settings.level ?? PACKAGE_METRIC_LEVELS.LAYER,
+            thresholds: { ...settings.thresholds },
+        }
+    }
+
+    private static resolveNaming(settings: NamingSettings = {}): Required<NamingSettings> {
+        return {
+            preset: settings.preset ?? NAMING_PRESETS.DEFAULT,
+            useCaseVerbs: [...(settings.useCaseVerbs ?? [])],
+            rules: { ...settings.rules },
+        }
+    }
+
+    private static resolveFrameworks(
+        settings: FrameworkSettings = {},
+    ): Required<FrameworkSettings> {
+        return {
+            categories: { ...settings.categories },
+            layers: { ...settings.layers },
+        }
+    }
+
+    private static resolveBoundedContexts(
+        settings: BoundedContextSettings = {},
+    ): Required<BoundedContextSettings> {
+        return {
+            contexts: [...(settings.contexts ?? [])],
+            publicApi: [...(settings.publicApi ?? DEFAULT_CONTEXT_PUBLIC_API)],
+            sharedKernel: [...(settings.sharedKernel ?? [])],
+        }
+    }
+
+    private static resolveDeadCode(settings: DeadCodeSettings = {}): Required<DeadCodeSettings> {
+        return { entryPoints: [...(settings.entryPoints ?? [])] }
+    }
+
+    private static resolveLayers(layers: Record<string, LayerSettings>): LayerModel {
+        return LayerModel.create(
+            Object.entries(layers).map(([name, settings]) => ({
+                name,
+                patterns: [...settings.patterns],
+                mayDependOn: [...(settings.mayDependOn ?? [])],
+                mayImportTypesFrom: [...(settings.mayImportTypesFrom ?? [])],
+            })),
+        )
+    }
+}
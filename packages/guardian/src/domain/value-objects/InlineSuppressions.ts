@@ -0,0 +1,226 @@
+import { ValueObject } from "./ValueObject"
+import {
+    SUPPRESSION_KINDS,
+    SUPPRESSION_PREFIX,
+    SUPPRESSION_REASON_SEPARATOR,
+} from "../../shared/constants/rules"
+
+export type SuppressionKind = (typeof SUPPRESSION_KINDS)[keyof typeof SUPPRESSION_KINDS]
+
+export interface SuppressionDirective {
+    readonly kind: SuppressionKind
+    /**
+     * Suppressed rules, empty when the comment suppresses every rule
+     */
+    readonly rules: readonly string[]
+    /**
+     * Line of the comment (1-based)
+     */
+    readonly line: number
+    /**
+     * Line the directive applies to, undefined for file-level directives
+     */
+    readonly targetLine?: number
+    readonly reason?: string
+    /**
+     * Comment text without the comment markers
+     */
+    readonly text: string
+}
+
+interface InlineSuppressionsProps {
+    readonly directives: readonly SuppressionDirective[]
+}
+
+const KIND_ALTERNATION = [
+    SUPPRESSION_KINDS.NEXT_LINE,
+    SUPPRESSION_KINDS.LINE,
+    SUPPRESSION_KINDS.FILE,
+].join("|")
+
+const DIRECTIVE_PATTERN = new RegExp(
+    `^(?:\\/\\/|\\/\\*)\\s*(${SUPPRESSION_PREFIX}(${KIND_ALTERNATION}))(?![\\w-])(.*?)(?:\\*\\/|$)`,
+)
+
+const RULE_LIST_SEPARATOR = /[\s,]+/
+
+const LINE_COMMENT = "//"
+const BLOCK_COMMENT_START = "/*"
+const BLOCK_COMMENT_END = "*/"
+const TEMPLATE_QUOTE = "`"
+const STRING_QUOTES = new Set(["'", '"'])
+const ESCAPE = "\\"
+
+/**
+ * Where the scan of a line continues: plain code, or inside a literal or
+ * block comment opened earlier
+ */
+interface ScanState {
+    quote?: string
+    inBlockComment: boolean
+}
+
+/**
+ * Finds where comments start on each line, so comment markers inside
+ * strings and template literals are not taken for comments
+ *
+ * Template literals and block comments may span lines. Nested templates
+ * inside `${}` are not tracked.
+ */
+class CommentScanner {
+    private readonly state: ScanState = { inBlockComment: false }
+
+    /**
+     * Offsets of the comments that start on the line
+     */
+    public scan(lineText: string): number[] {
+        const starts: number[] = []
+
+        if (this.state.quote !== TEMPLATE_QUOTE) {
+            this.state.quote = undefined
+        }
+
+        for (let index = 0; index < lineText.length; index++) {
+            if (this.state.inBlockComment) {
+                index = this.skipBlockComment(lineText, index)
+            } else if (this.state.quote !== undefined) {
+                index = this.skipLiteral(lineText, index)
+            } else if (lineText.startsWith(LINE_COMMENT, index)) {
+                starts.push(index)
+                break
+            } else if (lineText.startsWith(BLOCK_COMMENT_START, index)) {
+                starts.push(index)
+                this.state.inBlockComment = true
+                index += BLOCK_COMMENT_START.length - 1
+            } else if (lineText[index] === TEMPLATE_QUOTE || STRING_QUOTES.has(lineText[index])) {
+                this.state.quote = lineText[index]
+            }
+        }
+
+        return starts
+    }
+
+    private skipBlockComment(lineText: string, index: number): number {
+        if (!lineText.startsWith(BLOCK_COMMENT_END, index)) {
+            return index
+        }
+
+        this.state.inBlockComment = false
+        return index + BLOCK_COMMENT_END.length - 1
+    }
+
+    private skipLiteral(lineText: string, index: number): number {
+        if (lineText[index] === ESCAPE) {
+            return index + 1
+        }
+
+        if (lineText[index] === this.state.quote) {
+            this.state.quote = undefined
+        }
+
+        return index
+    }
+}
+
+/**
+ * `guardian-disable*` comments of a source file
+ *
+ * - `// guardian-disable-next-line <rules> -- <reason>` suppresses the next line
+ * - `// guardian-disable-line <rules> -- <reason>` suppresses its own line
+ * - `/* guardian-disable <rules> -- <reason> *\/` suppresses the whole file
+ *
+ * Rules are separated by commas or spaces. A comment without rules
+ * suppresses every rule. Directives count only in comments, not in
+ * strings or template literals that contain the same text. Violations without a line number can only be
+ * suppressed for the whole file.
+ *
+ * @example
+ * ```typescript
+ * const suppressions = InlineSuppressions.parse(
+ *     "// guardian-disable-next-line hardcoded-value -- port is fixed by the spec\n" +
+ *         "const port = 8080",
+ * )
+ *
+ * suppressions.findDirective("hardcoded-value", 2)?.reason // "port is fixed by the spec"
+ * suppressions.findDirective("secret-exposure", 2) // undefined
+ * ```
+ */
+export class InlineSuppressions extends ValueObject<InlineSuppressionsProps> {
+    private constructor(props: InlineSuppressionsProps) {
+        super(props)
+    }
+
+    public static parse(content: string): InlineSuppressions {
+        const directives: SuppressionDirective[] = []
+        const scanner = new CommentScanner()
+
+        content.split("\n").forEach((lineText, index) => {
+            const commentStarts = scanner.scan(lineText)
+
+            if (!lineText.includes(SUPPRESSION_PREFIX)) {
+                return
+            }
+
+            const match = commentStarts
+                .map((start) => DIRECTIVE_PATTERN.exec(lineText.slice(start)))
+                .find((result) => result !== null)
+            if (match) {
+                directives.push(InlineSuppressions.toDirective(match, index + 1))
+            }
+        })
+
+        return new InlineSuppressions({ directives })
+    }
+
+    public static empty(): InlineSuppressions {
+        return new InlineSuppressions({ directives: [] })
+    }
+
+    public get directives(): readonly SuppressionDirective[] {
+        return this.props.directives
+    }
+
+    /**
+     * Returns the directive that suppresses a violation of the rule, if any
+     *
+     * Line directives win over file-level ones.
+     */
+    public findDirective(rule: string, line?: number): SuppressionDirective | undefined {
+        const matching = this.props.directives.filter(
+            (directive) => directive.rules.length === 0 || directive.rules.includes(rule),
+        )
+
+        return (
+            matching.find((d) => line !== undefined && d.targetLine === line) ??
+            matching.find((d) => d.kind === SUPPRESSION_KINDS.FILE)
+        )
+    }
+
+    private static toDirective(match: RegExpExecArray, line: number): SuppressionDirective {
+        const kind = match[2] as SuppressionKind
+        const body = match[3].trim()
+        const separatorIndex = body.indexOf(SUPPRESSION_REASON_SEPARATOR)
+        const ruleList = separatorIndex === -1 ? body : body.slice(0, separatorIndex)
+        const reason =
+            separatorIndex === -1
+                ? undefined
+                : body.slice(separatorIndex + SUPPRESSION_REASON_SEPARATOR.length).trim()
+
+        return {
+            kind,
+            rules: ruleList.split(RULE_LIST_SEPARATOR).filter((rule) => rule.length > 0),
+            line,
+            targetLine: InlineSuppressions.targetLine(kind, line),
+            reason: reason === "" ? undefined : reason,
+            text: `${match[1]} ${body}`.trim(),
+        }
+    }
+
+    private static targetLine(kind: SuppressionKind, line: number): number | undefined {
+        if (kind === SUPPRESSION_KINDS.NEXT_LINE) {
+            return line + 1
+        }
+
+        return kind === SUPPRESSION_KINDS.LINE ? line : undefined
+    }
+}
@@ -0,0 +1,127 @@
+import * as path from "path"
+import { ValueObject } from "./ValueObject"
+import { DEFAULT_LAYER_DEFINITIONS } from "../../shared/constants/rules"
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+
+export interface LayerDefinition {
+    readonly name: string
+    readonly patterns: readonly string[]
+    readonly mayDependOn: readonly string[]
+    /**
+     * Layers this layer may only import types from, with `import type`
+     */
+    readonly mayImportTypesFrom?: readonly string[]
+}
+
+interface LayerModelProps {
+    readonly layers: readonly LayerDefinition[]
+}
+
+/**
+ * Architectural layers of the analyzed project and the
+ * "may depend on" matrix between them
+ *
+ * A file belongs to the first layer whose glob pattern matches its
+ * project-relative path. Imports within the same layer are always allowed.
+ * Patterns are matched case-insensitively. Type-only imports may also go
+ * to the layers listed in `mayImportTypesFrom`, e.g. for application
+ * services typed against infrastructure interfaces.
+ *
+ * @example
+ * ```typescript
+ * const model = LayerModel.create([
+ *     { name: "domain", patterns: ["**\/core/**"], mayDependOn: [] },
+ *     { name: "adapters", patterns: ["**\/adapters/**"], mayDependOn: ["domain"] },
+ * ])
+ *
+ * model.detectLayer("src/core/Order.ts") // "domain"
+ * model.canDependOn("domain", "adapters") // false
+ * ```
+ */
+export class LayerModel extends ValueObject<LayerModelProps> {
+    private readonly matchers: Map<string, GlobMatcher>
+
+    private constructor(props: LayerModelProps) {
+        super(props)
+        this.matchers = new Map(
+            props.layers.map((layer) => [layer.name, new GlobMatcher(layer.patterns, true)]),
+        )
+    }
+
+    public static create(layers: readonly LayerDefinition[]): LayerModel {
+        return new LayerModel({ layers })
+    }
+
+    public static default(): LayerModel {
+        return LayerModel.create(DEFAULT_LAYER_DEFINITIONS)
+    }
+
+    public get layers(): readonly LayerDefinition[] {
+        return this.props.layers
+    }
+
+    public get layerNames(): string[] {
+        return this.props.layers.map((layer) => layer.name)
+    }
+
+    public hasLayer(layer: string): boolean {
+        return this.matchers.has(layer)
+    }
+
+    /**
+     * Returns the layer of a project-relative file path
+     */
+    public detectLayer(filePath: string): string | undefined {
+        for (const [layer, matcher] of this.matchers) {
+            if (matcher.matches(filePath)) {
+                return layer
+            }
+        }
+
+        return undefined
+    }
+
+    /**
+     * Returns the layer an import points to
+     *
+     * Relative imports are resolved against the importing file when it is known,
+     * other specifiers are matched as written.
+     *
+     * @param importPath - Import specifier as written in the source
+     * @param fromFile - Project-relative path of the importing file
+     */
+    public detectImportLayer(importPath: string, fromFile?: string): string | undefined {
+        const specifier = GlobMatcher.normalizePath(importPath)
+
+        if (fromFile && importPath.startsWith(".")) {
+            const fromDir = path.posix.dirname(GlobMatcher.normalizePath(fromFile))
+            return this.detectLayer(path.posix.join(fromDir, specifier))
+        }
+
+        return this.detectLayer(specifier)
+    }
+
+    /**
+     * Checks whether a file in one layer may import from another layer
+     *
+     * Layers that are not part of the model are not restricted.
+     *
+     * @param isTypeOnly - Whether the import only brings in types
+     */
+    public canDependOn(fromLayer: string, toLayer: string, isTypeOnly = false): boolean {
+        if (fromLayer === toLayer) {
+            return true
+        }
+
+        const definition = this.props.layers.find((layer) => layer.name === fromLayer)
+
+        if (!definition) {
+            return true
+        }
+
+        return (
+            definition.mayDependOn.includes(toLayer) ||
+            (isTypeOnly && (definition.mayImportTypesFrom ?? []).includes(toLayer))
+        )
+    }
+}
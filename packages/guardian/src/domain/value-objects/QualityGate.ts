@@ -0,0 +1,152 @@
+import { ValueObject } from "./ValueObject"
+import type { HardcodeType } from "./HardcodedValue"
+import {
+    GATE_FAILURE_KINDS,
+    type GateFailureKind,
+    SEVERITY_LEVELS,
+    SEVERITY_ORDER,
+    type SeverityLevel,
+} from "../../shared/constants"
+import { type PluginRuleName, type RuleName, RULES } from "../../shared/constants/rules"
+
+/**
+ * A rule, or a hardcode type for finer control over `hardcoded-value`
+ */
+export type GateTarget = RuleName | PluginRuleName | HardcodeType
+
+/**
+ * What the gate needs to know about a violation
+ */
+export interface GateViolation {
+    rule: string
+    severity: SeverityLevel
+    type?: string
+}
+
+export interface GateFailure {
+    kind: GateFailureKind
+    /**
+     * Rule or hardcode type for thresholds, the `failOn` severity otherwise
+     */
+    target: string
+    count: number
+    max: number
+}
+
+export interface GateResult {
+    passed: boolean
+    failOn: SeverityLevel
+    failures: GateFailure[]
+}
+
+interface QualityGateProps {
+    readonly failOn: SeverityLevel
+    readonly maxViolations: ReadonlyMap<GateTarget, number>
+}
+
+/**
+ * Decides whether `guardian check` fails
+ *
+ * Violations of a rule (or hardcode type) with a max-count threshold only
+ * fail the gate when there are more of them than allowed. All other
+ * violations fail it when their severity is `failOn` or higher. By default
+ * `failOn` is `low`, so any violation fails.
+ *
+ * @example
+ * ```typescript
+ * const gate = QualityGate.create("high", {
+ *     "secret-exposure": 0,
+ *     "magic-string": 20,
+ * })
+ *
+ * const result = gate.evaluate(violations)
+ * if (!result.passed) {
+ *     console.log(result.failures) // [{ kind: "threshold", target: "magic-string", count: 25, max: 20 }]
+ * }
+ * ```
+ */
+export class QualityGate extends ValueObject<QualityGateProps> {
+    private constructor(props: QualityGateProps) {
+        super(props)
+    }
+
+    public static create(
+        failOn: SeverityLevel = SEVERITY_LEVELS.LOW,
+        maxViolations: Partial<Record<GateTarget, number>> = {},
+    ): QualityGate {
+        return new QualityGate({
+            failOn,
+            maxViolations: new Map(Object.entries(maxViolations) as [GateTarget, number][]),
+        })
+    }
+
+    public static default(): QualityGate {
+        return QualityGate.create()
+    }
+
+    public get failOn(): SeverityLevel {
+        return this.props.failOn
+    }
+
+    public get maxViolations(): ReadonlyMap<GateTarget, number> {
+        return this.props.maxViolations
+    }
+
+    /**
+     * Returns a copy of the gate with another `failOn` severity (e.g. from `--fail-on`)
+     */
+    public withFailOn(failOn: SeverityLevel): QualityGate {
+        return new QualityGate({ ...this.props, failOn })
+    }
+
+    public evaluate(violations: readonly GateViolation[]): GateResult {
+        const counts = new Map<GateTarget, number>()
+        let failingSeverityCount = 0
+
+        for (const violation of violations) {
+            const target = this.thresholdTarget(violation)
+
+            if (target) {
+                counts.set(target, (counts.get(target) ?? 0) + 1)
+            } else if (SEVERITY_ORDER[violation.severity] <= SEVERITY_ORDER[this.props.failOn]) {
+                failingSeverityCount++
+            }
+        }
+
+        const failures: GateFailure[] = []
+
+        if (failingSeverityCount > 0) {
+            failures.push({
+                kind: GATE_FAILURE_KINDS.SEVERITY,
+                target: this.props.failOn,
+                count: failingSeverityCount,
+                max: 0,
+            })
+        }
+
+        for (const [target, max] of this.props.maxViolations) {
+            const count = counts.get(target) ?? 0
+            if (count > max) {
+                failures.push({ kind: GATE_FAILURE_KINDS.THRESHOLD, target, count, max })
+            }
+        }
+
+        return { passed: failures.length === 0, failOn: this.props.failOn, failures }
+    }
+
+    /**
+     * A hardcode type threshold wins over a `hardcoded-value` one
+     */
+    private thresholdTarget(violation: GateViolation): GateTarget | undefined {
+        if (
+            violation.rule === RULES.HARDCODED_VALUE &&
+            violation.type !== undefined &&
+            this.props.maxViolations.has(violation.type as HardcodeType)
+        ) {
+            return violation.type as HardcodeType
+        }
+
+        const rule = violation.rule as RuleName | PluginRuleName
+        return this.props.maxViolations.has(rule) ? rule : undefined
+    }
+}
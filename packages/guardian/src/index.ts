@@ -7,7 +7,13 @@ export * from "./application"
 export * from "./infrastructure"
 export * from "./shared"
 
-export { analyzeProject } from "./api"
+export {
+    analyzeProject,
+    exportDependencyGraph,
+    fixHardcodedValues,
+    fixPublicModuleImports,
+    watchProject,
+} from "./api"
 export type {
     AnalyzeProjectRequest,
     AnalyzeProjectResponse,
@@ -15,5 +21,14 @@ export type {
     HardcodeViolation,
     CircularDependencyViolation,
     FrameworkLeakViolation,
+    CustomRuleViolation,
     ProjectMetrics,
+    PackageMetrics,
+    FixHardcodedValuesOptions,
+    FixPublicModuleImportsOptions,
+    ExportDependencyGraphOptions,
+    GraphView,
+    WatchProjectOptions,
+    WatchProjectResponse,
+    WatchUpdate,
 } from "./api"
@@ -1,7 +1,17 @@
+import Parser from "tree-sitter"
 import { IAnemicModelDetector } from "../../domain/services/IAnemicModelDetector"
 import { AnemicModelViolation } from "../../domain/value-objects/AnemicModelViolation"
-import { CLASS_KEYWORDS } from "../../shared/constants"
+import {
+    AST_CLASS_TYPES,
+    AST_FIELD_NAMES,
+    AST_FIELD_TYPES,
+    AST_FUNCTION_TYPES,
+    AST_MODIFIER_TYPES,
+    AST_VARIABLE_TYPES,
+    CLASS_KEYWORDS,
+} from "../../shared/constants"
 import { ANALYZER_DEFAULTS, ANEMIC_MODEL_FLAGS, LAYERS } from "../../shared/constants/rules"
+import { CodeParser } from "../parsers/CodeParser"
 
 /**
  * Detects anemic domain model violations
@@ -34,6 +44,7 @@ import { ANALYZER_DEFAULTS, ANEMIC_MODEL_FLAGS, LAYERS } from "../../shared/cons
  * ```
  */
 export class AnemicModelDetector implements IAnemicModelDetector {
+    private readonly parser = new CodeParser()
     private readonly entityPatterns = [/\/entities\//, /\/aggregates\//]
     private readonly excludePatterns = [
         /\.test\.ts$/,
@@ -46,18 +57,21 @@ export class AnemicModelDetector implements IAnemicModelDetector {
 
     /**
      * Detects anemic model violations in the given code
+     *
+     * The syntax tree is parsed here when the caller does not pass one.
      */
     public detectAnemicModels(
         code: string,
         filePath: string,
         layer: string | undefined,
+        tree?: Parser.Tree,
     ): AnemicModelViolation[] {
         if (!this.shouldAnalyze(filePath, layer)) {
             return []
         }
 
         const violations: AnemicModelViolation[] = []
-        const classes = this.extractClasses(code)
+        const classes = this.extractClasses((tree ?? this.parser.parse(code, filePath)).rootNode)
 
         for (const classInfo of classes) {
             const violation = this.analyzeClass(classInfo, filePath, layer || LAYERS.DOMAIN)
@@ -85,57 +99,26 @@ export class AnemicModelDetector implements IAnemicModelDetector {
     }
 
     /**
-     * Extracts class information from code
+     * Extracts class information from the syntax tree
      */
-    private extractClasses(code: string): ClassInfo[] {
+    private extractClasses(root: Parser.SyntaxNode): ClassInfo[] {
         const classes: ClassInfo[] = []
-        const lines = code.split("\n")
-        let currentClass: { name: string; startLine: number; startIndex: number } | null = null
-        let braceCount = 0
-        let classBody = ""
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i]
-
-            if (!currentClass) {
-                const classRegex = /^\s*(?:export\s+)?(?:abstract\s+)?class\s+(\w+)/
-                const classMatch = classRegex.exec(line)
-                if (classMatch) {
-                    currentClass = {
-                        name: classMatch[1],
-                        startLine: i + 1,
-                        startIndex: lines.slice(0, i).join("\n").length,
-                    }
-                    braceCount = 0
-                    classBody = ""
-                }
-            }
-
-            if (currentClass) {
-                for (const char of line) {
-                    if (char === "{") {
-                        braceCount++
-                    } else if (char === "}") {
-                        braceCount--
-                    }
-                }
-
-                if (braceCount > 0) {
-                    classBody = `${classBody}${line}\n`
-                } else if (braceCount === 0 && classBody.length > 0) {
-                    const properties = this.extractProperties(classBody)
-                    const methods = this.extractMethods(classBody)
-
-                    classes.push({
-                        className: currentClass.name,
-                        lineNumber: currentClass.startLine,
-                        properties,
-                        methods,
-                    })
-
-                    currentClass = null
-                    classBody = ""
-                }
+        const declarations = root.descendantsOfType([
+            AST_CLASS_TYPES.CLASS_DECLARATION,
+            AST_CLASS_TYPES.ABSTRACT_CLASS_DECLARATION,
+        ])
+
+        for (const declaration of declarations) {
+            const nameNode = declaration.childForFieldName(AST_FIELD_NAMES.NAME)
+            const body = declaration.childForFieldName(AST_FIELD_NAMES.BODY)
+
+            if (nameNode && body) {
+                classes.push({
+                    className: nameNode.text,
+                    lineNumber: declaration.startPosition.row + 1,
+                    properties: this.extractProperties(body),
+                    methods: this.extractMethods(body),
+                })
             }
         }
 
@@ -143,45 +126,75 @@ export class AnemicModelDetector implements IAnemicModelDetector {
     }
 
     /**
-     * Extracts properties from class body
+     * Extracts fields and constructor parameter properties from class body
      */
-    private extractProperties(classBody: string): PropertyInfo[] {
+    private extractProperties(classBody: Parser.SyntaxNode): PropertyInfo[] {
         const properties: PropertyInfo[] = []
-        const propertyRegex = /(?:private|protected|public|readonly)*\s*(\w+)(?:\?)?:\s*\w+/g
-
-        let match
-        while ((match = propertyRegex.exec(classBody)) !== null) {
-            const propertyName = match[1]
 
-            if (!this.isMethodSignature(match[0])) {
-                properties.push({ name: propertyName })
+        for (const member of classBody.namedChildren) {
+            if (
+                member.type === AST_VARIABLE_TYPES.PUBLIC_FIELD_DEFINITION ||
+                member.type === AST_FIELD_TYPES.FIELD_DEFINITION
+            ) {
+                const nameNode =
+                    member.childForFieldName(AST_FIELD_NAMES.NAME) ??
+                    member.childForFieldName(AST_FIELD_NAMES.PROPERTY)
+                if (nameNode) {
+                    properties.push({ name: nameNode.text })
+                }
+            } else if (this.methodName(member) === CLASS_KEYWORDS.CONSTRUCTOR) {
+                properties.push(...this.extractParameterProperties(member))
             }
         }
 
         return properties
     }
 
+    /**
+     * Constructor parameters with a visibility or `readonly` modifier are properties too
+     */
+    private extractParameterProperties(constructorNode: Parser.SyntaxNode): PropertyInfo[] {
+        const parameters = constructorNode.childForFieldName(AST_FIELD_NAMES.PARAMETERS)
+
+        return (parameters?.namedChildren ?? [])
+            .filter(
+                (parameter) =>
+                    (parameter.type === AST_VARIABLE_TYPES.REQUIRED_PARAMETER ||
+                        parameter.type === AST_VARIABLE_TYPES.OPTIONAL_PARAMETER) &&
+                    parameter.children.some(
+                        (child) =>
+                            child.type === AST_MODIFIER_TYPES.ACCESSIBILITY_MODIFIER ||
+                            child.type === AST_MODIFIER_TYPES.READONLY,
+                    ),
+            )
+            .flatMap((parameter) => {
+                const pattern = parameter.childForFieldName(AST_FIELD_NAMES.PATTERN)
+                return pattern ? [{ name: pattern.text }] : []
+            })
+    }
+
     /**
      * Extracts methods from class body
      */
-    private extractMethods(classBody: string): MethodInfo[] {
+    private extractMethods(classBody: Parser.SyntaxNode): MethodInfo[] {
         const methods: MethodInfo[] = []
-        const methodRegex =
-            /(public|private|protected)?\s*(get|set)?\s+(\w+)\s*\([^)]*\)(?:\s*:\s*\w+)?/g
 
-        let match
-        while ((match = methodRegex.exec(classBody)) !== null) {
-            const visibility = match[1] || CLASS_KEYWORDS.PUBLIC
-            const accessor = match[2]
-            const methodName = match[3]
+        for (const member of classBody.namedChildren) {
+            const methodName = this.methodName(member)
 
-            if (methodName === CLASS_KEYWORDS.CONSTRUCTOR) {
+            if (methodName === undefined || methodName === CLASS_KEYWORDS.CONSTRUCTOR) {
                 continue
             }
 
-            const isGetter = accessor === "get" || this.isGetterMethod(methodName)
-            const isSetter = accessor === "set" || this.isSetterMethod(methodName, classBody)
-            const isPublic = visibility === CLASS_KEYWORDS.PUBLIC || !visibility
+            const visibility = member.namedChildren.find(
+                (child) => child.type === AST_MODIFIER_TYPES.ACCESSIBILITY_MODIFIER,
+            )?.text
+            const hasKeyword = (keyword: string): boolean =>
+                member.children.some((child) => child.type === keyword)
+
+            const isGetter = hasKeyword(AST_MODIFIER_TYPES.GET) || this.isGetterMethod(methodName)
+            const isSetter = hasKeyword(AST_MODIFIER_TYPES.SET) || this.isSetterMethod(methodName)
+            const isPublic = !visibility || visibility === CLASS_KEYWORDS.PUBLIC
 
             methods.push({
                 name: methodName,
@@ -195,6 +208,14 @@ export class AnemicModelDetector implements IAnemicModelDetector {
         return methods
     }
 
+    private methodName(member: Parser.SyntaxNode): string | undefined {
+        if (member.type !== AST_FUNCTION_TYPES.METHOD_DEFINITION) {
+            return undefined
+        }
+
+        return member.childForFieldName(AST_FIELD_NAMES.NAME)?.text
+    }
+
     /**
      * Analyzes class for anemic model violations
      */
@@ -278,24 +299,9 @@ export class AnemicModelDetector implements IAnemicModelDetector {
     /**
      * Checks if method is a setter pattern
      */
-    private isSetterMethod(methodName: string, _classBody: string): boolean {
+    private isSetterMethod(methodName: string): boolean {
         return methodName.startsWith("set")
     }
-
-    /**
-     * Checks if property declaration is actually a method signature
-     */
-    private isMethodSignature(propertyDeclaration: string): boolean {
-        return propertyDeclaration.includes("(") && propertyDeclaration.includes(")")
-    }
-
-    /**
-     * Gets line number for a position in code
-     */
-    private getLineNumber(code: string, position: number): number {
-        const lines = code.substring(0, position).split("\n")
-        return lines.length
-    }
 }
 
 interface ClassInfo {
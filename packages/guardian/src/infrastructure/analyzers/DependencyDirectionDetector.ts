@@ -1,7 +1,9 @@
+import { ImportReference } from "../../domain/services/ICodeParser"
 import { IDependencyDirectionDetector } from "../../domain/services/IDependencyDirectionDetector"
 import { DependencyViolation } from "../../domain/value-objects/DependencyViolation"
-import { LAYERS } from "../../shared/constants/rules"
-import { IMPORT_PATTERNS, LAYER_PATHS } from "../constants/paths"
+import { LayerModel } from "../../domain/value-objects/LayerModel"
+import { IMPORT_PATTERNS } from "../constants/paths"
+import { CodeParser } from "../parsers/CodeParser"
 
 /**
  * Detects dependency direction violations between architectural layers
@@ -10,7 +12,10 @@ import { IMPORT_PATTERNS, LAYER_PATHS } from "../constants/paths"
  * - Domain → should not import from Application or Infrastructure
  * - Application → should not import from Infrastructure
  * - Infrastructure → can import from Application and Domain (allowed)
- * - Shared → can be imported by all layers (allowed)
+ * - Shared → can be imported by all layers, but imports none of them
+ *
+ * The rules come from the layer model, so projects can replace them
+ * with their own layers via the `layers` config key.
  *
  * @example
  * ```typescript
@@ -30,65 +35,72 @@ import { IMPORT_PATTERNS, LAYER_PATHS } from "../constants/paths"
  * ```
  */
 export class DependencyDirectionDetector implements IDependencyDirectionDetector {
-    private readonly dependencyRules: Map<string, Set<string>>
-
-    constructor() {
-        this.dependencyRules = new Map([
-            [LAYERS.DOMAIN, new Set([LAYERS.DOMAIN, LAYERS.SHARED])],
-            [LAYERS.APPLICATION, new Set([LAYERS.DOMAIN, LAYERS.APPLICATION, LAYERS.SHARED])],
-            [
-                LAYERS.INFRASTRUCTURE,
-                new Set([LAYERS.DOMAIN, LAYERS.APPLICATION, LAYERS.INFRASTRUCTURE, LAYERS.SHARED]),
-            ],
-            [
-                LAYERS.SHARED,
-                new Set([LAYERS.DOMAIN, LAYERS.APPLICATION, LAYERS.INFRASTRUCTURE, LAYERS.SHARED]),
-            ],
-        ])
-    }
+    private readonly defaultLayerModel = LayerModel.default()
+    private readonly parser = new CodeParser()
 
     /**
      * Detects dependency direction violations in the given code
      *
-     * Analyzes import statements to identify violations of dependency rules
-     * between architectural layers.
+     * Parses the code and analyzes its import statements and `require()`
+     * calls to identify violations of dependency rules between architectural layers.
      *
      * @param code - Source code to analyze
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param resolveImport - Maps an import to the project file it resolves to; unresolved
+     * imports fall back to matching the specifier against the layer patterns
      * @returns Array of detected dependency direction violations
      */
     public detectViolations(
         code: string,
         filePath: string,
         layer: string | undefined,
+        layerModel: LayerModel = this.defaultLayerModel,
+        resolveImport?: (importPath: string) => string | undefined,
     ): DependencyViolation[] {
-        if (!layer || layer === LAYERS.SHARED) {
+        if (!layer) {
             return []
         }
 
-        const violations: DependencyViolation[] = []
-        const lines = code.split("\n")
+        const imports = this.parser.extractImports(this.parser.parse(code, filePath))
+        return this.detectImportViolations(imports, filePath, layer, layerModel, resolveImport)
+    }
+
+    /**
+     * Detects dependency direction violations in imports that were already
+     * extracted from the file
+     *
+     * @param imports - Imports of the file with their lines
+     * @param filePath - Path to the file being analyzed
+     * @param layer - The architectural layer of the file
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param resolveImport - Maps an import to the project file it resolves to
+     * @returns Array of detected dependency direction violations
+     */
+    public detectImportViolations(
+        imports: ImportReference[],
+        filePath: string,
+        layer: string | undefined,
+        layerModel: LayerModel = this.defaultLayerModel,
+        resolveImport?: (importPath: string) => string | undefined,
+    ): DependencyViolation[] {
+        if (!layer) {
+            return []
+        }
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i]
-            const lineNumber = i + 1
+        const violations: DependencyViolation[] = []
 
-            const imports = this.extractImports(line)
-            for (const importPath of imports) {
-                const targetLayer = this.extractLayerFromImport(importPath)
+        for (const { specifier, line, isTypeOnly } of imports) {
+            const resolvedPath = resolveImport?.(specifier)
+            const targetLayer = resolvedPath
+                ? layerModel.detectLayer(resolvedPath)
+                : this.extractLayerFromImport(specifier, filePath, layerModel)
 
-                if (targetLayer && this.isViolation(layer, targetLayer)) {
-                    violations.push(
-                        DependencyViolation.create(
-                            layer,
-                            targetLayer,
-                            importPath,
-                            filePath,
-                            lineNumber,
-                        ),
-                    )
-                }
+            if (targetLayer && this.isViolation(layer, targetLayer, layerModel, isTypeOnly)) {
+                violations.push(
+                    DependencyViolation.create(layer, targetLayer, specifier, filePath, line),
+                )
             }
         }
 
@@ -100,82 +112,34 @@ export class DependencyDirectionDetector implements IDependencyDirectionDetector
      *
      * @param fromLayer - The layer that is importing
      * @param toLayer - The layer being imported
+     * @param layerModel - Layers and their allowed dependencies, defaults to the built-in model
+     * @param isTypeOnly - Whether the import only brings in types
      * @returns True if the import violates dependency rules
      */
-    public isViolation(fromLayer: string, toLayer: string): boolean {
-        const allowedDependencies = this.dependencyRules.get(fromLayer)
-
-        if (!allowedDependencies) {
-            return false
-        }
-
-        return !allowedDependencies.has(toLayer)
+    public isViolation(
+        fromLayer: string,
+        toLayer: string,
+        layerModel: LayerModel = this.defaultLayerModel,
+        isTypeOnly = false,
+    ): boolean {
+        return !layerModel.canDependOn(fromLayer, toLayer, isTypeOnly)
     }
 
     /**
      * Extracts the layer from an import path
      *
      * @param importPath - The import path to analyze
+     * @param fromFile - Path of the importing file, used to resolve relative imports
+     * @param layerModel - Layers to match against, defaults to the built-in model
      * @returns The layer name if detected, undefined otherwise
      */
-    public extractLayerFromImport(importPath: string): string | undefined {
-        const normalizedPath = importPath.replace(IMPORT_PATTERNS.QUOTE, "").toLowerCase()
-
-        const layerPatterns: [string, string][] = [
-            [LAYERS.DOMAIN, LAYER_PATHS.DOMAIN],
-            [LAYERS.APPLICATION, LAYER_PATHS.APPLICATION],
-            [LAYERS.INFRASTRUCTURE, LAYER_PATHS.INFRASTRUCTURE],
-            [LAYERS.SHARED, LAYER_PATHS.SHARED],
-        ]
-
-        for (const [layer, pattern] of layerPatterns) {
-            if (this.containsLayerPattern(normalizedPath, pattern)) {
-                return layer
-            }
-        }
-
-        return undefined
-    }
-
-    /**
-     * Checks if the normalized path contains the layer pattern
-     */
-    private containsLayerPattern(normalizedPath: string, pattern: string): boolean {
-        return (
-            normalizedPath.includes(pattern) ||
-            normalizedPath.includes(`.${pattern}`) ||
-            normalizedPath.includes(`..${pattern}`) ||
-            normalizedPath.includes(`...${pattern}`)
-        )
-    }
-
-    /**
-     * Extracts import paths from a line of code
-     *
-     * Handles various import statement formats:
-     * - import { X } from 'path'
-     * - import X from 'path'
-     * - import * as X from 'path'
-     * - const X = require('path')
-     *
-     * @param line - A line of code to analyze
-     * @returns Array of import paths found in the line
-     */
-    private extractImports(line: string): string[] {
-        const imports: string[] = []
-
-        let match = IMPORT_PATTERNS.ES_IMPORT.exec(line)
-        while (match) {
-            imports.push(match[1])
-            match = IMPORT_PATTERNS.ES_IMPORT.exec(line)
-        }
-
-        match = IMPORT_PATTERNS.REQUIRE.exec(line)
-        while (match) {
-            imports.push(match[1])
-            match = IMPORT_PATTERNS.REQUIRE.exec(line)
-        }
-
-        return imports
+    public extractLayerFromImport(
+        importPath: string,
+        fromFile?: string,
+        layerModel: LayerModel = this.defaultLayerModel,
+    ): string | undefined {
+        const normalizedPath = importPath.replace(IMPORT_PATTERNS.QUOTE, "")
+
+        return layerModel.detectImportLayer(normalizedPath, fromFile)
     }
 }
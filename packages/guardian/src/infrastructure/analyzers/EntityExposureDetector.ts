@@ -1,7 +1,52 @@
-import { IEntityExposureDetector } from "../../domain/services/IEntityExposureDetector"
+import Parser from "tree-sitter"
+import type { DeclaredType } from "../../domain/entities/SymbolTable"
+import {
+    IEntityExposureDetector,
+    ReturnedType,
+} from "../../domain/services/IEntityExposureDetector"
 import { EntityExposure } from "../../domain/value-objects/EntityExposure"
+import {
+    AST_EXPRESSION_TYPES,
+    AST_FIELD_NAMES,
+    AST_FUNCTION_TYPES,
+    AST_IDENTIFIER_TYPES,
+    AST_STATEMENT_TYPES,
+    AST_TYPE_TYPES,
+    AST_VARIABLE_TYPES,
+} from "../../shared/constants"
 import { LAYERS } from "../../shared/constants/rules"
-import { DTO_SUFFIXES, NULLABLE_TYPES, PRIMITIVE_TYPES } from "../constants/type-patterns"
+import { DDD_FOLDER_NAMES } from "../constants/detectorPatterns"
+import {
+    DTO_SUFFIXES,
+    NULLABLE_TYPES,
+    PRIMITIVE_TYPES,
+    PROMISE_TYPE,
+} from "../constants/type-patterns"
+import { CodeParser } from "../parsers/CodeParser"
+import { AstTypeNameCollector } from "../strategies/AstTypeNameCollector"
+
+const FUNCTION_TYPES: readonly string[] = [
+    AST_FUNCTION_TYPES.METHOD_DEFINITION,
+    AST_FUNCTION_TYPES.FUNCTION_DECLARATION,
+    AST_FUNCTION_TYPES.FUNCTION_EXPRESSION,
+    AST_FUNCTION_TYPES.ARROW_FUNCTION,
+]
+
+/**
+ * Expressions whose value is the value of their first named child
+ */
+const TRANSPARENT_EXPRESSIONS: readonly string[] = [
+    AST_EXPRESSION_TYPES.AWAIT_EXPRESSION,
+    AST_EXPRESSION_TYPES.PARENTHESIZED_EXPRESSION,
+    AST_EXPRESSION_TYPES.NON_NULL_EXPRESSION,
+]
+
+/**
+ * How many variables deep a returned identifier is followed
+ */
+const MAX_INFERENCE_DEPTH = 3
+
+const ENTITY_FOLDERS: readonly string[] = [DDD_FOLDER_NAMES.ENTITIES, DDD_FOLDER_NAMES.AGGREGATES]
 
 /**
  * Detects domain entity exposure in controller/route return types
@@ -30,6 +75,8 @@ import { DTO_SUFFIXES, NULLABLE_TYPES, PRIMITIVE_TYPES } from "../constants/type
  * ```
  */
 export class EntityExposureDetector implements IEntityExposureDetector {
+    private readonly parser = new CodeParser()
+    private readonly typeNameCollector = new AstTypeNameCollector()
     private readonly dtoSuffixes = DTO_SUFFIXES
     private readonly controllerPatterns = [
         /Controller/i,
@@ -42,50 +89,98 @@ export class EntityExposureDetector implements IEntityExposureDetector {
     /**
      * Detects entity exposure violations in the given code
      *
-     * Analyzes method return types in controllers/routes to identify
-     * domain entities being directly exposed to external clients.
+     * Analyzes the return types of methods and functions in
+     * controllers/routes to identify domain entities being directly exposed
+     * to external clients. Without a symbol table, every PascalCase type
+     * without a DTO suffix counts as an entity.
      *
      * @param code - Source code to analyze
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param tree - Syntax tree of the code, parsed here when not given
      * @returns Array of detected entity exposure violations
      */
     public detectExposures(
         code: string,
         filePath: string,
         layer: string | undefined,
+        tree?: Parser.Tree,
     ): EntityExposure[] {
+        const returnedTypes = this.findReturnedTypes(code, filePath, layer, tree)
+
+        return layer === undefined ? [] : this.resolveExposures(returnedTypes, filePath, layer)
+    }
+
+    /**
+     * Finds the types returned by the methods, functions and named arrow
+     * functions of a controller
+     *
+     * Declared return types are taken as written, with `Promise<...>`
+     * unwrapped. Without one, the returned expressions are followed: `new`
+     * expressions, type assertions, variables and parameters with a type
+     * or an initializer, and the properties of returned object literals
+     * and arrays.
+     */
+    public findReturnedTypes(
+        code: string,
+        filePath: string,
+        layer: string | undefined,
+        tree?: Parser.Tree,
+    ): ReturnedType[] {
         if (layer !== LAYERS.INFRASTRUCTURE || !this.isControllerFile(filePath)) {
             return []
         }
 
-        const exposures: EntityExposure[] = []
-        const lines = code.split("\n")
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i]
-            const lineNumber = i + 1
-
-            const methodMatches = this.findMethodReturnTypes(line)
-            for (const match of methodMatches) {
-                const { methodName, returnType } = match
-
-                if (this.isDomainEntity(returnType)) {
-                    exposures.push(
-                        EntityExposure.create(
-                            returnType,
-                            returnType,
-                            filePath,
-                            layer,
-                            lineNumber,
-                            methodName,
-                        ),
-                    )
-                }
+        const root = (tree ?? this.parser.parse(code, filePath)).rootNode
+        const returnedTypes: ReturnedType[] = []
+
+        for (const node of root.descendantsOfType([...FUNCTION_TYPES])) {
+            const nameNode = this.findNameNode(node)
+            const returned = nameNode && this.findReturnedType(node)
+
+            if (nameNode && returned) {
+                returnedTypes.push({
+                    methodName: nameNode.text,
+                    line: nameNode.startPosition.row + 1,
+                    ...returned,
+                })
             }
         }
 
-        return exposures
+        return returnedTypes
+    }
+
+    /**
+     * Reports the entities among the returned types, one exposure per
+     * method and entity
+     *
+     * @param resolveType - Declarations a type name of the file refers to;
+     * entities are the types declared in an `entities` or `aggregates`
+     * folder of the domain
+     */
+    public resolveExposures(
+        returnedTypes: ReturnedType[],
+        filePath: string,
+        layer: string,
+        resolveType?: (name: string) => DeclaredType[],
+    ): EntityExposure[] {
+        return returnedTypes.flatMap(({ methodName, line, returnType, typeNames }) => {
+            const entities = new Set(
+                typeNames.flatMap((name) =>
+                    resolveType
+                        ? resolveType(name)
+                              .filter((declared) => this.isEntityFile(declared.file))
+                              .map((declared) => declared.name)
+                        : this.isDomainEntity(name)
+                          ? [name]
+                          : [],
+                ),
+            )
+
+            return [...entities].map((entity) =>
+                EntityExposure.create(entity, returnType, filePath, layer, line, methodName),
+            )
+        })
     }
 
     /**
@@ -123,25 +218,175 @@ export class EntityExposureDetector implements IEntityExposureDetector {
     }
 
     /**
-     * Finds method return types in a line of code
+     * Checks if a file lies in an `entities` or `aggregates` folder below a `domain` folder
      */
-    private findMethodReturnTypes(line: string): { methodName: string; returnType: string }[] {
-        const matches: { methodName: string; returnType: string }[] = []
+    private isEntityFile(filePath: string): boolean {
+        const folders = filePath.split(/[\\/]/).slice(0, -1)
+        const domain = folders.indexOf(DDD_FOLDER_NAMES.DOMAIN)
 
-        const methodRegex =
-            /(?:async\s+)?(\w+)\s*\([^)]*\)\s*:\s*Promise<([^>]+)>|(?:async\s+)?(\w+)\s*\([^)]*\)\s*:\s*([A-Z]\w+)/g
+        return (
+            domain !== -1 &&
+            folders.slice(domain + 1).some((folder) => ENTITY_FOLDERS.includes(folder))
+        )
+    }
 
-        let match
-        while ((match = methodRegex.exec(line)) !== null) {
-            const methodName = match[1] || match[3]
-            const returnType = match[2] || match[4]
+    private findReturnedType(
+        node: Parser.SyntaxNode,
+    ): Pick<ReturnedType, "returnType" | "typeNames"> | undefined {
+        const declared = node.childForFieldName(AST_FIELD_NAMES.RETURN_TYPE)?.firstNamedChild
 
-            if (methodName && returnType) {
-                matches.push({ methodName, returnType })
+        if (declared) {
+            return {
+                returnType: this.unwrapPromise(declared).text,
+                typeNames: this.typeNameCollector.collect(declared),
             }
         }
 
-        return matches
+        const typeNames = [
+            ...new Set(
+                this.findReturnedExpressions(node).flatMap((expression) =>
+                    this.inferTypeNames(expression, node, 0),
+                ),
+            ),
+        ]
+
+        return typeNames.length > 0 ? { returnType: typeNames.join(" | "), typeNames } : undefined
+    }
+
+    /**
+     * Arrow functions are named by the variable or class field they are assigned to
+     */
+    private findNameNode(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+        if (node.type === AST_FUNCTION_TYPES.ARROW_FUNCTION) {
+            return node.parent?.childForFieldName(AST_FIELD_NAMES.NAME) ?? null
+        }
+
+        return node.childForFieldName(AST_FIELD_NAMES.NAME)
+    }
+
+    /**
+     * Expressions of the function's own return statements, or the body of
+     * an arrow function without braces
+     */
+    private findReturnedExpressions(fn: Parser.SyntaxNode): Parser.SyntaxNode[] {
+        const body = fn.childForFieldName(AST_FIELD_NAMES.BODY)
+
+        if (!body) {
+            return []
+        }
+
+        if (body.type !== AST_STATEMENT_TYPES.STATEMENT_BLOCK) {
+            return [body]
+        }
+
+        return body
+            .descendantsOfType(AST_STATEMENT_TYPES.RETURN_STATEMENT)
+            .filter((statement) => this.enclosingFunction(statement)?.id === fn.id)
+            .flatMap((statement) => statement.namedChildren.slice(0, 1))
+    }
+
+    private enclosingFunction(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+        let current = node.parent
+
+        while (current && !FUNCTION_TYPES.includes(current.type)) {
+            current = current.parent
+        }
+
+        return current
+    }
+
+    private inferTypeNames(
+        expression: Parser.SyntaxNode,
+        fn: Parser.SyntaxNode,
+        depth: number,
+    ): string[] {
+        const infer = (node: Parser.SyntaxNode | null | undefined): string[] =>
+            node ? this.inferTypeNames(node, fn, depth) : []
+
+        switch (expression.type) {
+            case AST_EXPRESSION_TYPES.AS_EXPRESSION:
+            case AST_EXPRESSION_TYPES.SATISFIES_EXPRESSION:
+                return this.typeNameCollector.collect(expression.lastNamedChild ?? expression)
+            case AST_EXPRESSION_TYPES.NEW_EXPRESSION: {
+                const constructor = expression.childForFieldName(AST_FIELD_NAMES.CONSTRUCTOR)
+                return constructor ? [constructor.text] : []
+            }
+            case AST_EXPRESSION_TYPES.TERNARY_EXPRESSION:
+                return [
+                    ...infer(expression.childForFieldName(AST_FIELD_NAMES.CONSEQUENCE)),
+                    ...infer(expression.childForFieldName(AST_FIELD_NAMES.ALTERNATIVE)),
+                ]
+            case AST_EXPRESSION_TYPES.OBJECT:
+            case AST_EXPRESSION_TYPES.ARRAY:
+                return expression.namedChildren.flatMap((member) =>
+                    this.inferMember(member, fn, depth),
+                )
+            case AST_IDENTIFIER_TYPES.IDENTIFIER:
+                return depth < MAX_INFERENCE_DEPTH
+                    ? this.inferVariable(expression.text, fn, depth + 1)
+                    : []
+            default:
+                return TRANSPARENT_EXPRESSIONS.includes(expression.type)
+                    ? infer(expression.firstNamedChild)
+                    : []
+        }
+    }
+
+    /**
+     * Property or element of a returned object literal or array
+     */
+    private inferMember(member: Parser.SyntaxNode, fn: Parser.SyntaxNode, depth: number): string[] {
+        switch (member.type) {
+            case AST_EXPRESSION_TYPES.PAIR: {
+                const value = member.childForFieldName(AST_FIELD_NAMES.VALUE)
+                return value ? this.inferTypeNames(value, fn, depth) : []
+            }
+            case AST_IDENTIFIER_TYPES.SHORTHAND_PROPERTY_IDENTIFIER:
+                return depth < MAX_INFERENCE_DEPTH
+                    ? this.inferVariable(member.text, fn, depth + 1)
+                    : []
+            case AST_EXPRESSION_TYPES.SPREAD_ELEMENT:
+                return member.firstNamedChild
+                    ? this.inferTypeNames(member.firstNamedChild, fn, depth)
+                    : []
+            default:
+                return this.inferTypeNames(member, fn, depth)
+        }
+    }
+
+    /**
+     * Type of a parameter or local variable of the function, from its
+     * annotation or its initializer
+     */
+    private inferVariable(name: string, fn: Parser.SyntaxNode, depth: number): string[] {
+        const parameters = fn.childForFieldName(AST_FIELD_NAMES.PARAMETERS)?.namedChildren ?? []
+        const parameter = parameters.find(
+            (candidate) => candidate.childForFieldName(AST_FIELD_NAMES.PATTERN)?.text === name,
+        )
+        const variable = fn
+            .childForFieldName(AST_FIELD_NAMES.BODY)
+            ?.descendantsOfType(AST_VARIABLE_TYPES.VARIABLE_DECLARATOR)
+            .find((candidate) => candidate.childForFieldName(AST_FIELD_NAMES.NAME)?.text === name)
+        const declaration = parameter ?? variable
+        const annotation = declaration?.childForFieldName(AST_FIELD_NAMES.TYPE)?.firstNamedChild
+
+        if (annotation) {
+            return this.typeNameCollector.collect(annotation)
+        }
+
+        const value = variable?.childForFieldName(AST_FIELD_NAMES.VALUE)
+        return value ? this.inferTypeNames(value, fn, depth) : []
+    }
+
+    private unwrapPromise(type: Parser.SyntaxNode): Parser.SyntaxNode {
+        if (
+            type.type === AST_TYPE_TYPES.GENERIC_TYPE &&
+            type.childForFieldName(AST_FIELD_NAMES.NAME)?.text === PROMISE_TYPE
+        ) {
+            return type.childForFieldName(AST_FIELD_NAMES.TYPE_ARGUMENTS)?.firstNamedChild ?? type
+        }
+
+        return type
     }
 
     /**
@@ -150,14 +395,13 @@ export class EntityExposureDetector implements IEntityExposureDetector {
      * - "Promise<User>" -> "User"
      * - "User[]" -> "User"
      * - "User | null" -> "User"
+     * - "User[] | null" -> "User"
      */
     private extractCoreType(returnType: string): string {
         let cleanType = returnType.trim()
 
         cleanType = cleanType.replace(/Promise<([^>]+)>/, "$1")
 
-        cleanType = cleanType.replace(/\[\]$/, "")
-
         if (cleanType.includes("|")) {
             const types = cleanType.split("|").map((t) => t.trim())
             const nonNullTypes = types.filter(
@@ -168,7 +412,7 @@ export class EntityExposureDetector implements IEntityExposureDetector {
             }
         }
 
-        return cleanType.trim()
+        return cleanType.replace(/\[\]$/, "").trim()
     }
 
     /**
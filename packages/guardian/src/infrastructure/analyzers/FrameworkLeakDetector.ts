@@ -1,6 +1,28 @@
-import { IFrameworkLeakDetector } from "../../domain/services/IFrameworkLeakDetector"
+import Parser from "tree-sitter"
+import type { ExternalSymbol } from "../../domain/entities/SymbolTable"
+import {
+    FrameworkUsage,
+    IFrameworkLeakDetector,
+} from "../../domain/services/IFrameworkLeakDetector"
 import { FrameworkLeak } from "../../domain/value-objects/FrameworkLeak"
-import { FRAMEWORK_PACKAGES, LAYERS } from "../../shared/constants/rules"
+import type { FrameworkSettings } from "../../domain/value-objects/GuardianConfig"
+import {
+    AST_CLASS_TYPES,
+    AST_EXPRESSION_TYPES,
+    AST_FIELD_NAMES,
+    AST_IDENTIFIER_TYPES,
+} from "../../shared/constants"
+import { FRAMEWORK_PACKAGES, FRAMEWORK_USAGE_KINDS, LAYERS } from "../../shared/constants/rules"
+import { CodeParser } from "../parsers/CodeParser"
+import { FrameworkCatalog } from "../strategies/FrameworkCatalog"
+
+/**
+ * Names that can be traced to an import: `Entity` and `orm.Entity`
+ */
+const NAME_EXPRESSION_TYPES: readonly string[] = [
+    AST_EXPRESSION_TYPES.MEMBER_EXPRESSION,
+    AST_IDENTIFIER_TYPES.IDENTIFIER,
+]
 
 /**
  * Detects framework-specific imports in domain layer
@@ -11,6 +33,12 @@ import { FRAMEWORK_PACKAGES, LAYERS } from "../../shared/constants/rules"
  * The domain layer should only contain business logic and domain interfaces.
  * Framework implementations should be in the infrastructure layer.
  *
+ * The built-in package catalog can be extended with custom categories, and
+ * further layers can be checked with the categories or packages they may
+ * use. Decorators (`@Entity`) and base classes (`extends BaseEntity`) are
+ * traced to the package they come from, also through re-exports of other
+ * project files.
+ *
  * @example
  * ```typescript
  * const detector = new FrameworkLeakDetector()
@@ -26,11 +54,8 @@ import { FRAMEWORK_PACKAGES, LAYERS } from "../../shared/constants/rules"
  * ```
  */
 export class FrameworkLeakDetector implements IFrameworkLeakDetector {
-    private readonly frameworkPackages: Map<string, string>
-
-    constructor() {
-        this.frameworkPackages = this.buildFrameworkPackageMap()
-    }
+    private readonly parser = new CodeParser()
+    private readonly catalogs = new Map<string, FrameworkCatalog>()
 
     /**
      * Detects framework leaks in the given file
@@ -38,22 +63,26 @@ export class FrameworkLeakDetector implements IFrameworkLeakDetector {
      * @param imports - Array of import paths from the file
      * @param filePath - Path to the file being analyzed
      * @param layer - The architectural layer of the file (domain, application, infrastructure, shared)
+     * @param settings - Configured framework catalog, the built-in one when not given
      * @returns Array of detected framework leaks
      */
     public detectLeaks(
         imports: string[],
         filePath: string,
         layer: string | undefined,
+        settings: FrameworkSettings = {},
     ): FrameworkLeak[] {
-        if (layer !== LAYERS.DOMAIN) {
+        const catalog = this.catalogFor(settings)
+
+        if (!catalog.isChecked(layer)) {
             return []
         }
 
         const leaks: FrameworkLeak[] = []
 
         for (const importPath of imports) {
-            const category = this.getFrameworkCategory(importPath)
-            if (category) {
+            const category = catalog.categoryOf(importPath)
+            if (category && !catalog.isAllowed(layer, importPath, category)) {
                 leaks.push(FrameworkLeak.create(importPath, filePath, layer, category))
             }
         }
@@ -68,37 +97,112 @@ export class FrameworkLeakDetector implements IFrameworkLeakDetector {
      * @returns True if the import is a framework package
      */
     public isFrameworkPackage(importPath: string): boolean {
-        return this.frameworkPackages.has(importPath)
+        return this.catalogFor({}).categoryOf(importPath) !== undefined
     }
 
     /**
-     * Gets the category of a framework package
+     * Collects the decorators and base classes used in a file
      *
-     * @param importPath - The import path to check
-     * @returns The category name if it's a framework package, undefined otherwise
+     * Only names that can come from an import are collected, calls like
+     * `extends mixin(Base)` are left out.
      */
-    private getFrameworkCategory(importPath: string): string | undefined {
-        if (importPath.startsWith(".") || importPath.startsWith("/")) {
-            return undefined
+    public findUsages(code: string, filePath: string, tree?: Parser.Tree): FrameworkUsage[] {
+        const root = (tree ?? this.parser.parse(code, filePath)).rootNode
+        const usages: FrameworkUsage[] = []
+
+        for (const decorator of root.descendantsOfType(AST_CLASS_TYPES.DECORATOR)) {
+            const expression = decorator.namedChildren[0]
+            const callee =
+                expression?.type === AST_EXPRESSION_TYPES.CALL_EXPRESSION
+                    ? expression.childForFieldName(AST_FIELD_NAMES.FUNCTION)
+                    : expression
+
+            this.addUsage(usages, FRAMEWORK_USAGE_KINDS.DECORATOR, callee)
         }
 
-        return this.frameworkPackages.get(importPath)
+        for (const clause of root.descendantsOfType(AST_CLASS_TYPES.EXTENDS_CLAUSE)) {
+            if (clause.parent?.type === AST_CLASS_TYPES.CLASS_HERITAGE) {
+                const value = clause.childForFieldName(AST_FIELD_NAMES.VALUE)
+                this.addUsage(usages, FRAMEWORK_USAGE_KINDS.BASE_CLASS, value)
+            }
+        }
+
+        return usages.sort((a, b) => a.line - b.line)
     }
 
     /**
-     * Builds a map of framework packages to their categories
-     *
-     * @returns Map of package names to category names
+     * Reports the usages whose decorator or base class comes from a framework package
      */
-    private buildFrameworkPackageMap(): Map<string, string> {
-        const map = new Map<string, string>()
+    public resolveUsageLeaks(
+        usages: FrameworkUsage[],
+        filePath: string,
+        layer: string | undefined,
+        resolveExternal: (name: string) => ExternalSymbol | undefined,
+        settings: FrameworkSettings = {},
+    ): FrameworkLeak[] {
+        const catalog = this.catalogFor(settings)
 
-        for (const [category, packages] of Object.entries(FRAMEWORK_PACKAGES)) {
-            for (const pkg of packages) {
-                map.set(pkg, category)
+        if (!catalog.isChecked(layer)) {
+            return []
+        }
+
+        const leaks: FrameworkLeak[] = []
+
+        for (const usage of usages) {
+            const origin = resolveExternal(usage.name)
+            const category = origin && catalog.categoryOf(origin.specifier)
+
+            if (origin && category && !catalog.isAllowed(layer, origin.specifier, category)) {
+                leaks.push(
+                    FrameworkLeak.create(origin.specifier, filePath, layer, category, usage.line, {
+                        kind: usage.kind,
+                        symbol: origin.name,
+                    }),
+                )
             }
         }
 
-        return map
+        return leaks
+    }
+
+    private addUsage(
+        usages: FrameworkUsage[],
+        kind: FrameworkUsage["kind"],
+        node: Parser.SyntaxNode | null | undefined,
+    ): void {
+        if (node && NAME_EXPRESSION_TYPES.includes(node.type)) {
+            usages.push({ kind, name: node.text, line: node.startPosition.row + 1 })
+        }
+    }
+
+    /**
+     * Returns the catalog of a framework configuration, built once per configuration
+     */
+    private catalogFor(settings: FrameworkSettings): FrameworkCatalog {
+        const key = JSON.stringify([settings.categories, settings.layers])
+        const cached = this.catalogs.get(key)
+        if (cached) {
+            return cached
+        }
+
+        const categories: Record<string, string[]> = Object.fromEntries(
+            Object.entries(FRAMEWORK_PACKAGES).map(([category, packages]) => [
+                category,
+                [...packages],
+            ]),
+        )
+
+        // Custom categories named like a built-in one extend it
+        for (const [category, packages] of Object.entries(settings.categories ?? {})) {
+            categories[category] = [...(categories[category] ?? []), ...packages]
+        }
+
+        const catalog = new FrameworkCatalog(categories, {
+            [LAYERS.DOMAIN]: [],
+            ...settings.layers,
+        })
+        this.catalogs.set(key, catalog)
+
+        return catalog
     }
 }
@@ -1,7 +1,6 @@
 import Parser from "tree-sitter"
 import { IHardcodeDetector } from "../../domain/services/IHardcodeDetector"
 import { HardcodedValue } from "../../domain/value-objects/HardcodedValue"
-import { FILE_EXTENSIONS } from "../../shared/constants"
 import { CodeParser } from "../parsers/CodeParser"
 import { AstBooleanAnalyzer } from "../strategies/AstBooleanAnalyzer"
 import { AstConfigObjectAnalyzer } from "../strategies/AstConfigObjectAnalyzer"
@@ -64,15 +63,15 @@ export class HardcodeDetector implements IHardcodeDetector {
      *
      * @param code - Source code to analyze
      * @param filePath - File path for context (used in violation reports)
+     * @param tree - Syntax tree of the code, parsed here when not given
      * @returns Array of detected hardcoded values with suggestions
      */
-    public detectAll(code: string, filePath: string): HardcodedValue[] {
+    public detectAll(code: string, filePath: string, tree?: Parser.Tree): HardcodedValue[] {
         if (this.constantsChecker.isConstantsFile(filePath)) {
             return []
         }
 
-        const tree = this.parseCode(code, filePath)
-        return this.traverser.traverse(tree, code)
+        return this.traverser.traverse(tree ?? this.parser.parse(code, filePath), code)
     }
 
     /**
@@ -87,7 +86,7 @@ export class HardcodeDetector implements IHardcodeDetector {
             return []
         }
 
-        const tree = this.parseCode(code, filePath)
+        const tree = this.parser.parse(code, filePath)
         const allViolations = this.traverser.traverse(tree, code)
         return allViolations.filter((v) => v.isMagicNumber())
     }
@@ -104,20 +103,8 @@ export class HardcodeDetector implements IHardcodeDetector {
             return []
         }
 
-        const tree = this.parseCode(code, filePath)
+        const tree = this.parser.parse(code, filePath)
         const allViolations = this.traverser.traverse(tree, code)
         return allViolations.filter((v) => v.isMagicString())
     }
-
-    /**
-     * Parses code based on file extension
-     */
-    private parseCode(code: string, filePath: string): Parser.Tree {
-        if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT_JSX)) {
-            return this.parser.parseTsx(code)
-        } else if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT)) {
-            return this.parser.parseTypeScript(code)
-        }
-        return this.parser.parseJavaScript(code)
-    }
 }
@@ -1,7 +1,9 @@
 import Parser from "tree-sitter"
 import { INamingConventionDetector } from "../../domain/services/INamingConventionDetector"
+import type { NamingSettings } from "../../domain/value-objects/GuardianConfig"
 import { NamingViolation } from "../../domain/value-objects/NamingViolation"
-import { FILE_EXTENSIONS } from "../../shared/constants"
+import { AST_CLASS_TYPES } from "../../shared/constants"
+import { NAMING_PRESETS, USE_CASE_VERBS } from "../../shared/constants/rules"
 import { EXCLUDED_FILES } from "../constants/detectorPatterns"
 import { CodeParser } from "../parsers/CodeParser"
 import { AstClassNameAnalyzer } from "../strategies/naming/AstClassNameAnalyzer"
@@ -9,6 +11,15 @@ import { AstFunctionNameAnalyzer } from "../strategies/naming/AstFunctionNameAna
 import { AstInterfaceNameAnalyzer } from "../strategies/naming/AstInterfaceNameAnalyzer"
 import { AstNamingTraverser } from "../strategies/naming/AstNamingTraverser"
 import { AstVariableNameAnalyzer } from "../strategies/naming/AstVariableNameAnalyzer"
+import { NamingRuleAnalyzer } from "../strategies/naming/NamingRuleAnalyzer"
+
+/**
+ * Traverser and rule analyzer set up for one naming configuration
+ */
+interface NamingCheckers {
+    readonly traverser: AstNamingTraverser
+    readonly ruleAnalyzer: NamingRuleAnalyzer
+}
 
 /**
  * Detects naming convention violations using AST-based analysis
@@ -23,6 +34,11 @@ import { AstVariableNameAnalyzer } from "../strategies/naming/AstVariableNameAna
  * - AstFunctionNameAnalyzer: Analyzes function and method names
  * - AstVariableNameAnalyzer: Analyzes variable and constant names
  * - AstNamingTraverser: Traverses the AST and coordinates analyzers
+ * - NamingRuleAnalyzer: Checks file and class names against configured rules
+ *
+ * The built-in conventions form the default preset. Configured verbs extend
+ * the use case verbs, and configured class rules replace the built-in class
+ * conventions for the files they apply to.
  *
  * @example
  * ```typescript
@@ -38,22 +54,10 @@ import { AstVariableNameAnalyzer } from "../strategies/naming/AstVariableNameAna
  */
 export class NamingConventionDetector implements INamingConventionDetector {
     private readonly parser: CodeParser
-    private readonly traverser: AstNamingTraverser
+    private readonly checkers = new Map<string, NamingCheckers>()
 
     constructor() {
         this.parser = new CodeParser()
-
-        const classAnalyzer = new AstClassNameAnalyzer()
-        const interfaceAnalyzer = new AstInterfaceNameAnalyzer()
-        const functionAnalyzer = new AstFunctionNameAnalyzer()
-        const variableAnalyzer = new AstVariableNameAnalyzer()
-
-        this.traverser = new AstNamingTraverser(
-            classAnalyzer,
-            interfaceAnalyzer,
-            functionAnalyzer,
-            variableAnalyzer,
-        )
     }
 
     /**
@@ -63,13 +67,18 @@ export class NamingConventionDetector implements INamingConventionDetector {
      * @param fileName - Name of the file being analyzed
      * @param layer - Architectural layer (domain, application, infrastructure, shared)
      * @param filePath - File path for context (used in violation reports)
+     * @param tree - Syntax tree of the content, parsed here when not given
+     * @param settings - Configured naming conventions, the built-in ones when not given
      * @returns Array of detected naming violations
      */
+    // eslint-disable-next-line max-params
     public detectViolations(
         content: string,
         fileName: string,
         layer: string | undefined,
         filePath: string,
+        tree?: Parser.Tree,
+        settings: NamingSettings = {},
     ): NamingViolation[] {
         if (!layer) {
             return []
@@ -83,19 +92,45 @@ export class NamingConventionDetector implements INamingConventionDetector {
             return []
         }
 
-        const tree = this.parseCode(content, filePath)
-        return this.traverser.traverse(tree, content, layer, filePath)
+        const { traverser, ruleAnalyzer } = this.checkersFor(settings)
+        const syntaxTree = tree ?? this.parser.parse(content, filePath)
+        const ruleViolations = ruleAnalyzer.analyze(syntaxTree.rootNode, fileName, layer, filePath)
+
+        if (settings.preset === NAMING_PRESETS.NONE) {
+            return ruleViolations
+        }
+
+        const skippedNodeTypes = ruleAnalyzer.checksClasses(filePath, layer)
+            ? [AST_CLASS_TYPES.CLASS_DECLARATION]
+            : []
+
+        return [
+            ...traverser.traverse(syntaxTree, content, layer, filePath, skippedNodeTypes),
+            ...ruleViolations,
+        ]
     }
 
     /**
-     * Parses code based on file extension
+     * Returns the checkers of a naming configuration, set up once per configuration
      */
-    private parseCode(code: string, filePath: string): Parser.Tree {
-        if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT_JSX)) {
-            return this.parser.parseTsx(code)
-        } else if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT)) {
-            return this.parser.parseTypeScript(code)
+    private checkersFor(settings: NamingSettings): NamingCheckers {
+        const key = JSON.stringify([settings.useCaseVerbs, settings.rules])
+        const cached = this.checkers.get(key)
+        if (cached) {
+            return cached
         }
-        return this.parser.parseJavaScript(code)
+
+        const checkers: NamingCheckers = {
+            traverser: new AstNamingTraverser(
+                new AstClassNameAnalyzer([...USE_CASE_VERBS, ...(settings.useCaseVerbs ?? [])]),
+                new AstInterfaceNameAnalyzer(),
+                new AstFunctionNameAnalyzer(),
+                new AstVariableNameAnalyzer(),
+            ),
+            ruleAnalyzer: new NamingRuleAnalyzer(settings.rules ?? {}),
+        }
+        this.checkers.set(key, checkers)
+
+        return checkers
     }
 }
@@ -0,0 +1,90 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { BASELINE_SCHEMA_VERSION, type BaselineFile } from "../../application/dtos/Baseline"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import { ValidationError } from "../../shared/errors/BaseError"
+import { Guards } from "../../shared/utils/Guards"
+import { BASELINE_ENTRY_KEYS, BASELINE_ERRORS } from "../constants/baseline"
+import { FILE_ENCODING } from "../constants/defaults"
+
+const JSON_INDENT = 2
+
+/**
+ * Reads and writes baseline files
+ *
+ * @example
+ * ```typescript
+ * const store = new BaselineStore()
+ * await store.write("guardian-baseline.json", baseline)
+ *
+ * const loaded = await store.read("guardian-baseline.json")
+ * console.log(loaded.entries.length)
+ * ```
+ */
+export class BaselineStore {
+    /**
+     * @throws {Error} If the file cannot be read or is not valid JSON
+     * @throws {ValidationError} If the file is not a guardian baseline
+     */
+    public async read(baselinePath: string): Promise<BaselineFile> {
+        let raw: unknown
+
+        try {
+            raw = JSON.parse(await fs.readFile(baselinePath, FILE_ENCODING)) as unknown
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_LOAD_BASELINE} ${baselinePath}: ${message}`)
+        }
+
+        return this.validate(raw, baselinePath)
+    }
+
+    public async write(baselinePath: string, baseline: BaselineFile): Promise<void> {
+        await fs.mkdir(path.dirname(path.resolve(baselinePath)), { recursive: true })
+        await fs.writeFile(baselinePath, `${JSON.stringify(baseline, null, JSON_INDENT)}\n`)
+    }
+
+    private validate(raw: unknown, source: string): BaselineFile {
+        const errors: string[] = []
+
+        if (!Guards.isObject(raw)) {
+            errors.push(BASELINE_ERRORS.NOT_AN_OBJECT)
+        } else {
+            const baseline = raw as Record<string, unknown>
+
+            if (baseline.schemaVersion !== BASELINE_SCHEMA_VERSION) {
+                errors.push(
+                    `${BASELINE_ERRORS.UNSUPPORTED_VERSION} ${JSON.stringify(baseline.schemaVersion)}`,
+                )
+            }
+
+            if (Guards.isArray(baseline.entries)) {
+                baseline.entries.forEach((entry, index) => {
+                    if (!this.isEntry(entry)) {
+                        errors.push(
+                            `entries[${String(index)}] ${BASELINE_ERRORS.INVALID_ENTRY} ${BASELINE_ENTRY_KEYS.join(", ")}`,
+                        )
+                    }
+                })
+            } else {
+                errors.push(BASELINE_ERRORS.NOT_AN_ENTRY_ARRAY)
+            }
+        }
+
+        if (errors.length > 0) {
+            const details = errors.map((error) => `  - ${error}`).join("\n")
+            throw new ValidationError(`${ERROR_MESSAGES.INVALID_BASELINE} ${source}:\n${details}`)
+        }
+
+        return raw as BaselineFile
+    }
+
+    private isEntry(entry: unknown): boolean {
+        if (!Guards.isObject(entry)) {
+            return false
+        }
+
+        const fields = entry as Record<string, unknown>
+        return BASELINE_ENTRY_KEYS.every((key) => Guards.isString(fields[key]))
+    }
+}
@@ -0,0 +1,130 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import {
+    type AnalysisCacheOptions,
+    type AnalysisCacheStats,
+    IAnalysisCache,
+} from "../../domain/services/IAnalysisCache"
+import { CONTENT_HASH_ALGORITHM, ERROR_MESSAGES } from "../../shared/constants"
+import { Guards } from "../../shared/utils/Guards"
+import {
+    CACHE_FILE_EXTENSION,
+    CACHE_FILE_HASH_LENGTH,
+    CACHE_FILE_PREFIX,
+    CACHE_KEY_SEPARATOR,
+} from "../constants/cache"
+import { FILE_ENCODING } from "../constants/defaults"
+
+interface CacheEntry<T> {
+    hash: string
+    value: T
+}
+
+interface CacheFile<T> {
+    key: string
+    entries: Record<string, CacheEntry<T>>
+}
+
+/**
+ * Keeps per-file analysis results in a JSON file
+ *
+ * The cache is only valid for the guardian version and key it was written
+ * with; any other cache file, or one that cannot be read, is ignored and
+ * replaced on the next save.
+ *
+ * @example
+ * ```typescript
+ * const cache = new FileAnalysisCache<number>("0.9.0")
+ * await cache.load({ cacheDir: ".guardian-cache", rootDir: "./src", key: "{}" })
+ *
+ * cache.get("domain/User.ts", hash) ?? cache.set("domain/User.ts", hash, countFunctions())
+ * await cache.save()
+ * ```
+ */
+export class FileAnalysisCache<T> implements IAnalysisCache<T> {
+    private filePath = ""
+    private key = ""
+    private previous = new Map<string, CacheEntry<T>>()
+    private readonly current = new Map<string, CacheEntry<T>>()
+    private hits = 0
+    private misses = 0
+
+    constructor(private readonly version: string) {}
+
+    public async load(options: AnalysisCacheOptions): Promise<void> {
+        this.filePath = path.resolve(
+            options.cacheDir,
+            `${CACHE_FILE_PREFIX}${this.hash(path.resolve(options.rootDir)).slice(0, CACHE_FILE_HASH_LENGTH)}${CACHE_FILE_EXTENSION}`,
+        )
+        this.key = this.hash([this.version, options.key].join(CACHE_KEY_SEPARATOR))
+        this.previous = new Map()
+        this.current.clear()
+        this.hits = 0
+        this.misses = 0
+
+        const cached = await this.read()
+        if (cached?.key === this.key) {
+            this.previous = new Map(Object.entries(cached.entries))
+        }
+    }
+
+    public get(filePath: string, contentHash: string): T | undefined {
+        const entry = this.previous.get(filePath)
+
+        if (entry?.hash !== contentHash) {
+            this.misses++
+            return undefined
+        }
+
+        this.hits++
+        return entry.value
+    }
+
+    public set(filePath: string, contentHash: string, value: T): void {
+        this.current.set(filePath, { hash: contentHash, value })
+    }
+
+    /**
+     * @throws {Error} If the cache file cannot be written
+     */
+    public async save(): Promise<void> {
+        const file: CacheFile<T> = {
+            key: this.key,
+            entries: Object.fromEntries(this.current),
+        }
+
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+            await fs.writeFile(this.filePath, JSON.stringify(file))
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_WRITE_CACHE} ${this.filePath}: ${message}`)
+        }
+    }
+
+    public getStats(): AnalysisCacheStats {
+        return { hits: this.hits, misses: this.misses, path: this.filePath }
+    }
+
+    private async read(): Promise<CacheFile<T> | undefined> {
+        try {
+            const raw = JSON.parse(await fs.readFile(this.filePath, FILE_ENCODING)) as unknown
+
+            if (!Guards.isObject(raw)) {
+                return undefined
+            }
+
+            const file = raw as Record<string, unknown>
+            return Guards.isString(file.key) && Guards.isObject(file.entries)
+                ? (raw as CacheFile<T>)
+                : undefined
+        } catch {
+            return undefined
+        }
+    }
+
+    private hash(text: string): string {
+        return createHash(CONTENT_HASH_ALGORITHM).update(text).digest("hex")
+    }
+}
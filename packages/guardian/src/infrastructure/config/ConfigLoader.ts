@@ -0,0 +1,116 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { ConfigLoadOptions, IConfigLoader } from "../../domain/services/IConfigLoader"
+import { GuardianConfig } from "../../domain/value-objects/GuardianConfig"
+import { ERROR_MESSAGES, FILE_EXTENSIONS } from "../../shared/constants"
+import { ValidationError } from "../../shared/errors/BaseError"
+import { CONFIG_ERRORS, CONFIG_SOURCES, ES_MODULE_EXTENSION } from "../constants/config"
+import { CONFIG_FILE_NAMES, FILE_ENCODING } from "../constants/defaults"
+import { ConfigValidator } from "./ConfigValidator"
+import { ScriptModuleLoader } from "./ScriptModuleLoader"
+
+const JSON_EXTENSION = ".json"
+
+/**
+ * Loads guardian.config.ts / guardian.config.js / guardian.config.mjs / guardian.config.json
+ *
+ * The config file is discovered by walking up from the analyzed directory,
+ * so running guardian on a sub-folder still picks up the project config.
+ *
+ * @example
+ * ```typescript
+ * const loader = new ConfigLoader()
+ * const config = await loader.load({ rootDir: "./src" })
+ *
+ * console.log(config.source) // "/project/guardian.config.json"
+ * ```
+ */
+export class ConfigLoader implements IConfigLoader {
+    private readonly validator = new ConfigValidator()
+    private readonly scripts = new ScriptModuleLoader()
+
+    public async load(options: ConfigLoadOptions): Promise<GuardianConfig> {
+        if (options.config) {
+            return GuardianConfig.create(
+                this.validator.validate(options.config, CONFIG_SOURCES.INLINE),
+            )
+        }
+
+        const configPath = options.configPath
+            ? path.resolve(options.configPath)
+            : await this.discover(options.rootDir)
+
+        if (!configPath) {
+            return GuardianConfig.default()
+        }
+
+        const raw = await this.readConfigFile(configPath)
+        return GuardianConfig.create(this.validator.validate(raw, configPath), configPath)
+    }
+
+    /**
+     * Finds the nearest config file, starting at the given directory
+     *
+     * @param startDir - Directory to start the search from
+     * @returns Absolute path of the config file, or undefined if none exists
+     */
+    public async discover(startDir: string): Promise<string | undefined> {
+        let dir = path.resolve(startDir)
+        let parent = dir
+
+        do {
+            dir = parent
+
+            for (const fileName of CONFIG_FILE_NAMES) {
+                const candidate = path.join(dir, fileName)
+                if (await this.isFile(candidate)) {
+                    return candidate
+                }
+            }
+
+            parent = path.dirname(dir)
+        } while (parent !== dir)
+
+        return undefined
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            const stats = await fs.stat(filePath)
+            return stats.isFile()
+        } catch {
+            return false
+        }
+    }
+
+    private async readConfigFile(configPath: string): Promise<unknown> {
+        const extension = path.extname(configPath)
+        let content: string
+
+        try {
+            content = await fs.readFile(configPath, FILE_ENCODING)
+        } catch (error) {
+            throw new Error(
+                `${ERROR_MESSAGES.FAILED_TO_LOAD_CONFIG} ${configPath}: ${String(error)}`,
+            )
+        }
+
+        try {
+            switch (extension) {
+                case JSON_EXTENSION:
+                    return JSON.parse(content) as unknown
+                case FILE_EXTENSIONS.JAVASCRIPT:
+                case FILE_EXTENSIONS.TYPESCRIPT:
+                case ES_MODULE_EXTENSION:
+                    return this.scripts.load(content, configPath).exports
+                default:
+                    throw new ValidationError(
+                        `${CONFIG_ERRORS.UNSUPPORTED_EXTENSION} "${extension}"`,
+                    )
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_LOAD_CONFIG} ${configPath}: ${message}`)
+        }
+    }
+}
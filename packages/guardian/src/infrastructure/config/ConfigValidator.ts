@@ -0,0 +1,466 @@
+import type { GuardianConfigFile } from "../../domain/value-objects/GuardianConfig"
+import { ERROR_MESSAGES, SEVERITY_LEVELS } from "../../shared/constants"
+import {
+    HARDCODE_TYPES,
+    NAME_STYLES,
+    NAMING_PRESETS,
+    PACKAGE_METRIC_LEVELS,
+    RULE_SETTING_OFF,
+    RULES,
+} from "../../shared/constants/rules"
+import { ValidationError } from "../../shared/errors/BaseError"
+import { Guards } from "../../shared/utils/Guards"
+import {
+    BOUNDED_CONTEXT_SETTING_KEYS,
+    CONFIG_ERRORS,
+    CONFIG_KEYS,
+    DEAD_CODE_SETTING_KEYS,
+    FRAMEWORK_SETTING_KEYS,
+    GATE_SETTING_KEYS,
+    LAYER_SETTING_KEYS,
+    NAMING_RULE_KEYS,
+    NAMING_SETTING_KEYS,
+    PACKAGE_METRICS_SETTING_KEYS,
+    PACKAGE_THRESHOLD_KEYS,
+    RULE_SETTING_KEYS,
+    SUPPRESSION_SETTING_KEYS,
+} from "../constants/config"
+import { PLUGIN_RULE_PATTERN } from "../constants/plugins"
+
+type KeyValidator = (value: unknown, key: string, errors: string[]) => void
+
+const PASCAL_CASE_WORD = /^[A-Z][a-zA-Z]*$/
+
+/**
+ * Validates the raw contents of a guardian config file
+ *
+ * Collects every problem before failing so that users can fix
+ * the whole file in one go. Plugin rules ("plugin/rule") are only checked
+ * for their shape here, the plugin loader checks that they exist.
+ */
+export class ConfigValidator {
+    private readonly keyValidators: Map<string, KeyValidator>
+    private readonly ruleNames = new Set<string>(Object.values(RULES))
+    private readonly severities = new Set<string>(Object.values(SEVERITY_LEVELS))
+    private readonly gateTargets = new Set<string>([
+        ...Object.values(RULES),
+        ...Object.values(HARDCODE_TYPES),
+    ])
+
+    constructor() {
+        this.keyValidators = this.buildKeyValidators()
+    }
+
+    /**
+     * Checks the raw config and returns it typed
+     *
+     * @param raw - Parsed config file contents
+     * @param source - Config file path, used in the error message
+     * @throws {ValidationError} If the config contains invalid entries
+     */
+    public validate(raw: unknown, source: string): GuardianConfigFile {
+        const errors: string[] = []
+
+        if (!Guards.isObject(raw)) {
+            errors.push(CONFIG_ERRORS.NOT_AN_OBJECT)
+        } else {
+            for (const [key, value] of Object.entries(raw)) {
+                const validator = this.keyValidators.get(key)
+
+                if (validator) {
+                    validator(value, key, errors)
+                } else {
+                    errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${key}"`)
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            const details = errors.map((error) => `  - ${error}`).join("\n")
+            throw new ValidationError(`${ERROR_MESSAGES.INVALID_CONFIG} ${source}:\n${details}`)
+        }
+
+        return raw as GuardianConfigFile
+    }
+
+    private buildKeyValidators(): Map<string, KeyValidator> {
+        return new Map<string, KeyValidator>([
+            [CONFIG_KEYS.SCHEMA, (): void => undefined],
+            [CONFIG_KEYS.EXCLUDE, this.validateStringArray.bind(this)],
+            [CONFIG_KEYS.PLUGINS, this.validateStringArray.bind(this)],
+            [CONFIG_KEYS.RULES, this.validateRules.bind(this)],
+            [CONFIG_KEYS.LAYERS, this.validateLayers.bind(this)],
+            [CONFIG_KEYS.GATE, this.validateGate.bind(this)],
+            [CONFIG_KEYS.SUPPRESSIONS, this.validateSuppressions.bind(this)],
+            [CONFIG_KEYS.PACKAGE_METRICS, this.validatePackageMetrics.bind(this)],
+            [CONFIG_KEYS.NAMING, this.validateNaming.bind(this)],
+            [CONFIG_KEYS.FRAMEWORKS, this.validateFrameworks.bind(this)],
+            [CONFIG_KEYS.BOUNDED_CONTEXTS, this.validateBoundedContexts.bind(this)],
+            [CONFIG_KEYS.DEAD_CODE, this.validateDeadCode.bind(this)],
+        ])
+    }
+
+    private validateStringArray(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isArray(value) || !value.every((item) => Guards.isString(item))) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_A_STRING_ARRAY}`)
+        }
+    }
+
+    private validateRules(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        for (const [rule, setting] of Object.entries(value)) {
+            const path = `${key}.${rule}`
+
+            if (!this.ruleNames.has(rule) && !PLUGIN_RULE_PATTERN.test(rule)) {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_RULE} "${rule}"`)
+                continue
+            }
+
+            this.validateRuleSetting(setting, path, errors)
+        }
+    }
+
+    private validateRuleSetting(setting: unknown, path: string, errors: string[]): void {
+        if (Guards.isString(setting)) {
+            if (setting !== RULE_SETTING_OFF && !this.severities.has(setting)) {
+                errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_RULE_SETTING}`)
+            }
+            return
+        }
+
+        if (!Guards.isObject(setting)) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_RULE_SETTING}`)
+            return
+        }
+
+        for (const [key, value] of Object.entries(setting)) {
+            if (key === RULE_SETTING_KEYS.ENABLED) {
+                if (!Guards.isBoolean(value)) {
+                    errors.push(`"${path}.${key}" ${CONFIG_ERRORS.NOT_A_BOOLEAN}`)
+                }
+            } else if (key === RULE_SETTING_KEYS.SEVERITY) {
+                this.validateSeverity(value, `${path}.${key}`, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}.${key}"`)
+            }
+        }
+    }
+
+    private validateLayers(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const layerNames = new Set(Object.keys(value))
+
+        if (layerNames.size === 0) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.EMPTY_LAYERS}`)
+        }
+
+        for (const [layer, definition] of Object.entries(value)) {
+            this.validateLayer(definition, `${key}.${layer}`, layerNames, errors)
+        }
+    }
+
+    private validateLayer(
+        definition: unknown,
+        path: string,
+        layerNames: Set<string>,
+        errors: string[],
+    ): void {
+        if (!Guards.isObject(definition)) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_A_LAYER}`)
+            return
+        }
+
+        const patterns = (definition as Record<string, unknown>)[LAYER_SETTING_KEYS.PATTERNS]
+        if (!Guards.isArray(patterns) || patterns.length === 0) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_A_LAYER}`)
+        }
+
+        for (const [key, setting] of Object.entries(definition)) {
+            const settingPath = `${path}.${key}`
+
+            if (key === LAYER_SETTING_KEYS.PATTERNS) {
+                this.validateStringArray(setting, settingPath, errors)
+            } else if (
+                key === LAYER_SETTING_KEYS.MAY_DEPEND_ON ||
+                key === LAYER_SETTING_KEYS.MAY_IMPORT_TYPES_FROM
+            ) {
+                this.validateStringArray(setting, settingPath, errors)
+                this.validateLayerReferences(setting, settingPath, layerNames, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${settingPath}"`)
+            }
+        }
+    }
+
+    private validateLayerReferences(
+        value: unknown,
+        path: string,
+        layerNames: Set<string>,
+        errors: string[],
+    ): void {
+        if (!Guards.isArray(value)) {
+            return
+        }
+
+        for (const layer of value) {
+            if (Guards.isString(layer) && !layerNames.has(layer)) {
+                errors.push(`"${path}" ${CONFIG_ERRORS.UNKNOWN_LAYER} "${layer}"`)
+            }
+        }
+    }
+
+    private validateGate(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (settingKey === GATE_SETTING_KEYS.FAIL_ON) {
+                this.validateSeverity(setting, path, errors)
+            } else if (settingKey === GATE_SETTING_KEYS.MAX_VIOLATIONS) {
+                this.validateMaxViolations(setting, path, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            }
+        }
+    }
+
+    private validateMaxViolations(value: unknown, path: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        for (const [target, max] of Object.entries(value)) {
+            if (!this.gateTargets.has(target) && !PLUGIN_RULE_PATTERN.test(target)) {
+                errors.push(`"${path}" ${CONFIG_ERRORS.UNKNOWN_GATE_TARGET} "${target}"`)
+            } else if (!Number.isInteger(max) || (max as number) < 0) {
+                errors.push(`"${path}.${target}" ${CONFIG_ERRORS.NOT_A_COUNT}`)
+            }
+        }
+    }
+
+    private validateSuppressions(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const settingKeys = new Set<string>(Object.values(SUPPRESSION_SETTING_KEYS))
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (!settingKeys.has(settingKey)) {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            } else if (!Guards.isBoolean(setting)) {
+                errors.push(`"${path}" ${CONFIG_ERRORS.NOT_A_BOOLEAN}`)
+            }
+        }
+    }
+
+    private validatePackageMetrics(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const levels = new Set<unknown>(Object.values(PACKAGE_METRIC_LEVELS))
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (settingKey === PACKAGE_METRICS_SETTING_KEYS.LEVEL) {
+                if (!levels.has(setting)) {
+                    const allowed = Array.from(levels).join(", ")
+                    errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_PACKAGE_LEVEL} ${allowed}`)
+                }
+            } else if (settingKey === PACKAGE_METRICS_SETTING_KEYS.THRESHOLDS) {
+                this.validatePackageThresholds(setting, path, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            }
+        }
+    }
+
+    private validatePackageThresholds(value: unknown, path: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const thresholdKeys = new Set<string>(Object.values(PACKAGE_THRESHOLD_KEYS))
+
+        for (const [pattern, thresholds] of Object.entries(value)) {
+            const packagePath = `${path}.${pattern}`
+
+            if (!Guards.isObject(thresholds)) {
+                errors.push(`"${packagePath}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+                continue
+            }
+
+            for (const [thresholdKey, limit] of Object.entries(thresholds)) {
+                if (!thresholdKeys.has(thresholdKey)) {
+                    errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${packagePath}.${thresholdKey}"`)
+                } else if (!Guards.isNumber(limit) || limit < 0 || limit > 1) {
+                    errors.push(`"${packagePath}.${thresholdKey}" ${CONFIG_ERRORS.NOT_A_RATIO}`)
+                }
+            }
+        }
+    }
+
+    private validateNaming(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const presets = new Set<unknown>(Object.values(NAMING_PRESETS))
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (settingKey === NAMING_SETTING_KEYS.PRESET) {
+                if (!presets.has(setting)) {
+                    const allowed = Array.from(presets).join(", ")
+                    errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_NAMING_PRESET} ${allowed}`)
+                }
+            } else if (settingKey === NAMING_SETTING_KEYS.USE_CASE_VERBS) {
+                this.validateVerbs(setting, path, errors)
+            } else if (settingKey === NAMING_SETTING_KEYS.RULES) {
+                this.validateNamingRules(setting, path, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            }
+        }
+    }
+
+    private validateVerbs(value: unknown, path: string, errors: string[]): void {
+        if (!Guards.isArray(value) || !value.every((item) => Guards.isString(item))) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_A_STRING_ARRAY}`)
+        } else if (!value.every((verb) => PASCAL_CASE_WORD.test(verb))) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_VERB}`)
+        }
+    }
+
+    private validateNamingRules(value: unknown, path: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${path}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const ruleKeys = new Set<string>(Object.values(NAMING_RULE_KEYS))
+
+        for (const [pattern, rule] of Object.entries(value)) {
+            const rulePath = `${path}.${pattern}`
+
+            if (!Guards.isObject(rule)) {
+                errors.push(`"${rulePath}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+                continue
+            }
+
+            for (const [ruleKey, convention] of Object.entries(rule)) {
+                if (ruleKeys.has(ruleKey)) {
+                    this.validateNameConvention(convention, `${rulePath}.${ruleKey}`, errors)
+                } else {
+                    errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${rulePath}.${ruleKey}"`)
+                }
+            }
+        }
+    }
+
+    private validateNameConvention(value: unknown, path: string, errors: string[]): void {
+        const styles: unknown[] = Object.values(NAME_STYLES)
+
+        if (styles.includes(value) || (Guards.isString(value) && this.isRegExp(value))) {
+            return
+        }
+
+        errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_NAME_CONVENTION} ${styles.join(", ")}`)
+    }
+
+    private isRegExp(source: string): boolean {
+        try {
+            new RegExp(source)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    private validateFrameworks(value: unknown, key: string, errors: string[]): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const settingKeys = new Set<string>(Object.values(FRAMEWORK_SETTING_KEYS))
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (!settingKeys.has(settingKey)) {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            } else if (!Guards.isObject(setting)) {
+                errors.push(`"${path}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            } else {
+                for (const [name, packages] of Object.entries(setting)) {
+                    this.validateStringArray(packages, `${path}.${name}`, errors)
+                }
+            }
+        }
+    }
+
+    private validateBoundedContexts(value: unknown, key: string, errors: string[]): void {
+        this.validateStringArraySettings(value, key, errors, BOUNDED_CONTEXT_SETTING_KEYS)
+    }
+
+    private validateDeadCode(value: unknown, key: string, errors: string[]): void {
+        this.validateStringArraySettings(value, key, errors, DEAD_CODE_SETTING_KEYS)
+    }
+
+    /**
+     * Settings object whose known keys all take a string array
+     */
+    private validateStringArraySettings(
+        value: unknown,
+        key: string,
+        errors: string[],
+        keys: Record<string, string>,
+    ): void {
+        if (!Guards.isObject(value)) {
+            errors.push(`"${key}" ${CONFIG_ERRORS.NOT_AN_OBJECT}`)
+            return
+        }
+
+        const settingKeys = new Set(Object.values(keys))
+
+        for (const [settingKey, setting] of Object.entries(value)) {
+            const path = `${key}.${settingKey}`
+
+            if (settingKeys.has(settingKey)) {
+                this.validateStringArray(setting, path, errors)
+            } else {
+                errors.push(`${CONFIG_ERRORS.UNKNOWN_KEY} "${path}"`)
+            }
+        }
+    }
+
+    private validateSeverity(value: unknown, path: string, errors: string[]): void {
+        if (!Guards.isString(value) || !this.severities.has(value)) {
+            const allowed = Array.from(this.severities).join(", ")
+            errors.push(`"${path}" ${CONFIG_ERRORS.INVALID_SEVERITY} ${allowed}`)
+        }
+    }
+}
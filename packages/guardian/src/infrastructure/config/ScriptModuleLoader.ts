@@ -0,0 +1,161 @@
+import { createRequire } from "module"
+import * as path from "path"
+import * as vm from "vm"
+import { FILE_EXTENSIONS } from "../../shared/constants"
+import { ValidationError } from "../../shared/errors/BaseError"
+import {
+    CONFIG_ERRORS,
+    ES_MODULE_EXTENSION,
+    NODE_MODULES_DIR,
+    TYPESCRIPT_PACKAGE,
+} from "../constants/config"
+
+interface TypeScriptCompiler {
+    transpileModule(
+        input: string,
+        options: { compilerOptions: Record<string, unknown>; fileName: string },
+    ): { outputText: string }
+}
+
+/**
+ * An evaluated config file or plugin
+ */
+export interface ScriptModule {
+    /**
+     * Default export of the module, or `module.exports` without one
+     */
+    exports: unknown
+
+    /**
+     * Absolute paths of the project files the module required, directly or
+     * through each other; packages in node_modules are left out
+     */
+    localDependencies: string[]
+}
+
+const MODULE_WRAPPER_PARAMS = ["exports", "require", "module", "__filename", "__dirname"]
+
+/**
+ * Evaluates project modules that guardian runs itself: config files and plugins
+ *
+ * Modules are compiled on every call instead of going through `require`,
+ * so edits are picked up without restarting the process. `require` calls
+ * inside the module resolve relative to its own path.
+ *
+ * TypeScript and `.mjs` modules are compiled to CommonJS with the project's
+ * own `typescript` package. `.js` modules are compiled the same way when the
+ * project has TypeScript installed, so they may use `import`/`export` too;
+ * without it they are evaluated as CommonJS.
+ *
+ * @example
+ * ```typescript
+ * const loader = new ScriptModuleLoader()
+ * const { exports } = loader.load(content, "/project/guardian.config.ts")
+ * ```
+ */
+export class ScriptModuleLoader {
+    /**
+     * @throws {ValidationError} If the module is TypeScript or `.mjs` and the project has no TypeScript install
+     */
+    public load(content: string, modulePath: string): ScriptModule {
+        const { exports, localDependencies } = this.evaluate(
+            this.compile(content, modulePath),
+            modulePath,
+        )
+
+        return { exports: this.unwrapDefault(exports), localDependencies }
+    }
+
+    private compile(content: string, modulePath: string): string {
+        const extension = path.extname(modulePath)
+        const compiler = this.findCompiler(modulePath)
+
+        if (compiler) {
+            // TypeScript keeps ES module syntax in .mjs output, so it compiles them as .js
+            const fileName =
+                extension === ES_MODULE_EXTENSION
+                    ? modulePath.slice(0, -extension.length) + FILE_EXTENSIONS.JAVASCRIPT
+                    : modulePath
+
+            return compiler.transpileModule(content, {
+                compilerOptions: { module: "commonjs", target: "es2020", esModuleInterop: true },
+                fileName,
+            }).outputText
+        }
+
+        if (extension === FILE_EXTENSIONS.TYPESCRIPT || extension === ES_MODULE_EXTENSION) {
+            throw new ValidationError(CONFIG_ERRORS.TYPESCRIPT_REQUIRED)
+        }
+
+        return content
+    }
+
+    /**
+     * Finds the project's own TypeScript install, seen from the module
+     */
+    private findCompiler(modulePath: string): TypeScriptCompiler | undefined {
+        try {
+            return createRequire(modulePath)(TYPESCRIPT_PACKAGE) as TypeScriptCompiler
+        } catch {
+            return undefined
+        }
+    }
+
+    private evaluate(code: string, modulePath: string): ScriptModule {
+        const compiled = { exports: {} as unknown }
+        const moduleRequire = createRequire(modulePath)
+        const required: string[] = []
+        const trackingRequire = Object.assign((id: string): unknown => {
+            const exported: unknown = moduleRequire(id)
+            required.push(moduleRequire.resolve(id))
+            return exported
+        }, moduleRequire)
+        const wrapper = vm.compileFunction(code, MODULE_WRAPPER_PARAMS, { filename: modulePath })
+
+        wrapper.call(
+            compiled.exports,
+            compiled.exports,
+            trackingRequire,
+            compiled,
+            modulePath,
+            path.dirname(modulePath),
+        )
+
+        return {
+            exports: compiled.exports,
+            localDependencies: this.collectLocalFiles(required, moduleRequire.cache),
+        }
+    }
+
+    /**
+     * Follows the required project files through the require cache, so
+     * helpers of helpers are included as well
+     */
+    private collectLocalFiles(required: string[], cache: NodeJS.Require["cache"]): string[] {
+        const files = new Set<string>()
+        const pending = [...required]
+
+        for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+            if (files.has(file) || !this.isLocalFile(file)) {
+                continue
+            }
+
+            files.add(file)
+            pending.push(...(cache[file]?.children ?? []).map((child) => child.filename))
+        }
+
+        return [...files].sort()
+    }
+
+    private isLocalFile(file: string): boolean {
+        return path.isAbsolute(file) && !file.split(path.sep).includes(NODE_MODULES_DIR)
+    }
+
+    private unwrapDefault(exported: unknown): unknown {
+        if (typeof exported === "object" && exported !== null && "default" in exported) {
+            return exported.default
+        }
+
+        return exported
+    }
+}
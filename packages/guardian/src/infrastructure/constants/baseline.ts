@@ -0,0 +1,11 @@
+/**
+ * Keys every baseline entry must have as strings
+ */
+export const BASELINE_ENTRY_KEYS = ["fingerprint", "rule", "file", "message"] as const
+
+export const BASELINE_ERRORS = {
+    NOT_AN_OBJECT: "baseline must be a JSON object",
+    UNSUPPORTED_VERSION: "unsupported schemaVersion",
+    NOT_AN_ENTRY_ARRAY: "entries must be an array",
+    INVALID_ENTRY: "must be an object with string",
+} as const
@@ -0,0 +1,16 @@
+/**
+ * Analysis cache file layout
+ *
+ * Each analyzed directory gets its own file, named after a hash of its
+ * absolute path, so several projects can share one cache directory.
+ */
+export const CACHE_FILE_PREFIX = "analysis-"
+
+export const CACHE_FILE_EXTENSION = ".json"
+
+/**
+ * Hex characters of the directory hash used in the file name
+ */
+export const CACHE_FILE_HASH_LENGTH = 16
+
+export const CACHE_KEY_SEPARATOR = "\0"
@@ -0,0 +1,141 @@
+/**
+ * Top-level keys accepted in the config file
+ */
+export const CONFIG_KEYS = {
+    SCHEMA: "$schema",
+    EXCLUDE: "exclude",
+    PLUGINS: "plugins",
+    RULES: "rules",
+    LAYERS: "layers",
+    GATE: "gate",
+    SUPPRESSIONS: "suppressions",
+    PACKAGE_METRICS: "packageMetrics",
+    NAMING: "naming",
+    FRAMEWORKS: "frameworks",
+    BOUNDED_CONTEXTS: "boundedContexts",
+    DEAD_CODE: "deadCode",
+} as const
+
+/**
+ * Keys accepted in a layer definition
+ */
+export const LAYER_SETTING_KEYS = {
+    PATTERNS: "patterns",
+    MAY_DEPEND_ON: "mayDependOn",
+    MAY_IMPORT_TYPES_FROM: "mayImportTypesFrom",
+} as const
+
+/**
+ * Keys accepted in the quality gate settings
+ */
+export const GATE_SETTING_KEYS = {
+    FAIL_ON: "failOn",
+    MAX_VIOLATIONS: "maxViolations",
+} as const
+
+/**
+ * Keys accepted in the suppression comment settings
+ */
+export const SUPPRESSION_SETTING_KEYS = {
+    REPORT_UNUSED: "reportUnused",
+    REQUIRE_REASON: "requireReason",
+} as const
+
+/**
+ * Keys accepted in the package metrics settings
+ */
+export const PACKAGE_METRICS_SETTING_KEYS = {
+    LEVEL: "level",
+    THRESHOLDS: "thresholds",
+} as const
+
+/**
+ * Keys accepted in the limits of a package
+ */
+export const PACKAGE_THRESHOLD_KEYS = {
+    MAX_INSTABILITY: "maxInstability",
+    MIN_ABSTRACTNESS: "minAbstractness",
+    MAX_DISTANCE: "maxDistance",
+} as const
+
+/**
+ * Keys accepted in the naming convention settings
+ */
+export const NAMING_SETTING_KEYS = {
+    PRESET: "preset",
+    USE_CASE_VERBS: "useCaseVerbs",
+    RULES: "rules",
+} as const
+
+/**
+ * Keys accepted in a naming rule
+ */
+export const NAMING_RULE_KEYS = {
+    FILES: "files",
+    CLASSES: "classes",
+} as const
+
+/**
+ * Keys accepted in the framework catalog settings
+ */
+export const FRAMEWORK_SETTING_KEYS = {
+    CATEGORIES: "categories",
+    LAYERS: "layers",
+} as const
+
+/**
+ * Keys accepted in the bounded context settings
+ */
+export const BOUNDED_CONTEXT_SETTING_KEYS = {
+    CONTEXTS: "contexts",
+    PUBLIC_API: "publicApi",
+    SHARED_KERNEL: "sharedKernel",
+} as const
+
+/**
+ * Keys accepted in the dead code settings
+ */
+export const DEAD_CODE_SETTING_KEYS = {
+    ENTRY_POINTS: "entryPoints",
+} as const
+
+/**
+ * Keys accepted in the object form of a rule setting
+ */
+export const RULE_SETTING_KEYS = {
+    ENABLED: "enabled",
+    SEVERITY: "severity",
+} as const
+
+export const CONFIG_SOURCES = {
+    INLINE: "<inline config>",
+} as const
+
+export const TYPESCRIPT_PACKAGE = "typescript"
+
+export const ES_MODULE_EXTENSION = ".mjs"
+
+export const NODE_MODULES_DIR = "node_modules"
+
+export const CONFIG_ERRORS = {
+    NOT_AN_OBJECT: "config must export an object",
+    UNKNOWN_KEY: "unknown key",
+    NOT_A_STRING_ARRAY: "must be an array of strings",
+    UNKNOWN_RULE: "unknown rule",
+    INVALID_RULE_SETTING: 'must be "off", a severity level or { enabled, severity }',
+    INVALID_SEVERITY: "must be one of",
+    NOT_A_BOOLEAN: "must be a boolean",
+    NOT_A_LAYER: "must be an object with a non-empty patterns array",
+    EMPTY_LAYERS: "must define at least one layer",
+    UNKNOWN_LAYER: "references unknown layer",
+    UNKNOWN_GATE_TARGET: "unknown rule or hardcode type",
+    NOT_A_COUNT: "must be a non-negative integer",
+    NOT_A_RATIO: "must be a number between 0 and 1",
+    INVALID_PACKAGE_LEVEL: "must be one of",
+    INVALID_NAMING_PRESET: "must be one of",
+    INVALID_NAME_CONVENTION: "must be a valid regular expression or one of",
+    INVALID_VERB: "must contain PascalCase verbs",
+    TYPESCRIPT_REQUIRED:
+        'loading a TypeScript or .mjs config or plugin requires the "typescript" package',
+    UNSUPPORTED_EXTENSION: "unsupported config file extension",
+} as const
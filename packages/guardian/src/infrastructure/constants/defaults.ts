@@ -16,6 +16,30 @@ export const DEFAULT_EXCLUDES = [
 
 export const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"] as const
 
+/**
+ * Module resolution defaults
+ */
+export const TSCONFIG_FILE_NAME = "tsconfig.json"
+
+export const INDEX_FILE_NAME = "index"
+
+export const PACKAGE_JSON_FILE_NAME = "package.json"
+
+/**
+ * package.json fields naming a single entry point of the package
+ */
+export const PACKAGE_ENTRY_FIELDS = ["main", "module", "types", "typings"] as const
+
+/**
+ * Source extensions that an ESM import with a JavaScript extension may point to
+ */
+export const JS_TO_TS_EXTENSIONS: Readonly<Record<string, readonly string[]>> = {
+    ".js": [".ts", ".tsx"],
+    ".jsx": [".tsx"],
+    ".mjs": [".mts"],
+    ".cjs": [".cts"],
+}
+
 /**
  * Allowed numbers that are not considered magic numbers
  */
@@ -53,6 +77,11 @@ export const TREE_SITTER_NODE_TYPES = {
     FUNCTION_EXPRESSION: "function_expression",
 } as const
 
+/**
+ * Function called by CommonJS imports
+ */
+export const REQUIRE_FUNCTION = "require"
+
 /**
  * Detection keywords for hardcode analysis
  */
@@ -93,3 +122,13 @@ export const CODE_PATTERNS = {
  * File encoding
  */
 export const FILE_ENCODING = "utf-8" as const
+
+/**
+ * Config file names, in discovery order
+ */
+export const CONFIG_FILE_NAMES = [
+    "guardian.config.ts",
+    "guardian.config.js",
+    "guardian.config.mjs",
+    "guardian.config.json",
+] as const
@@ -7,6 +7,8 @@
  * - Easy to maintain
  */
 
+import type { NameStyle } from "../../shared/constants/rules"
+
 /**
  * Files to exclude from naming convention checks
  */
@@ -53,6 +55,17 @@ export const PATTERN_WORDS = {
     I_PREFIX: "I",
 } as const
 
+/**
+ * Regexes of the named styles of configured naming rules
+ */
+export const NAME_STYLE_PATTERNS: Readonly<Record<NameStyle, RegExp>> = {
+    PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+    camelCase: /^[a-z][a-zA-Z0-9]*$/,
+    "kebab-case": /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    snake_case: /^[a-z0-9]+(?:_[a-z0-9]+)*$/,
+    "dot-suffix": /^[a-z0-9]+(?:-[a-z0-9]+)*(?:\.[a-z0-9]+(?:-[a-z0-9]+)*)+$/,
+}
+
 /**
  * Error messages for naming violations
  */
@@ -85,6 +98,9 @@ export const NAMING_ERROR_MESSAGES = {
         "Use UPPER_SNAKE_CASE for constant names (e.g., MAX_RETRIES, API_URL)",
     VARIABLE_CAMEL_CASE: "Variables must be camelCase",
     USE_CAMEL_CASE_VARIABLE: "Use camelCase for variable names (e.g., userId, orderList)",
+    CONFIGURED_FILE_NAME: "File names must match",
+    CONFIGURED_CLASS_NAME: "Class names must match",
+    CONFIGURED_RULE: "Rename to match the naming rule",
 } as const
 
 /**
@@ -0,0 +1,35 @@
+/**
+ * Layout of the constants modules written by `guardian fix`
+ *
+ * Directory locations resolve to their index file, other locations get
+ * the TypeScript extension appended.
+ */
+export const CONSTANTS_MODULE_INDEX = "index.ts"
+
+export const CONSTANTS_MODULE_EXTENSION = ".ts"
+
+/**
+ * Leading directory of project-root locations like `src/config/environment.ts`
+ */
+export const SOURCE_DIRECTORY = "src"
+
+export const INDEX_MODULE_SUFFIX = "/index"
+
+export const ESM_EXTENSION = ".js"
+
+export const TYPESCRIPT_EXTENSION_PATTERN = /\.tsx?$/
+
+/**
+ * Characters that cannot appear in a constant name
+ */
+export const INVALID_IDENTIFIER_CHARACTERS = /[^\w$]/g
+
+export const LEADING_DIGIT = /^\d/
+
+export const LITERAL_KEY_PREFIXES = {
+    STRING: "string:",
+    NUMBER: "number:",
+    BOOLEAN: "boolean:",
+} as const
+
+export const NUMERIC_SEPARATOR = /_/g
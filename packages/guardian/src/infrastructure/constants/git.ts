@@ -0,0 +1,24 @@
+/**
+ * git arguments used to find changed files
+ *
+ * Path lists are requested NUL-separated (`-z`), so file names are never quoted.
+ */
+export const GIT_ARGS = {
+    SHOW_TOPLEVEL: ["rev-parse", "--show-toplevel"],
+    VERIFY_REF: ["rev-parse", "--verify", "--quiet"],
+    MERGE_BASE: ["merge-base", "HEAD"],
+    CHANGED_SINCE: ["diff", "--name-only", "-z", "--diff-filter=ACMR"],
+    STAGED: ["diff", "--cached", "--name-only", "-z", "--diff-filter=ACMR"],
+    STAGED_DELETIONS: ["diff", "--cached", "--name-only", "-z", "--diff-filter=D"],
+    UNSTAGED: ["diff", "--name-only", "-z", "--diff-filter=MD"],
+    UNSTAGED_DELETIONS: ["diff", "--name-only", "-z", "--diff-filter=D"],
+    UNTRACKED: ["ls-files", "--others", "--exclude-standard", "--full-name", "-z"],
+    SHOW: "show",
+} as const
+
+/**
+ * Prefix of `git show` object names that point to the index (`:src/User.ts`)
+ */
+export const GIT_INDEX_PREFIX = ":"
+
+export const GIT_PATH_SEPARATOR = "\0"
@@ -1,10 +1,3 @@
-export const LAYER_PATHS = {
-    DOMAIN: "/domain/",
-    APPLICATION: "/application/",
-    INFRASTRUCTURE: "/infrastructure/",
-    SHARED: "/shared/",
-} as const
-
 export const CLI_PATHS = {
     DIST_CLI_INDEX: "../dist/cli/index.js",
 } as const
@@ -0,0 +1,24 @@
+/**
+ * Plugin or detector name: no "/" and no whitespace
+ */
+export const PLUGIN_NAME_PATTERN = /^[^\s/]+$/
+
+/**
+ * Rule of a plugin detector in the config, e.g. "house-rules/no-date-now"
+ */
+export const PLUGIN_RULE_PATTERN = /^[^\s/]+\/[^\s/]+$/
+
+/**
+ * Module specifiers starting with these are paths, anything else is a package name
+ */
+export const RELATIVE_SPECIFIER_PREFIXES = ["./", "../"] as const
+
+export const PLUGIN_ERRORS = {
+    NOT_A_PLUGIN: "must export an object with a name and a detectors array",
+    INVALID_NAME: 'name must be a non-empty string without "/" or whitespace',
+    NOT_A_DETECTOR: "must be an object with a name and a detect function",
+    INVALID_SEVERITY: "has an invalid severity",
+    DUPLICATE_PLUGIN: "duplicate plugin name",
+    DUPLICATE_DETECTOR: "duplicate detector name",
+    UNKNOWN_RULE: "no loaded plugin provides rule",
+} as const
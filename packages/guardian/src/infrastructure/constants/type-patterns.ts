@@ -23,6 +23,8 @@ export const PRIMITIVE_TYPES = [
 
 export const NULLABLE_TYPES = ["null", "undefined"] as const
 
+export const PROMISE_TYPE = "Promise"
+
 export const TEST_FILE_EXTENSIONS = [".test.", ".spec."] as const
 
 export const TEST_FILE_SUFFIXES = [".test.ts", ".test.js", ".spec.ts", ".spec.js"] as const
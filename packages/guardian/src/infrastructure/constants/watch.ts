@@ -0,0 +1,5 @@
+/**
+ * Quiet period before changed files are reported, so that saving several
+ * files or an editor's write-and-rename ends up in one batch
+ */
+export const WATCH_DEBOUNCE_MS = 100
@@ -0,0 +1,8 @@
+/**
+ * Worker script that analyzes files, next to the pool in the build output
+ */
+export const ANALYSIS_WORKER_FILE_NAME = "AnalysisWorker"
+
+export const WORKER_ERRORS = {
+    EXITED: "Worker exited unexpectedly with code",
+} as const
@@ -0,0 +1,93 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { HardcodeFixTarget } from "../../domain/services/IHardcodeFixer"
+import {
+    CONSTANTS_MODULE_EXTENSION,
+    CONSTANTS_MODULE_INDEX,
+    SOURCE_DIRECTORY,
+} from "../constants/fixes"
+
+/**
+ * Resolves the suggested location of a hardcoded value to a constants module
+ *
+ * Layer locations like `domain/constants` are found next to the nearest
+ * ancestor of the file that contains the layer directory, so nested bounded
+ * contexts get their own constants. Project-root locations like
+ * `src/config/environment.ts` also work when the analyzed directory is `src`.
+ *
+ * @example
+ * ```typescript
+ * const locator = new ConstantsLocator()
+ *
+ * // "/project/src/domain/constants/index.ts" if the directory exists,
+ * // "/project/src/domain/constants.ts" otherwise
+ * await locator.resolve("/project/src", {
+ *     file: "domain/entities/User.ts",
+ *     location: "domain/constants",
+ *     ...
+ * })
+ * ```
+ */
+export class ConstantsLocator {
+    public async resolve(rootDir: string, target: HardcodeFixTarget): Promise<string> {
+        const root = path.resolve(rootDir)
+        const [first, ...rest] = target.location.split("/")
+        const location =
+            first === SOURCE_DIRECTORY && path.basename(root) === SOURCE_DIRECTORY
+                ? rest.join("/")
+                : target.location
+
+        const baseDir = await this.findBaseDir(root, target.file, location.split("/")[0])
+        const candidate = path.join(baseDir, location)
+
+        if (path.extname(candidate)) {
+            return candidate
+        }
+
+        return (await this.isDirectory(candidate))
+            ? path.join(candidate, CONSTANTS_MODULE_INDEX)
+            : candidate + CONSTANTS_MODULE_EXTENSION
+    }
+
+    /**
+     * Nearest ancestor of the file, up to the root, that contains `entry`
+     *
+     * Falls back to `src` for files under it, so new layer directories are
+     * not created next to it.
+     */
+    private async findBaseDir(root: string, file: string, entry: string): Promise<string> {
+        let dir = path.dirname(path.join(root, file))
+
+        while (dir.startsWith(root)) {
+            if (await this.exists(path.join(dir, entry))) {
+                return dir
+            }
+            if (dir === root) {
+                break
+            }
+            dir = path.dirname(dir)
+        }
+
+        const sourceDir = path.join(root, SOURCE_DIRECTORY)
+        return file.startsWith(`${SOURCE_DIRECTORY}/`) && (await this.isDirectory(sourceDir))
+            ? sourceDir
+            : root
+    }
+
+    private async exists(target: string): Promise<boolean> {
+        try {
+            await fs.stat(target)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    private async isDirectory(target: string): Promise<boolean> {
+        try {
+            return (await fs.stat(target)).isDirectory()
+        } catch {
+            return false
+        }
+    }
+}
@@ -0,0 +1,413 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import Parser from "tree-sitter"
+import type { FileChange } from "../../domain/services/IHardcodeFixer"
+import {
+    AST_CONTAINER_TYPES,
+    AST_FIELD_NAMES,
+    AST_IDENTIFIER_TYPES,
+    AST_IMPORT_TYPES,
+    AST_LITERAL_TYPES,
+    AST_MODIFIER_TYPES,
+    AST_STATEMENT_TYPES,
+    AST_STRING_TYPES,
+    AST_VARIABLE_TYPES,
+} from "../../shared/constants"
+import { CodeParser } from "../parsers/CodeParser"
+import { FILE_ENCODING } from "../constants/defaults"
+import {
+    ESM_EXTENSION,
+    INDEX_MODULE_SUFFIX,
+    LITERAL_KEY_PREFIXES,
+    NUMERIC_SEPARATOR,
+    TYPESCRIPT_EXTENSION_PATTERN,
+} from "../constants/fixes"
+
+const LITERAL_TYPES = [
+    AST_STRING_TYPES.STRING,
+    AST_LITERAL_TYPES.NUMBER,
+    AST_LITERAL_TYPES.TRUE,
+    AST_LITERAL_TYPES.FALSE,
+]
+
+const BINDING_TYPES = [
+    AST_IDENTIFIER_TYPES.IDENTIFIER,
+    AST_IDENTIFIER_TYPES.TYPE_IDENTIFIER,
+    AST_IDENTIFIER_TYPES.SHORTHAND_PROPERTY_IDENTIFIER,
+    AST_IDENTIFIER_TYPES.SHORTHAND_PROPERTY_IDENTIFIER_PATTERN,
+]
+
+const SINGLE_QUOTE = "'"
+const DOUBLE_QUOTE = '"'
+const SEMICOLON = ";"
+
+interface TextEdit {
+    start: number
+    end: number
+    text: string
+}
+
+/**
+ * TypeScript module being rewritten by a fix
+ *
+ * Replacements, imports and constant declarations are collected first and
+ * only applied to the original text when the module is rendered, so node
+ * offsets stay valid while the fix is planned. New imports and declarations
+ * follow the quote and semicolon style of the module.
+ */
+export class EditableModule {
+    /**
+     * Every name bound or referenced anywhere in the module, including the
+     * names added by the fix, so new constants cannot shadow or clash
+     */
+    public readonly names: Set<string>
+
+    private readonly root: Parser.SyntaxNode
+    private readonly edits: TextEdit[] = []
+    private readonly pendingImports = new Map<string, string[]>()
+    private readonly declarations: string[] = []
+    private semicolon: string | undefined
+
+    private constructor(
+        public readonly absolutePath: string,
+        private readonly content: string,
+        private readonly created: boolean,
+        tree: Parser.Tree,
+    ) {
+        this.root = tree.rootNode
+        this.names = new Set(this.root.descendantsOfType(BINDING_TYPES).map((node) => node.text))
+
+        const statement = this.root.namedChildren.find((child) => this.endsWithTerminator(child))
+        this.semicolon = statement && (statement.text.endsWith(SEMICOLON) ? SEMICOLON : "")
+    }
+
+    /**
+     * Loads a module, or starts an empty one when the file does not exist yet
+     */
+    public static async load(parser: CodeParser, absolutePath: string): Promise<EditableModule> {
+        let content = ""
+        let created = false
+
+        try {
+            content = await fs.readFile(absolutePath, FILE_ENCODING)
+        } catch {
+            created = true
+        }
+
+        return new EditableModule(
+            absolutePath,
+            content,
+            created,
+            parser.parse(content, absolutePath),
+        )
+    }
+
+    /**
+     * Identity of a literal value, the same for `"a"` and `'a'` or `1000` and `1_000`
+     */
+    public static literalKey(node: Parser.SyntaxNode): string {
+        if (node.type === AST_STRING_TYPES.STRING) {
+            return LITERAL_KEY_PREFIXES.STRING + node.text.slice(1, -1)
+        }
+        if (node.type === AST_LITERAL_TYPES.NUMBER) {
+            return (
+                LITERAL_KEY_PREFIXES.NUMBER +
+                String(Number(node.text.replace(NUMERIC_SEPARATOR, "")))
+            )
+        }
+        return LITERAL_KEY_PREFIXES.BOOLEAN + node.type
+    }
+
+    public get changed(): boolean {
+        return this.edits.length > 0 || this.pendingImports.size > 0 || this.declarations.length > 0
+    }
+
+    /**
+     * String, number or boolean literal starting at a 1-based line and 0-based column
+     */
+    public findLiteral(line: number, column: number): Parser.SyntaxNode | undefined {
+        const start = { row: line - 1, column }
+        const end = { row: line - 1, column: column + 1 }
+
+        return this.root
+            .descendantsOfType(LITERAL_TYPES, start, end)
+            .find(
+                (node) =>
+                    node.startPosition.row === start.row && node.startPosition.column === column,
+            )
+    }
+
+    /**
+     * Names of the `export const NAME = <literal>` declarations, by literal key
+     */
+    public exportedConstants(): Map<string, string> {
+        const constants = new Map<string, string>()
+
+        for (const statement of this.root.namedChildren) {
+            const declaration =
+                statement.type === AST_STATEMENT_TYPES.EXPORT_STATEMENT
+                    ? statement.childForFieldName(AST_FIELD_NAMES.DECLARATION)
+                    : null
+
+            if (
+                declaration?.type !== AST_STATEMENT_TYPES.LEXICAL_DECLARATION ||
+                declaration.child(0)?.type !== AST_MODIFIER_TYPES.CONST
+            ) {
+                continue
+            }
+
+            for (const declarator of declaration.namedChildren) {
+                const name = declarator.childForFieldName(AST_FIELD_NAMES.NAME)
+                const value = declarator.childForFieldName(AST_FIELD_NAMES.VALUE)
+
+                if (
+                    declarator.type === AST_VARIABLE_TYPES.VARIABLE_DECLARATOR &&
+                    name?.type === AST_IDENTIFIER_TYPES.IDENTIFIER &&
+                    value &&
+                    LITERAL_TYPES.some((type) => type === value.type)
+                ) {
+                    const key = EditableModule.literalKey(value)
+                    constants.set(key, constants.get(key) ?? name.text)
+                }
+            }
+        }
+
+        return constants
+    }
+
+    /**
+     * Module specifier string of an import, re-export or `require` call
+     * starting on a 1-based line
+     */
+    public findModuleSpecifier(line: number, specifier: string): Parser.SyntaxNode | undefined {
+        return this.root.descendantsOfType(AST_STRING_TYPES.STRING).find((node) => {
+            const owner =
+                node.parent?.type === AST_CONTAINER_TYPES.ARGUMENTS
+                    ? node.parent.parent
+                    : node.parent
+            return node.text.slice(1, -1) === specifier && owner?.startPosition.row === line - 1
+        })
+    }
+
+    public replace(node: Parser.SyntaxNode, text: string): void {
+        this.edits.push({ start: node.startIndex, end: node.endIndex, text })
+    }
+
+    /**
+     * Appends `export const name = value` to the module
+     */
+    public declare(name: string, value: string): void {
+        this.names.add(name)
+        this.declarations.push(`export const ${name} = ${value}`)
+    }
+
+    /**
+     * Modules without statements write declarations in the style of another module
+     */
+    public adoptStyle(other: EditableModule): void {
+        this.semicolon ??= other.semicolon
+    }
+
+    /**
+     * Relative specifier this module imports another module with
+     *
+     * Index files are imported by their directory, unless the module already
+     * imports relative paths with the `.js` extension of ES modules.
+     */
+    public specifierFor(target: EditableModule): string {
+        const relative = path
+            .relative(path.dirname(this.absolutePath), target.absolutePath)
+            .split(path.sep)
+            .join("/")
+        const specifier = (relative.startsWith(".") ? relative : `./${relative}`).replace(
+            TYPESCRIPT_EXTENSION_PATTERN,
+            "",
+        )
+
+        if (this.usesEsmExtensions()) {
+            return specifier + ESM_EXTENSION
+        }
+
+        return specifier.endsWith(INDEX_MODULE_SUFFIX)
+            ? specifier.slice(0, -INDEX_MODULE_SUFFIX.length)
+            : specifier
+    }
+
+    /**
+     * Whether `name` is already imported from `specifier`, by the module or by this fix
+     */
+    public imports(specifier: string, name: string): boolean {
+        if (this.pendingImports.get(specifier)?.includes(name)) {
+            return true
+        }
+
+        return this.importStatements(specifier).some((statement) =>
+            statement
+                .descendantsOfType(AST_IMPORT_TYPES.IMPORT_SPECIFIER)
+                .some(
+                    (importSpecifier) =>
+                        importSpecifier.childForFieldName(AST_FIELD_NAMES.NAME)?.text === name &&
+                        !importSpecifier.childForFieldName(AST_FIELD_NAMES.ALIAS),
+                ),
+        )
+    }
+
+    public addImport(specifier: string, name: string): void {
+        this.names.add(name)
+        this.pendingImports.set(specifier, [...(this.pendingImports.get(specifier) ?? []), name])
+    }
+
+    public toChange(rootDir: string): FileChange {
+        return {
+            file: path.relative(rootDir, this.absolutePath).split(path.sep).join("/"),
+            before: this.content,
+            after: this.render(),
+            created: this.created,
+        }
+    }
+
+    private render(): string {
+        const edits = [...this.edits, ...this.importEdits()].sort((a, b) => b.start - a.start)
+
+        let text = this.content
+        for (const edit of edits) {
+            text = text.slice(0, edit.start) + edit.text + text.slice(edit.end)
+        }
+
+        if (this.declarations.length === 0) {
+            return text
+        }
+
+        const semicolon = this.semicolon ?? ""
+        const body = this.declarations.map((declaration) => declaration + semicolon).join("\n")
+
+        return text.trim().length === 0 ? `${body}\n` : `${text.trimEnd()}\n\n${body}\n`
+    }
+
+    /**
+     * Adds new names to an existing `import { ... }` of the module, or a new
+     * import statement after the last one
+     */
+    private importEdits(): TextEdit[] {
+        const edits: TextEdit[] = []
+        const statements: string[] = []
+        const quote = this.quote()
+
+        for (const [specifier, names] of this.pendingImports) {
+            const namedImports = this.importStatements(specifier)
+                .flatMap((statement) => statement.descendantsOfType(AST_IMPORT_TYPES.NAMED_IMPORTS))
+                .at(0)
+
+            if (!namedImports) {
+                statements.push(
+                    `import { ${names.join(", ")} } from ${quote}${specifier}${quote}${this.semicolon ?? ""}`,
+                )
+                continue
+            }
+
+            const last = namedImports.namedChildren
+                .filter((child) => child.type === AST_IMPORT_TYPES.IMPORT_SPECIFIER)
+                .at(-1)
+            edits.push(
+                last
+                    ? { start: last.endIndex, end: last.endIndex, text: `, ${names.join(", ")}` }
+                    : {
+                          start: namedImports.startIndex + 1,
+                          end: namedImports.startIndex + 1,
+                          text: ` ${names.join(", ")} `,
+                      },
+            )
+        }
+
+        if (statements.length > 0) {
+            edits.push(this.insertAfterImports(statements.join("\n")))
+        }
+
+        return edits
+    }
+
+    private insertAfterImports(text: string): TextEdit {
+        const statements = this.root.namedChildren
+        const lastImport = statements
+            .filter((statement) => statement.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT)
+            .at(-1)
+
+        if (lastImport) {
+            return { start: lastImport.endIndex, end: lastImport.endIndex, text: `\n${text}` }
+        }
+
+        const directives = statements.filter(
+            (statement, index) =>
+                statement.type === AST_STATEMENT_TYPES.EXPRESSION_STATEMENT &&
+                statement.firstNamedChild?.type === AST_STRING_TYPES.STRING &&
+                statements
+                    .slice(0, index)
+                    .every(
+                        (previous) => previous.type === AST_STATEMENT_TYPES.EXPRESSION_STATEMENT,
+                    ),
+        )
+        const lastDirective = directives.at(-1)
+
+        if (lastDirective) {
+            return {
+                start: lastDirective.endIndex,
+                end: lastDirective.endIndex,
+                text: `\n\n${text}`,
+            }
+        }
+
+        return { start: 0, end: 0, text: `${text}\n\n` }
+    }
+
+    /**
+     * Value imports from `specifier`, `import type` statements cannot be extended
+     */
+    private importStatements(specifier: string): Parser.SyntaxNode[] {
+        return this.root.namedChildren.filter(
+            (statement) =>
+                statement.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT &&
+                this.sourceOf(statement) === specifier &&
+                !statement.children.some((child) => child.type === AST_IMPORT_TYPES.TYPE_KEYWORD),
+        )
+    }
+
+    private usesEsmExtensions(): boolean {
+        return this.root.namedChildren.some((statement) => {
+            const source = this.sourceOf(statement)
+            return (
+                statement.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT &&
+                source?.startsWith(".") === true &&
+                source.endsWith(ESM_EXTENSION)
+            )
+        })
+    }
+
+    /**
+     * Statements that end with a semicolon when the module uses them
+     */
+    private endsWithTerminator(statement: Parser.SyntaxNode): boolean {
+        const declaration =
+            statement.type === AST_STATEMENT_TYPES.EXPORT_STATEMENT
+                ? statement.childForFieldName(AST_FIELD_NAMES.DECLARATION)
+                : statement
+
+        return (
+            declaration?.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT ||
+            declaration?.type === AST_STATEMENT_TYPES.LEXICAL_DECLARATION ||
+            declaration?.type === AST_STATEMENT_TYPES.EXPRESSION_STATEMENT
+        )
+    }
+
+    private quote(): string {
+        const firstImport = this.root.namedChildren.find(
+            (statement) => statement.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT,
+        )
+        return firstImport?.childForFieldName(AST_FIELD_NAMES.SOURCE)?.text.startsWith(SINGLE_QUOTE)
+            ? SINGLE_QUOTE
+            : DOUBLE_QUOTE
+    }
+
+    private sourceOf(statement: Parser.SyntaxNode): string | undefined {
+        return statement.childForFieldName(AST_FIELD_NAMES.SOURCE)?.text.slice(1, -1)
+    }
+}
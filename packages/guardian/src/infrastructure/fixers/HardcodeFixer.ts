@@ -0,0 +1,300 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import Parser from "tree-sitter"
+import type {
+    ExtractedConstant,
+    FixPlan,
+    HardcodeFixTarget,
+    IHardcodeFixer,
+    SkippedFix,
+} from "../../domain/services/IHardcodeFixer"
+import { HARDCODE_FIX_SKIP_REASONS } from "../../domain/constants/Messages"
+import { LOCATIONS } from "../../domain/constants/Suggestions"
+import {
+    AST_CONTAINER_TYPES,
+    AST_FIELD_NAMES,
+    AST_IDENTIFIER_TYPES,
+    AST_STATEMENT_TYPES,
+    FILE_EXTENSIONS,
+} from "../../shared/constants"
+import { CodeParser } from "../parsers/CodeParser"
+import { REQUIRE_FUNCTION } from "../constants/defaults"
+import { INVALID_IDENTIFIER_CHARACTERS, LEADING_DIGIT } from "../constants/fixes"
+import { ConstantsLocator } from "./ConstantsLocator"
+import { EditableModule } from "./EditableModule"
+
+/**
+ * Hardcoded value found in its module, ready to be replaced
+ */
+interface LiteralUsage {
+    target: HardcodeFixTarget
+    source: EditableModule
+    node: Parser.SyntaxNode
+    constantsPath: string
+}
+
+/**
+ * Modules loaded while planning one fix, by absolute path
+ */
+type ModuleSession = Map<string, EditableModule>
+
+/**
+ * Moves hardcoded values into named constants
+ *
+ * Each value is replaced with a constant declared in the suggested constants
+ * module, which is created when missing, and the module is imported where
+ * the value was. Identical values share one constant, also across files,
+ * and a constant the module already exports with the same value is reused.
+ * When copies of a value suggest different modules, the constant goes to
+ * `shared/constants`, where every layer may import it from.
+ *
+ * @example
+ * ```typescript
+ * const fixer = new HardcodeFixer()
+ * const plan = await fixer.plan("./src", targets)
+ *
+ * for (const change of plan.changes) {
+ *     console.log(change.file)
+ * }
+ * await fixer.apply("./src", plan)
+ * ```
+ */
+export class HardcodeFixer implements IHardcodeFixer {
+    private readonly parser = new CodeParser()
+    private readonly locator = new ConstantsLocator()
+
+    public async plan(rootDir: string, targets: HardcodeFixTarget[]): Promise<FixPlan> {
+        const root = path.resolve(rootDir)
+        const session: ModuleSession = new Map()
+        const usages: LiteralUsage[] = []
+        const skipped: SkippedFix[] = []
+
+        for (const target of targets) {
+            const usage = await this.locate(root, target, session)
+
+            if (typeof usage === "string") {
+                skipped.push(this.skip(target, usage))
+            } else {
+                usages.push(usage)
+            }
+        }
+
+        const constants: ExtractedConstant[] = []
+        for (const group of this.groupByValue(usages).values()) {
+            const constantsPath = await this.constantsPathOf(root, group)
+            const [inModule, elsewhere] = this.partition(
+                group,
+                (usage) => usage.source.absolutePath === constantsPath,
+            )
+
+            skipped.push(...inModule.map((usage) => this.skip(usage.target)))
+            if (elsewhere.length > 0) {
+                constants.push(await this.extract(root, constantsPath, elsewhere, session))
+            }
+        }
+
+        return {
+            changes: [...session.values()]
+                .filter((module) => module.changed)
+                .map((module) => module.toChange(root)),
+            constants,
+            skipped,
+        }
+    }
+
+    public async apply(rootDir: string, plan: FixPlan): Promise<void> {
+        for (const change of plan.changes) {
+            const absolutePath = path.join(rootDir, change.file)
+            await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+            await fs.writeFile(absolutePath, change.after)
+        }
+    }
+
+    /**
+     * Finds the literal of a target, or the reason it cannot be replaced
+     */
+    private async locate(
+        root: string,
+        target: HardcodeFixTarget,
+        session: ModuleSession,
+    ): Promise<LiteralUsage | string> {
+        if (
+            !target.file.endsWith(FILE_EXTENSIONS.TYPESCRIPT) &&
+            !target.file.endsWith(FILE_EXTENSIONS.TYPESCRIPT_JSX)
+        ) {
+            return HARDCODE_FIX_SKIP_REASONS.NOT_TYPESCRIPT
+        }
+
+        const source = await this.module(session, path.join(root, target.file))
+        const node = source.findLiteral(target.line, target.column)
+
+        if (!node) {
+            return HARDCODE_FIX_SKIP_REASONS.LITERAL_NOT_FOUND
+        }
+
+        const reason = this.unfixableReason(node)
+        if (reason) {
+            return reason
+        }
+
+        return { target, source, node, constantsPath: await this.locator.resolve(root, target) }
+    }
+
+    private unfixableReason(node: Parser.SyntaxNode): string | undefined {
+        for (let current = node.parent; current; current = current.parent) {
+            if (current.type === AST_CONTAINER_TYPES.ENUM_BODY) {
+                return HARDCODE_FIX_SKIP_REASONS.ENUM_MEMBER
+            }
+        }
+
+        const parent = node.parent
+        const callee =
+            parent?.type === AST_CONTAINER_TYPES.ARGUMENTS
+                ? parent.parent?.childForFieldName(AST_FIELD_NAMES.FUNCTION)
+                : undefined
+
+        if (
+            parent?.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT ||
+            parent?.type === AST_STATEMENT_TYPES.EXPORT_STATEMENT ||
+            callee?.text === REQUIRE_FUNCTION ||
+            callee?.type === AST_IDENTIFIER_TYPES.IMPORT
+        ) {
+            return HARDCODE_FIX_SKIP_REASONS.MODULE_SPECIFIER
+        }
+
+        return undefined
+    }
+
+    private groupByValue(usages: LiteralUsage[]): Map<string, LiteralUsage[]> {
+        const groups = new Map<string, LiteralUsage[]>()
+
+        for (const usage of usages) {
+            const key = EditableModule.literalKey(usage.node)
+            groups.set(key, [...(groups.get(key) ?? []), usage])
+        }
+
+        return groups
+    }
+
+    /**
+     * Suggested module of the value, or `shared/constants` when its copies
+     * suggest different modules
+     */
+    private async constantsPathOf(root: string, group: LiteralUsage[]): Promise<string> {
+        const [first] = group
+
+        if (group.every((usage) => usage.constantsPath === first.constantsPath)) {
+            return first.constantsPath
+        }
+
+        return this.locator.resolve(root, { ...first.target, location: LOCATIONS.SHARED_CONSTANTS })
+    }
+
+    /**
+     * Declares or reuses the constant of one value and replaces every usage
+     */
+    private async extract(
+        root: string,
+        constantsPath: string,
+        group: LiteralUsage[],
+        session: ModuleSession,
+    ): Promise<ExtractedConstant> {
+        const [first] = group
+        const constants = await this.module(session, constantsPath)
+        const sources = [...new Set(group.map((usage) => usage.source))]
+        const isFree = (name: string): boolean =>
+            sources.every(
+                (source) =>
+                    !source.names.has(name) || source.imports(source.specifierFor(constants), name),
+            )
+
+        const existing = constants.exportedConstants().get(EditableModule.literalKey(first.node))
+        const reused = existing !== undefined && isFree(existing)
+        const name = reused ? existing : this.freeName(first.target.constantName, constants, isFree)
+
+        if (!reused) {
+            constants.adoptStyle(first.source)
+            constants.declare(name, first.node.text)
+        }
+
+        for (const usage of group) {
+            usage.source.replace(usage.node, this.replacement(usage.node, name))
+
+            const specifier = usage.source.specifierFor(constants)
+            if (!usage.source.imports(specifier, name)) {
+                usage.source.addImport(specifier, name)
+            }
+        }
+
+        return {
+            name,
+            value: first.node.text,
+            file: path.relative(root, constantsPath).split(path.sep).join("/"),
+            usages: group.length,
+            reused,
+        }
+    }
+
+    /**
+     * Suggested name, numbered when it is taken in the constants module or
+     * in any module that will import it
+     */
+    private freeName(
+        suggested: string,
+        constants: EditableModule,
+        isFree: (name: string) => boolean,
+    ): string {
+        const sanitized = suggested.replace(INVALID_IDENTIFIER_CHARACTERS, "_")
+        const base = LEADING_DIGIT.test(sanitized) ? `_${sanitized}` : sanitized
+
+        for (let suffix = 1; ; suffix++) {
+            const name = suffix === 1 ? base : `${base}_${String(suffix)}`
+
+            if (!constants.names.has(name) && isFree(name)) {
+                return name
+            }
+        }
+    }
+
+    /**
+     * JSX attribute values need braces and property names need to be computed
+     */
+    private replacement(node: Parser.SyntaxNode, name: string): string {
+        const parent = node.parent
+
+        if (parent?.type === AST_CONTAINER_TYPES.JSX_ATTRIBUTE) {
+            return `{${name}}`
+        }
+
+        const isPropertyName = [AST_FIELD_NAMES.KEY, AST_FIELD_NAMES.NAME].some(
+            (field) => parent?.childForFieldName(field)?.startIndex === node.startIndex,
+        )
+        return isPropertyName ? `[${name}]` : name
+    }
+
+    private partition<T>(items: T[], predicate: (item: T) => boolean): [T[], T[]] {
+        return [items.filter(predicate), items.filter((item) => !predicate(item))]
+    }
+
+    /**
+     * Values in their own constants module would be used before the declaration
+     * appended to it, so they are left alone
+     */
+    private skip(
+        target: HardcodeFixTarget,
+        reason: string = HARDCODE_FIX_SKIP_REASONS.CONSTANTS_MODULE,
+    ): SkippedFix {
+        return { file: target.file, line: target.line, column: target.column, reason }
+    }
+
+    private async module(session: ModuleSession, absolutePath: string): Promise<EditableModule> {
+        let module = session.get(absolutePath)
+
+        if (!module) {
+            module = await EditableModule.load(this.parser, absolutePath)
+            session.set(absolutePath, module)
+        }
+
+        return module
+    }
+}
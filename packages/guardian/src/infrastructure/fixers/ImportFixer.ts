@@ -0,0 +1,89 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { FixPlan, SkippedFix } from "../../domain/services/IHardcodeFixer"
+import type { IImportFixer, ImportFixTarget } from "../../domain/services/IImportFixer"
+import { IMPORT_FIX_SKIP_REASONS } from "../../domain/constants/Messages"
+import { CodeParser } from "../parsers/CodeParser"
+import { EditableModule } from "./EditableModule"
+
+/**
+ * Replaces the module specifiers of imports, keeping their quotes
+ *
+ * Import statements, re-exports and `require` calls are rewritten in
+ * place, so the imported names and the order of the imports stay as they
+ * are. An import that is no longer on the reported line is skipped, and
+ * so is one using names the replacement module does not export.
+ *
+ * @example
+ * ```typescript
+ * const fixer = new ImportFixer()
+ * const plan = await fixer.plan("./src", [
+ *     { file: "app/main.ts", line: 1, specifier: "../billing/internal/calc", replacement: "../billing" },
+ * ])
+ *
+ * await fixer.apply("./src", plan)
+ * ```
+ */
+export class ImportFixer implements IImportFixer {
+    private readonly parser = new CodeParser()
+
+    public async plan(rootDir: string, targets: ImportFixTarget[]): Promise<FixPlan> {
+        const root = path.resolve(rootDir)
+        const modules = new Map<string, EditableModule>()
+        const rewritten = new Set<string>()
+        const skipped: SkippedFix[] = []
+
+        for (const target of targets) {
+            const unexported = target.unexportedNames ?? []
+
+            if (unexported.length > 0) {
+                skipped.push({
+                    file: target.file,
+                    line: target.line,
+                    column: 0,
+                    reason: `${IMPORT_FIX_SKIP_REASONS.NOT_EXPORTED_FROM_INDEX}: ${unexported.join(", ")}`,
+                })
+                continue
+            }
+
+            const absolutePath = path.join(root, target.file)
+            const module =
+                modules.get(absolutePath) ?? (await EditableModule.load(this.parser, absolutePath))
+            modules.set(absolutePath, module)
+
+            const node = module.findModuleSpecifier(target.line, target.specifier)
+
+            if (!node) {
+                skipped.push({
+                    file: target.file,
+                    line: target.line,
+                    column: 0,
+                    reason: IMPORT_FIX_SKIP_REASONS.IMPORT_NOT_FOUND,
+                })
+                continue
+            }
+
+            // The same import can be reported more than once, it is rewritten once
+            const key = `${absolutePath}:${String(node.startIndex)}`
+            if (!rewritten.has(key)) {
+                rewritten.add(key)
+                const quote = node.text.charAt(0)
+                module.replace(node, `${quote}${target.replacement}${quote}`)
+            }
+        }
+
+        return {
+            changes: [...modules.values()]
+                .filter((module) => module.changed)
+                .map((module) => module.toChange(root)),
+            constants: [],
+            skipped,
+        }
+    }
+
+    public async apply(rootDir: string, plan: FixPlan): Promise<void> {
+        for (const change of plan.changes) {
+            await fs.writeFile(path.join(rootDir, change.file), change.after)
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { simpleGit, type SimpleGit } from "simple-git"
+import {
+    type ChangeDetectionOptions,
+    type ChangeSet,
+    IChangeDetector,
+} from "../../domain/services/IChangeDetector"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import { GIT_DEFAULTS } from "../constants/defaults"
+import { GIT_ARGS, GIT_INDEX_PREFIX, GIT_PATH_SEPARATOR } from "../constants/git"
+
+/**
+ * Finds changed files with git
+ *
+ * - `since`: files changed between the merge base of the ref and HEAD and the
+ *   working tree, plus untracked files. A ref that only exists on the remote
+ *   (`main` in a CI checkout) falls back to `origin/<ref>`.
+ * - `staged`: files staged in the index. Files with unstaged edits or
+ *   deletions are read from the index and untracked files are left out, so
+ *   the analysis sees exactly what will be committed.
+ *
+ * @example
+ * ```typescript
+ * const detector = new GitChangeDetector()
+ * const changes = await detector.detect({ rootDir: "./src", since: "main" })
+ *
+ * console.log([...changes.changedFiles]) // ["domain/Order.ts"]
+ * ```
+ */
+export class GitChangeDetector implements IChangeDetector {
+    public async detect(options: ChangeDetectionOptions): Promise<ChangeSet> {
+        const git = simpleGit(options.rootDir)
+
+        try {
+            const toplevel = (await git.raw([...GIT_ARGS.SHOW_TOPLEVEL])).trim()
+            const rootDir = await fs.realpath(options.rootDir)
+            const toProjectPaths = (output: string): Set<string> =>
+                this.toProjectPaths(output, toplevel, rootDir)
+
+            if (options.staged) {
+                return await this.detectStaged(git, toProjectPaths, toplevel, rootDir)
+            }
+
+            const base = await this.mergeBase(git, options.since ?? GIT_DEFAULTS.BRANCH)
+            const changed = toProjectPaths(await git.raw([...GIT_ARGS.CHANGED_SINCE, base]))
+            const untracked = toProjectPaths(await git.raw([...GIT_ARGS.UNTRACKED]))
+
+            return {
+                changedFiles: new Set([...changed, ...untracked]),
+                contents: new Map(),
+                excludedFiles: new Set(),
+                indexOnlyFiles: new Set(),
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_DETECT_CHANGES}: ${message.trim()}`)
+        }
+    }
+
+    private async detectStaged(
+        git: SimpleGit,
+        toProjectPaths: (output: string) => Set<string>,
+        toplevel: string,
+        rootDir: string,
+    ): Promise<ChangeSet> {
+        const contents = new Map<string, string>()
+
+        for (const file of toProjectPaths(await git.raw([...GIT_ARGS.UNSTAGED]))) {
+            const gitPath = path.relative(toplevel, path.join(rootDir, file))
+            const objectName = `${GIT_INDEX_PREFIX}${gitPath.split(path.sep).join(path.posix.sep)}`
+            contents.set(file, await git.show([objectName]))
+        }
+
+        return {
+            changedFiles: toProjectPaths(await git.raw([...GIT_ARGS.STAGED])),
+            contents,
+            excludedFiles: new Set([
+                ...toProjectPaths(await git.raw([...GIT_ARGS.UNTRACKED])),
+                ...toProjectPaths(await git.raw([...GIT_ARGS.STAGED_DELETIONS])),
+            ]),
+            indexOnlyFiles: toProjectPaths(await git.raw([...GIT_ARGS.UNSTAGED_DELETIONS])),
+        }
+    }
+
+    private async mergeBase(git: SimpleGit, ref: string): Promise<string> {
+        const remoteRef = `${GIT_DEFAULTS.REMOTE}/${ref}`
+        const resolved = (await this.refExists(git, ref)) ? ref : remoteRef
+
+        if (!(await this.refExists(git, resolved))) {
+            throw new Error(`${ERROR_MESSAGES.UNKNOWN_GIT_REF} "${ref}"`)
+        }
+
+        return (await git.raw([...GIT_ARGS.MERGE_BASE, resolved])).trim()
+    }
+
+    private async refExists(git: SimpleGit, ref: string): Promise<boolean> {
+        try {
+            return (await git.raw([...GIT_ARGS.VERIFY_REF, ref])).trim().length > 0
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Converts NUL-separated repository paths to paths relative to the
+     * analyzed directory, dropping files outside of it
+     */
+    private toProjectPaths(output: string, toplevel: string, rootDir: string): Set<string> {
+        const files = new Set<string>()
+
+        for (const gitPath of output.split(GIT_PATH_SEPARATOR)) {
+            if (gitPath.length === 0) {
+                continue
+            }
+
+            const relative = path.relative(rootDir, path.join(toplevel, gitPath))
+            if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+                files.add(relative)
+            }
+        }
+
+        return files
+    }
+}
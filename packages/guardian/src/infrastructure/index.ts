@@ -2,3 +2,14 @@ export * from "./parsers/CodeParser"
 export * from "./scanners/FileScanner"
 export * from "./analyzers/HardcodeDetector"
 export * from "./analyzers/RepositoryPatternDetector"
+export * from "./config/ConfigLoader"
+export * from "./plugins/PluginLoader"
+export * from "./watchers/FileWatcher"
+export * from "./resolvers/ModuleResolver"
+export * from "./git/GitChangeDetector"
+export * from "./cache/FileAnalysisCache"
+export * from "./workers/WorkerThreadPool"
+export * from "./workers/AnalysisWorkerPool"
+export * from "./baseline/BaselineStore"
+export * from "./fixers/HardcodeFixer"
+export * from "./fixers/ImportFixer"
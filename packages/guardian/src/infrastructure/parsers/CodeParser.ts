@@ -1,14 +1,61 @@
 import Parser from "tree-sitter"
 import JavaScript from "tree-sitter-javascript"
 import TypeScript from "tree-sitter-typescript"
-import { ICodeParser } from "../../domain/services/ICodeParser"
-import { TREE_SITTER_NODE_TYPES } from "../constants/defaults"
+import {
+    FileSymbols,
+    ICodeParser,
+    ImportBinding,
+    ImportReference,
+    LocalExport,
+    ReExport,
+    TypeCounts,
+    TypeDeclaration,
+} from "../../domain/services/ICodeParser"
+import {
+    AST_CLASS_TYPES,
+    AST_EXPRESSION_TYPES,
+    AST_FIELD_NAMES,
+    AST_IDENTIFIER_TYPES,
+    AST_IMPORT_TYPES,
+    AST_STATEMENT_TYPES,
+    AST_STRING_TYPES,
+    AST_TYPE_TYPES,
+    AST_VARIABLE_TYPES,
+    FILE_EXTENSIONS,
+    IMPORT_KINDS,
+    ImportKind,
+    SYMBOL_NAMES,
+} from "../../shared/constants"
+import { REQUIRE_FUNCTION, TREE_SITTER_NODE_TYPES } from "../constants/defaults"
+import { AstTypeNameCollector } from "../strategies/AstTypeNameCollector"
+
+const VARIABLE_DECLARATION_TYPES: readonly string[] = [
+    AST_STATEMENT_TYPES.LEXICAL_DECLARATION,
+    AST_STATEMENT_TYPES.VARIABLE_DECLARATION,
+]
+
+/**
+ * Names bound by destructuring, `a` and `c` in `const { a, b: c } = value`
+ */
+const PATTERN_NAME_TYPES: string[] = [
+    AST_IDENTIFIER_TYPES.IDENTIFIER,
+    AST_IDENTIFIER_TYPES.SHORTHAND_PROPERTY_IDENTIFIER_PATTERN,
+]
+
+const DECLARATION_TYPES: readonly string[] = [
+    AST_CLASS_TYPES.CLASS_DECLARATION,
+    AST_CLASS_TYPES.ABSTRACT_CLASS_DECLARATION,
+    AST_CLASS_TYPES.INTERFACE_DECLARATION,
+    AST_CLASS_TYPES.ENUM_DECLARATION,
+    AST_TYPE_TYPES.TYPE_ALIAS_DECLARATION,
+]
 
 /**
  * Code parser service using tree-sitter
  */
 export class CodeParser implements ICodeParser {
     private readonly parser: Parser
+    private readonly typeNameCollector = new AstTypeNameCollector()
 
     constructor() {
         this.parser = new Parser()
@@ -29,6 +76,19 @@ export class CodeParser implements ICodeParser {
         return this.parser.parse(code)
     }
 
+    /**
+     * Parses `.tsx` files as TSX, `.ts` files as TypeScript and everything
+     * else, including `.jsx`, as JavaScript
+     */
+    public parse(code: string, filePath: string): Parser.Tree {
+        if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT_JSX)) {
+            return this.parseTsx(code)
+        } else if (filePath.endsWith(FILE_EXTENSIONS.TYPESCRIPT)) {
+            return this.parseTypeScript(code)
+        }
+        return this.parseJavaScript(code)
+    }
+
     public extractFunctions(tree: Parser.Tree): string[] {
         const functions: string[] = []
         const cursor = tree.walk()
@@ -55,4 +115,331 @@ export class CodeParser implements ICodeParser {
         visit()
         return functions
     }
+
+    public extractImports(tree: Parser.Tree): ImportReference[] {
+        const imports: ImportReference[] = []
+        const cursor = tree.walk()
+
+        const visit = (): void => {
+            const reference = this.importReference(cursor.currentNode)
+
+            if (reference) {
+                imports.push({ ...reference, line: cursor.currentNode.startPosition.row + 1 })
+            }
+
+            if (cursor.gotoFirstChild()) {
+                do {
+                    visit()
+                } while (cursor.gotoNextSibling())
+                cursor.gotoParent()
+            }
+        }
+
+        visit()
+        return imports
+    }
+
+    public countTypes(tree: Parser.Tree): TypeCounts {
+        const counts: TypeCounts = { total: 0, abstract: 0 }
+        const cursor = tree.walk()
+
+        const visit = (): void => {
+            switch (cursor.nodeType) {
+                case AST_CLASS_TYPES.CLASS_DECLARATION:
+                    counts.total++
+                    break
+                case AST_CLASS_TYPES.ABSTRACT_CLASS_DECLARATION:
+                case AST_CLASS_TYPES.INTERFACE_DECLARATION:
+                    counts.total++
+                    counts.abstract++
+                    break
+            }
+
+            if (cursor.gotoFirstChild()) {
+                do {
+                    visit()
+                } while (cursor.gotoNextSibling())
+                cursor.gotoParent()
+            }
+        }
+
+        visit()
+        return counts
+    }
+
+    /**
+     * Declarations are collected anywhere in the file, import bindings,
+     * re-exports and local exports from top-level statements
+     */
+    public extractSymbols(tree: Parser.Tree): FileSymbols {
+        const symbols: FileSymbols = { declarations: [], imports: [], reExports: [], exports: [] }
+        const cursor = tree.walk()
+
+        const visit = (): void => {
+            const node = cursor.currentNode
+
+            if (DECLARATION_TYPES.includes(node.type)) {
+                const declaration = this.typeDeclaration(node)
+                if (declaration) {
+                    symbols.declarations.push(declaration)
+                }
+            }
+
+            if (cursor.gotoFirstChild()) {
+                do {
+                    visit()
+                } while (cursor.gotoNextSibling())
+                cursor.gotoParent()
+            }
+        }
+
+        visit()
+
+        for (const statement of tree.rootNode.namedChildren) {
+            const specifier = this.stringValue(statement.childForFieldName(AST_FIELD_NAMES.SOURCE))
+
+            if (
+                statement.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT &&
+                specifier !== undefined
+            ) {
+                symbols.imports.push(...this.importBindings(statement, specifier))
+            } else if (statement.type === AST_STATEMENT_TYPES.EXPORT_STATEMENT) {
+                if (specifier === undefined) {
+                    symbols.exports.push(...this.localExports(statement))
+                } else {
+                    symbols.reExports.push(...this.reExports(statement, specifier))
+                }
+            }
+        }
+
+        return symbols
+    }
+
+    private typeDeclaration(node: Parser.SyntaxNode): TypeDeclaration | undefined {
+        const name = node.childForFieldName(AST_FIELD_NAMES.NAME)
+        if (!name) {
+            return undefined
+        }
+
+        const value =
+            node.type === AST_TYPE_TYPES.TYPE_ALIAS_DECLARATION
+                ? node.childForFieldName(AST_FIELD_NAMES.VALUE)
+                : null
+
+        return {
+            name: name.text,
+            line: name.startPosition.row + 1,
+            references: value ? this.typeNameCollector.collect(value) : [],
+        }
+    }
+
+    private importBindings(statement: Parser.SyntaxNode, specifier: string): ImportBinding[] {
+        const clause = statement.namedChildren.find(
+            (child) => child.type === AST_IMPORT_TYPES.IMPORT_CLAUSE,
+        )
+
+        return (clause?.namedChildren ?? []).flatMap((child): ImportBinding[] => {
+            switch (child.type) {
+                case AST_IMPORT_TYPES.NAMED_IMPORTS:
+                    return child.namedChildren.map((importSpecifier) => {
+                        const imported =
+                            importSpecifier.childForFieldName(AST_FIELD_NAMES.NAME)?.text ?? ""
+                        const alias = importSpecifier.childForFieldName(AST_FIELD_NAMES.ALIAS)
+                        return { local: alias?.text ?? imported, imported, specifier }
+                    })
+                case AST_IMPORT_TYPES.NAMESPACE_IMPORT:
+                    return [
+                        {
+                            local: child.namedChildren[0]?.text ?? "",
+                            imported: SYMBOL_NAMES.ALL_EXPORTS,
+                            specifier,
+                        },
+                    ]
+                default:
+                    return [{ local: child.text, imported: SYMBOL_NAMES.DEFAULT_EXPORT, specifier }]
+            }
+        })
+    }
+
+    /**
+     * `export * as ns from` is left out, its members are not looked up by name
+     */
+    private reExports(statement: Parser.SyntaxNode, specifier: string): ReExport[] {
+        const children = statement.namedChildren
+        const clause = children.find((child) => child.type === AST_IMPORT_TYPES.EXPORT_CLAUSE)
+
+        if (children.some((child) => child.type === AST_IMPORT_TYPES.NAMESPACE_EXPORT)) {
+            return []
+        }
+
+        if (!clause) {
+            return [
+                {
+                    exported: SYMBOL_NAMES.ALL_EXPORTS,
+                    imported: SYMBOL_NAMES.ALL_EXPORTS,
+                    specifier,
+                },
+            ]
+        }
+
+        return clause.namedChildren.map((exportSpecifier) => {
+            const imported = exportSpecifier.childForFieldName(AST_FIELD_NAMES.NAME)?.text ?? ""
+            const alias = exportSpecifier.childForFieldName(AST_FIELD_NAMES.ALIAS)
+            return { exported: alias?.text ?? imported, imported, specifier }
+        })
+    }
+
+    /**
+     * Names of `export const a`, `export class A`, `export { a as b }` and
+     * `export default`; `export =` is left out
+     */
+    private localExports(statement: Parser.SyntaxNode): LocalExport[] {
+        if (statement.children.some((child) => child.type === AST_IMPORT_TYPES.DEFAULT_KEYWORD)) {
+            return [{ name: SYMBOL_NAMES.DEFAULT_EXPORT, line: statement.startPosition.row + 1 }]
+        }
+
+        const clause = statement.namedChildren.find(
+            (child) => child.type === AST_IMPORT_TYPES.EXPORT_CLAUSE,
+        )
+        const names = clause
+            ? clause.namedChildren.map(
+                  (exportSpecifier) =>
+                      exportSpecifier.childForFieldName(AST_FIELD_NAMES.ALIAS) ??
+                      exportSpecifier.childForFieldName(AST_FIELD_NAMES.NAME),
+              )
+            : this.declaredNames(statement.childForFieldName(AST_FIELD_NAMES.DECLARATION))
+
+        return names
+            .filter((name): name is Parser.SyntaxNode => name !== null)
+            .map((name) => ({ name: name.text, line: name.startPosition.row + 1 }))
+    }
+
+    private declaredNames(declaration: Parser.SyntaxNode | null): Parser.SyntaxNode[] {
+        if (!declaration) {
+            return []
+        }
+
+        if (declaration.type === AST_STATEMENT_TYPES.AMBIENT_DECLARATION) {
+            return this.declaredNames(declaration.namedChildren[0] ?? null)
+        }
+
+        if (VARIABLE_DECLARATION_TYPES.includes(declaration.type)) {
+            return declaration.namedChildren
+                .filter((child) => child.type === AST_VARIABLE_TYPES.VARIABLE_DECLARATOR)
+                .map((declarator) => declarator.childForFieldName(AST_FIELD_NAMES.NAME))
+                .flatMap((name) =>
+                    !name || name.type === AST_IDENTIFIER_TYPES.IDENTIFIER
+                        ? [name]
+                        : name.descendantsOfType(PATTERN_NAME_TYPES),
+                )
+                .filter((name): name is Parser.SyntaxNode => name !== null)
+        }
+
+        const name = declaration.childForFieldName(AST_FIELD_NAMES.NAME)
+        return name ? [name] : []
+    }
+
+    /**
+     * Import made by an import statement, `import x = require("...")`, an
+     * `export ... from` statement, a `require("...")` call or an
+     * `import("...")` expression. Calls with a computed specifier are left out.
+     */
+    private importReference(node: Parser.SyntaxNode): Omit<ImportReference, "line"> | undefined {
+        const kind = this.importKind(node)
+        if (kind === undefined) {
+            return undefined
+        }
+
+        const source =
+            kind === IMPORT_KINDS.REQUIRE || kind === IMPORT_KINDS.DYNAMIC_IMPORT
+                ? this.requiredModule(node)
+                : node.childForFieldName(AST_FIELD_NAMES.SOURCE)
+        const specifier = this.stringValue(source)
+
+        return specifier === undefined
+            ? undefined
+            : { specifier, kind, isTypeOnly: this.isTypeOnly(node) }
+    }
+
+    private importKind(node: Parser.SyntaxNode): ImportKind | undefined {
+        switch (node.type) {
+            case AST_STATEMENT_TYPES.IMPORT_STATEMENT:
+                return this.requireClause(node) ? IMPORT_KINDS.REQUIRE : IMPORT_KINDS.IMPORT
+            case AST_STATEMENT_TYPES.EXPORT_STATEMENT:
+                return IMPORT_KINDS.RE_EXPORT
+            case AST_EXPRESSION_TYPES.CALL_EXPRESSION: {
+                const callee = node.childForFieldName(AST_FIELD_NAMES.FUNCTION)
+
+                if (callee?.type === AST_IDENTIFIER_TYPES.IMPORT) {
+                    return IMPORT_KINDS.DYNAMIC_IMPORT
+                }
+                return callee?.text === REQUIRE_FUNCTION ? IMPORT_KINDS.REQUIRE : undefined
+            }
+            default:
+                return undefined
+        }
+    }
+
+    /**
+     * Module argument of `require("...")`, `import("...")` and `import x = require("...")`
+     */
+    private requiredModule(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+        const clause = this.requireClause(node)
+        if (clause) {
+            return (
+                clause.namedChildren.find((child) => child.type === AST_STRING_TYPES.STRING) ?? null
+            )
+        }
+
+        return node.childForFieldName(AST_FIELD_NAMES.ARGUMENTS)?.namedChildren[0] ?? null
+    }
+
+    private requireClause(node: Parser.SyntaxNode): Parser.SyntaxNode | undefined {
+        return node.type === AST_STATEMENT_TYPES.IMPORT_STATEMENT
+            ? node.namedChildren.find(
+                  (child) => child.type === AST_IMPORT_TYPES.IMPORT_REQUIRE_CLAUSE,
+              )
+            : undefined
+    }
+
+    /**
+     * `import type`, `export type` or named imports and exports that are all
+     * marked `type`, like `import { type User, type Order }`
+     */
+    private isTypeOnly(statement: Parser.SyntaxNode): boolean {
+        if (this.hasTypeKeyword(statement)) {
+            return true
+        }
+
+        const importClause = statement.namedChildren.find(
+            (child) => child.type === AST_IMPORT_TYPES.IMPORT_CLAUSE,
+        )
+        const list =
+            importClause?.namedChildren.length === 1
+                ? importClause.namedChildren[0]
+                : statement.namedChildren.find(
+                      (child) => child.type === AST_IMPORT_TYPES.EXPORT_CLAUSE,
+                  )
+        const specifiers = list?.namedChildren ?? []
+
+        return (
+            (list?.type === AST_IMPORT_TYPES.NAMED_IMPORTS ||
+                list?.type === AST_IMPORT_TYPES.EXPORT_CLAUSE) &&
+            specifiers.length > 0 &&
+            specifiers.every((specifier) => this.hasTypeKeyword(specifier))
+        )
+    }
+
+    private hasTypeKeyword(node: Parser.SyntaxNode): boolean {
+        return node.children.some((child) => child.type === AST_IMPORT_TYPES.TYPE_KEYWORD)
+    }
+
+    private stringValue(node: Parser.SyntaxNode | null): string | undefined {
+        if (node?.type !== AST_STRING_TYPES.STRING) {
+            return undefined
+        }
+
+        return node.namedChildren.find((child) => child.type === AST_STRING_TYPES.STRING_FRAGMENT)
+            ?.text
+    }
 }
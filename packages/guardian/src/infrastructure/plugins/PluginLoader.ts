@@ -0,0 +1,195 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import { createRequire } from "module"
+import * as path from "path"
+import type { GuardianPlugin, ICustomDetector } from "../../domain/services/ICustomDetector"
+import type { IPluginLoader, LoadedPlugin } from "../../domain/services/IPluginLoader"
+import type { GuardianConfig } from "../../domain/value-objects/GuardianConfig"
+import { CONTENT_HASH_ALGORITHM, ERROR_MESSAGES, SEVERITY_LEVELS } from "../../shared/constants"
+import { PLUGIN_RULE_SEPARATOR } from "../../shared/constants/rules"
+import { ValidationError } from "../../shared/errors/BaseError"
+import { Guards } from "../../shared/utils/Guards"
+import { CONFIG_SOURCES } from "../constants/config"
+import { FILE_ENCODING } from "../constants/defaults"
+import {
+    PLUGIN_ERRORS,
+    PLUGIN_NAME_PATTERN,
+    PLUGIN_RULE_PATTERN,
+    RELATIVE_SPECIFIER_PREFIXES,
+} from "../constants/plugins"
+import { ScriptModuleLoader } from "../config/ScriptModuleLoader"
+
+/**
+ * Loads the plugins listed in the `plugins` key of the config
+ *
+ * Paths are resolved from the directory of the config file, package names
+ * like Node does from there. Plugins may be written in JavaScript or
+ * TypeScript and export the plugin as `module.exports` or default export.
+ *
+ * @example
+ * ```typescript
+ * // guardian.config.json: { "plugins": ["./guardian/house-rules.js"] }
+ * const plugins = await new PluginLoader().load(config, "./src")
+ *
+ * console.log(plugins[0].plugin.detectors.map((detector) => detector.name))
+ * ```
+ */
+export class PluginLoader implements IPluginLoader {
+    private readonly scripts = new ScriptModuleLoader()
+    private readonly severities = new Set<string>(Object.values(SEVERITY_LEVELS))
+
+    public async load(config: GuardianConfig, rootDir: string): Promise<LoadedPlugin[]> {
+        const baseDir = config.source ? path.dirname(config.source) : path.resolve(rootDir)
+        const plugins: LoadedPlugin[] = []
+
+        for (const specifier of config.plugins) {
+            plugins.push(await this.loadModule(this.resolve(specifier, baseDir)))
+        }
+
+        this.checkPluginNames(plugins)
+        this.checkConfiguredRules(config, plugins)
+
+        return plugins
+    }
+
+    /**
+     * Loads one plugin from an absolute module path
+     *
+     * @throws {Error} If the module cannot be evaluated or does not export a plugin
+     */
+    public async loadModule(modulePath: string): Promise<LoadedPlugin> {
+        try {
+            const content = await fs.readFile(modulePath, FILE_ENCODING)
+            const { exports, localDependencies } = this.scripts.load(content, modulePath)
+            const plugin = this.validate(exports)
+            const hash = createHash(CONTENT_HASH_ALGORITHM).update(content)
+
+            for (const dependency of localDependencies) {
+                hash.update(dependency).update(await fs.readFile(dependency, FILE_ENCODING))
+            }
+
+            const fingerprint = hash.update(plugin.version ?? "").digest("hex")
+
+            return { plugin, modulePath, fingerprint }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_LOAD_PLUGIN} ${modulePath}: ${message}`)
+        }
+    }
+
+    private resolve(specifier: string, baseDir: string): string {
+        if (path.isAbsolute(specifier)) {
+            return specifier
+        }
+
+        if (RELATIVE_SPECIFIER_PREFIXES.some((prefix) => specifier.startsWith(prefix))) {
+            return path.resolve(baseDir, specifier)
+        }
+
+        try {
+            return createRequire(baseDir + path.sep).resolve(specifier)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            throw new Error(`${ERROR_MESSAGES.FAILED_TO_LOAD_PLUGIN} "${specifier}": ${message}`)
+        }
+    }
+
+    /**
+     * @throws {ValidationError} If the export is not a well-formed plugin
+     */
+    private validate(exported: unknown): GuardianPlugin {
+        if (!Guards.isObject(exported)) {
+            throw new ValidationError(PLUGIN_ERRORS.NOT_A_PLUGIN)
+        }
+
+        const { name, detectors } = exported as Partial<Record<keyof GuardianPlugin, unknown>>
+
+        if (!Guards.isString(name) || !Guards.isArray(detectors)) {
+            throw new ValidationError(PLUGIN_ERRORS.NOT_A_PLUGIN)
+        }
+
+        if (!PLUGIN_NAME_PATTERN.test(name)) {
+            throw new ValidationError(`${PLUGIN_ERRORS.INVALID_NAME} "${name}"`)
+        }
+
+        const detectorNames = new Set<string>()
+
+        for (const [index, detector] of detectors.entries()) {
+            const detectorName = this.validateDetector(detector, `detectors[${String(index)}]`)
+
+            if (detectorNames.has(detectorName)) {
+                throw new ValidationError(`${PLUGIN_ERRORS.DUPLICATE_DETECTOR} "${detectorName}"`)
+            }
+            detectorNames.add(detectorName)
+        }
+
+        return exported as GuardianPlugin
+    }
+
+    private validateDetector(detector: unknown, location: string): string {
+        if (!Guards.isObject(detector)) {
+            throw new ValidationError(`${location} ${PLUGIN_ERRORS.NOT_A_DETECTOR}`)
+        }
+
+        const { name, detect, severity } = detector as Partial<
+            Record<keyof ICustomDetector, unknown>
+        >
+
+        if (!Guards.isString(name) || typeof detect !== "function") {
+            throw new ValidationError(`${location} ${PLUGIN_ERRORS.NOT_A_DETECTOR}`)
+        }
+
+        if (!PLUGIN_NAME_PATTERN.test(name)) {
+            throw new ValidationError(`${location} ${PLUGIN_ERRORS.INVALID_NAME} "${name}"`)
+        }
+
+        if (
+            severity !== undefined &&
+            !(Guards.isString(severity) && this.severities.has(severity))
+        ) {
+            throw new ValidationError(`"${name}" ${PLUGIN_ERRORS.INVALID_SEVERITY}`)
+        }
+
+        return name
+    }
+
+    private checkPluginNames(plugins: LoadedPlugin[]): void {
+        const names = new Set<string>()
+
+        for (const { plugin } of plugins) {
+            if (names.has(plugin.name)) {
+                throw new ValidationError(
+                    `${ERROR_MESSAGES.FAILED_TO_LOAD_PLUGIN}: ${PLUGIN_ERRORS.DUPLICATE_PLUGIN} "${plugin.name}"`,
+                )
+            }
+            names.add(plugin.name)
+        }
+    }
+
+    /**
+     * Plugin rules in `rules` and `gate.maxViolations` must be provided by a
+     * loaded plugin, like built-in rules must exist
+     */
+    private checkConfiguredRules(config: GuardianConfig, plugins: LoadedPlugin[]): void {
+        const provided = new Set(
+            plugins.flatMap(({ plugin }) =>
+                plugin.detectors.map(
+                    (detector) => `${plugin.name}${PLUGIN_RULE_SEPARATOR}${detector.name}`,
+                ),
+            ),
+        )
+        const configured = [...config.configuredRules, ...config.gate.maxViolations.keys()]
+        const unknown = configured.filter(
+            (rule) => PLUGIN_RULE_PATTERN.test(rule) && !provided.has(rule),
+        )
+
+        if (unknown.length > 0) {
+            const details = [...new Set(unknown)]
+                .map((rule) => `  - ${PLUGIN_ERRORS.UNKNOWN_RULE} "${rule}"`)
+                .join("\n")
+            throw new ValidationError(
+                `${ERROR_MESSAGES.INVALID_CONFIG} ${config.source ?? CONFIG_SOURCES.INLINE}:\n${details}`,
+            )
+        }
+    }
+}
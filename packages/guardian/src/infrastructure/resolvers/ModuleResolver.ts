@@ -0,0 +1,175 @@
+import * as path from "path"
+import { IModuleResolver, ModuleResolutionContext } from "../../domain/services/IModuleResolver"
+import { DEFAULT_EXTENSIONS, INDEX_FILE_NAME, JS_TO_TS_EXTENSIONS } from "../constants/defaults"
+import { PackageManifestReader } from "./PackageManifestReader"
+import { TsConfigPathOptions, TsConfigReader } from "./TsConfigReader"
+
+const PATHS_WILDCARD = "*"
+const DECLARATION_EXTENSION = /\.d\.([cm]?)ts$/
+
+/**
+ * Resolves import specifiers to analyzed files
+ *
+ * Follows the TypeScript resolution rules that matter for a dependency graph:
+ * - relative and absolute specifiers are resolved against the importing file
+ * - missing extensions and `index` files are probed (`.ts`, `.tsx`, `.js`, `.jsx`)
+ * - ESM specifiers ending in `.js` map back to their `.ts` sources
+ * - tsconfig `paths` aliases, then `baseUrl`, are tried for bare specifiers
+ *
+ * Entry points of the package map back to their sources as well: a
+ * `dist/index.js` or `dist/index.d.ts` under the tsconfig `outDir` is
+ * looked up as `index` under its `rootDir`.
+ *
+ * Only files in the context are returned, so packages, builtins and
+ * excluded files resolve to undefined.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new ModuleResolver()
+ * const context = await resolver.createContext("/project/src", files)
+ *
+ * resolver.resolve("./User.js", "/project/src/domain/Order.ts", context)
+ * // "/project/src/domain/User.ts"
+ * resolver.resolve("@/shared/Result", "/project/src/domain/Order.ts", context)
+ * // "/project/src/shared/Result.ts"
+ * ```
+ */
+export class ModuleResolver implements IModuleResolver {
+    private readonly tsConfigReader = new TsConfigReader()
+    private readonly manifestReader = new PackageManifestReader()
+
+    public async createContext(rootDir: string, files: string[]): Promise<ModuleResolutionContext> {
+        const tsConfigPath = await this.tsConfigReader.find(rootDir)
+        const options: TsConfigPathOptions = tsConfigPath
+            ? await this.tsConfigReader.read(tsConfigPath)
+            : { baseUrl: undefined, paths: new Map<string, string[]>() }
+        const manifestPath = await this.manifestReader.find(rootDir)
+        const targets = manifestPath ? await this.manifestReader.readEntryPoints(manifestPath) : []
+        const analyzedFiles = new Set(files.map((file) => path.resolve(file)))
+
+        return {
+            files: analyzedFiles,
+            baseUrl: options.baseUrl,
+            paths: options.paths,
+            entryPoints: new Set(
+                targets
+                    .map((target) => this.resolveEntryPoint(target, options, analyzedFiles))
+                    .filter((file): file is string => file !== undefined),
+            ),
+        }
+    }
+
+    public resolve(
+        importPath: string,
+        fromFile: string,
+        context: ModuleResolutionContext,
+    ): string | undefined {
+        if (this.isRelative(importPath)) {
+            return this.probe(path.resolve(path.dirname(fromFile), importPath), context.files)
+        }
+
+        for (const candidate of this.matchPaths(importPath, context.paths)) {
+            const resolved = this.probe(candidate, context.files)
+            if (resolved) {
+                return resolved
+            }
+        }
+
+        if (context.baseUrl) {
+            return this.probe(path.resolve(context.baseUrl, importPath), context.files)
+        }
+
+        return undefined
+    }
+
+    /**
+     * Source file of a package entry point, built files are mapped from
+     * `outDir` back to `rootDir`
+     */
+    private resolveEntryPoint(
+        target: string,
+        options: TsConfigPathOptions,
+        files: ReadonlySet<string>,
+    ): string | undefined {
+        const module = target.replace(DECLARATION_EXTENSION, ".$1js")
+        const { outDir, rootDir } = options
+        const built = outDir ? path.relative(outDir, module) : undefined
+
+        if (rootDir && built !== undefined && !built.startsWith("..") && !path.isAbsolute(built)) {
+            return this.probe(path.join(rootDir, built), files) ?? this.probe(module, files)
+        }
+
+        return this.probe(module, files)
+    }
+
+    private isRelative(importPath: string): boolean {
+        return (
+            importPath === "." ||
+            importPath === ".." ||
+            importPath.startsWith("./") ||
+            importPath.startsWith("../") ||
+            path.isAbsolute(importPath)
+        )
+    }
+
+    /**
+     * Returns the substitutions of the most specific matching `paths` pattern
+     *
+     * Like TypeScript, an exact pattern beats a wildcard one, and among
+     * wildcard patterns the one with the longest prefix wins.
+     */
+    private matchPaths(
+        importPath: string,
+        paths: ReadonlyMap<string, readonly string[]>,
+    ): string[] {
+        let bestPrefixLength = -1
+        let best: string[] = []
+
+        for (const [pattern, substitutions] of paths) {
+            const wildcard = pattern.indexOf(PATHS_WILDCARD)
+
+            if (wildcard === -1) {
+                if (pattern === importPath) {
+                    return [...substitutions]
+                }
+                continue
+            }
+
+            const prefix = pattern.slice(0, wildcard)
+            const suffix = pattern.slice(wildcard + 1)
+            const matches =
+                importPath.length >= prefix.length + suffix.length &&
+                importPath.startsWith(prefix) &&
+                importPath.endsWith(suffix)
+
+            if (matches && prefix.length > bestPrefixLength) {
+                const captured = importPath.slice(prefix.length, importPath.length - suffix.length)
+                bestPrefixLength = prefix.length
+                best = substitutions.map((substitution) =>
+                    substitution.replace(PATHS_WILDCARD, captured),
+                )
+            }
+        }
+
+        return best
+    }
+
+    private probe(basePath: string, files: ReadonlySet<string>): string | undefined {
+        return this.candidates(basePath).find((candidate) => files.has(candidate))
+    }
+
+    private candidates(basePath: string): string[] {
+        const candidates = [basePath]
+        const extension = path.extname(basePath)
+        const sourceExtensions = JS_TO_TS_EXTENSIONS[extension] ?? []
+        const stem = basePath.slice(0, basePath.length - extension.length)
+
+        candidates.push(...sourceExtensions.map((sourceExtension) => stem + sourceExtension))
+        candidates.push(...DEFAULT_EXTENSIONS.map((ext) => basePath + ext))
+        candidates.push(
+            ...DEFAULT_EXTENSIONS.map((ext) => path.join(basePath, INDEX_FILE_NAME + ext)),
+        )
+
+        return candidates
+    }
+}
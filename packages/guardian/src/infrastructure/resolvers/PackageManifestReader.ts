@@ -0,0 +1,95 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { Guards } from "../../shared/utils/Guards"
+import { FILE_ENCODING, PACKAGE_ENTRY_FIELDS, PACKAGE_JSON_FILE_NAME } from "../constants/defaults"
+
+const SUBPATH_PATTERN = "*"
+
+/**
+ * Reads the entry points of a package from package.json
+ *
+ * `main`, `module`, `types`, `typings`, `bin` and every target of
+ * `exports`, conditional and subpath exports included, are returned as
+ * absolute paths. Subpath patterns like `./features/*` are left out. A
+ * missing or unreadable package.json has no entry points.
+ *
+ * @example
+ * ```typescript
+ * const reader = new PackageManifestReader()
+ * const manifestPath = await reader.find("./src")
+ * const entryPoints = manifestPath ? await reader.readEntryPoints(manifestPath) : []
+ *
+ * console.log(entryPoints) // ["/project/dist/index.js", "/project/bin/cli.js"]
+ * ```
+ */
+export class PackageManifestReader {
+    /**
+     * Finds the nearest package.json, starting at the given directory
+     */
+    public async find(startDir: string): Promise<string | undefined> {
+        let dir = path.resolve(startDir)
+        let parent = dir
+
+        do {
+            dir = parent
+            const candidate = path.join(dir, PACKAGE_JSON_FILE_NAME)
+
+            if (await this.isFile(candidate)) {
+                return candidate
+            }
+
+            parent = path.dirname(dir)
+        } while (parent !== dir)
+
+        return undefined
+    }
+
+    public async readEntryPoints(manifestPath: string): Promise<string[]> {
+        const manifest = await this.parseFile(manifestPath)
+        const targets = [
+            ...PACKAGE_ENTRY_FIELDS.map((field) => manifest[field]),
+            ...this.collectTargets(manifest.bin),
+            ...this.collectTargets(manifest.exports),
+        ]
+
+        return targets
+            .filter((target): target is string => Guards.isString(target))
+            .filter((target) => !target.includes(SUBPATH_PATTERN))
+            .map((target) => path.resolve(path.dirname(manifestPath), target))
+    }
+
+    /**
+     * String values of a `bin` or `exports` field, at any depth
+     */
+    private collectTargets(value: unknown): unknown[] {
+        if (Guards.isArray(value)) {
+            return value.flatMap((item) => this.collectTargets(item))
+        }
+
+        if (Guards.isObject(value)) {
+            return Object.values(value as Record<string, unknown>).flatMap((item) =>
+                this.collectTargets(item),
+            )
+        }
+
+        return [value]
+    }
+
+    private async parseFile(manifestPath: string): Promise<Record<string, unknown>> {
+        try {
+            const parsed = JSON.parse(await fs.readFile(manifestPath, FILE_ENCODING)) as unknown
+            return Guards.isObject(parsed) ? (parsed as Record<string, unknown>) : {}
+        } catch {
+            return {}
+        }
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            const stats = await fs.stat(filePath)
+            return stats.isFile()
+        } catch {
+            return false
+        }
+    }
+}
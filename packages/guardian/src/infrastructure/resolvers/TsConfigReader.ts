@@ -0,0 +1,265 @@
+import * as fs from "fs/promises"
+import { createRequire } from "module"
+import * as path from "path"
+import { Guards } from "../../shared/utils/Guards"
+import { FILE_ENCODING, TSCONFIG_FILE_NAME } from "../constants/defaults"
+
+const JSON_EXTENSION = ".json"
+const CLOSING_BRACKET_AHEAD = /\s*[}\]]/y
+
+/**
+ * Module resolution settings taken from tsconfig `compilerOptions`
+ */
+export interface TsConfigPathOptions {
+    /**
+     * Absolute `baseUrl`
+     */
+    baseUrl?: string
+    /**
+     * `paths` with every substitution made absolute
+     */
+    paths: Map<string, string[]>
+    /**
+     * Absolute `outDir`, where the compiled files go
+     */
+    outDir?: string
+    /**
+     * Absolute `rootDir`, the sources `outDir` mirrors
+     */
+    rootDir?: string
+}
+
+interface RawPathOptions {
+    baseUrl?: string
+    paths?: Record<string, unknown>
+    pathsDir?: string
+    outDir?: string
+    rootDir?: string
+}
+
+/**
+ * Reads `baseUrl`, `paths`, `outDir` and `rootDir` from tsconfig.json, following `extends`
+ *
+ * tsconfig files may contain comments and trailing commas. A missing or
+ * unreadable tsconfig is not an error - resolution then falls back to
+ * relative imports only.
+ *
+ * @example
+ * ```typescript
+ * const reader = new TsConfigReader()
+ * const configPath = await reader.find("./src")
+ * const options = configPath ? await reader.read(configPath) : undefined
+ *
+ * console.log(options?.paths.get("@/*")) // ["/project/src/*"]
+ * ```
+ */
+export class TsConfigReader {
+    /**
+     * Finds the nearest tsconfig.json, starting at the given directory
+     */
+    public async find(startDir: string): Promise<string | undefined> {
+        let dir = path.resolve(startDir)
+        let parent = dir
+
+        do {
+            dir = parent
+            const candidate = path.join(dir, TSCONFIG_FILE_NAME)
+
+            if (await this.isFile(candidate)) {
+                return candidate
+            }
+
+            parent = path.dirname(dir)
+        } while (parent !== dir)
+
+        return undefined
+    }
+
+    public async read(configPath: string): Promise<TsConfigPathOptions> {
+        const raw = await this.readChain(path.resolve(configPath), new Set())
+        const pathsBase = raw.baseUrl ?? raw.pathsDir
+        const paths = new Map<string, string[]>()
+
+        if (raw.paths && pathsBase) {
+            for (const [pattern, substitutions] of Object.entries(raw.paths)) {
+                if (Guards.isArray(substitutions)) {
+                    paths.set(
+                        pattern,
+                        substitutions
+                            .filter((item): item is string => Guards.isString(item))
+                            .map((item) => path.resolve(pathsBase, item)),
+                    )
+                }
+            }
+        }
+
+        return { baseUrl: raw.baseUrl, paths, outDir: raw.outDir, rootDir: raw.rootDir }
+    }
+
+    private async readChain(configPath: string, visited: Set<string>): Promise<RawPathOptions> {
+        visited.add(configPath)
+
+        const config = await this.parseFile(configPath)
+        const dir = path.dirname(configPath)
+        let result: RawPathOptions = {}
+
+        for (const parentPath of this.resolveExtends(config.extends, configPath)) {
+            if (!visited.has(parentPath)) {
+                result = { ...result, ...(await this.readChain(parentPath, visited)) }
+            }
+        }
+
+        const compilerOptions = Guards.isObject(config.compilerOptions)
+            ? (config.compilerOptions as Record<string, unknown>)
+            : {}
+
+        if (Guards.isString(compilerOptions.baseUrl)) {
+            result.baseUrl = path.resolve(dir, compilerOptions.baseUrl)
+        }
+
+        if (Guards.isString(compilerOptions.outDir)) {
+            result.outDir = path.resolve(dir, compilerOptions.outDir)
+        }
+
+        if (Guards.isString(compilerOptions.rootDir)) {
+            result.rootDir = path.resolve(dir, compilerOptions.rootDir)
+        }
+
+        if (Guards.isObject(compilerOptions.paths)) {
+            result.paths = compilerOptions.paths as Record<string, unknown>
+            result.pathsDir = dir
+        }
+
+        return result
+    }
+
+    private async parseFile(configPath: string): Promise<Record<string, unknown>> {
+        try {
+            const content = await fs.readFile(configPath, FILE_ENCODING)
+            const parsed = JSON.parse(
+                this.stripTrailingCommas(this.stripComments(content)),
+            ) as unknown
+
+            return Guards.isObject(parsed) ? (parsed as Record<string, unknown>) : {}
+        } catch {
+            return {}
+        }
+    }
+
+    private resolveExtends(value: unknown, configPath: string): string[] {
+        const entries = Guards.isArray(value) ? value : [value]
+        const resolved: string[] = []
+
+        for (const entry of entries) {
+            if (!Guards.isString(entry)) {
+                continue
+            }
+
+            const parentPath = this.resolveExtendsEntry(entry, configPath)
+            if (parentPath) {
+                resolved.push(parentPath)
+            }
+        }
+
+        return resolved
+    }
+
+    private resolveExtendsEntry(entry: string, configPath: string): string | undefined {
+        if (entry.startsWith(".") || path.isAbsolute(entry)) {
+            const parentPath = path.resolve(path.dirname(configPath), entry)
+            return path.extname(parentPath) === JSON_EXTENSION
+                ? parentPath
+                : `${parentPath}${JSON_EXTENSION}`
+        }
+
+        const projectRequire = createRequire(configPath)
+
+        for (const candidate of [entry, `${entry}/${TSCONFIG_FILE_NAME}`]) {
+            try {
+                return projectRequire.resolve(candidate)
+            } catch {
+                continue
+            }
+        }
+
+        return undefined
+    }
+
+    /**
+     * Removes line and block comments outside of string literals
+     */
+    private stripComments(content: string): string {
+        let result = ""
+        let inString = false
+        let i = 0
+
+        while (i < content.length) {
+            const char = content[i]
+            const next = content[i + 1]
+
+            if (inString) {
+                result += char
+                if (char === "\\") {
+                    result += next
+                    i++
+                } else if (char === '"') {
+                    inString = false
+                }
+                i++
+            } else if (char === "/" && next === "/") {
+                const end = content.indexOf("\n", i)
+                i = end === -1 ? content.length : end
+            } else if (char === "/" && next === "*") {
+                const end = content.indexOf("*/", i + 2)
+                i = end === -1 ? content.length : end + 2
+            } else {
+                inString = char === '"'
+                result += char
+                i++
+            }
+        }
+
+        return result
+    }
+
+    /**
+     * Removes commas directly before a closing bracket, outside of string literals
+     */
+    private stripTrailingCommas(content: string): string {
+        let result = ""
+        let inString = false
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i]
+
+            if (inString) {
+                if (char === "\\") {
+                    result += char + content[i + 1]
+                    i++
+                    continue
+                }
+                inString = char !== '"'
+            } else if (char === '"') {
+                inString = true
+            } else if (char === ",") {
+                CLOSING_BRACKET_AHEAD.lastIndex = i + 1
+                if (CLOSING_BRACKET_AHEAD.test(content)) {
+                    continue
+                }
+            }
+
+            result += char
+        }
+
+        return result
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            const stats = await fs.stat(filePath)
+            return stats.isFile()
+        } catch {
+            return false
+        }
+    }
+}
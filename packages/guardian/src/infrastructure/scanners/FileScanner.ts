@@ -16,10 +16,39 @@ export class FileScanner implements IFileScanner {
         const {
             rootDir,
             exclude = this.defaultExcludes,
+            additionalExclude = [],
             extensions = this.defaultExtensions,
+            extraFiles = [],
         } = options
+        const excludes = [...exclude, ...additionalExclude]
+        const files = await this.scanDirectory(rootDir, excludes, extensions)
 
-        return this.scanDirectory(rootDir, exclude, extensions)
+        return [
+            ...files,
+            ...extraFiles.filter(
+                (file) =>
+                    !files.includes(file) && this.isScanned(rootDir, file, excludes, extensions),
+            ),
+        ]
+    }
+
+    /**
+     * Whether scanning the directory would find the file if it were there
+     */
+    private isScanned(
+        rootDir: string,
+        filePath: string,
+        exclude: string[],
+        extensions: string[],
+    ): boolean {
+        const relative = path.relative(rootDir, filePath)
+
+        return (
+            !relative.startsWith("..") &&
+            !path.isAbsolute(relative) &&
+            extensions.includes(path.extname(filePath)) &&
+            relative.split(path.sep).every((name) => !this.shouldExclude(name, exclude))
+        )
     }
 
     private async scanDirectory(
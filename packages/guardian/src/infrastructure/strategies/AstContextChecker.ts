@@ -2,10 +2,22 @@ import Parser from "tree-sitter"
 import {
     AST_FIELD_NAMES,
     AST_IDENTIFIER_TYPES,
+    AST_LITERAL_TYPES,
     AST_MODIFIER_TYPES,
+    AST_STATEMENT_TYPES,
+    AST_STRING_TYPES,
     AST_VARIABLE_TYPES,
 } from "../../shared/constants/ast-node-types"
 
+const CONSTANT_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/
+
+const LITERAL_TYPES: readonly string[] = [
+    AST_STRING_TYPES.STRING,
+    AST_LITERAL_TYPES.NUMBER,
+    AST_LITERAL_TYPES.TRUE,
+    AST_LITERAL_TYPES.FALSE,
+]
+
 /**
  * AST context checker for analyzing node contexts
  *
@@ -14,9 +26,15 @@ import {
  */
 export class AstContextChecker {
     /**
-     * Checks if node is in an exported constant with "as const"
+     * Checks if node is in an exported constant with "as const", or is the
+     * whole value of an exported UPPER_SNAKE_CASE constant like the ones
+     * `guardian fix` declares (`export const API_URL = "https://..."`)
      */
     public isInExportedConstant(node: Parser.SyntaxNode): boolean {
+        if (this.isNamedConstantValue(node)) {
+            return true
+        }
+
         let current = node.parent
 
         while (current) {
@@ -31,6 +49,23 @@ export class AstContextChecker {
         return false
     }
 
+    private isNamedConstantValue(node: Parser.SyntaxNode): boolean {
+        const declarator = node.parent
+        const declaration = declarator?.parent
+
+        return (
+            LITERAL_TYPES.includes(node.type) &&
+            declarator?.type === AST_VARIABLE_TYPES.VARIABLE_DECLARATOR &&
+            declarator.childForFieldName(AST_FIELD_NAMES.VALUE)?.startIndex === node.startIndex &&
+            CONSTANT_NAME_PATTERN.test(
+                declarator.childForFieldName(AST_FIELD_NAMES.NAME)?.text ?? "",
+            ) &&
+            declaration?.type === AST_STATEMENT_TYPES.LEXICAL_DECLARATION &&
+            declaration.child(0)?.type === AST_MODIFIER_TYPES.CONST &&
+            declaration.parent?.type === AST_STATEMENT_TYPES.EXPORT_STATEMENT
+        )
+    }
+
     /**
      * Helper to check if export statement contains "as const"
      */
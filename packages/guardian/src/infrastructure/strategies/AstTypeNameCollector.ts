@@ -0,0 +1,55 @@
+import Parser from "tree-sitter"
+import { AST_FIELD_NAMES, AST_IDENTIFIER_TYPES, AST_TYPE_TYPES } from "../../shared/constants"
+
+/**
+ * Type nodes whose identifiers do not make the type itself appear, like
+ * `keyof User` or `User["id"]`
+ */
+const OPAQUE_TYPES: readonly string[] = [
+    AST_TYPE_TYPES.LITERAL_TYPE,
+    AST_TYPE_TYPES.INDEX_TYPE_QUERY,
+    AST_TYPE_TYPES.LOOKUP_TYPE,
+    AST_TYPE_TYPES.TYPE_QUERY,
+]
+
+/**
+ * Collects the names of the types a type annotation is made of
+ *
+ * Unions, intersections, arrays, tuples and object types contribute all
+ * their members. Generic types contribute their type arguments only, so
+ * `Promise<User[] | null>` and `Readonly<User>` both come down to `User`.
+ * Qualified names keep their namespace, e.g. `entities.User`.
+ */
+export class AstTypeNameCollector {
+    /**
+     * @returns Distinct type names in order of appearance
+     */
+    public collect(type: Parser.SyntaxNode): string[] {
+        const names = new Set<string>()
+        this.visit(type, names)
+        return [...names]
+    }
+
+    private visit(node: Parser.SyntaxNode, names: Set<string>): void {
+        if (
+            node.type === AST_IDENTIFIER_TYPES.TYPE_IDENTIFIER ||
+            node.type === AST_IDENTIFIER_TYPES.NESTED_TYPE_IDENTIFIER
+        ) {
+            names.add(node.text)
+            return
+        }
+
+        if (OPAQUE_TYPES.includes(node.type)) {
+            return
+        }
+
+        const children =
+            node.type === AST_TYPE_TYPES.GENERIC_TYPE
+                ? (node.childForFieldName(AST_FIELD_NAMES.TYPE_ARGUMENTS)?.namedChildren ?? [])
+                : node.namedChildren
+
+        for (const child of children) {
+            this.visit(child, names)
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { GlobMatcher } from "../../shared/utils/GlobMatcher"
+
+const SCOPE_PREFIX = "@"
+const PATH_SEPARATOR = "/"
+const GLOB_CHARACTERS = /[*?[{]/
+const LOCAL_SPECIFIER = /^[./]/
+
+/**
+ * Framework packages by category, with the categories and packages the
+ * checked layers may still use
+ *
+ * An import belongs to a catalog entry when its specifier or its package
+ * name (`typeorm/browser` belongs to `typeorm`) is listed, or matches a
+ * glob entry like `@opentelemetry/*`. Listed names win over globs, and a
+ * package listed in several categories belongs to the last one.
+ *
+ * @example
+ * ```typescript
+ * const catalog = new FrameworkCatalog(
+ *     { ORM: ["typeorm"], observability: ["@opentelemetry/*"] },
+ *     { domain: [], application: ["observability"] },
+ * )
+ *
+ * catalog.categoryOf("@opentelemetry/api") // "observability"
+ * catalog.isAllowed("application", "@opentelemetry/api", "observability") // true
+ * ```
+ */
+export class FrameworkCatalog {
+    private readonly packages = new Map<string, string>()
+    private readonly globs: { regex: RegExp; category: string }[] = []
+    private readonly allowances: Map<string, Set<string>>
+
+    /**
+     * @param categories - Package names and globs by category
+     * @param layers - Checked layers with the categories and packages they may use
+     */
+    constructor(
+        categories: Record<string, readonly string[]>,
+        layers: Record<string, readonly string[]>,
+    ) {
+        for (const [category, packages] of Object.entries(categories)) {
+            for (const pkg of packages) {
+                if (GLOB_CHARACTERS.test(pkg)) {
+                    this.globs.unshift({ regex: GlobMatcher.toRegExp(pkg), category })
+                } else {
+                    this.packages.set(pkg, category)
+                }
+            }
+        }
+
+        this.allowances = new Map(
+            Object.entries(layers).map(([layer, allowed]) => [layer, new Set(allowed)]),
+        )
+    }
+
+    /**
+     * Category of the package an import specifier refers to, if it is a framework package
+     */
+    public categoryOf(specifier: string): string | undefined {
+        if (LOCAL_SPECIFIER.test(specifier)) {
+            return undefined
+        }
+
+        const candidates = [specifier, this.packageName(specifier)]
+
+        for (const candidate of candidates) {
+            const category = this.packages.get(candidate)
+            if (category) {
+                return category
+            }
+        }
+
+        return this.globs.find((glob) => candidates.some((candidate) => glob.regex.test(candidate)))
+            ?.category
+    }
+
+    public isChecked(layer: string | undefined): layer is string {
+        return layer !== undefined && this.allowances.has(layer)
+    }
+
+    /**
+     * Whether a layer may use a framework package, by its category or its name
+     */
+    public isAllowed(layer: string, specifier: string, category: string): boolean {
+        const allowed = this.allowances.get(layer)
+
+        return (
+            allowed !== undefined &&
+            (allowed.has(category) ||
+                allowed.has(specifier) ||
+                allowed.has(this.packageName(specifier)))
+        )
+    }
+
+    /**
+     * `@scope/name` or `name`, without the subpath of the specifier
+     */
+    private packageName(specifier: string): string {
+        const segments = specifier.split(PATH_SEPARATOR)
+        const length = specifier.startsWith(SCOPE_PREFIX) ? 2 : 1
+        return segments.slice(0, length).join(PATH_SEPARATOR)
+    }
+}
@@ -17,6 +17,11 @@ import {
  * - Infrastructure layer: PascalCase controllers, repositories, services
  */
 export class AstClassNameAnalyzer {
+    /**
+     * @param verbs - Verbs use case names start with
+     */
+    constructor(private readonly verbs: readonly string[] = USE_CASE_VERBS) {}
+
     /**
      * Analyzes a class declaration node
      */
@@ -217,14 +222,14 @@ export class AstClassNameAnalyzer {
      * Checks if class name starts with a common use case verb
      */
     private startsWithCommonVerb(className: string): boolean {
-        return USE_CASE_VERBS.some((verb) => className.startsWith(verb))
+        return this.verbs.some((verb) => className.startsWith(verb))
     }
 
     /**
      * Checks if class name starts with a lowercase verb (camelCase use case)
      */
     private startsWithLowercaseVerb(className: string): boolean {
-        const lowercaseVerbs = USE_CASE_VERBS.map((verb) => verb.toLowerCase())
+        const lowercaseVerbs = this.verbs.map((verb) => verb.toLowerCase())
         return lowercaseVerbs.some((verb) => className.startsWith(verb))
     }
 }
@@ -13,6 +13,14 @@ type NodeAnalyzer = (
     lines: string[],
 ) => NamingViolation | null
 
+interface TraversalContext {
+    readonly lines: string[]
+    readonly layer: string
+    readonly filePath: string
+    readonly handlers: ReadonlyMap<string, NodeAnalyzer>
+    readonly results: NamingViolation[]
+}
+
 /**
  * AST tree traverser for detecting naming convention violations
  *
@@ -33,20 +41,31 @@ export class AstNamingTraverser {
 
     /**
      * Traverses the AST tree and collects naming violations
+     *
+     * @param skippedNodeTypes - Node types whose names are checked elsewhere,
+     * e.g. classes under a configured naming rule
      */
     public traverse(
         tree: Parser.Tree,
         sourceCode: string,
         layer: string,
         filePath: string,
+        skippedNodeTypes: readonly string[] = [],
     ): NamingViolation[] {
-        const results: NamingViolation[] = []
-        const lines = sourceCode.split("\n")
-        const cursor = tree.walk()
+        const handlers = new Map(
+            [...this.nodeHandlers].filter(([type]) => !skippedNodeTypes.includes(type)),
+        )
+        const context: TraversalContext = {
+            lines: sourceCode.split("\n"),
+            layer,
+            filePath,
+            handlers,
+            results: [],
+        }
 
-        this.visit(cursor, lines, layer, filePath, results)
+        this.visit(tree.walk(), context)
 
-        return results
+        return context.results
     }
 
     private buildNodeHandlers(): Map<string, NodeAnalyzer> {
@@ -79,26 +98,20 @@ export class AstNamingTraverser {
     /**
      * Recursively visits AST nodes
      */
-    private visit(
-        cursor: Parser.TreeCursor,
-        lines: string[],
-        layer: string,
-        filePath: string,
-        results: NamingViolation[],
-    ): void {
+    private visit(cursor: Parser.TreeCursor, context: TraversalContext): void {
         const node = cursor.currentNode
-        const handler = this.nodeHandlers.get(node.type)
+        const handler = context.handlers.get(node.type)
 
         if (handler) {
-            const violation = handler(node, layer, filePath, lines)
+            const violation = handler(node, context.layer, context.filePath, context.lines)
             if (violation) {
-                results.push(violation)
+                context.results.push(violation)
             }
         }
 
         if (cursor.gotoFirstChild()) {
             do {
-                this.visit(cursor, lines, layer, filePath, results)
+                this.visit(cursor, context)
             } while (cursor.gotoNextSibling())
             cursor.gotoParent()
         }
@@ -0,0 +1,165 @@
+import * as path from "path"
+import Parser from "tree-sitter"
+import type { NamingRuleSettings } from "../../../domain/value-objects/GuardianConfig"
+import { NamingViolation } from "../../../domain/value-objects/NamingViolation"
+import { AST_CLASS_TYPES, AST_FIELD_NAMES } from "../../../shared/constants"
+import {
+    NAME_STYLES,
+    type NameStyle,
+    NAMING_VIOLATION_TYPES,
+} from "../../../shared/constants/rules"
+import { GlobMatcher } from "../../../shared/utils/GlobMatcher"
+import { NAME_STYLE_PATTERNS, NAMING_ERROR_MESSAGES } from "../../constants/detectorPatterns"
+
+/**
+ * Named style or regex a name is checked against
+ */
+interface NameConvention {
+    /**
+     * Style name or regex source, as written in the config
+     */
+    readonly source: string
+    readonly regex: RegExp
+    readonly isStyle: boolean
+}
+
+interface CompiledRule {
+    readonly key: string
+    readonly glob: RegExp
+    readonly files?: NameConvention
+    readonly classes?: NameConvention
+}
+
+/**
+ * Checks file and class names against the naming rules of the config
+ *
+ * A rule applies to the files of the layer it is named after, and to the
+ * files whose path matches its key as a glob. Names are checked without
+ * their extension against a named style, and as they are against a regex.
+ *
+ * @example
+ * ```typescript
+ * const analyzer = new NamingRuleAnalyzer({ domain: { files: "kebab-case" } })
+ *
+ * analyzer.analyze(tree.rootNode, "UserProfile.ts", "domain", "src/domain/UserProfile.ts")
+ * // [NamingViolation: File names must match kebab-case]
+ * ```
+ */
+export class NamingRuleAnalyzer {
+    private readonly rules: CompiledRule[]
+
+    constructor(rules: Record<string, NamingRuleSettings>) {
+        this.rules = Object.entries(rules).map(([key, settings]) => ({
+            key,
+            glob: GlobMatcher.toRegExp(key),
+            files: settings.files === undefined ? undefined : this.compile(settings.files),
+            classes: settings.classes === undefined ? undefined : this.compile(settings.classes),
+        }))
+    }
+
+    /**
+     * Whether configured rules take over the class names of the file
+     */
+    public checksClasses(filePath: string, layer: string): boolean {
+        return this.rulesFor(filePath, layer).some((rule) => rule.classes !== undefined)
+    }
+
+    public analyze(
+        root: Parser.SyntaxNode,
+        fileName: string,
+        layer: string,
+        filePath: string,
+    ): NamingViolation[] {
+        const violations: NamingViolation[] = []
+
+        for (const rule of this.rulesFor(filePath, layer)) {
+            if (rule.files && !this.matches(rule.files, fileName, true)) {
+                violations.push(
+                    this.createViolation(rule, rule.files, fileName, layer, filePath, true),
+                )
+            }
+
+            if (rule.classes) {
+                violations.push(...this.analyzeClasses(root, rule, layer, filePath))
+            }
+        }
+
+        return violations
+    }
+
+    private analyzeClasses(
+        root: Parser.SyntaxNode,
+        rule: CompiledRule,
+        layer: string,
+        filePath: string,
+    ): NamingViolation[] {
+        const convention = rule.classes
+        if (!convention) {
+            return []
+        }
+
+        return root
+            .descendantsOfType(AST_CLASS_TYPES.CLASS_DECLARATION)
+            .map((node) => node.childForFieldName(AST_FIELD_NAMES.NAME))
+            .filter((name): name is Parser.SyntaxNode => name !== null)
+            .filter((name) => !this.matches(convention, name.text, false))
+            .map((name) =>
+                this.createViolation(
+                    rule,
+                    convention,
+                    name.text,
+                    layer,
+                    `${filePath}:${String(name.startPosition.row + 1)}`,
+                    false,
+                ),
+            )
+    }
+
+    private rulesFor(filePath: string, layer: string): CompiledRule[] {
+        const normalized = GlobMatcher.normalizePath(filePath)
+        return this.rules.filter((rule) => rule.key === layer || rule.glob.test(normalized))
+    }
+
+    private compile(source: string): NameConvention {
+        const styles: readonly string[] = Object.values(NAME_STYLES)
+
+        if (styles.includes(source)) {
+            return { source, regex: NAME_STYLE_PATTERNS[source as NameStyle], isStyle: true }
+        }
+
+        return { source, regex: new RegExp(source), isStyle: false }
+    }
+
+    private matches(convention: NameConvention, name: string, isFileName: boolean): boolean {
+        const checked =
+            isFileName && convention.isStyle ? path.basename(name, path.extname(name)) : name
+        return convention.regex.test(checked)
+    }
+
+    // eslint-disable-next-line max-params
+    private createViolation(
+        rule: CompiledRule,
+        convention: NameConvention,
+        name: string,
+        layer: string,
+        location: string,
+        isFileName: boolean,
+    ): NamingViolation {
+        const expected = convention.isStyle ? convention.source : `/${convention.source}/`
+        const prefix = isFileName
+            ? NAMING_ERROR_MESSAGES.CONFIGURED_FILE_NAME
+            : NAMING_ERROR_MESSAGES.CONFIGURED_CLASS_NAME
+
+        return NamingViolation.create(
+            name,
+            convention.isStyle
+                ? NAMING_VIOLATION_TYPES.WRONG_CASE
+                : NAMING_VIOLATION_TYPES.PATTERN_MISMATCH,
+            layer,
+            location,
+            `${prefix} ${expected}`,
+            name,
+            `${NAMING_ERROR_MESSAGES.CONFIGURED_RULE} "${rule.key}"`,
+        )
+    }
+}
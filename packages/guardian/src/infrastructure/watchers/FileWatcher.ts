@@ -0,0 +1,181 @@
+import { type FSWatcher, watch } from "fs"
+import * as fs from "fs/promises"
+import * as path from "path"
+import type {
+    FileWatchHandle,
+    FileWatchOptions,
+    IFileWatcher,
+} from "../../domain/services/IFileWatcher"
+import { ERROR_MESSAGES } from "../../shared/constants"
+import { DEFAULT_EXCLUDES } from "../constants/defaults"
+import { WATCH_DEBOUNCE_MS } from "../constants/watch"
+
+/**
+ * Watches a directory tree with one `fs.watch` per directory
+ *
+ * Recursive `fs.watch` is not available on Linux before Node 20, so every
+ * directory gets its own watcher. Directories created later are watched as
+ * soon as their parent reports them, removed ones are released. Changes are
+ * collected until none arrived for the debounce period and then reported
+ * as one batch.
+ *
+ * @example
+ * ```typescript
+ * const handle = await new FileWatcher().watch({
+ *     rootDir: "./src",
+ *     onChange: (paths) => console.log(paths), // ["/project/src/domain/Order.ts"]
+ * })
+ *
+ * handle.close()
+ * ```
+ */
+export class FileWatcher implements IFileWatcher {
+    constructor(private readonly debounceMs = WATCH_DEBOUNCE_MS) {}
+
+    public async watch(options: FileWatchOptions): Promise<FileWatchHandle> {
+        const tree = new WatchedTree(options, this.debounceMs)
+
+        try {
+            await tree.open()
+        } catch (error) {
+            tree.close()
+            throw new Error(
+                `${ERROR_MESSAGES.FAILED_TO_WATCH} ${options.rootDir}: ${error instanceof Error ? error.message : String(error)}`,
+            )
+        }
+
+        return {
+            close: (): void => {
+                tree.close()
+            },
+        }
+    }
+}
+
+/**
+ * Watchers and pending changes of one {@link FileWatcher.watch} call
+ */
+class WatchedTree {
+    private readonly directories = new Map<string, FSWatcher>()
+    private readonly fileWatchers: FSWatcher[] = []
+    private readonly pending = new Set<string>()
+    private readonly exclude: readonly string[]
+    private timer?: NodeJS.Timeout
+    private closed = false
+
+    constructor(
+        private readonly options: FileWatchOptions,
+        private readonly debounceMs: number,
+    ) {
+        this.exclude = [
+            ...(options.exclude ?? DEFAULT_EXCLUDES),
+            ...(options.additionalExclude ?? []),
+        ]
+    }
+
+    public async open(): Promise<void> {
+        await this.watchDirectory(path.resolve(this.options.rootDir))
+
+        for (const file of this.options.files ?? []) {
+            this.watchFile(path.resolve(file))
+        }
+    }
+
+    public close(): void {
+        this.closed = true
+        clearTimeout(this.timer)
+        this.pending.clear()
+
+        for (const watcher of [...this.directories.values(), ...this.fileWatchers]) {
+            watcher.close()
+        }
+        this.directories.clear()
+    }
+
+    private async watchDirectory(dir: string): Promise<void> {
+        if (this.closed || this.directories.has(dir)) {
+            return
+        }
+
+        const watcher = watch(dir, (_event, fileName) => {
+            const changed = fileName ? path.join(dir, fileName) : dir
+            this.record(changed)
+            void this.followDirectory(changed)
+        })
+        watcher.on("error", () => {
+            this.releaseDirectory(dir)
+        })
+        this.directories.set(dir, watcher)
+
+        const entries = await fs.readdir(dir, { withFileTypes: true })
+        for (const entry of entries) {
+            if (entry.isDirectory() && !this.isExcluded(entry.name)) {
+                await this.watchDirectory(path.join(dir, entry.name))
+            }
+        }
+    }
+
+    /**
+     * Watches a file through its directory, so editors that save by
+     * replacing the file do not end the watch
+     */
+    private watchFile(file: string): void {
+        const fileName = path.basename(file)
+        const watcher = watch(path.dirname(file), (_event, changed) => {
+            if (changed === fileName) {
+                this.record(file)
+            }
+        })
+        watcher.on("error", () => {
+            watcher.close()
+        })
+        this.fileWatchers.push(watcher)
+    }
+
+    /**
+     * Starts watching a created directory, stops watching a removed one
+     */
+    private async followDirectory(changed: string): Promise<void> {
+        try {
+            const stats = await fs.stat(changed)
+
+            if (stats.isDirectory() && !this.isExcluded(path.basename(changed))) {
+                await this.watchDirectory(changed)
+            }
+        } catch {
+            this.releaseDirectory(changed)
+        }
+    }
+
+    private releaseDirectory(dir: string): void {
+        for (const [watched, watcher] of this.directories) {
+            if (watched === dir || watched.startsWith(dir + path.sep)) {
+                watcher.close()
+                this.directories.delete(watched)
+            }
+        }
+    }
+
+    private record(changed: string): void {
+        if (this.closed) {
+            return
+        }
+
+        this.pending.add(changed)
+        clearTimeout(this.timer)
+        this.timer = setTimeout(() => {
+            this.flush()
+        }, this.debounceMs)
+    }
+
+    private flush(): void {
+        const paths = [...this.pending]
+
+        this.pending.clear()
+        this.options.onChange(paths)
+    }
+
+    private isExcluded(name: string): boolean {
+        return this.exclude.some((pattern) => name.includes(pattern))
+    }
+}
@@ -0,0 +1,99 @@
+import { parentPort } from "worker_threads"
+import type { FileAnalysis, FileAnalysisTask } from "../../application/dtos/AnalysisCache"
+import { FileAnalyzer } from "../../application/services/FileAnalyzer"
+import { SourceFile } from "../../domain/entities/SourceFile"
+import type { GuardianPlugin } from "../../domain/services/ICustomDetector"
+import { GuardianConfig } from "../../domain/value-objects/GuardianConfig"
+import { ProjectPath } from "../../domain/value-objects/ProjectPath"
+import { AggregateBoundaryDetector } from "../analyzers/AggregateBoundaryDetector"
+import { AnemicModelDetector } from "../analyzers/AnemicModelDetector"
+import { EntityExposureDetector } from "../analyzers/EntityExposureDetector"
+import { FrameworkLeakDetector } from "../analyzers/FrameworkLeakDetector"
+import { HardcodeDetector } from "../analyzers/HardcodeDetector"
+import { NamingConventionDetector } from "../analyzers/NamingConventionDetector"
+import { RepositoryPatternDetector } from "../analyzers/RepositoryPatternDetector"
+import { SecretDetector } from "../analyzers/SecretDetector"
+import { CodeParser } from "../parsers/CodeParser"
+import { PluginLoader } from "../plugins/PluginLoader"
+import { CACHE_KEY_SEPARATOR } from "../constants/cache"
+import type { WorkerReply } from "./WorkerThreadPool"
+
+/**
+ * Analyzes files sent by an `AnalysisWorkerPool` inside a worker thread
+ *
+ * This module is the worker script: loaded in a worker, it answers every
+ * task message with the file analysis.
+ */
+export class AnalysisWorker {
+    private readonly analyzer = new FileAnalyzer(
+        new CodeParser(),
+        new HardcodeDetector(),
+        new NamingConventionDetector(),
+        new FrameworkLeakDetector(),
+        new EntityExposureDetector(),
+        new RepositoryPatternDetector(),
+        new AggregateBoundaryDetector(),
+        new SecretDetector(),
+        new AnemicModelDetector(),
+    )
+    private readonly configs = new Map<string, GuardianConfig>()
+    private readonly pluginLoader = new PluginLoader()
+    private readonly plugins = new Map<string, Promise<GuardianPlugin[]>>()
+
+    public async analyze(task: FileAnalysisTask): Promise<FileAnalysis> {
+        const config = this.getConfig(task)
+        const sourceFile = new SourceFile(
+            ProjectPath.create(task.absolutePath, task.rootDir),
+            task.content,
+            [],
+            task.exports,
+        )
+        sourceFile.applyLayerModel(config.layerModel)
+
+        return this.analyzer.analyze(sourceFile, config, await this.getPlugins(task))
+    }
+
+    /**
+     * Plugins are loaded once per worker, on the first task that needs them
+     */
+    private async getPlugins(task: FileAnalysisTask): Promise<GuardianPlugin[]> {
+        const key = task.plugins.join(CACHE_KEY_SEPARATOR)
+        const plugins =
+            this.plugins.get(key) ??
+            Promise.all(
+                task.plugins.map(async (modulePath) => {
+                    const loaded = await this.pluginLoader.loadModule(modulePath)
+                    return loaded.plugin
+                }),
+            )
+
+        this.plugins.set(key, plugins)
+        return plugins
+    }
+
+    private getConfig(task: FileAnalysisTask): GuardianConfig {
+        const key = JSON.stringify(task.settings)
+        const config = this.configs.get(key) ?? GuardianConfig.create(task.settings)
+
+        this.configs.set(key, config)
+        return config
+    }
+}
+
+if (parentPort) {
+    const port = parentPort
+    const worker = new AnalysisWorker()
+
+    port.on("message", (task: FileAnalysisTask) => {
+        worker.analyze(task).then(
+            (result) => {
+                port.postMessage({ result } satisfies WorkerReply<FileAnalysis>)
+            },
+            (error: unknown) => {
+                port.postMessage({
+                    error: error instanceof Error ? error.message : String(error),
+                } satisfies WorkerReply<FileAnalysis>)
+            },
+        )
+    })
+}
@@ -0,0 +1,16 @@
+import * as path from "path"
+import type { FileAnalysis, FileAnalysisTask } from "../../application/dtos/AnalysisCache"
+import { ANALYSIS_WORKER_FILE_NAME } from "../constants/workers"
+import { WorkerThreadPool } from "./WorkerThreadPool"
+
+/**
+ * Pool of worker threads running `AnalysisWorker`
+ *
+ * The worker script is loaded from the directory of this file, so the pool
+ * needs the compiled build (or a TypeScript loader such as tsx).
+ */
+export class AnalysisWorkerPool extends WorkerThreadPool<FileAnalysisTask, FileAnalysis> {
+    constructor(size: number) {
+        super(path.join(__dirname, `${ANALYSIS_WORKER_FILE_NAME}${path.extname(__filename)}`), size)
+    }
+}
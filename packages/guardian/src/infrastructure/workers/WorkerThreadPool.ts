@@ -0,0 +1,104 @@
+import { Worker } from "worker_threads"
+import { IWorkerPool } from "../../domain/services/IWorkerPool"
+import { WORKER_ERRORS } from "../constants/workers"
+
+/**
+ * Reply of a worker to one task
+ */
+export interface WorkerReply<TResult> {
+    result?: TResult
+    error?: string
+}
+
+/**
+ * Runs tasks in `worker_threads`
+ *
+ * The script receives one task per message and answers each with a
+ * {@link WorkerReply}. Workers are started on the first run and reused
+ * until the pool is closed; a failing task stops all of them.
+ *
+ * @example
+ * ```typescript
+ * const pool = new WorkerThreadPool<number, number>("./square-worker.js", 4)
+ *
+ * console.log(await pool.run([1, 2, 3])) // [1, 4, 9]
+ * await pool.close()
+ * ```
+ */
+export class WorkerThreadPool<TTask, TResult> implements IWorkerPool<TTask, TResult> {
+    private workers: Worker[] = []
+
+    constructor(
+        private readonly scriptPath: string,
+        public readonly size: number,
+    ) {}
+
+    public async run(tasks: readonly TTask[]): Promise<TResult[]> {
+        const results: TResult[] = []
+        let next = 0
+
+        const drain = async (worker: Worker): Promise<void> => {
+            while (next < tasks.length) {
+                const index = next++
+                results[index] = await this.send(worker, tasks[index])
+            }
+        }
+
+        try {
+            const workerCount = Math.min(this.size, tasks.length)
+            await Promise.all(
+                Array.from({ length: workerCount }, async (_, index) =>
+                    drain(this.getWorker(index)),
+                ),
+            )
+        } catch (error) {
+            await this.close()
+            throw error
+        }
+
+        return results
+    }
+
+    public async close(): Promise<void> {
+        const workers = this.workers
+        this.workers = []
+
+        await Promise.all(workers.map(async (worker) => worker.terminate()))
+    }
+
+    private getWorker(index: number): Worker {
+        this.workers[index] ??= new Worker(this.scriptPath)
+        return this.workers[index]
+    }
+
+    private async send(worker: Worker, task: TTask): Promise<TResult> {
+        return new Promise((resolve, reject) => {
+            const onMessage = (reply: WorkerReply<TResult>): void => {
+                cleanup()
+                if (reply.error === undefined) {
+                    resolve(reply.result as TResult)
+                } else {
+                    reject(new Error(reply.error))
+                }
+            }
+            const onError = (error: Error): void => {
+                cleanup()
+                reject(error)
+            }
+            const onExit = (code: number): void => {
+                cleanup()
+                reject(new Error(`${WORKER_ERRORS.EXITED} ${String(code)}`))
+            }
+            const cleanup = (): void => {
+                worker.off("message", onMessage)
+                worker.off("error", onError)
+                worker.off("exit", onExit)
+            }
+
+            worker.on("message", onMessage)
+            worker.on("error", onError)
+            worker.on("exit", onExit)
+            worker.postMessage(task)
+        })
+    }
+}
@@ -12,7 +12,12 @@
  */
 export const AST_CLASS_TYPES = {
     CLASS_DECLARATION: "class_declaration",
+    ABSTRACT_CLASS_DECLARATION: "abstract_class_declaration",
     INTERFACE_DECLARATION: "interface_declaration",
+    ENUM_DECLARATION: "enum_declaration",
+    CLASS_HERITAGE: "class_heritage",
+    EXTENDS_CLAUSE: "extends_clause",
+    DECORATOR: "decorator",
 } as const
 
 /**
@@ -21,7 +26,9 @@ export const AST_CLASS_TYPES = {
 export const AST_FUNCTION_TYPES = {
     FUNCTION_DECLARATION: "function_declaration",
     METHOD_DEFINITION: "method_definition",
+    ARROW_FUNCTION: "arrow_function",
     FUNCTION_SIGNATURE: "function_signature",
+    FUNCTION_EXPRESSION: "function_expression",
 } as const
 
 /**
@@ -43,6 +50,10 @@ export const AST_TYPE_TYPES = {
     UNION_TYPE: "union_type",
     LITERAL_TYPE: "literal_type",
     TYPE_ANNOTATION: "type_annotation",
+    GENERIC_TYPE: "generic_type",
+    INDEX_TYPE_QUERY: "index_type_query",
+    LOOKUP_TYPE: "lookup_type",
+    TYPE_QUERY: "type_query",
 } as const
 
 /**
@@ -52,6 +63,27 @@ export const AST_STATEMENT_TYPES = {
     EXPORT_STATEMENT: "export_statement",
     IMPORT_STATEMENT: "import_statement",
     LEXICAL_DECLARATION: "lexical_declaration",
+    VARIABLE_DECLARATION: "variable_declaration",
+    AMBIENT_DECLARATION: "ambient_declaration",
+    EXPRESSION_STATEMENT: "expression_statement",
+    RETURN_STATEMENT: "return_statement",
+    STATEMENT_BLOCK: "statement_block",
+} as const
+
+/**
+ * Import clause node types
+ */
+export const AST_IMPORT_TYPES = {
+    IMPORT_CLAUSE: "import_clause",
+    NAMED_IMPORTS: "named_imports",
+    NAMESPACE_IMPORT: "namespace_import",
+    IMPORT_SPECIFIER: "import_specifier",
+    EXPORT_CLAUSE: "export_clause",
+    EXPORT_SPECIFIER: "export_specifier",
+    NAMESPACE_EXPORT: "namespace_export",
+    IMPORT_REQUIRE_CLAUSE: "import_require_clause",
+    TYPE_KEYWORD: "type",
+    DEFAULT_KEYWORD: "default",
 } as const
 
 /**
@@ -59,7 +91,18 @@ export const AST_STATEMENT_TYPES = {
  */
 export const AST_EXPRESSION_TYPES = {
     CALL_EXPRESSION: "call_expression",
+    MEMBER_EXPRESSION: "member_expression",
     AS_EXPRESSION: "as_expression",
+    SATISFIES_EXPRESSION: "satisfies_expression",
+    AWAIT_EXPRESSION: "await_expression",
+    PARENTHESIZED_EXPRESSION: "parenthesized_expression",
+    NON_NULL_EXPRESSION: "non_null_expression",
+    NEW_EXPRESSION: "new_expression",
+    TERNARY_EXPRESSION: "ternary_expression",
+    OBJECT: "object",
+    ARRAY: "array",
+    PAIR: "pair",
+    SPREAD_ELEMENT: "spread_element",
 } as const
 
 /**
@@ -84,6 +127,9 @@ export const AST_MODIFIER_TYPES = {
     READONLY: "readonly",
     STATIC: "static",
     CONST: "const",
+    ACCESSIBILITY_MODIFIER: "accessibility_modifier",
+    GET: "get",
+    SET: "set",
 } as const
 
 /**
@@ -92,8 +138,11 @@ export const AST_MODIFIER_TYPES = {
 export const AST_IDENTIFIER_TYPES = {
     IDENTIFIER: "identifier",
     TYPE_IDENTIFIER: "type_identifier",
+    NESTED_TYPE_IDENTIFIER: "nested_type_identifier",
     PROPERTY_IDENTIFIER: "property_identifier",
     IMPORT: "import",
+    SHORTHAND_PROPERTY_IDENTIFIER: "shorthand_property_identifier",
+    SHORTHAND_PROPERTY_IDENTIFIER_PATTERN: "shorthand_property_identifier_pattern",
 } as const
 
 /**
@@ -104,15 +153,48 @@ export const AST_FIELD_NAMES = {
     DECLARATION: "declaration",
     VALUE: "value",
     FUNCTION: "function",
+    SOURCE: "source",
+    PROPERTY: "property",
+    PATTERN: "pattern",
+    ARGUMENTS: "arguments",
+    BODY: "body",
+    PARAMETERS: "parameters",
+    RETURN_TYPE: "return_type",
+    TYPE_ARGUMENTS: "type_arguments",
+    KEY: "key",
+    ALIAS: "alias",
+    TYPE: "type",
+    CONSTRUCTOR: "constructor",
+    CONSEQUENCE: "consequence",
+    ALTERNATIVE: "alternative",
 } as const
 
 /**
  * String fragment node type
  */
 export const AST_STRING_TYPES = {
+    STRING: "string",
     STRING_FRAGMENT: "string_fragment",
 } as const
 
+/**
+ * Literal node types besides strings
+ */
+export const AST_LITERAL_TYPES = {
+    NUMBER: "number",
+    TRUE: "true",
+    FALSE: "false",
+} as const
+
+/**
+ * Nodes that give a literal a special role
+ */
+export const AST_CONTAINER_TYPES = {
+    ENUM_BODY: "enum_body",
+    ARGUMENTS: "arguments",
+    JSX_ATTRIBUTE: "jsx_attribute",
+} as const
+
 /**
  * Common JavaScript timer functions
  */
@@ -12,6 +12,23 @@ export const ERROR_MESSAGES = {
     FAILED_TO_ANALYZE: "Failed to analyze project",
     FAILED_TO_SCAN_DIR: "Failed to scan directory",
     FAILED_TO_READ_FILE: "Failed to read file",
+    FAILED_TO_LOAD_CONFIG: "Failed to load config file",
+    INVALID_CONFIG: "Invalid guardian config",
+    FAILED_TO_LOAD_BASELINE: "Failed to load baseline file",
+    INVALID_BASELINE: "Invalid guardian baseline",
+    FAILED_TO_DETECT_CHANGES: "Failed to read git changes",
+    UNKNOWN_GIT_REF: "Unknown git ref",
+    FAILED_TO_WRITE_CACHE: "Failed to write analysis cache",
+    INVALID_JOBS: "jobs must be a positive integer",
+    FAILED_TO_FIX: "Failed to fix hardcoded values",
+    FAILED_TO_FIX_IMPORTS: "Failed to fix imports",
+    FAILED_TO_LOAD_PLUGIN: "Failed to load plugin",
+    PLUGIN_RULE_FAILED: "Plugin rule failed",
+    INVALID_PLUGIN_FINDINGS: "detect() must return an array of findings with a message",
+    FAILED_TO_WATCH: "Failed to watch directory",
+    FAILED_TO_REANALYZE: "Failed to re-analyze changed files",
+    GRAPH_FILE_NOT_FOUND: "File is not part of the dependency graph",
+    GRAPH_ROOT_EMPTY: "No analyzed files under",
     ENTITY_NOT_FOUND: "Entity with id {id} not found",
 } as const
 
@@ -35,6 +52,11 @@ export const FILE_EXTENSIONS = {
     JAVASCRIPT_JSX: ".jsx",
 } as const
 
+/**
+ * Hash of file contents in the analysis cache and plugin fingerprints
+ */
+export const CONTENT_HASH_ALGORITHM = "sha256"
+
 /**
  * TypeScript primitive type names
  */
@@ -64,11 +86,30 @@ export const EXAMPLE_CODE_CONSTANTS = {
     CANNOT_APPROVE_ERROR: "Cannot approve",
 } as const
 
+/**
+ * Special names in import bindings and re-exports
+ */
+export const SYMBOL_NAMES = {
+    DEFAULT_EXPORT: "default",
+    ALL_EXPORTS: "*",
+} as const
+
+/**
+ * Ways a file imports another module
+ */
+export const IMPORT_KINDS = {
+    IMPORT: "import",
+    REQUIRE: "require",
+    DYNAMIC_IMPORT: "dynamic-import",
+    RE_EXPORT: "re-export",
+} as const
+
+export type ImportKind = (typeof IMPORT_KINDS)[keyof typeof IMPORT_KINDS]
+
 /**
  * Common regex patterns
  */
 export const REGEX_PATTERNS = {
-    IMPORT_STATEMENT: /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g,
     EXPORT_STATEMENT: /export\s+(?:class|function|const|let|var)\s+(\w+)/g,
 } as const
 
@@ -101,6 +142,16 @@ export const SEVERITY_ORDER: Record<SeverityLevel, number> = {
     [SEVERITY_LEVELS.LOW]: 3,
 } as const
 
+/**
+ * Why a quality gate failed
+ */
+export const GATE_FAILURE_KINDS = {
+    SEVERITY: "severity",
+    THRESHOLD: "threshold",
+} as const
+
+export type GateFailureKind = (typeof GATE_FAILURE_KINDS)[keyof typeof GATE_FAILURE_KINDS]
+
 /**
  * Violation type to severity mapping
  */
@@ -116,6 +167,12 @@ export const VIOLATION_SEVERITY_MAP = {
     NAMING_CONVENTION: SEVERITY_LEVELS.MEDIUM,
     ARCHITECTURE: SEVERITY_LEVELS.MEDIUM,
     HARDCODE: SEVERITY_LEVELS.LOW,
+    SUPPRESSION_COMMENT: SEVERITY_LEVELS.LOW,
+    PLUGIN_RULE: SEVERITY_LEVELS.MEDIUM,
+    PACKAGE_METRICS: SEVERITY_LEVELS.MEDIUM,
+    BOUNDED_CONTEXT: SEVERITY_LEVELS.HIGH,
+    PUBLIC_MODULE: SEVERITY_LEVELS.MEDIUM,
+    DEAD_CODE: SEVERITY_LEVELS.LOW,
 } as const
 
 export * from "./rules"
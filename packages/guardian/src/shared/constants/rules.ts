@@ -13,8 +13,30 @@ export const RULES = {
     AGGREGATE_BOUNDARY: "aggregate-boundary",
     SECRET_EXPOSURE: "secret-exposure",
     ANEMIC_MODEL: "anemic-model",
+    SUPPRESSION_COMMENT: "suppression-comment",
+    PACKAGE_METRICS: "package-metrics",
+    BOUNDED_CONTEXT: "bounded-context",
+    PUBLIC_MODULE: "public-module",
+    DEAD_CODE: "dead-code",
 } as const
 
+export type RuleName = (typeof RULES)[keyof typeof RULES]
+
+/**
+ * Separates the plugin name from the detector name in a plugin rule
+ */
+export const PLUGIN_RULE_SEPARATOR = "/"
+
+/**
+ * Rule provided by a plugin, e.g. "house-rules/no-date-now"
+ */
+export type PluginRuleName = `${string}${typeof PLUGIN_RULE_SEPARATOR}${string}`
+
+/**
+ * Rule setting that disables a rule in the config file
+ */
+export const RULE_SETTING_OFF = "off"
+
 /**
  * Hardcode types
  */
@@ -25,6 +47,44 @@ export const HARDCODE_TYPES = {
     MAGIC_CONFIG: "magic-config",
 } as const
 
+/**
+ * What a package is for the package metrics: a directory or a layer
+ */
+export const PACKAGE_METRIC_LEVELS = {
+    FOLDER: "folder",
+    LAYER: "layer",
+} as const
+
+export type PackageMetricLevel = (typeof PACKAGE_METRIC_LEVELS)[keyof typeof PACKAGE_METRIC_LEVELS]
+
+/**
+ * Package metrics that thresholds can be set for
+ */
+export const PACKAGE_METRICS = {
+    INSTABILITY: "instability",
+    ABSTRACTNESS: "abstractness",
+    DISTANCE: "distance",
+} as const
+
+export type PackageMetricName = (typeof PACKAGE_METRICS)[keyof typeof PACKAGE_METRICS]
+
+/**
+ * Modules of a bounded context other contexts may import, relative to the
+ * context directory
+ */
+export const DEFAULT_CONTEXT_PUBLIC_API: readonly string[] = ["index.{ts,tsx,js,jsx}"]
+
+/**
+ * Files used without being imported, entry points besides the configured
+ * ones: tests, type declarations and tool configs
+ */
+export const BUILT_IN_ENTRY_POINTS: readonly string[] = [
+    "**/*.{test,spec}.{ts,tsx,js,jsx}",
+    "**/__tests__/**",
+    "**/*.d.ts",
+    "**/*.config.{ts,js,mjs,cjs}",
+]
+
 /**
  * Layer names
  */
@@ -35,6 +95,35 @@ export const LAYERS = {
     SHARED: "shared",
 } as const
 
+/**
+ * Built-in Clean Architecture layer model
+ *
+ * Layers are matched in order against project-relative paths;
+ * the first layer with a matching pattern wins.
+ */
+export const DEFAULT_LAYER_DEFINITIONS = [
+    {
+        name: LAYERS.DOMAIN,
+        patterns: ["**/domain/**"],
+        mayDependOn: [LAYERS.SHARED],
+    },
+    {
+        name: LAYERS.APPLICATION,
+        patterns: ["**/application/**"],
+        mayDependOn: [LAYERS.DOMAIN, LAYERS.SHARED],
+    },
+    {
+        name: LAYERS.INFRASTRUCTURE,
+        patterns: ["**/infrastructure/**"],
+        mayDependOn: [LAYERS.DOMAIN, LAYERS.APPLICATION, LAYERS.SHARED],
+    },
+    {
+        name: LAYERS.SHARED,
+        patterns: ["**/shared/**"],
+        mayDependOn: [],
+    },
+] as const
+
 /**
  * Naming convention violation types
  */
@@ -44,8 +133,52 @@ export const NAMING_VIOLATION_TYPES = {
     WRONG_CASE: "wrong-case",
     FORBIDDEN_PATTERN: "forbidden-pattern",
     WRONG_VERB_NOUN: "wrong-verb-noun",
+    PATTERN_MISMATCH: "pattern-mismatch",
 } as const
 
+/**
+ * Inline suppression comment kinds (`// guardian-disable-next-line <rules> -- <reason>`)
+ */
+export const SUPPRESSION_KINDS = {
+    NEXT_LINE: "disable-next-line",
+    LINE: "disable-line",
+    FILE: "disable",
+} as const
+
+/**
+ * Prefix of inline suppression comments
+ */
+export const SUPPRESSION_PREFIX = "guardian-"
+
+/**
+ * Comment marking an index file as the only entry point of its folder
+ * (`// guardian-public-module`)
+ */
+export const PUBLIC_MODULE_MARKER = "guardian-public-module"
+
+/**
+ * Separates the suppressed rules from the reason in a suppression comment
+ */
+export const SUPPRESSION_REASON_SEPARATOR = "--"
+
+/**
+ * Suppression comment violation types
+ */
+export const SUPPRESSION_VIOLATION_TYPES = {
+    UNUSED: "unused",
+    MISSING_REASON: "missing-reason",
+} as const
+
+/**
+ * Dead code violation types
+ */
+export const DEAD_CODE_TYPES = {
+    UNUSED_EXPORT: "unused-export",
+    ORPHAN_FILE: "orphan-file",
+} as const
+
+export type DeadCodeType = (typeof DEAD_CODE_TYPES)[keyof typeof DEAD_CODE_TYPES]
+
 /**
  * Naming patterns for each layer
  */
@@ -101,6 +234,31 @@ export const NAMING_PATTERNS = {
     },
 } as const
 
+/**
+ * Built-in naming conventions a project starts from: the Clean Architecture
+ * conventions of each layer, or none so that only configured rules apply
+ */
+export const NAMING_PRESETS = {
+    DEFAULT: "default",
+    NONE: "none",
+} as const
+
+export type NamingPreset = (typeof NAMING_PRESETS)[keyof typeof NAMING_PRESETS]
+
+/**
+ * Named styles a configured naming rule can use instead of a regex.
+ * File names are checked without their extension.
+ */
+export const NAME_STYLES = {
+    PASCAL_CASE: "PascalCase",
+    CAMEL_CASE: "camelCase",
+    KEBAB_CASE: "kebab-case",
+    SNAKE_CASE: "snake_case",
+    DOT_SUFFIX: "dot-suffix",
+} as const
+
+export type NameStyle = (typeof NAME_STYLES)[keyof typeof NAME_STYLES]
+
 /**
  * Common verbs for use cases
  */
@@ -402,12 +560,27 @@ export const FRAMEWORK_PACKAGES = {
  * Error messages for framework leak violations
  */
 export const FRAMEWORK_LEAK_MESSAGES = {
-    DOMAIN_IMPORT:
-        'Domain layer imports framework-specific package "{package}". Use interfaces and dependency injection instead.',
+    IMPORT: '{layer} layer imports framework-specific package "{package}". Use interfaces and dependency injection instead.',
+    DECORATOR:
+        '{layer} layer uses decorator "@{symbol}" of framework-specific package "{package}". Map the model in infrastructure layer instead.',
+    BASE_CLASS:
+        '{layer} layer extends "{symbol}" of framework-specific package "{package}". Keep the class free of framework base classes.',
     SUGGESTION: "Create an interface in domain layer and implement it in infrastructure layer.",
     PACKAGE_PLACEHOLDER: "{package}",
+    LAYER_PLACEHOLDER: "{layer}",
+    SYMBOL_PLACEHOLDER: "{symbol}",
+} as const
+
+/**
+ * How a file uses a framework beyond importing it
+ */
+export const FRAMEWORK_USAGE_KINDS = {
+    DECORATOR: "decorator",
+    BASE_CLASS: "base-class",
 } as const
 
+export type FrameworkUsageKind = (typeof FRAMEWORK_USAGE_KINDS)[keyof typeof FRAMEWORK_USAGE_KINDS]
+
 /**
  * Repository pattern violation types
  */
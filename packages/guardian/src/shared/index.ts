@@ -1,4 +1,5 @@
 export * from "./types/Result"
 export * from "./errors/BaseError"
 export * from "./utils/Guards"
+export * from "./utils/GlobMatcher"
 export * from "./constants"
@@ -0,0 +1,106 @@
+const REGEX_SPECIAL_CHARS = /[.+^$()|\\]/
+const GLOBSTAR_DIRS = "**/"
+const TRAILING_GLOBSTAR = "/**"
+
+/**
+ * Matches project-relative paths against glob patterns
+ *
+ * Supported syntax:
+ * - `*` - any characters except `/`
+ * - `**` - any characters including `/` (`**\/` also matches zero directories)
+ * - `?` - a single character except `/`
+ * - `[abc]`, `[!abc]` - character classes
+ * - `{a,b}` - alternatives
+ *
+ * @example
+ * ```typescript
+ * const matcher = new GlobMatcher(["**\/domain/**", "src/core/*.ts"])
+ *
+ * matcher.matches("src/domain/entities/User.ts") // true
+ * matcher.matches("src/shared-ui/Button.ts") // false
+ * ```
+ */
+export class GlobMatcher {
+    private readonly regexes: RegExp[]
+
+    constructor(
+        public readonly patterns: readonly string[],
+        caseInsensitive = false,
+    ) {
+        this.regexes = patterns.map((pattern) => GlobMatcher.toRegExp(pattern, caseInsensitive))
+    }
+
+    public matches(filePath: string): boolean {
+        const normalized = GlobMatcher.normalizePath(filePath)
+        return this.regexes.some((regex) => regex.test(normalized))
+    }
+
+    /**
+     * Converts path separators to `/` and drops a leading `./`
+     */
+    public static normalizePath(filePath: string): string {
+        return filePath.replace(/\\/g, "/").replace(/^\.\//, "")
+    }
+
+    public static toRegExp(pattern: string, caseInsensitive = false): RegExp {
+        const glob = GlobMatcher.normalizePath(pattern)
+        let source = ""
+        let inGroup = false
+        let i = 0
+
+        while (i < glob.length) {
+            const char = glob[i]
+
+            if (
+                glob.startsWith(TRAILING_GLOBSTAR, i) &&
+                i + TRAILING_GLOBSTAR.length === glob.length
+            ) {
+                source += "(?:/.*)?"
+                i += TRAILING_GLOBSTAR.length
+            } else if (glob.startsWith(GLOBSTAR_DIRS, i) && (i === 0 || glob[i - 1] === "/")) {
+                source += "(?:.*/)?"
+                i += GLOBSTAR_DIRS.length
+            } else if (glob.startsWith("**", i)) {
+                source += ".*"
+                i += 2
+            } else if (char === "[") {
+                const end = glob.indexOf("]", i + 1)
+                if (end === -1) {
+                    source += "\\["
+                    i++
+                } else {
+                    const body = glob.slice(i + 1, end).replace(/^!/, "^")
+                    source += `[${body}]`
+                    i = end + 1
+                }
+            } else {
+                source += GlobMatcher.translateChar(char, inGroup)
+                if (char === "{") {
+                    inGroup = true
+                } else if (char === "}" && inGroup) {
+                    inGroup = false
+                }
+                i++
+            }
+        }
+
+        return new RegExp(`^${source}$`, caseInsensitive ? "i" : "")
+    }
+
+    private static translateChar(char: string, inGroup: boolean): string {
+        switch (char) {
+            case "*":
+                return "[^/]*"
+            case "?":
+                return "[^/]"
+            case "{":
+                return "(?:"
+            case "}":
+                return inGroup ? ")" : "\\}"
+            case ",":
+                return inGroup ? "|" : ","
+            default:
+                return REGEX_SPECIAL_CHARS.test(char) ? `\\${char}` : char
+        }
+    }
+}
@@ -330,6 +330,38 @@ class Item {
             expect(violations[1].className).toBe("Item")
         })
 
+        it("should count constructor parameter properties", () => {
+            const code = `
+export class Address {
+    constructor(
+        private readonly street: string,
+        private readonly city: string,
+    ) {}
+
+    public getStreet(): string {
+        if (this.street) {
+            return this.street
+        }
+        return ""
+    }
+
+    public getCity(): string {
+        return this.city
+    }
+}
+`
+            const violations = detector.detectAnemicModels(
+                code,
+                "src/domain/entities/Address.ts",
+                "domain",
+            )
+
+            expect(violations).toHaveLength(1)
+            expect(violations[0].propertyCount).toBe(2)
+            expect(violations[0].methodCount).toBe(2)
+            expect(violations[0].hasOnlyGettersSetters).toBe(true)
+        })
+
         it("should provide correct violation details", () => {
             const code = `
 class Payment {
@@ -100,10 +100,10 @@ describe("DependencyDirectionDetector", () => {
             expect(detector.isViolation(LAYERS.INFRASTRUCTURE, LAYERS.SHARED)).toBe(false)
         })
 
-        it("should allow shared to import from any layer", () => {
-            expect(detector.isViolation(LAYERS.SHARED, LAYERS.DOMAIN)).toBe(false)
-            expect(detector.isViolation(LAYERS.SHARED, LAYERS.APPLICATION)).toBe(false)
-            expect(detector.isViolation(LAYERS.SHARED, LAYERS.INFRASTRUCTURE)).toBe(false)
+        it("should only allow shared to import from shared", () => {
+            expect(detector.isViolation(LAYERS.SHARED, LAYERS.DOMAIN)).toBe(true)
+            expect(detector.isViolation(LAYERS.SHARED, LAYERS.APPLICATION)).toBe(true)
+            expect(detector.isViolation(LAYERS.SHARED, LAYERS.INFRASTRUCTURE)).toBe(true)
             expect(detector.isViolation(LAYERS.SHARED, LAYERS.SHARED)).toBe(false)
         })
     })
@@ -384,10 +384,24 @@ export class User {
 
                 expect(violations).toHaveLength(1)
             })
+
+            it("should ignore imports in comments and strings", () => {
+                const code = `
+// import { UserDto } from '../../application/dtos/UserDto'
+const example = "import { Db } from '../../infrastructure/db'"
+`
+                const violations = detector.detectViolations(
+                    code,
+                    "src/domain/entities/User.ts",
+                    LAYERS.DOMAIN,
+                )
+
+                expect(violations).toHaveLength(0)
+            })
         })
 
         describe("Edge cases", () => {
-            it("should return empty array for shared layer", () => {
+            it("should detect shared importing from other layers", () => {
                 const code = `
 import { User } from '../../domain/entities/User'
 import { CreateUser } from '../../application/use-cases/CreateUser'
@@ -398,7 +412,10 @@ import { CreateUser } from '../../application/use-cases/CreateUser'
                     LAYERS.SHARED,
                 )
 
-                expect(violations).toHaveLength(0)
+                expect(violations.map((v) => v.toLayer)).toEqual([
+                    LAYERS.DOMAIN,
+                    LAYERS.APPLICATION,
+                ])
             })
 
             it("should return empty array for undefined layer", () => {
@@ -508,4 +525,21 @@ import { CreateUser } from '../../application/use-cases/CreateUser'
             })
         })
     })
+
+    describe("detectImportViolations", () => {
+        it("should check imports that were already extracted", () => {
+            const violations = detector.detectImportViolations(
+                [
+                    { specifier: "../../shared/types/Result", line: 1 },
+                    { specifier: "../../infrastructure/db/Client", line: 4 },
+                ],
+                "src/domain/entities/User.ts",
+                LAYERS.DOMAIN,
+            )
+
+            expect(violations).toHaveLength(1)
+            expect(violations[0].importPath).toBe("../../infrastructure/db/Client")
+            expect(violations[0].line).toBe(4)
+        })
+    })
 })
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest"
 import { EntityExposureDetector } from "../src/infrastructure/analyzers/EntityExposureDetector"
+import type { DeclaredType } from "../src/domain/entities/SymbolTable"
 
 describe("EntityExposureDetector", () => {
     let detector: EntityExposureDetector
@@ -182,6 +183,34 @@ class UserController {
             expect(exposures).toHaveLength(0)
         })
 
+        it("should detect exposures in multi-line signatures and arrow functions", () => {
+            const code = `
+class OrderController {
+    async listOrders(
+        customerId: string,
+        page: number,
+    ): Promise<Order[] | null> {
+        return this.service.list(customerId, page)
+    }
+
+    findUser = async (id: string): Promise<User> => this.service.findById(id)
+}
+`
+            const exposures = detector.detectExposures(
+                code,
+                "src/infrastructure/controllers/OrderController.ts",
+                "infrastructure",
+            )
+
+            expect(exposures).toHaveLength(2)
+            expect(exposures[0].entityName).toBe("Order")
+            expect(exposures[0].returnType).toBe("Order[] | null")
+            expect(exposures[0].methodName).toBe("listOrders")
+            expect(exposures[0].line).toBe(3)
+            expect(exposures[1].entityName).toBe("User")
+            expect(exposures[1].methodName).toBe("findUser")
+        })
+
         it("should handle undefined layer", () => {
             const code = `
 class UserController {
@@ -200,6 +229,115 @@ class UserController {
         })
     })
 
+    describe("findReturnedTypes", () => {
+        const CONTROLLER = "src/infrastructure/controllers/OrderController.ts"
+
+        it("should infer returned types from the returned expressions", () => {
+            const code = `
+class OrderController {
+    create(input: CreateOrderInput) {
+        const order = new Order(input)
+        return order
+    }
+
+    async details(id: string) {
+        const customer: Customer = await this.customers.find(id)
+        const order = await this.orders.find(id)
+        return { order: order as Order, customer, ...this.links(id) }
+    }
+
+    summary(order: Order) {
+        const format = () => new OrderSummary()
+        return [format(), order]
+    }
+
+    list = () => this.orders.all()
+}
+`
+            const returned = detector.findReturnedTypes(code, CONTROLLER, "infrastructure")
+
+            expect(returned).toEqual([
+                { methodName: "create", line: 3, returnType: "Order", typeNames: ["Order"] },
+                {
+                    methodName: "details",
+                    line: 8,
+                    returnType: "Order | Customer",
+                    typeNames: ["Order", "Customer"],
+                },
+                { methodName: "summary", line: 14, returnType: "Order", typeNames: ["Order"] },
+                {
+                    methodName: "format",
+                    line: 15,
+                    returnType: "OrderSummary",
+                    typeNames: ["OrderSummary"],
+                },
+            ])
+        })
+
+        it("should take every type of a declared return type", () => {
+            const code = `
+class OrderController {
+    async find(
+        id: string,
+    ): Promise<Readonly<Order> | { customer: Customer; total: number } | null> {
+        return this.orders.find(id)
+    }
+}
+`
+            const [returned] = detector.findReturnedTypes(code, CONTROLLER, "infrastructure")
+
+            expect(returned.line).toBe(3)
+            expect(returned.typeNames).toEqual(["Order", "Customer"])
+        })
+    })
+
+    describe("resolveExposures", () => {
+        const declarations: Record<string, DeclaredType[]> = {
+            Order: [{ name: "Order", file: "domain/aggregates/order/Order.ts", line: 1 }],
+            OrderView: [
+                { name: "Order", file: "domain/aggregates/order/Order.ts", line: 1 },
+                { name: "Customer", file: "domain/entities/Customer.ts", line: 1 },
+            ],
+            Money: [{ name: "Money", file: "domain/value-objects/Money.ts", line: 1 }],
+            Entities: [{ name: "Entities", file: "infrastructure/entities/Entities.ts", line: 1 }],
+        }
+        const resolveType = (name: string): DeclaredType[] => declarations[name] ?? []
+
+        it("should only report types declared in domain entity or aggregate folders", () => {
+            const exposures = detector.resolveExposures(
+                [
+                    {
+                        methodName: "show",
+                        line: 7,
+                        returnType: "OrderView | Money",
+                        typeNames: ["OrderView", "Money", "Order"],
+                    },
+                    {
+                        methodName: "list",
+                        line: 12,
+                        returnType: "Entities | Product",
+                        typeNames: ["Entities", "Product"],
+                    },
+                ],
+                "infrastructure/controllers/OrderController.ts",
+                "infrastructure",
+                resolveType,
+            )
+
+            expect(
+                exposures.map(({ entityName, methodName, line }) => ({
+                    entityName,
+                    methodName,
+                    line,
+                })),
+            ).toEqual([
+                { entityName: "Order", methodName: "show", line: 7 },
+                { entityName: "Customer", methodName: "show", line: 7 },
+            ])
+            expect(exposures[0].returnType).toBe("OrderView | Money")
+        })
+    })
+
     describe("isDomainEntity", () => {
         it("should identify PascalCase nouns as entities", () => {
             expect(detector.isDomainEntity("User")).toBe(true)
@@ -296,4 +296,140 @@ describe("FrameworkLeakDetector", () => {
             expect(leaks[0].category).toBe("VALIDATION")
         })
     })
+
+    describe("Configured catalog", () => {
+        it("should detect packages of custom categories and globs", () => {
+            const settings = {
+                categories: { messaging: ["kafkajs"], observability: ["@opentelemetry/*"] },
+            }
+            const leaks = detector.detectLeaks(
+                ["kafkajs", "@opentelemetry/api", "lodash"],
+                "src/domain/Order.ts",
+                "domain",
+                settings,
+            )
+
+            expect(leaks.map((leak) => [leak.packageName, leak.category])).toEqual([
+                ["kafkajs", "messaging"],
+                ["@opentelemetry/api", "observability"],
+            ])
+        })
+
+        it("should extend built-in categories", () => {
+            const leaks = detector.detectLeaks(
+                ["zapatos", "typeorm"],
+                "src/domain/User.ts",
+                "domain",
+                {
+                    categories: { ORM: ["zapatos"] },
+                },
+            )
+
+            expect(leaks.map((leak) => leak.category)).toEqual(["ORM", "ORM"])
+        })
+
+        it("should match subpath imports by package name", () => {
+            const leaks = detector.detectLeaks(
+                ["typeorm/browser", "@nestjs/common/decorators"],
+                "src/domain/User.ts",
+                "domain",
+            )
+
+            expect(leaks.map((leak) => leak.category)).toEqual(["ORM", "WEB_FRAMEWORK"])
+        })
+
+        it("should check configured layers with their allowances", () => {
+            const settings = {
+                categories: { messaging: ["kafkajs"] },
+                layers: { application: ["messaging", "winston"] },
+            }
+            const detect = (imports: string[], layer: string): string[] =>
+                detector
+                    .detectLeaks(imports, `src/${layer}/Service.ts`, layer, settings)
+                    .map((leak) => leak.packageName)
+
+            expect(detect(["kafkajs", "winston", "pino", "express"], "application")).toEqual([
+                "pino",
+                "express",
+            ])
+            expect(detect(["kafkajs"], "domain")).toEqual(["kafkajs"])
+            expect(detect(["kafkajs"], "infrastructure")).toEqual([])
+        })
+
+        it("should name the layer in the message", () => {
+            const leaks = detector.detectLeaks(
+                ["express"],
+                "src/application/Api.ts",
+                "application",
+                {
+                    layers: { application: [] },
+                },
+            )
+
+            expect(leaks[0].getMessage()).toContain(
+                'Application layer imports framework-specific package "express"',
+            )
+        })
+    })
+
+    describe("Decorators and base classes", () => {
+        const code = `
+import { Column, Entity } from "../shared/orm"
+import * as orm from "typeorm"
+
+@Entity()
+export class User extends orm.BaseEntity {
+    @Column({ unique: true })
+    email: string
+
+    @Validate
+    name: string
+}
+
+class Admin extends mixin(User) {}
+`
+
+        it("should find decorators and base classes", () => {
+            expect(detector.findUsages(code, "src/domain/User.ts")).toEqual([
+                { kind: "decorator", name: "Entity", line: 5 },
+                { kind: "base-class", name: "orm.BaseEntity", line: 6 },
+                { kind: "decorator", name: "Column", line: 7 },
+                { kind: "decorator", name: "Validate", line: 10 },
+            ])
+        })
+
+        it("should report usages whose name comes from a framework package", () => {
+            const origins: Record<string, { name: string; specifier: string }> = {
+                Entity: { name: "Entity", specifier: "typeorm" },
+                "orm.BaseEntity": { name: "BaseEntity", specifier: "typeorm" },
+                Column: { name: "Column", specifier: "lodash" },
+            }
+            const leaks = detector.resolveUsageLeaks(
+                detector.findUsages(code, "src/domain/User.ts"),
+                "src/domain/User.ts",
+                "domain",
+                (name) => origins[name],
+            )
+
+            expect(leaks).toHaveLength(2)
+            expect(leaks[0].usage).toEqual({ kind: "decorator", symbol: "Entity" })
+            expect(leaks[0].line).toBe(5)
+            expect(leaks[0].getMessage()).toContain(
+                'Domain layer uses decorator "@Entity" of framework-specific package "typeorm"',
+            )
+            expect(leaks[1].usage).toEqual({ kind: "base-class", symbol: "BaseEntity" })
+            expect(leaks[1].getMessage()).toContain('Domain layer extends "BaseEntity"')
+        })
+
+        it("should not report usages outside checked layers", () => {
+            const leaks = detector.resolveUsageLeaks(
+                detector.findUsages(code, "src/infrastructure/UserModel.ts"),
+                "src/infrastructure/UserModel.ts",
+                "infrastructure",
+                (name) => ({ name, specifier: "typeorm" }),
+            )
+
+            expect(leaks).toHaveLength(0)
+        })
+    })
 })
@@ -1,10 +1,42 @@
 import { describe, it, expect } from "vitest"
-import { analyzeProject } from "../../src/api"
+import {
+    analyzeProject,
+    type AnalyzeProjectResponse,
+    fixPublicModuleImports,
+    watchProject,
+    type WatchUpdate,
+} from "../../src/api"
 import path from "path"
+import * as fs from "fs/promises"
+import * as os from "os"
+import { type SimpleGit, simpleGit } from "simple-git"
 
 describe("AnalyzeProject E2E", () => {
     const EXAMPLES_DIR = path.join(__dirname, "../../examples")
 
+    /**
+     * Runs `run` on a temporary project with the given files, removing it afterwards
+     */
+    async function withProject<T>(
+        files: Record<string, string>,
+        run: (rootDir: string) => Promise<T>,
+    ): Promise<T> {
+        const rootDir = await fs.realpath(
+            await fs.mkdtemp(path.join(os.tmpdir(), "guardian-project-")),
+        )
+
+        try {
+            for (const [file, content] of Object.entries(files)) {
+                await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true })
+                await fs.writeFile(path.join(rootDir, file), content)
+            }
+
+            return await run(rootDir)
+        } finally {
+            await fs.rm(rootDir, { recursive: true, force: true })
+        }
+    }
+
     describe("Full Pipeline", () => {
         it("should analyze project and return complete results", async () => {
             const rootDir = path.join(EXAMPLES_DIR, "good-architecture")
@@ -133,6 +165,27 @@ describe("AnalyzeProject E2E", () => {
             }
         })
 
+        it("should resolve tsconfig aliases and ESM specifiers in the dependency graph", async () => {
+            const files = {
+                "tsconfig.json": JSON.stringify({
+                    compilerOptions: { paths: { "@/*": ["./src/*"] } },
+                }),
+                "src/domain/Order.ts":
+                    'import { Db } from "@/infrastructure/Db"\n\nexport class Order {}\n',
+                "src/infrastructure/Db.ts":
+                    'import { Order } from "../domain/Order.js"\n\nexport class Db {}\n',
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({ rootDir })
+
+                expect(result.circularDependencyViolations).toHaveLength(1)
+                expect(result.circularDependencyViolations[0].cycle).toHaveLength(2)
+                expect(result.dependencyDirectionViolations).toHaveLength(1)
+                expect(result.dependencyDirectionViolations[0].toLayer).toBe("infrastructure")
+            })
+        })
+
         it("should detect framework leaks in domain", async () => {
             const rootDir = path.join(EXAMPLES_DIR, "bad-architecture/framework-leaks")
 
@@ -162,11 +215,64 @@ describe("AnalyzeProject E2E", () => {
 
             const result = await analyzeProject({ rootDir })
 
-            if (result.entityExposureViolations.length > 0) {
-                const violation = result.entityExposureViolations[0]
-                expect(violation.entityName).toBeDefined()
-                expect(violation.severity).toBe("high")
+            expect(result.entityExposureViolations.map((v) => v.entityName).sort()).toEqual([
+                "Order",
+                "Order",
+                "User",
+                "User",
+            ])
+            expect(result.entityExposureViolations[0].severity).toBe("high")
+        })
+
+        it("should resolve returned types to the entities they are declared as", async () => {
+            const files = {
+                "domain/entities/User.ts": "export class User {}\n",
+                "domain/value-objects/Email.ts":
+                    "export class Email {\n    constructor(readonly value: string) {}\n}\n",
+                "application/views/UserView.ts":
+                    'import { User } from "../../domain/entities/User"\n\nexport type UserView = User | null\n',
+                "infrastructure/controllers/UserController.ts": [
+                    'import { User } from "../../domain/entities/User"',
+                    'import { Email } from "../../domain/value-objects/Email"',
+                    'import type { UserView } from "../../application/views/UserView"',
+                    "",
+                    "export class UserController {",
+                    "    async find(",
+                    "        id: string,",
+                    "    ): Promise<UserView> {",
+                    "        return null",
+                    "    }",
+                    "",
+                    "    register(email: string) {",
+                    "        return { user: new User(), email: new Email(email) }",
+                    "    }",
+                    "}",
+                    "",
+                ].join("\n"),
             }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({ rootDir })
+
+                expect(
+                    result.entityExposureViolations.map(
+                        ({ entityName, methodName, line, returnType }) => ({
+                            entityName,
+                            methodName,
+                            line,
+                            returnType,
+                        }),
+                    ),
+                ).toEqual([
+                    { entityName: "User", methodName: "find", line: 6, returnType: "UserView" },
+                    {
+                        entityName: "User",
+                        methodName: "register",
+                        line: 12,
+                        returnType: "User | Email",
+                    },
+                ])
+            })
         })
 
         it("should detect dependency direction violations", async () => {
@@ -241,6 +347,47 @@ describe("AnalyzeProject E2E", () => {
             expect(result.metrics.totalFunctions).toBeGreaterThanOrEqual(0)
             expect(result.metrics.totalImports).toBeGreaterThanOrEqual(0)
         })
+
+        it("should compute package metrics and report configured thresholds", async () => {
+            const files = {
+                "domain/Order.ts":
+                    'import { Db } from "../infrastructure/Db"\nexport class Order {}\n',
+                "domain/OrderRepository.ts": "export interface OrderRepository {}\n",
+                "application/PlaceOrder.ts": [
+                    'import { Order } from "../domain/Order"',
+                    'import type { OrderRepository } from "../domain/OrderRepository"',
+                    "export class PlaceOrder {}",
+                ].join("\n"),
+                "infrastructure/Db.ts": "export class Db {}\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: { packageMetrics: { thresholds: { domain: { maxInstability: 0.3 } } } },
+                })
+
+                expect(result.metrics.packages.find((p) => p.name === "domain")).toEqual({
+                    name: "domain",
+                    files: 2,
+                    afferentCoupling: 1,
+                    efferentCoupling: 1,
+                    instability: 0.5,
+                    abstractness: 0.5,
+                    distance: 0,
+                })
+                expect(
+                    result.packageMetricViolations.map((v) => [v.package, v.metric, v.value]),
+                ).toEqual([["domain", "instability", 0.5]])
+                expect(result.packageMetricViolations[0]).toMatchObject({
+                    file: path.join("domain", "Order.ts"),
+                    packageFiles: [
+                        path.join("domain", "Order.ts"),
+                        path.join("domain", "OrderRepository.ts"),
+                    ],
+                })
+            })
+        })
     })
 
     describe("Dependency Graph", () => {
@@ -266,6 +413,774 @@ describe("AnalyzeProject E2E", () => {
         })
     })
 
+    describe("Configuration", () => {
+        it("should skip rules switched off in config", async () => {
+            const rootDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const result = await analyzeProject({
+                rootDir,
+                config: { rules: { "hardcoded-value": "off" } },
+            })
+
+            expect(result.hardcodeViolations).toHaveLength(0)
+        })
+
+        it("should apply configured severity", async () => {
+            const rootDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const result = await analyzeProject({
+                rootDir,
+                config: { rules: { "hardcoded-value": { severity: "high" } } },
+            })
+
+            expect(result.hardcodeViolations.length).toBeGreaterThan(0)
+            result.hardcodeViolations.forEach((violation) => {
+                expect(violation.severity).toBe("high")
+            })
+        })
+
+        it("should report shared code importing other layers with the built-in layers", async () => {
+            const files = {
+                "shared/Result.ts":
+                    'import { Order } from "../domain/Order"\n\nexport type Result = Order\n',
+                "domain/Order.ts":
+                    'import { Result } from "../shared/Result"\n\nexport class Order {}\n',
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({ rootDir })
+
+                expect(result.violations.map((v) => [v.rule, v.file, v.line])).toEqual([
+                    ["clean-architecture", path.join("shared", "Result.ts"), 1],
+                ])
+                expect(
+                    result.dependencyDirectionViolations.map((v) => [v.fromLayer, v.toLayer]),
+                ).toEqual([["shared", "domain"]])
+            })
+        })
+
+        it("should apply custom layers", async () => {
+            const files = {
+                "core/Order.ts": 'import { Db } from "../adapters/Db"\n\nexport class Order {}\n',
+                "adapters/Db.ts": "export class Db {}\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: {
+                        layers: {
+                            core: { patterns: ["**/core/**"] },
+                            adapters: { patterns: ["**/adapters/**"], mayDependOn: ["core"] },
+                        },
+                    },
+                })
+
+                expect(result.dependencyDirectionViolations).toHaveLength(1)
+                expect(result.dependencyDirectionViolations[0].fromLayer).toBe("core")
+                expect(result.dependencyDirectionViolations[0].toLayer).toBe("adapters")
+                expect(result.violations).toHaveLength(1)
+            })
+        })
+
+        it("should apply configured naming conventions", async () => {
+            const files = {
+                "domain/entities/user.entity.ts": "export class UserEntity {}\n",
+                "domain/entities/Order.ts": "export class OrderEntity {}\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: { naming: { rules: { domain: { files: "dot-suffix" } } } },
+                })
+
+                expect(result.namingViolations).toHaveLength(1)
+                expect(result.namingViolations[0].fileName).toBe("Order.ts")
+                expect(result.namingViolations[0].suggestion).toBe(
+                    'Rename to match the naming rule "domain"',
+                )
+            })
+        })
+
+        it("should trace framework decorators through re-exports", async () => {
+            const files = {
+                "shared/orm.ts": 'export { Column, Entity } from "typeorm"\n',
+                "domain/entities/User.ts": [
+                    'import { Column, Entity } from "../../shared/orm"',
+                    "",
+                    "@Entity()",
+                    "export class User {",
+                    "    @Column()",
+                    "    public email = 0",
+                    "}",
+                    "",
+                ].join("\n"),
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({ rootDir })
+
+                expect(
+                    result.frameworkLeakViolations.map((leak) => [
+                        leak.usage,
+                        leak.symbol,
+                        leak.packageName,
+                        leak.line,
+                    ]),
+                ).toEqual([
+                    ["decorator", "Entity", "typeorm", 3],
+                    ["decorator", "Column", "typeorm", 5],
+                ])
+            })
+        })
+
+        it("should isolate configured bounded contexts", async () => {
+            const files = {
+                "src/contexts/identity/index.ts": 'export { User } from "./domain/User"\n',
+                "src/contexts/identity/domain/User.ts": "export class User {}\n",
+                "src/contexts/billing/domain/Invoice.ts": [
+                    'import { User } from "../../identity"',
+                    'import { User as Customer } from "../../identity/domain/User"',
+                    "",
+                    "export class Invoice {",
+                    "    constructor(public user: User, public customer: Customer) {}",
+                    "}",
+                    "",
+                ].join("\n"),
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: { boundedContexts: { contexts: ["src/contexts/*"] } },
+                })
+
+                expect(
+                    result.boundedContextViolations.map((v) => [v.file, v.line, v.chain]),
+                ).toEqual([
+                    [
+                        "src/contexts/billing/domain/Invoice.ts",
+                        2,
+                        [
+                            "src/contexts/billing/domain/Invoice.ts",
+                            "src/contexts/identity/domain/User.ts",
+                        ],
+                    ],
+                ])
+            })
+        })
+
+        it("should keep public modules behind their index and fix deep imports", async () => {
+            const files = {
+                "src/billing/index.ts":
+                    '// guardian-public-module\nexport { total } from "./internal/calc"\n',
+                "src/billing/internal/calc.ts": "export const total = (): number => 1\n",
+                "src/orders/Order.ts": [
+                    'import { total } from "../billing/internal/calc"',
+                    "",
+                    "export const orderTotal = total",
+                    "",
+                ].join("\n"),
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({ rootDir })
+
+                expect(
+                    result.publicModuleViolations.map((v) => [v.file, v.line, v.suggestedImport]),
+                ).toEqual([["src/orders/Order.ts", 1, "../billing"]])
+
+                await fixPublicModuleImports({ rootDir, write: true })
+
+                expect(
+                    await fs.readFile(path.join(rootDir, "src/orders/Order.ts"), "utf-8"),
+                ).toContain('import { total } from "../billing"')
+                expect((await analyzeProject({ rootDir })).publicModuleViolations).toEqual([])
+            })
+        })
+
+        it("should not rewrite imports of names the public module index does not export", async () => {
+            const main = [
+                'import { calc } from "../billing/internal/calc"',
+                'import * as invoices from "../billing/Invoice"',
+                "",
+                "export const total = calc(invoices)",
+                "",
+            ].join("\n")
+            const files = {
+                "src/billing/index.ts":
+                    '// guardian-public-module\nexport { Invoice } from "./Invoice"\n',
+                "src/billing/Invoice.ts": "export class Invoice {}\n",
+                "src/billing/internal/calc.ts": "export const calc = (value: unknown) => value\n",
+                "src/app/main.ts": main,
+            }
+
+            await withProject(files, async (rootDir) => {
+                const plan = await fixPublicModuleImports({ rootDir, write: true })
+
+                expect(plan.changes).toEqual([])
+                expect(plan.skipped.map((skip) => [skip.line, skip.reason])).toEqual([
+                    [1, "Not exported from the index: calc"],
+                    [2, "Not exported from the index: *"],
+                ])
+                expect(await fs.readFile(path.join(rootDir, "src/app/main.ts"), "utf-8")).toBe(main)
+            })
+        })
+
+        it("should report dead exports and files not reachable from the entry points", async () => {
+            const files = {
+                "package.json": JSON.stringify({ name: "shop", main: "dist/index.js" }),
+                "tsconfig.json": JSON.stringify({
+                    compilerOptions: { outDir: "dist", rootDir: "src" },
+                }),
+                "src/index.ts":
+                    'import { User } from "./domain/User"\n\nexport const user = User\n',
+                "src/domain/User.ts": [
+                    "export class User {}",
+                    "",
+                    "export interface UserProps {",
+                    "    name: string",
+                    "}",
+                    "",
+                ].join("\n"),
+                "src/domain/LegacyId.ts": "export class LegacyId {}\n",
+                "src/scripts/seed.ts": "export const seed = (): void => undefined\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: { deadCode: { entryPoints: ["src/scripts/**"] } },
+                })
+
+                expect(
+                    result.deadCodeViolations.map((v) => [v.type, v.file, v.symbol, v.line]),
+                ).toEqual([
+                    ["orphan-file", "src/domain/LegacyId.ts", undefined, undefined],
+                    ["unused-export", "src/domain/User.ts", "UserProps", 3],
+                ])
+            })
+        })
+
+        it("should follow re-exports, require and dynamic imports and allow type-only layer imports", async () => {
+            const files = {
+                "package.json": JSON.stringify({ name: "shop", main: "src/index.ts" }),
+                "src/index.ts": [
+                    "import {",
+                    "    createUser,",
+                    '} from "./application"',
+                    "",
+                    "export const run = async (): Promise<void> => {",
+                    '    const { loadPlugins } = await import("./infrastructure/plugins")',
+                    "    createUser(loadPlugins())",
+                    "}",
+                    "",
+                ].join("\n"),
+                "src/application/index.ts": 'export * from "./createUser"\n',
+                "src/application/createUser.ts": [
+                    'import type { UserStore } from "../infrastructure/UserStore"',
+                    'import { db } from "../infrastructure/db"',
+                    "",
+                    "export const createUser = (store: UserStore): void => db(store)",
+                    "",
+                ].join("\n"),
+                "src/infrastructure/UserStore.ts": "export interface UserStore {}\n",
+                "src/infrastructure/db.ts": [
+                    'const { connect } = require("./driver")',
+                    "",
+                    "export const db = (store: unknown): void => connect(store)",
+                    "",
+                ].join("\n"),
+                "src/infrastructure/driver.ts":
+                    "export const connect = (store: unknown) => store\n",
+                "src/infrastructure/plugins.ts": "export const loadPlugins = () => ({})\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: {
+                        layers: {
+                            application: {
+                                patterns: ["**/application/**"],
+                                mayImportTypesFrom: ["infrastructure"],
+                            },
+                            infrastructure: {
+                                patterns: ["**/infrastructure/**"],
+                                mayDependOn: ["application"],
+                            },
+                        },
+                    },
+                })
+
+                expect(result.dependencyGraph.getNode("src/index.ts")?.dependencies).toEqual([
+                    "src/application/index.ts",
+                    "src/infrastructure/plugins.ts",
+                ])
+                expect(result.deadCodeViolations).toEqual([])
+                expect(result.violations.map((v) => [v.file, v.line])).toEqual([
+                    ["src/application/createUser.ts", 2],
+                ])
+            })
+        })
+
+        it("should reject invalid config", async () => {
+            const rootDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            await expect(
+                analyzeProject({
+                    rootDir,
+                    config: { rules: { "hardcoded-value": "warn" } as never },
+                }),
+            ).rejects.toThrow("Invalid guardian config")
+        })
+    })
+
+    describe("Suppression Comments", () => {
+        async function analyzeSource(
+            content: string,
+            config?: Parameters<typeof analyzeProject>[0]["config"],
+        ): Promise<Awaited<ReturnType<typeof analyzeProject>>> {
+            return withProject({ "server.ts": content }, (rootDir) =>
+                analyzeProject({ rootDir, config }),
+            )
+        }
+
+        it("should honor next-line, line and file-level comments", async () => {
+            const result = await analyzeSource(
+                [
+                    "// guardian-disable-next-line hardcoded-value -- fixed by the spec",
+                    "export const timeout = 5000",
+                    "export const retries = 7 // guardian-disable-line hardcoded-value",
+                    "export const delay = 3000",
+                ].join("\n"),
+            )
+
+            expect(result.hardcodeViolations.map((v) => v.line)).toEqual([4])
+            expect(result.suppressionViolations).toEqual([])
+
+            const fileLevel = await analyzeSource(
+                "/* guardian-disable hardcoded-value */\nexport const delay = 3000\n",
+            )
+
+            expect(fileLevel.hardcodeViolations).toHaveLength(0)
+        })
+
+        it("should report unused and reason-less comments when configured", async () => {
+            const result = await analyzeSource(
+                [
+                    "// guardian-disable-next-line hardcoded-value",
+                    "export const timeout = 5000",
+                    "// guardian-disable-next-line secret-exposure -- test fixture",
+                    "export const name = getName()",
+                ].join("\n"),
+                { suppressions: { reportUnused: true, requireReason: true } },
+            )
+
+            expect(result.hardcodeViolations).toHaveLength(0)
+            expect(
+                result.suppressionViolations.map((v) => ({
+                    rule: v.rule,
+                    type: v.type,
+                    line: v.line,
+                })),
+            ).toEqual([
+                { rule: "suppression-comment", type: "missing-reason", line: 1 },
+                { rule: "suppression-comment", type: "unused", line: 3 },
+            ])
+        })
+
+        it("should not report comments for rules that are switched off", async () => {
+            const result = await analyzeSource(
+                "// guardian-disable-next-line hardcoded-value -- legacy\nexport const a = 1\n",
+                {
+                    rules: { "hardcoded-value": "off" },
+                    suppressions: { reportUnused: true },
+                },
+            )
+
+            expect(result.suppressionViolations).toEqual([])
+        })
+    })
+
+    describe("Changed Files", () => {
+        /**
+         * Commits the project files as they are, so later edits show up as changes
+         */
+        async function commitProject(rootDir: string): Promise<SimpleGit> {
+            const git = simpleGit(rootDir)
+
+            await git.init()
+            await git.addConfig("user.name", "guardian")
+            await git.addConfig("user.email", "guardian@example.com")
+            await git.add(".")
+            await git.commit("initial")
+
+            return git
+        }
+
+        it("should report staged files only, with index contents and the full graph", async () => {
+            const files = {
+                "a.ts": 'import { b } from "./b"\n',
+                "b.ts": "export const b = 1\n",
+                "c.ts": "export const delay = 3000\n",
+            }
+
+            await withProject(files, async (rootDir) => {
+                const git = await commitProject(rootDir)
+
+                await fs.writeFile(
+                    path.join(rootDir, "b.ts"),
+                    'import { a } from "./a"\nexport const timeout = 5000\n',
+                )
+                await git.add("b.ts")
+                await fs.writeFile(path.join(rootDir, "b.ts"), 'import { a } from "./a"\n')
+                await fs.rm(path.join(rootDir, "c.ts"))
+
+                const result = await analyzeProject({ rootDir, staged: true })
+
+                expect(result.changedFiles).toEqual(["b.ts"])
+                expect(
+                    result.hardcodeViolations.map((v) => `${v.file}:${String(v.value)}`),
+                ).toEqual(["b.ts:5000"])
+                expect(result.circularDependencyViolations).toHaveLength(1)
+                expect(result.metrics.totalFiles).toBe(3)
+            })
+        })
+
+        it("should report package metrics of packages with a staged file", async () => {
+            const files = {
+                "domain/Order.ts":
+                    'import { Db } from "../infrastructure/Db"\nexport class Order {}\n',
+                "domain/OrderRepository.ts": "export interface OrderRepository {}\n",
+                "application/PlaceOrder.ts": 'import { Order } from "../domain/Order"\n',
+                "infrastructure/Db.ts": "export class Db {}\n",
+            }
+            const config = {
+                packageMetrics: {
+                    thresholds: { "{domain,application}": { maxInstability: 0.3 } },
+                },
+            }
+
+            await withProject(files, async (rootDir) => {
+                const git = await commitProject(rootDir)
+
+                await fs.writeFile(
+                    path.join(rootDir, "domain/OrderRepository.ts"),
+                    "export interface OrderRepository { save(): void }\n",
+                )
+                await git.add(".")
+
+                const result = await analyzeProject({ rootDir, staged: true, config })
+
+                expect(result.changedFiles).toEqual([path.join("domain", "OrderRepository.ts")])
+                expect(result.packageMetricViolations.map((v) => [v.package, v.file])).toEqual([
+                    ["domain", path.join("domain", "Order.ts")],
+                ])
+            })
+        })
+    })
+
+    describe("Analysis Cache", () => {
+        it("should reuse results of unchanged files and re-run graph rules", async () => {
+            const files = {
+                "a.ts": "export const delay = 3000\n",
+                "b.ts": "export function wait() {\n    return 3000\n}\n",
+            }
+            const summarize = (result: AnalyzeProjectResponse): unknown => ({
+                hardcode: result.hardcodeViolations,
+                circular: result.circularDependencyViolations,
+                functions: result.metrics.totalFunctions,
+            })
+
+            await withProject(files, async (rootDir) => {
+                const cacheDir = path.join(rootDir, ".guardian-cache")
+                const first = await analyzeProject({ rootDir, cacheDir })
+                const second = await analyzeProject({ rootDir, cacheDir })
+
+                expect(first.cacheStats).toMatchObject({ hits: 0, misses: 2 })
+                expect(second.cacheStats).toMatchObject({ hits: 2, misses: 0 })
+                expect(summarize(second)).toEqual(summarize(first))
+
+                await fs.writeFile(
+                    path.join(rootDir, "a.ts"),
+                    'import { wait } from "./b"\nexport const delay = 3000\n',
+                )
+                await fs.writeFile(
+                    path.join(rootDir, "b.ts"),
+                    'import { delay } from "./a"\nexport function wait() {\n    return 3000\n}\n',
+                )
+                await fs.writeFile(path.join(rootDir, "c.ts"), "export const c = 1\n")
+                await analyzeProject({ rootDir, cacheDir })
+                await fs.writeFile(path.join(rootDir, "c.ts"), "export const c = 2\n")
+
+                const third = await analyzeProject({ rootDir, cacheDir })
+                const uncached = await analyzeProject({ rootDir })
+
+                expect(third.cacheStats).toMatchObject({ hits: 2, misses: 1 })
+                expect(third.circularDependencyViolations).toHaveLength(1)
+                expect(summarize(third)).toEqual(summarize(uncached))
+                expect(uncached.cacheStats).toBeUndefined()
+            })
+        })
+
+        it("should not reuse results after the config changed", async () => {
+            await withProject({ "a.ts": "export const delay = 3000\n" }, async (rootDir) => {
+                const cacheDir = path.join(rootDir, ".guardian-cache")
+
+                await analyzeProject({ rootDir, cacheDir })
+
+                const result = await analyzeProject({
+                    rootDir,
+                    cacheDir,
+                    config: { rules: { "hardcoded-value": "off" } },
+                })
+
+                expect(result.cacheStats).toMatchObject({ hits: 0, misses: 1 })
+                expect(result.hardcodeViolations).toHaveLength(0)
+            })
+        })
+    })
+
+    describe("Plugins", () => {
+        const HOUSE_RULES = `module.exports = {
+    name: "house-rules",
+    detectors: [
+        {
+            name: "no-date-now",
+            severity: "high",
+            detect: ({ layer, content }) =>
+                layer !== "domain"
+                    ? []
+                    : content.split("\\n").flatMap((text, index) =>
+                          text.includes("Date.now()")
+                              ? [{ message: "Inject a clock", line: index + 1, suggestion: "Use Clock" }]
+                              : [],
+                      ),
+        },
+        {
+            name: "no-repository-in-controller",
+            detect: ({ file, imports }) =>
+                file.endsWith("Controller.ts")
+                    ? imports
+                          .filter((imp) => imp.specifier.includes("Repository"))
+                          .map((imp) => ({ message: "Call a use case", line: imp.line }))
+                    : [],
+        },
+    ],
+}
+`
+
+        async function withPluginProject(
+            run: (rootDir: string) => Promise<void>,
+            plugin = HOUSE_RULES,
+        ): Promise<void> {
+            const files = {
+                "house-rules.js": plugin,
+                "domain/Order.ts":
+                    "export class Order {\n    stamp(): number {\n        return Date.now()\n    }\n}\n",
+                "infrastructure/OrderController.ts":
+                    'import { OrderRepository } from "./OrderRepository"\n\nexport class OrderController {}\n',
+                "infrastructure/OrderRepository.ts": "export class OrderRepository {}\n",
+            }
+
+            await withProject(files, run)
+        }
+
+        it("should report findings of plugin detectors", async () => {
+            await withPluginProject(async (rootDir) => {
+                const result = await analyzeProject({
+                    rootDir,
+                    config: { plugins: ["./house-rules.js"] },
+                })
+
+                expect(result.customViolations).toEqual([
+                    {
+                        rule: "house-rules/no-date-now",
+                        file: "domain/Order.ts",
+                        line: 3,
+                        message: "Inject a clock",
+                        suggestion: "Use Clock",
+                        severity: "high",
+                    },
+                    {
+                        rule: "house-rules/no-repository-in-controller",
+                        file: "infrastructure/OrderController.ts",
+                        line: 1,
+                        message: "Call a use case",
+                        severity: "medium",
+                    },
+                ])
+            })
+        })
+
+        it("should apply rule settings and suppression comments to plugin rules", async () => {
+            await withPluginProject(async (rootDir) => {
+                await fs.writeFile(
+                    path.join(rootDir, "infrastructure/OrderController.ts"),
+                    "// guardian-disable-next-line house-rules/no-repository-in-controller\n" +
+                        'import { OrderRepository } from "./OrderRepository"\n',
+                )
+
+                const result = await analyzeProject({
+                    rootDir,
+                    config: {
+                        plugins: ["./house-rules.js"],
+                        rules: { "house-rules/no-date-now": "low" },
+                    },
+                })
+
+                expect(result.customViolations).toHaveLength(1)
+                expect(result.customViolations[0].severity).toBe("low")
+                expect(result.config.gate.evaluate(result.customViolations).passed).toBe(false)
+            })
+        })
+
+        it("should not reuse cached results after a plugin changed", async () => {
+            await withPluginProject(async (rootDir) => {
+                const cacheDir = path.join(rootDir, ".guardian-cache")
+                const config = { plugins: ["./house-rules.js"] }
+
+                await analyzeProject({ rootDir, config, cacheDir })
+                const cached = await analyzeProject({ rootDir, config, cacheDir })
+
+                expect(cached.cacheStats).toMatchObject({ misses: 0 })
+
+                await fs.writeFile(
+                    path.join(rootDir, "house-rules.js"),
+                    HOUSE_RULES.replace('"Inject a clock"', '"Use the injected clock"'),
+                )
+                const changed = await analyzeProject({ rootDir, config, cacheDir })
+
+                expect(changed.cacheStats).toMatchObject({ hits: 0 })
+                expect(changed.customViolations[0].message).toBe("Use the injected clock")
+            })
+        })
+
+        it("should fail when a plugin detector throws", async () => {
+            await withPluginProject(async (rootDir) => {
+                await expect(
+                    analyzeProject({ rootDir, config: { plugins: ["./house-rules.js"] } }),
+                ).rejects.toThrow('Plugin rule failed "broken/crash" on domain/Order.ts: boom')
+            }, 'module.exports = { name: "broken", detectors: [{ name: "crash", detect() { throw new Error("boom") } }] }\n')
+        })
+    })
+
+    describe("Watch Mode", () => {
+        const withWatchedProject = async (
+            files: Record<string, string>,
+            run: (rootDir: string, nextUpdate: () => Promise<WatchUpdate>) => Promise<void>,
+        ): Promise<void> => {
+            await withProject(files, async (rootDir) => {
+                const updates: WatchUpdate[] = []
+                const waiting: ((update: WatchUpdate) => void)[] = []
+                const watch = await watchProject({
+                    rootDir,
+                    onUpdate: (update) => {
+                        const resolve = waiting.shift()
+                        if (resolve) {
+                            resolve(update)
+                        } else {
+                            updates.push(update)
+                        }
+                    },
+                })
+                const nextUpdate = async (): Promise<WatchUpdate> => {
+                    const update = updates.shift()
+                    return update ?? new Promise((resolve) => waiting.push(resolve))
+                }
+
+                try {
+                    await run(rootDir, nextUpdate)
+                } finally {
+                    await watch.close()
+                }
+            })
+        }
+
+        it("should re-analyze changed files and their dependents", async () => {
+            await withWatchedProject(
+                {
+                    "a.ts": 'import { b } from "./b"\nexport const a = b\n',
+                    "b.ts": "export const b = 1\n",
+                    "c.ts": "export const c = 2\n",
+                },
+                async (rootDir, nextUpdate) => {
+                    await fs.writeFile(
+                        path.join(rootDir, "b.ts"),
+                        "export function b() {\n    const timeout = 5000\n    return timeout\n}\n",
+                    )
+                    const appeared = await nextUpdate()
+
+                    expect(appeared.changedFiles).toEqual(["b.ts"])
+                    expect([...appeared.analyzedFiles].sort()).toEqual(["a.ts", "b.ts"])
+                    expect(appeared.appeared.hardcodeViolations).toHaveLength(1)
+                    expect(appeared.appeared.hardcodeViolations[0]).toMatchObject({
+                        file: "b.ts",
+                        value: 5000,
+                    })
+                    expect(appeared.resolved.hardcodeViolations).toHaveLength(0)
+                    expect(appeared.result.hardcodeViolations).toEqual(
+                        (await analyzeProject({ rootDir })).hardcodeViolations,
+                    )
+
+                    await fs.writeFile(path.join(rootDir, "b.ts"), "export const b = 1\n")
+                    const resolved = await nextUpdate()
+
+                    expect(resolved.appeared.hardcodeViolations).toHaveLength(0)
+                    expect(resolved.resolved.hardcodeViolations).toHaveLength(1)
+                    expect(resolved.result.hardcodeViolations).toHaveLength(0)
+                },
+            )
+        }, 20000)
+
+        it("should pick up added and removed files", async () => {
+            await withWatchedProject(
+                { "a.ts": 'import { b } from "./b"\nexport const a = b\n' },
+                async (rootDir, nextUpdate) => {
+                    await fs.writeFile(
+                        path.join(rootDir, "b.ts"),
+                        'import { a } from "./a"\nexport const b = a\n',
+                    )
+                    const added = await nextUpdate()
+
+                    expect(added.changedFiles).toEqual(["b.ts"])
+                    expect(added.appeared.circularDependencyViolations).toHaveLength(1)
+                    expect(added.result.metrics.totalFiles).toBe(2)
+
+                    await fs.rm(path.join(rootDir, "b.ts"))
+                    const removed = await nextUpdate()
+
+                    expect(removed.changedFiles).toEqual(["b.ts"])
+                    expect(removed.analyzedFiles).toEqual(["a.ts"])
+                    expect(removed.resolved.circularDependencyViolations).toHaveLength(1)
+                    expect(removed.result.metrics.totalFiles).toBe(1)
+                },
+            )
+        }, 20000)
+
+        it("should reload the config when the config file changes", async () => {
+            await withWatchedProject(
+                {
+                    "a.ts": "export function wait() {\n    const timeout = 5000\n    return timeout\n}\n",
+                    "guardian.config.json": "{}\n",
+                },
+                async (rootDir, nextUpdate) => {
+                    await fs.writeFile(
+                        path.join(rootDir, "guardian.config.json"),
+                        JSON.stringify({ rules: { "hardcoded-value": "off" } }),
+                    )
+                    const update = await nextUpdate()
+
+                    expect(update.changedFiles).toEqual(["guardian.config.json"])
+                    expect(update.resolved.hardcodeViolations).toHaveLength(1)
+                    expect(update.result.config.isRuleEnabled("hardcoded-value")).toBe(false)
+                },
+            )
+        }, 20000)
+    })
+
     describe("Error Handling", () => {
         it("should handle non-existent directory", async () => {
             const rootDir = path.join(EXAMPLES_DIR, "non-existent-directory")
@@ -274,12 +1189,10 @@ describe("AnalyzeProject E2E", () => {
         })
 
         it("should handle empty directory gracefully", async () => {
-            const rootDir = path.join(__dirname, "../../dist")
-
-            const result = await analyzeProject({ rootDir })
+            const result = await withProject({}, (rootDir) => analyzeProject({ rootDir }))
 
             expect(result).toBeDefined()
-            expect(result.metrics.totalFiles).toBeGreaterThanOrEqual(0)
-        })
+            expect(result.metrics.totalFiles).toBe(0)
+        }, 30000)
     })
 })
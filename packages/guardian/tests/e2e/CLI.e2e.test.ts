@@ -1,8 +1,15 @@
-import { describe, it, expect, beforeAll } from "vitest"
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest"
 import { spawn } from "child_process"
 import path from "path"
 import { promisify } from "util"
 import { exec } from "child_process"
+import * as fs from "fs/promises"
+import * as os from "os"
+import { simpleGit } from "simple-git"
+import type { BaselineFile } from "../../src/application/dtos/Baseline"
+import type { GraphView } from "../../src/application/dtos/GraphView"
+import { JSON_REPORT_SCHEMA_VERSION, type JsonReport } from "../../src/application/dtos/JsonReport"
+import type { SarifLog } from "../../src/cli/formatters/SarifFormatter"
 
 const execAsync = promisify(exec)
 
@@ -14,7 +21,7 @@ describe("CLI E2E", () => {
         await execAsync("pnpm build", {
             cwd: path.join(__dirname, "../../"),
         })
-    })
+    }, 60000)
 
     const runCLI = async (
         args: string,
@@ -201,6 +208,247 @@ describe("CLI E2E", () => {
         }, 30000)
     })
 
+    describe("Baseline", () => {
+        const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+        let tempDir: string
+        let baselinePath: string
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-baseline-"))
+            baselinePath = path.join(tempDir, "guardian-baseline.json")
+        })
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true })
+        })
+
+        it("should create a baseline and hide its violations", async () => {
+            const create = await runCLI(`baseline create ${hardcodedDir} --output ${baselinePath}`)
+            const baseline = JSON.parse(await fs.readFile(baselinePath, "utf-8")) as BaselineFile
+
+            expect(create.exitCode).toBe(0)
+            expect(create.stdout).toContain("Baseline written to")
+            expect(baseline.schemaVersion).toBe(1)
+            expect(baseline.entries.length).toBeGreaterThan(0)
+
+            const { stdout } = await runCLI(`check ${hardcodedDir} --baseline ${baselinePath}`)
+
+            expect(stdout).toContain(`hiding ${String(baseline.entries.length)} known violations`)
+            expect(stdout).toContain("No issues found")
+        }, 60000)
+
+        it("should report new violations and list fixed entries", async () => {
+            await runCLI(`baseline create ${hardcodedDir} --output ${baselinePath}`)
+            const baseline = JSON.parse(await fs.readFile(baselinePath, "utf-8")) as BaselineFile
+            baseline.entries.shift()
+            baseline.entries.push({
+                fingerprint: "0".repeat(64),
+                rule: "hardcoded-value",
+                file: "src/removed.ts",
+                message: "Hardcoded magic-number 42",
+            })
+            await fs.writeFile(baselinePath, JSON.stringify(baseline))
+
+            const { stdout, exitCode } = await runCLI(
+                `check ${hardcodedDir} --format json --baseline ${baselinePath}`,
+            )
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(exitCode).toBe(1)
+            expect(report.summary.totalIssues).toBe(1)
+            expect(report.baseline?.fixed).toEqual([
+                expect.objectContaining({ file: "src/removed.ts" }),
+            ])
+        }, 60000)
+
+        it("should only list fixed entries of changed files with --since", async () => {
+            const rootDir = path.join(tempDir, "project")
+            await fs.mkdir(rootDir)
+            const git = simpleGit(rootDir)
+            await fs.writeFile(path.join(rootDir, "a.ts"), "export const timeout = 5000\n")
+            await fs.writeFile(path.join(rootDir, "b.ts"), "export const delay = 3000\n")
+            await git.init()
+            await git.addConfig("user.name", "guardian")
+            await git.addConfig("user.email", "guardian@example.com")
+            await git.add(".")
+            await git.commit("initial")
+            await runCLI(`baseline create ${rootDir} --output ${baselinePath}`)
+
+            await fs.writeFile(path.join(rootDir, "a.ts"), "export const timeout = 0\n")
+
+            const { stdout, exitCode } = await runCLI(
+                `check ${rootDir} --since HEAD --no-cache --format json --baseline ${baselinePath}`,
+            )
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(exitCode).toBe(0)
+            expect(report.changes?.files).toEqual(["a.ts"])
+            expect(report.baseline?.fixed.map((entry) => entry.file)).toEqual(["a.ts"])
+        }, 60000)
+
+        it("should reject an invalid baseline file", async () => {
+            await fs.writeFile(baselinePath, JSON.stringify({ schemaVersion: 99 }))
+
+            const { stderr, exitCode } = await runCLI(
+                `check ${hardcodedDir} --baseline ${baselinePath}`,
+            )
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain("Invalid guardian baseline")
+            expect(stderr).toContain("unsupported schemaVersion 99")
+        }, 30000)
+    })
+
+    describe("JSON Output", () => {
+        it("should print a versioned JSON report to stdout", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout, exitCode } = await runCLI(`check ${hardcodedDir} --format json`)
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(exitCode).toBe(1)
+            expect(report.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION)
+            expect(report.tool.name).toBe("guardian")
+            expect(report.tool.version).toMatch(/^\d+\.\d+\.\d+/)
+            expect(report.rootDir).toBe(hardcodedDir)
+            expect(report.filters).toEqual({ minSeverity: null, limit: null })
+            expect(report.metrics.totalFiles).toBeGreaterThan(0)
+            expect(report.hardcodeViolations.length).toBeGreaterThan(0)
+            expect(Array.isArray(report.anemicModelViolations)).toBe(true)
+            expect(report.summary.reportedIssues).toBe(report.summary.totalIssues)
+        }, 30000)
+
+        it("should record the applied filters", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout } = await runCLI(
+                `check ${hardcodedDir} --format json --min-severity medium --limit 1`,
+            )
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(report.filters).toEqual({ minSeverity: "medium", limit: 1 })
+            expect(report.hardcodeViolations.length).toBeLessThanOrEqual(1)
+            expect(report.summary.bySeverity.low).toBe(0)
+            expect(report.summary.reportedIssues).toBeLessThanOrEqual(report.summary.totalIssues)
+        }, 30000)
+
+        it("should exit with 0 when the quality gate passes", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stdout, exitCode } = await runCLI(
+                `check ${goodArchDir} --format json --only-critical --fail-on critical`,
+            )
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(report.filters.minSeverity).toBe("critical")
+            expect(exitCode).toBe(report.summary.totalIssues > 0 ? 1 : 0)
+        }, 30000)
+    })
+
+    describe("SARIF Output", () => {
+        it("should print a SARIF 2.1.0 log to stdout", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout, exitCode } = await runCLI(`check ${hardcodedDir} --format sarif`)
+            const log = JSON.parse(stdout) as SarifLog
+            const [run] = log.runs
+
+            expect(exitCode).toBe(1)
+            expect(log.version).toBe("2.1.0")
+            expect(run.tool.driver.name).toBe("guardian")
+            expect(run.tool.driver.rules.map((rule) => rule.id)).toContain("hardcoded-value")
+            expect(run.results.length).toBeGreaterThan(0)
+
+            const result = run.results.find((r) => r.ruleId === "hardcoded-value")
+            expect(result?.level).toMatch(/^(error|warning|note)$/)
+            expect(run.tool.driver.rules[result?.ruleIndex ?? -1].id).toBe("hardcoded-value")
+            expect(result?.locations[0].physicalLocation.artifactLocation.uri).toMatch(/\.ts$/)
+            expect(result?.locations[0].physicalLocation.region?.startLine).toBeGreaterThan(0)
+            expect(result?.locations[0].physicalLocation.region?.startColumn).toBeGreaterThan(0)
+        }, 30000)
+
+        it("should write the SARIF log to --output", async () => {
+            const circularDir = path.join(EXAMPLES_DIR, "bad-architecture/circular")
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-sarif-"))
+            const outputPath = path.join(tempDir, "reports/guardian.sarif")
+
+            try {
+                const { stdout } = await runCLI(
+                    `check ${circularDir} --format sarif --output ${outputPath}`,
+                )
+                const log = JSON.parse(await fs.readFile(outputPath, "utf-8")) as SarifLog
+                const circular = log.runs[0].results.filter(
+                    (r) => r.ruleId === "circular-dependency",
+                )
+
+                expect(stdout).toBe("")
+                expect(circular.length).toBeGreaterThan(0)
+                expect(circular[0].level).toBe("error")
+                expect(circular[0].relatedLocations?.length).toBeGreaterThan(0)
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true })
+            }
+        }, 30000)
+
+        it("should reject unknown formats", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stderr, exitCode } = await runCLI(`check ${goodArchDir} --format xml`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain('Unknown output format "xml"')
+        }, 30000)
+    })
+
+    describe("HTML Output", () => {
+        it("should write a self-contained HTML report to --output", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-html-"))
+            const outputPath = path.join(tempDir, "report.html")
+
+            try {
+                const { stdout, exitCode } = await runCLI(
+                    `check ${hardcodedDir} --format html --output ${outputPath}`,
+                )
+                const html = await fs.readFile(outputPath, "utf-8")
+
+                expect(exitCode).toBe(1)
+                expect(stdout).toBe("")
+                expect(html).toMatch(/^<!DOCTYPE html>/)
+                expect(html).toContain('<section id="summary">')
+                expect(html).toContain("<code>hardcoded-value</code>")
+                expect(html).toContain('<nav class="tree">')
+                expect(html).toContain('<pre class="snippet">')
+                expect(html).toContain('<span class="hit">')
+                expect(html).toContain('<svg id="graph-folder" class="graph"')
+                expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/)
+                expect(html).not.toMatch(/@import|url\(["']?https?:/)
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true })
+            }
+        }, 30000)
+
+        it("should escape source code in snippets", async () => {
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-html-"))
+            const outputPath = path.join(tempDir, "report.html")
+
+            try {
+                await fs.writeFile(
+                    path.join(tempDir, "Template.ts"),
+                    "// renders <script>alert(1)</script>\nexport function schedule(callback: () => void): void {\n    setTimeout(callback, 5000)\n}\n",
+                )
+
+                await runCLI(`check ${tempDir} --no-cache --format html --output ${outputPath}`)
+                const html = await fs.readFile(outputPath, "utf-8")
+
+                expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;")
+                expect(html).not.toContain("<script>alert(1)</script>")
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true })
+            }
+        }, 30000)
+    })
+
     describe("Error Handling", () => {
         it("should show error for non-existent path", async () => {
             const nonExistentPath = path.join(EXAMPLES_DIR, "non-existent-directory")
@@ -233,6 +481,437 @@ describe("CLI E2E", () => {
             expect(stdout).toContain("Analyzing")
             expect(exitCode).toBeGreaterThanOrEqual(0)
         }, 30000)
+
+        it("should exit with 1 when the quality gate fails", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout, exitCode } = await runCLI(`check ${hardcodedDir}`)
+
+            expect(exitCode).toBe(1)
+            expect(stdout).toContain("Quality gate failed")
+            expect(stdout).toMatch(/✗ \d+ violation\(s\) with severity low or above/)
+        }, 30000)
+
+        it("should pass the gate for violations below --fail-on", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout, exitCode } = await runCLI(`check ${hardcodedDir} --fail-on critical`)
+
+            expect(stdout).toContain("Quality gate passed")
+            expect(exitCode).toBe(0)
+        }, 30000)
+
+        it("should fail the gate on violations hidden by --min-severity", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+
+            const { stdout, exitCode } = await runCLI(
+                `check ${hardcodedDir} --format json --only-critical`,
+            )
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(report.hardcodeViolations).toEqual([])
+            expect(report.gate.passed).toBe(false)
+            expect(exitCode).toBe(1)
+        }, 30000)
+
+        it("should apply max-count thresholds from the config", async () => {
+            const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-gate-"))
+            const configPath = path.join(tempDir, "guardian.config.json")
+
+            try {
+                await fs.writeFile(
+                    configPath,
+                    JSON.stringify({
+                        gate: { failOn: "critical", maxViolations: { "magic-number": 1 } },
+                    }),
+                )
+
+                const { stdout, exitCode } = await runCLI(
+                    `check ${hardcodedDir} --config ${configPath} --format json`,
+                )
+                const report = JSON.parse(stdout) as JsonReport
+
+                expect(exitCode).toBe(1)
+                expect(report.gate.passed).toBe(false)
+                expect(report.gate.failures).toEqual([
+                    expect.objectContaining({ kind: "threshold", target: "magic-number", max: 1 }),
+                ])
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true })
+            }
+        }, 30000)
+
+        it("should exit with 2 on analysis errors", async () => {
+            const nonExistentPath = path.join(EXAMPLES_DIR, "non-existent-directory")
+
+            const { exitCode } = await runCLI(`check ${nonExistentPath}`)
+
+            expect(exitCode).toBe(2)
+        }, 30000)
+
+        it("should exit with 2 on an unknown --fail-on severity", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stderr, exitCode } = await runCLI(`check ${goodArchDir} --fail-on severe`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain('Unknown severity level "severe"')
+        }, 30000)
+
+        it("should exit with 2 when --since and --staged are combined", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stderr, exitCode } = await runCLI(`check ${goodArchDir} --since main --staged`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain("--since and --staged cannot be used together")
+        }, 30000)
+    })
+
+    describe("Analysis Cache", () => {
+        let tempDir: string
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-cache-"))
+            await fs.cp(path.join(EXAMPLES_DIR, "good-architecture"), tempDir, {
+                recursive: true,
+                filter: (source) => path.basename(source) !== ".guardian-cache",
+            })
+        })
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true })
+        })
+
+        it("should show cache statistics in verbose output", async () => {
+            await runCLI(`check ${tempDir}`)
+            const { stdout } = await runCLI(`check ${tempDir} --verbose`)
+
+            expect(stdout).toMatch(/💾 Cache: \d+ hits, 0 misses/)
+        }, 30000)
+
+        it("should keep the cache in the analyzed directory", async () => {
+            await runCLI(`check ${tempDir}`)
+
+            const cacheFiles = await fs.readdir(path.join(tempDir, ".guardian-cache"))
+
+            expect(cacheFiles).toHaveLength(1)
+        }, 30000)
+
+        it("should skip the cache with --no-cache", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stdout } = await runCLI(`check ${goodArchDir} --verbose --no-cache`)
+
+            expect(stdout).not.toContain("💾 Cache:")
+        }, 30000)
+    })
+
+    describe("Worker Threads", () => {
+        it("should report the same violations with --jobs as in a single thread", async () => {
+            const badArchDir = path.join(EXAMPLES_DIR, "bad-architecture")
+
+            const single = await runCLI(`check ${badArchDir} --no-cache --format json`)
+            const parallel = await runCLI(`check ${badArchDir} --no-cache --format json --jobs 3`)
+
+            expect(parallel.exitCode).toBe(single.exitCode)
+            expect(JSON.parse(parallel.stdout)).toEqual(JSON.parse(single.stdout))
+        }, 60000)
+
+        it("should exit with 2 on an invalid --jobs value", async () => {
+            const goodArchDir = path.join(EXAMPLES_DIR, "good-architecture")
+
+            const { stderr, exitCode } = await runCLI(`check ${goodArchDir} --jobs 0`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain('--jobs must be a positive integer, got "0"')
+        }, 30000)
+    })
+
+    describe("Fix", () => {
+        const hardcodedDir = path.join(EXAMPLES_DIR, "bad-architecture/hardcoded")
+        const sourceFile = "ServerWithMagicNumbers.ts"
+        let tempDir: string
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-fix-"))
+            await fs.cp(hardcodedDir, tempDir, { recursive: true })
+        })
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true })
+        })
+
+        it("should preview the fix as a diff without changing files", async () => {
+            const original = await fs.readFile(path.join(tempDir, sourceFile), "utf-8")
+
+            const { stdout, exitCode } = await runCLI(`fix ${tempDir} --rule hardcoded-value`)
+
+            expect(exitCode).toBe(0)
+            expect(stdout).toContain(`--- a/${sourceFile}`)
+            expect(stdout).toContain("+++ b/shared/constants.ts")
+            expect(stdout).toContain("Dry run")
+            expect(await fs.readFile(path.join(tempDir, sourceFile), "utf-8")).toBe(original)
+        }, 30000)
+
+        it("should write the constants with --write", async () => {
+            const before = await runCLI(`check ${tempDir} --no-cache --format json`)
+
+            const { stdout, exitCode } = await runCLI(
+                `fix ${tempDir} --rule hardcoded-value --write`,
+            )
+            const after = await runCLI(`check ${tempDir} --no-cache --format json`)
+
+            expect(exitCode).toBe(0)
+            expect(stdout).toContain("shared/constants.ts (new file)")
+            expect(await fs.readFile(path.join(tempDir, "shared/constants.ts"), "utf-8")).toMatch(
+                /^export const \w+ = /,
+            )
+            expect((JSON.parse(after.stdout) as JsonReport).summary.totalIssues).toBeLessThan(
+                (JSON.parse(before.stdout) as JsonReport).summary.totalIssues,
+            )
+        }, 60000)
+
+        it("should not report values again in the modules they were moved to", async () => {
+            await fs.mkdir(path.join(tempDir, "src/infrastructure"), { recursive: true })
+            await fs.writeFile(
+                path.join(tempDir, "src/infrastructure/ApiClient.ts"),
+                'export const fetchOrders = (): Promise<Response> => fetch("https://api.example.com/orders")\n',
+            )
+            const srcDir = path.join(tempDir, "src")
+
+            const { exitCode } = await runCLI(`fix ${srcDir} --rule hardcoded-value --write`)
+            const { stdout } = await runCLI(`check ${srcDir} --no-cache --format json`)
+            const report = JSON.parse(stdout) as JsonReport
+
+            expect(exitCode).toBe(0)
+            expect(
+                await fs.readFile(path.join(srcDir, "config/environment.ts"), "utf-8"),
+            ).toContain("https://api.example.com/orders")
+            expect(report.hardcodeViolations).toEqual([])
+        }, 60000)
+
+        it("should exit with 2 for rules without automatic fixes", async () => {
+            const { stderr, exitCode } = await runCLI(`fix ${tempDir} --rule naming-convention`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain(
+                'Automatic fixes are not available for rule "naming-convention"',
+            )
+        }, 30000)
+    })
+
+    describe("Plugins", () => {
+        let tempDir: string
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-plugin-"))
+            await fs.mkdir(path.join(tempDir, "src/domain"), { recursive: true })
+            await fs.writeFile(
+                path.join(tempDir, "src/domain/Order.ts"),
+                "export const stamp = (): number => Date.now()\n",
+            )
+            await fs.writeFile(
+                path.join(tempDir, "src/domain/Invoice.ts"),
+                "export const issuedAt = (): number => Date.now()\n",
+            )
+            await fs.writeFile(
+                path.join(tempDir, "house-rules.js"),
+                `module.exports = {
+    name: "house-rules",
+    detectors: [{
+        name: "no-date-now",
+        detect: ({ layer, content }) =>
+            layer === "domain" && content.includes("Date.now()") ? [{ message: "Inject a clock", line: 1 }] : [],
+    }],
+}
+`,
+            )
+            await fs.writeFile(
+                path.join(tempDir, "guardian.config.json"),
+                JSON.stringify({
+                    plugins: ["./house-rules.js"],
+                    rules: { "hardcoded-value": "off", "house-rules/no-date-now": "critical" },
+                }),
+            )
+        })
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true })
+        })
+
+        it("should report plugin rules and fail the check", async () => {
+            const { stdout, exitCode } = await runCLI(`check ${tempDir}/src --no-cache`)
+
+            expect(exitCode).toBe(1)
+            expect(stdout).toContain("🧩 Found 2 plugin rule violation(s)")
+            expect(stdout).toContain("Rule: house-rules/no-date-now")
+            expect(stdout).toContain("domain/Order.ts:1")
+        }, 30000)
+
+        it("should report the same findings with --jobs in JSON and SARIF", async () => {
+            const single = await runCLI(`check ${tempDir}/src --no-cache --format json`)
+            const parallel = await runCLI(`check ${tempDir}/src --no-cache --format json --jobs 2`)
+            const sarif = await runCLI(`check ${tempDir}/src --no-cache --format sarif`)
+
+            const report = JSON.parse(single.stdout) as JsonReport
+            expect(report.customViolations).toHaveLength(2)
+            expect(report.customViolations[0].severity).toBe("critical")
+            expect(JSON.parse(parallel.stdout)).toEqual(report)
+
+            const [run] = (JSON.parse(sarif.stdout) as SarifLog).runs
+            const ruleIndex = run.tool.driver.rules.findIndex(
+                (rule) => rule.id === "house-rules/no-date-now",
+            )
+            expect(ruleIndex).toBeGreaterThan(0)
+            expect(run.results.map((result) => result.ruleIndex)).toEqual([ruleIndex, ruleIndex])
+        }, 60000)
+
+        it("should exit with 2 when a plugin cannot be loaded", async () => {
+            await fs.writeFile(
+                path.join(tempDir, "guardian.config.json"),
+                JSON.stringify({ plugins: ["./missing.js"] }),
+            )
+
+            const { stderr, exitCode } = await runCLI(`check ${tempDir}/src --no-cache`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain("Failed to load plugin")
+        }, 30000)
+    })
+
+    describe("Graph", () => {
+        let tempDir: string
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-graph-"))
+            const files: Record<string, string> = {
+                "domain/Order.ts":
+                    'import { OrderRepository } from "../infrastructure/OrderRepository"\nexport class Order {}\n',
+                "infrastructure/OrderRepository.ts":
+                    'import { Order } from "../domain/Order"\nexport class OrderRepository {}\n',
+                "application/PlaceOrder.ts":
+                    'import { Order } from "../domain/Order"\nexport class PlaceOrder {}\n',
+            }
+
+            for (const [file, content] of Object.entries(files)) {
+                await fs.mkdir(path.join(tempDir, path.dirname(file)), { recursive: true })
+                await fs.writeFile(path.join(tempDir, file), content)
+            }
+        })
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true })
+        })
+
+        it("should print a DOT graph with highlighted edges", async () => {
+            const { stdout, exitCode } = await runCLI(`graph ${tempDir}`)
+
+            expect(exitCode).toBe(0)
+            expect(stdout).toMatch(/^digraph dependencies \{/)
+            expect(stdout).toContain('subgraph "cluster_domain" {')
+            expect(stdout).toContain(
+                '"domain/Order.ts" -> "infrastructure/OrderRepository.ts" [color="red", penwidth=2, style="dashed"]',
+            )
+            expect(stdout).toContain('"application/PlaceOrder.ts" -> "domain/Order.ts"\n')
+        }, 30000)
+
+        it("should write a Mermaid layer graph to a file", async () => {
+            const output = path.join(tempDir, "docs/architecture.mmd")
+
+            const { exitCode } = await runCLI(
+                `graph ${tempDir} --format mermaid --level layer --output ${output}`,
+            )
+            const mermaid = await fs.readFile(output, "utf-8")
+
+            expect(exitCode).toBe(0)
+            expect(mermaid).toContain("graph LR")
+            expect(mermaid).toContain('n1["domain"]')
+            expect(mermaid).toContain("n0 -->|1| n1")
+            expect(mermaid).toContain(
+                "linkStyle 1 stroke:red,stroke-width:2px,stroke-dasharray:5 5",
+            )
+        }, 30000)
+
+        it("should print the JSON neighbourhood of a file", async () => {
+            const { stdout, exitCode } = await runCLI(
+                `graph ${tempDir} --format json --focus application/PlaceOrder.ts`,
+            )
+            const graph = JSON.parse(stdout) as GraphView
+
+            expect(exitCode).toBe(0)
+            expect(graph.nodes.map((node) => node.id)).toEqual([
+                "application/PlaceOrder.ts",
+                "domain/Order.ts",
+            ])
+            expect(graph.edges).toEqual([
+                {
+                    from: "application/PlaceOrder.ts",
+                    to: "domain/Order.ts",
+                    imports: 1,
+                    cycle: false,
+                    layerViolation: false,
+                },
+            ])
+        }, 30000)
+
+        it("should exit with 2 for an unknown level", async () => {
+            const { stderr, exitCode } = await runCLI(`graph ${tempDir} --level module`)
+
+            expect(exitCode).toBe(2)
+            expect(stderr).toContain('Unknown graph level "module"')
+        }, 30000)
+    })
+
+    describe("Watch", () => {
+        it("should print violations that appeared and were resolved on save", async () => {
+            const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-cli-watch-"))
+            const file = path.join(rootDir, "retry.ts")
+            await fs.writeFile(file, "export function retry() {\n    return 1\n}\n")
+
+            const child = spawn("node", [CLI_PATH, "watch", rootDir])
+            let stdout = ""
+            const waitForOutput = async (text: string, from: number): Promise<void> =>
+                new Promise((resolve) => {
+                    const check = (): void => {
+                        if (stdout.indexOf(text, from) !== -1) {
+                            child.stdout.off("data", check)
+                            resolve()
+                        }
+                    }
+                    child.stdout.on("data", check)
+                    check()
+                })
+            child.stdout.on("data", (data: Buffer) => {
+                stdout += data.toString()
+            })
+            const exited = new Promise<number | null>((resolve) => child.on("close", resolve))
+
+            try {
+                await waitForOutput("Watching", 0)
+                expect(stdout).toContain("0 issue(s) in 1 files")
+
+                await fs.writeFile(
+                    file,
+                    "export function retry() {\n    const timeout = 5000\n    return timeout\n}\n",
+                )
+                await waitForOutput("1 issue(s) (+1, -0)", 0)
+                expect(stdout).toContain("retry.ts changed, 1 file(s) re-analyzed")
+                expect(stdout).toContain(
+                    "➕ retry.ts:2 [hardcoded-value] Hardcoded magic-number 5000",
+                )
+
+                const resolvedFrom = stdout.length
+                await fs.writeFile(file, "export function retry() {\n    return 1\n}\n")
+                await waitForOutput("0 issue(s) (+0, -1)", resolvedFrom)
+                expect(stdout.slice(resolvedFrom)).toContain("✅ retry.ts:2 [hardcoded-value]")
+            } finally {
+                child.kill("SIGTERM")
+                expect(await exited).toBe(0)
+                await fs.rm(rootDir, { recursive: true, force: true })
+            }
+        }, 30000)
     })
 
     describe("Spawn Process Tests", () => {
@@ -0,0 +1,11 @@
+const { parentPort } = require("worker_threads")
+
+// Replies out of order, so the pool has to restore the task order
+parentPort.on("message", (task) => {
+    if (task < 0) {
+        parentPort.postMessage({ error: `Cannot square ${task}` })
+        return
+    }
+
+    setTimeout(() => parentPort.postMessage({ result: task * task }), (task % 3) * 10)
+})
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { BaselineMatcher } from "../../../src/application/services/BaselineMatcher"
+import type { ViolationReport } from "../../../src/application/dtos/JsonReport"
+import type { HardcodeViolation } from "../../../src/application/use-cases/AnalyzeProject"
+import { HARDCODE_TYPES, SEVERITY_LEVELS } from "../../../src/shared/constants"
+import { RULES } from "../../../src/shared/constants/rules"
+
+const TOOL = { name: "guardian", version: "1.0.0" }
+
+function emptyReport(): ViolationReport {
+    return {
+        violations: [],
+        hardcodeViolations: [],
+        circularDependencyViolations: [],
+        namingViolations: [],
+        frameworkLeakViolations: [],
+        entityExposureViolations: [],
+        dependencyDirectionViolations: [],
+        repositoryPatternViolations: [],
+        aggregateBoundaryViolations: [],
+        secretViolations: [],
+        anemicModelViolations: [],
+        suppressionViolations: [],
+        packageMetricViolations: [],
+        boundedContextViolations: [],
+        publicModuleViolations: [],
+        deadCodeViolations: [],
+        customViolations: [],
+    }
+}
+
+function hardcode(overrides: Partial<HardcodeViolation> = {}): HardcodeViolation {
+    return {
+        rule: RULES.HARDCODED_VALUE,
+        type: HARDCODE_TYPES.MAGIC_NUMBER,
+        value: 3000,
+        file: "src/server.ts",
+        line: 10,
+        column: 20,
+        context: "const timeout = 3000",
+        suggestion: { constantName: "TIMEOUT", location: "src/constants.ts" },
+        severity: SEVERITY_LEVELS.MEDIUM,
+        ...overrides,
+    }
+}
+
+describe("BaselineMatcher", () => {
+    let matcher: BaselineMatcher
+
+    beforeEach(() => {
+        matcher = new BaselineMatcher()
+    })
+
+    describe("create", () => {
+        it("should write one entry per violation with tool info", () => {
+            const report = emptyReport()
+            report.hardcodeViolations = [hardcode()]
+            report.violations = [
+                {
+                    rule: RULES.CLEAN_ARCHITECTURE,
+                    message: 'Layer "domain" cannot import from "infrastructure"',
+                    file: "src/domain/User.ts",
+                    severity: SEVERITY_LEVELS.HIGH,
+                },
+            ]
+
+            const baseline = matcher.create(report, TOOL)
+
+            expect(baseline.schemaVersion).toBe(1)
+            expect(baseline.tool).toEqual(TOOL)
+            expect(baseline.entries).toHaveLength(2)
+            expect(baseline.entries[0]).toMatchObject({
+                rule: RULES.CLEAN_ARCHITECTURE,
+                file: "src/domain/User.ts",
+            })
+            expect(baseline.entries[1]).toMatchObject({
+                rule: RULES.HARDCODED_VALUE,
+                file: "src/server.ts",
+                message: "Hardcoded magic-number 3000",
+            })
+            expect(baseline.entries[1].fingerprint).toMatch(/^[0-9a-f]{64}$/)
+        })
+    })
+
+    describe("compare", () => {
+        it("should hide baselined violations after line shifts", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode()]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.hardcodeViolations = [
+                hardcode({ line: 42, column: 24, context: "    const   timeout = 3000" }),
+            ]
+
+            const comparison = matcher.compare(after, baseline)
+
+            expect(comparison.report.hardcodeViolations).toHaveLength(0)
+            expect(comparison.baselined).toBe(1)
+            expect(comparison.fixed).toHaveLength(0)
+        })
+
+        it("should report violations that are not in the baseline", () => {
+            const baseline = matcher.create(emptyReport(), TOOL)
+            const report = emptyReport()
+            report.hardcodeViolations = [hardcode()]
+
+            const comparison = matcher.compare(report, baseline)
+
+            expect(comparison.report.hardcodeViolations).toEqual(report.hardcodeViolations)
+            expect(comparison.baselined).toBe(0)
+        })
+
+        it("should treat changed context or another file as new", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode()]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.hardcodeViolations = [
+                hardcode({ context: "const retryDelay = 3000" }),
+                hardcode({ file: "src/client.ts" }),
+            ]
+
+            const comparison = matcher.compare(after, baseline)
+
+            expect(comparison.report.hardcodeViolations).toHaveLength(2)
+            expect(comparison.fixed).toHaveLength(1)
+        })
+
+        it("should match duplicate violations one entry at a time", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode()]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.hardcodeViolations = [hardcode(), hardcode({ line: 30 })]
+
+            const comparison = matcher.compare(after, baseline)
+
+            expect(comparison.report.hardcodeViolations).toHaveLength(1)
+            expect(comparison.report.hardcodeViolations[0].line).toBe(30)
+            expect(comparison.baselined).toBe(1)
+        })
+
+        it("should list baseline entries that were fixed", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode(), hardcode({ value: 5000, context: "x = 5000" })]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.hardcodeViolations = [hardcode()]
+
+            const comparison = matcher.compare(after, baseline)
+
+            expect(comparison.fixed).toHaveLength(1)
+            expect(comparison.fixed[0].message).toBe("Hardcoded magic-number 5000")
+        })
+
+        it("should match circular dependencies regardless of cycle order", () => {
+            const cycle = ["src/a.ts", "src/b.ts"]
+            const before = emptyReport()
+            before.circularDependencyViolations = [
+                {
+                    rule: RULES.CIRCULAR_DEPENDENCY,
+                    message: "Circular dependency detected: src/a.ts → src/b.ts → src/a.ts",
+                    file: "src/a.ts",
+                    cycle,
+                    severity: SEVERITY_LEVELS.CRITICAL,
+                },
+            ]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.circularDependencyViolations = [
+                { ...before.circularDependencyViolations[0], cycle: [...cycle].reverse() },
+            ]
+
+            expect(matcher.compare(after, baseline).report.circularDependencyViolations).toEqual([])
+        })
+
+        it("should match package metrics by package when files are added", () => {
+            const before = emptyReport()
+            before.packageMetricViolations = [
+                {
+                    rule: RULES.PACKAGE_METRICS,
+                    file: "src/domain/Order.ts",
+                    package: "domain",
+                    packageFiles: ["src/domain/Order.ts"],
+                    metric: "instability",
+                    value: 0.5,
+                    limit: 0.3,
+                    message: 'Package "domain" has instability 0.5, above the limit of 0.3',
+                    suggestion: "Depend on this package less",
+                    severity: SEVERITY_LEVELS.MEDIUM,
+                },
+            ]
+            const baseline = matcher.create(before, TOOL)
+
+            const after = emptyReport()
+            after.packageMetricViolations = [
+                {
+                    ...before.packageMetricViolations[0],
+                    file: "src/domain/Invoice.ts",
+                    packageFiles: ["src/domain/Invoice.ts", "src/domain/Order.ts"],
+                },
+            ]
+
+            expect(matcher.compare(after, baseline).report.packageMetricViolations).toEqual([])
+        })
+    })
+
+    describe("diff", () => {
+        it("should split violations into appeared and resolved", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode(), hardcode({ value: 5000, context: "x = 5000" })]
+
+            const after = emptyReport()
+            after.hardcodeViolations = [
+                hardcode({ line: 12 }),
+                hardcode({ value: 8080, context: "port = 8080" }),
+            ]
+
+            const { appeared, resolved } = matcher.diff(before, after)
+
+            expect(appeared.hardcodeViolations.map((v) => v.value)).toEqual([8080])
+            expect(resolved.hardcodeViolations.map((v) => v.value)).toEqual([5000])
+        })
+
+        it("should report an added copy of an existing violation", () => {
+            const before = emptyReport()
+            before.hardcodeViolations = [hardcode()]
+
+            const after = emptyReport()
+            after.hardcodeViolations = [hardcode(), hardcode({ line: 40 })]
+
+            const { appeared, resolved } = matcher.diff(before, after)
+
+            expect(appeared.hardcodeViolations).toHaveLength(1)
+            expect(resolved.hardcodeViolations).toHaveLength(0)
+        })
+    })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import * as path from "path"
+import { ContextBoundaryChecker } from "../../../src/application/services/ContextBoundaryChecker"
+import { DependencyGraph } from "../../../src/domain/entities/DependencyGraph"
+import { SourceFile } from "../../../src/domain/entities/SourceFile"
+import type { ImportReference } from "../../../src/domain/services/ICodeParser"
+import type { BoundedContextSettings } from "../../../src/domain/value-objects/GuardianConfig"
+import { ProjectPath } from "../../../src/domain/value-objects/ProjectPath"
+
+const ROOT = path.resolve("/project")
+
+const SETTINGS: Required<BoundedContextSettings> = {
+    contexts: ["contexts/*"],
+    publicApi: ["index.ts"],
+    sharedKernel: ["contexts/shared-kernel/**"],
+}
+
+describe("ContextBoundaryChecker", () => {
+    const checker = new ContextBoundaryChecker()
+    let graph: DependencyGraph
+    let imports: Map<string, ImportReference[]>
+
+    const addImport = (from: string, specifier: string, to: string, line = 1): void => {
+        graph.addDependency(from, to, specifier)
+        imports.set(from, [...(imports.get(from) ?? []), { specifier, line }])
+    }
+
+    beforeEach(() => {
+        graph = new DependencyGraph()
+        imports = new Map()
+        const files = [
+            "contexts/billing/domain/Invoice.ts",
+            "contexts/billing/application/IssueInvoice.ts",
+            "contexts/identity/index.ts",
+            "contexts/identity/domain/entities/User.ts",
+            "contexts/shared-kernel/Money.ts",
+            "contexts/shared-kernel/Audit.ts",
+        ]
+
+        for (const file of files) {
+            graph.addFile(new SourceFile(ProjectPath.create(path.join(ROOT, file), ROOT), ""))
+            imports.set(file, [])
+        }
+    })
+
+    it("should report imports of internal modules of other contexts", () => {
+        addImport(
+            "contexts/billing/domain/Invoice.ts",
+            "../../identity/domain/entities/User",
+            "contexts/identity/domain/entities/User.ts",
+            3,
+        )
+
+        const violations = checker.check(graph, imports, SETTINGS)
+
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({
+            rule: "bounded-context",
+            fromContext: "billing",
+            toContext: "identity",
+            importPath: "../../identity/domain/entities/User",
+            file: "contexts/billing/domain/Invoice.ts",
+            line: 3,
+            chain: [
+                "contexts/billing/domain/Invoice.ts",
+                "contexts/identity/domain/entities/User.ts",
+            ],
+        })
+    })
+
+    it("should allow the public API, the shared kernel and the own context", () => {
+        addImport(
+            "contexts/billing/domain/Invoice.ts",
+            "../../identity",
+            "contexts/identity/index.ts",
+        )
+        addImport(
+            "contexts/billing/domain/Invoice.ts",
+            "../../shared-kernel/Money",
+            "contexts/shared-kernel/Money.ts",
+        )
+        addImport(
+            "contexts/billing/application/IssueInvoice.ts",
+            "../domain/Invoice",
+            "contexts/billing/domain/Invoice.ts",
+        )
+        addImport(
+            "contexts/identity/index.ts",
+            "./domain/entities/User",
+            "contexts/identity/domain/entities/User.ts",
+        )
+
+        expect(checker.check(graph, imports, SETTINGS)).toEqual([])
+    })
+
+    it("should report the import chain through the shared kernel", () => {
+        addImport(
+            "contexts/billing/domain/Invoice.ts",
+            "../../shared-kernel/Money",
+            "contexts/shared-kernel/Money.ts",
+        )
+        addImport("contexts/shared-kernel/Money.ts", "./Audit", "contexts/shared-kernel/Audit.ts")
+        addImport(
+            "contexts/shared-kernel/Audit.ts",
+            "../identity/domain/entities/User",
+            "contexts/identity/domain/entities/User.ts",
+        )
+
+        const violations = checker.check(graph, imports, SETTINGS)
+
+        expect(violations.map((v) => [v.file, v.toContext, v.chain])).toEqual([
+            [
+                "contexts/billing/domain/Invoice.ts",
+                "identity",
+                [
+                    "contexts/billing/domain/Invoice.ts",
+                    "contexts/shared-kernel/Money.ts",
+                    "contexts/shared-kernel/Audit.ts",
+                    "contexts/identity/domain/entities/User.ts",
+                ],
+            ],
+        ])
+    })
+
+    it("should check nothing without configured contexts", () => {
+        addImport(
+            "contexts/billing/domain/Invoice.ts",
+            "../../identity/domain/entities/User",
+            "contexts/identity/domain/entities/User.ts",
+        )
+
+        expect(checker.check(graph, imports, { ...SETTINGS, contexts: [] })).toEqual([])
+    })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import * as path from "path"
+import { DeadCodeChecker } from "../../../src/application/services/DeadCodeChecker"
+import { DependencyGraph } from "../../../src/domain/entities/DependencyGraph"
+import { SourceFile } from "../../../src/domain/entities/SourceFile"
+import type { FileSymbols } from "../../../src/domain/services/ICodeParser"
+import { ProjectPath } from "../../../src/domain/value-objects/ProjectPath"
+
+const ROOT = path.resolve("/project")
+
+describe("DeadCodeChecker", () => {
+    const checker = new DeadCodeChecker()
+    let graph: DependencyGraph
+    let symbols: Map<string, FileSymbols>
+
+    const addFile = (file: string, exports: string[] = []): FileSymbols => {
+        graph.addFile(new SourceFile(ProjectPath.create(path.join(ROOT, file), ROOT), ""))
+        const fileSymbols: FileSymbols = {
+            declarations: [],
+            imports: [],
+            reExports: [],
+            exports: exports.map((name, index) => ({ name, line: index + 1 })),
+        }
+        symbols.set(file, fileSymbols)
+        return fileSymbols
+    }
+
+    const addImport = (from: string, specifier: string, to: string, names: string[]): void => {
+        graph.addDependency(from, to, specifier)
+        symbols
+            .get(from)
+            ?.imports.push(...names.map((name) => ({ local: name, imported: name, specifier })))
+    }
+
+    const check = (entryPoints: string[] = ["index.ts"], configured: string[] = []) =>
+        checker.check(graph, symbols, new Set(entryPoints), { entryPoints: configured })
+
+    beforeEach(() => {
+        graph = new DependencyGraph()
+        symbols = new Map()
+
+        addFile("index.ts", ["run"])
+        addFile("domain/User.ts", ["User", "UserProps"])
+        addFile("domain/LegacyId.ts", ["LegacyId"])
+        addImport("index.ts", "./domain/User", "domain/User.ts", ["User"])
+    })
+
+    it("should report exports nothing imports and files nothing imports", () => {
+        const violations = check()
+
+        expect(violations.map((v) => [v.type, v.file, v.symbol, v.line])).toEqual([
+            ["unused-export", "domain/User.ts", "UserProps", 2],
+            ["orphan-file", "domain/LegacyId.ts", undefined, undefined],
+        ])
+        expect(violations[0]).toMatchObject({ rule: "dead-code", severity: "low" })
+    })
+
+    it("should follow imports through re-exports", () => {
+        const barrel = addFile("domain/index.ts")
+        barrel.reExports.push(
+            { exported: "*", imported: "*", specifier: "./User" },
+            { exported: "Id", imported: "LegacyId", specifier: "./LegacyId" },
+        )
+        graph.addDependency("domain/index.ts", "domain/User.ts", "./User")
+        graph.addDependency("domain/index.ts", "domain/LegacyId.ts", "./LegacyId")
+        addImport("index.ts", "./domain", "domain/index.ts", ["UserProps", "Id"])
+
+        expect(check()).toEqual([])
+    })
+
+    it("should take namespace and side-effect imports as using every export", () => {
+        symbols.get("index.ts")?.imports.push({
+            local: "domain",
+            imported: "*",
+            specifier: "./domain/User",
+        })
+        graph.addDependency("index.ts", "domain/LegacyId.ts", "./domain/LegacyId")
+
+        expect(check()).toEqual([])
+    })
+
+    it("should not report configured and built-in entry points", () => {
+        addFile("scripts/seed.ts", ["seed"])
+        addFile("domain/User.test.ts")
+
+        const violations = check(["index.ts"], ["scripts/**", "domain/LegacyId.ts"])
+
+        expect(violations.map((v) => [v.type, v.file])).toEqual([
+            ["unused-export", "domain/User.ts"],
+        ])
+    })
+
+    it("should take unimported files as entry points when none is known", () => {
+        expect(check([]).map((v) => [v.type, v.file, v.symbol])).toEqual([
+            ["unused-export", "domain/User.ts", "UserProps"],
+        ])
+    })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import * as path from "path"
+import { GraphViewBuilder } from "../../../src/application/services/GraphViewBuilder"
+import { DependencyGraph } from "../../../src/domain/entities/DependencyGraph"
+import { SourceFile } from "../../../src/domain/entities/SourceFile"
+import { GuardianConfig } from "../../../src/domain/value-objects/GuardianConfig"
+import { ProjectPath } from "../../../src/domain/value-objects/ProjectPath"
+
+const ROOT = path.resolve("/project")
+
+function createGraph(files: string[], imports: [string, string][]): DependencyGraph {
+    const graph = new DependencyGraph()
+
+    for (const file of files) {
+        graph.addFile(new SourceFile(ProjectPath.create(path.join(ROOT, file), ROOT), ""))
+    }
+    for (const [from, to] of imports) {
+        graph.addDependency(from, to)
+    }
+
+    return graph
+}
+
+describe("GraphViewBuilder", () => {
+    const builder = new GraphViewBuilder()
+    const config = GuardianConfig.default()
+    let dependencyGraph: DependencyGraph
+
+    beforeEach(() => {
+        dependencyGraph = createGraph(
+            [
+                "domain/Order.ts",
+                "domain/OrderId.ts",
+                "application/PlaceOrder.ts",
+                "application/OrderMapper.ts",
+                "infrastructure/OrderRepository.ts",
+                "main.ts",
+            ],
+            [
+                ["domain/Order.ts", "domain/OrderId.ts"],
+                ["domain/Order.ts", "infrastructure/OrderRepository.ts"],
+                ["application/PlaceOrder.ts", "domain/Order.ts"],
+                ["application/PlaceOrder.ts", "application/OrderMapper.ts"],
+                ["application/OrderMapper.ts", "application/PlaceOrder.ts"],
+                ["application/OrderMapper.ts", "domain/Order.ts"],
+                ["infrastructure/OrderRepository.ts", "domain/Order.ts"],
+                ["main.ts", "application/PlaceOrder.ts"],
+            ],
+        )
+    })
+
+    it("should export files with cycle and layer violation edges", () => {
+        const view = builder.build({ dependencyGraph, config })
+
+        expect(view.level).toBe("file")
+        expect(view.nodes).toContainEqual({ id: "domain/Order.ts", layer: "domain", files: 1 })
+        expect(view.nodes).toContainEqual({ id: "main.ts", files: 1 })
+        expect(view.edges).toHaveLength(8)
+        expect(view.edges).toContainEqual({
+            from: "domain/Order.ts",
+            to: "infrastructure/OrderRepository.ts",
+            imports: 1,
+            cycle: true,
+            layerViolation: true,
+        })
+        expect(view.edges).toContainEqual({
+            from: "application/OrderMapper.ts",
+            to: "application/PlaceOrder.ts",
+            imports: 1,
+            cycle: true,
+            layerViolation: false,
+        })
+        expect(view.edges).toContainEqual({
+            from: "main.ts",
+            to: "application/PlaceOrder.ts",
+            imports: 1,
+            cycle: false,
+            layerViolation: false,
+        })
+    })
+
+    it("should sort nodes and edges", () => {
+        const view = builder.build({ dependencyGraph, config })
+
+        expect(view.nodes.map((node) => node.id)).toEqual(
+            [...view.nodes.map((node) => node.id)].sort(),
+        )
+        expect(view.edges[0]).toMatchObject({
+            from: "application/OrderMapper.ts",
+            to: "application/PlaceOrder.ts",
+        })
+    })
+
+    it("should merge files of a folder and count their imports", () => {
+        const view = builder.build({ dependencyGraph, config }, { level: "folder" })
+
+        expect(view.nodes).toEqual([
+            { id: ".", files: 1 },
+            { id: "application", layer: "application", files: 2 },
+            { id: "domain", layer: "domain", files: 2 },
+            { id: "infrastructure", layer: "infrastructure", files: 1 },
+        ])
+        expect(view.edges).toContainEqual({
+            from: "application",
+            to: "domain",
+            imports: 2,
+            cycle: false,
+            layerViolation: false,
+        })
+        expect(view.edges.some((edge) => edge.from === edge.to)).toBe(false)
+    })
+
+    it("should merge files of a layer and leave out files without one", () => {
+        const view = builder.build({ dependencyGraph, config }, { level: "layer" })
+
+        expect(view.nodes.map((node) => node.id)).toEqual([
+            "application",
+            "domain",
+            "infrastructure",
+        ])
+        expect(view.edges).toEqual([
+            {
+                from: "application",
+                to: "domain",
+                imports: 2,
+                cycle: false,
+                layerViolation: false,
+            },
+            { from: "domain", to: "infrastructure", imports: 1, cycle: true, layerViolation: true },
+            {
+                from: "infrastructure",
+                to: "domain",
+                imports: 1,
+                cycle: true,
+                layerViolation: false,
+            },
+        ])
+    })
+
+    it("should limit the graph to a directory", () => {
+        const view = builder.build({ dependencyGraph, config }, { root: "domain" })
+
+        expect(view.nodes.map((node) => node.id)).toEqual(["domain/Order.ts", "domain/OrderId.ts"])
+        expect(view.edges).toHaveLength(1)
+    })
+
+    it("should limit the graph to the neighbourhood of a file", () => {
+        const direct = builder.build({ dependencyGraph, config }, { focus: "main.ts" })
+        const twoSteps = builder.build(
+            { dependencyGraph, config },
+            { focus: path.join(ROOT, "main.ts"), depth: 2 },
+        )
+
+        expect(direct.nodes.map((node) => node.id)).toEqual([
+            "application/PlaceOrder.ts",
+            "main.ts",
+        ])
+        expect(twoSteps.nodes.map((node) => node.id)).toEqual([
+            "application/OrderMapper.ts",
+            "application/PlaceOrder.ts",
+            "domain/Order.ts",
+            "main.ts",
+        ])
+    })
+
+    it("should fail for a focus file outside the graph", () => {
+        expect(() => builder.build({ dependencyGraph, config }, { focus: "missing.ts" })).toThrow(
+            'File is not part of the dependency graph "missing.ts"',
+        )
+    })
+
+    it("should fail for a directory without analyzed files", () => {
+        expect(() => builder.build({ dependencyGraph, config }, { root: "presentation" })).toThrow(
+            'No analyzed files under "presentation"',
+        )
+    })
+})
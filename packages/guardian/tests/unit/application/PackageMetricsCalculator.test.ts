@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import * as path from "path"
+import { PackageMetricsCalculator } from "../../../src/application/services/PackageMetricsCalculator"
+import { DependencyGraph } from "../../../src/domain/entities/DependencyGraph"
+import { SourceFile } from "../../../src/domain/entities/SourceFile"
+import type { TypeCounts } from "../../../src/domain/services/ICodeParser"
+import { ProjectPath } from "../../../src/domain/value-objects/ProjectPath"
+
+const ROOT = path.resolve("/project")
+
+describe("PackageMetricsCalculator", () => {
+    const calculator = new PackageMetricsCalculator()
+    let graph: DependencyGraph
+    let typeCounts: Map<string, TypeCounts>
+
+    beforeEach(() => {
+        graph = new DependencyGraph()
+        const files = [
+            "domain/Order.ts",
+            "domain/OrderRepository.ts",
+            "application/PlaceOrder.ts",
+            "infrastructure/SqlOrderRepository.ts",
+            "infrastructure/http/OrderController.ts",
+        ]
+
+        for (const file of files) {
+            graph.addFile(new SourceFile(ProjectPath.create(path.join(ROOT, file), ROOT), ""))
+        }
+        graph.addDependency("domain/Order.ts", "domain/OrderRepository.ts")
+        graph.addDependency("application/PlaceOrder.ts", "domain/Order.ts")
+        graph.addDependency("application/PlaceOrder.ts", "domain/OrderRepository.ts")
+        graph.addDependency("infrastructure/SqlOrderRepository.ts", "domain/OrderRepository.ts")
+        graph.addDependency("infrastructure/http/OrderController.ts", "application/PlaceOrder.ts")
+
+        typeCounts = new Map([
+            ["domain/Order.ts", { total: 1, abstract: 0 }],
+            ["domain/OrderRepository.ts", { total: 1, abstract: 1 }],
+            ["application/PlaceOrder.ts", { total: 1, abstract: 0 }],
+            ["infrastructure/SqlOrderRepository.ts", { total: 1, abstract: 0 }],
+        ])
+    })
+
+    it("should compute the metrics of every layer", () => {
+        const packages = calculator.calculate(graph, typeCounts, "layer")
+
+        expect(packages).toEqual([
+            {
+                name: "application",
+                files: 1,
+                afferentCoupling: 1,
+                efferentCoupling: 2,
+                instability: 0.67,
+                abstractness: 0,
+                distance: 0.33,
+            },
+            {
+                name: "domain",
+                files: 2,
+                afferentCoupling: 2,
+                efferentCoupling: 0,
+                instability: 0,
+                abstractness: 0.5,
+                distance: 0.5,
+            },
+            {
+                name: "infrastructure",
+                files: 2,
+                afferentCoupling: 0,
+                efferentCoupling: 2,
+                instability: 1,
+                abstractness: 0,
+                distance: 0,
+            },
+        ])
+    })
+
+    it("should group files by directory on the folder level", () => {
+        const packages = calculator.calculate(graph, typeCounts, "folder")
+
+        expect(packages.map((metrics) => metrics.name)).toEqual([
+            "application",
+            "domain",
+            "infrastructure",
+            "infrastructure/http",
+        ])
+        expect(packages.find((metrics) => metrics.name === "infrastructure/http")).toMatchObject({
+            files: 1,
+            efferentCoupling: 1,
+            abstractness: 0,
+        })
+    })
+
+    it("should report every limit a matching package does not keep", () => {
+        const packages = calculator.calculate(graph, typeCounts, "layer")
+
+        const violations = calculator.check(
+            graph,
+            packages,
+            {
+                domain: { maxInstability: 0.3, minAbstractness: 0.6 },
+                "{application,infrastructure}": { maxDistance: 0.2 },
+            },
+            "layer",
+        )
+
+        expect(
+            violations.map(({ file, metric, value, limit }) => ({ file, metric, value, limit })),
+        ).toEqual([
+            { file: "application/PlaceOrder.ts", metric: "distance", value: 0.33, limit: 0.2 },
+            { file: "domain/Order.ts", metric: "abstractness", value: 0.5, limit: 0.6 },
+        ])
+        expect(violations[1]).toMatchObject({
+            rule: "package-metrics",
+            package: "domain",
+            packageFiles: ["domain/Order.ts", "domain/OrderRepository.ts"],
+            message: 'Package "domain" has abstractness 0.5, below the limit of 0.6',
+            severity: "medium",
+        })
+    })
+})
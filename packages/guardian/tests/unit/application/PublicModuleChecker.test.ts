@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import * as path from "path"
+import { PublicModuleChecker } from "../../../src/application/services/PublicModuleChecker"
+import { DependencyGraph } from "../../../src/domain/entities/DependencyGraph"
+import { SourceFile } from "../../../src/domain/entities/SourceFile"
+import { SymbolTable } from "../../../src/domain/entities/SymbolTable"
+import type { FileSymbols, ImportReference } from "../../../src/domain/services/ICodeParser"
+import { ProjectPath } from "../../../src/domain/value-objects/ProjectPath"
+
+const ROOT = path.resolve("/project")
+const MARKER = "// guardian-public-module\nexport * from './internal/calc'\n"
+
+describe("PublicModuleChecker", () => {
+    const checker = new PublicModuleChecker()
+    let graph: DependencyGraph
+    let sourceFiles: SourceFile[]
+    let imports: Map<string, ImportReference[]>
+    let symbolTable: SymbolTable
+
+    const addSymbols = (file: string, symbols: Partial<FileSymbols>): void => {
+        symbolTable.addFile(file, {
+            declarations: [],
+            imports: [],
+            reExports: [],
+            exports: [],
+            ...symbols,
+        })
+    }
+
+    const addFile = (file: string, content = ""): void => {
+        const sourceFile = new SourceFile(ProjectPath.create(path.join(ROOT, file), ROOT), content)
+        graph.addFile(sourceFile)
+        sourceFiles.push(sourceFile)
+        imports.set(file, [])
+    }
+
+    const addImport = (from: string, specifier: string, to: string, line = 1): void => {
+        graph.addDependency(from, to, specifier)
+        imports.set(from, [
+            ...(imports.get(from) ?? []),
+            { specifier, line, kind: "import", isTypeOnly: false },
+        ])
+    }
+
+    beforeEach(() => {
+        graph = new DependencyGraph()
+        sourceFiles = []
+        imports = new Map()
+        symbolTable = new SymbolTable((from, specifier) => graph.resolveImport(from, specifier))
+
+        addFile("src/billing/index.ts", MARKER)
+        addFile("src/billing/internal/calc.ts")
+        addFile("src/billing/Invoice.ts")
+        addFile("src/orders/Order.ts")
+    })
+
+    it("should report deep imports into a public module with the index to import", () => {
+        addImport(
+            "src/orders/Order.ts",
+            "../billing/internal/calc",
+            "src/billing/internal/calc.ts",
+            4,
+        )
+
+        const violations = checker.check(sourceFiles, graph, imports, symbolTable)
+
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({
+            rule: "public-module",
+            module: "src/billing",
+            importPath: "../billing/internal/calc",
+            suggestedImport: "../billing",
+            file: "src/orders/Order.ts",
+            line: 4,
+        })
+        expect(violations[0].suggestion).toContain('"../billing"')
+    })
+
+    it("should allow the index and imports inside the module", () => {
+        addImport("src/orders/Order.ts", "../billing", "src/billing/index.ts")
+        addImport("src/billing/Invoice.ts", "./internal/calc", "src/billing/internal/calc.ts")
+
+        expect(checker.check(sourceFiles, graph, imports, symbolTable)).toEqual([])
+    })
+
+    it("should ignore folders whose index is not marked", () => {
+        addFile("src/shipping/index.ts", "export * from './Parcel'\n")
+        addFile("src/shipping/Parcel.ts")
+        addImport("src/orders/Order.ts", "../shipping/Parcel", "src/shipping/Parcel.ts")
+
+        expect(checker.check(sourceFiles, graph, imports, symbolTable)).toEqual([])
+    })
+
+    it("should check nested modules against the outermost one outside the importer", () => {
+        addFile("src/billing/tax/index.ts", MARKER)
+        addFile("src/billing/tax/rates.ts")
+        addImport("src/orders/Order.ts", "../billing/tax/rates", "src/billing/tax/rates.ts")
+        addImport("src/billing/Invoice.ts", "./tax/rates", "src/billing/tax/rates.ts")
+
+        const violations = checker.check(sourceFiles, graph, imports, symbolTable)
+
+        expect(violations.map((v) => [v.file, v.module, v.suggestedImport])).toEqual([
+            ["src/billing/Invoice.ts", "src/billing/tax", "./tax"],
+            ["src/orders/Order.ts", "src/billing", "../billing"],
+        ])
+    })
+
+    it("should keep the extension of ES module specifiers", () => {
+        addImport(
+            "src/orders/Order.ts",
+            "../billing/internal/calc.js",
+            "src/billing/internal/calc.ts",
+        )
+
+        const [violation] = checker.check(sourceFiles, graph, imports, symbolTable)
+
+        expect(violation.suggestedImport).toBe("../billing/index.js")
+    })
+
+    it("should list the imported names the index does not export as the same declaration", () => {
+        addFile("src/billing/internal/rate.ts")
+        graph.addDependency(
+            "src/billing/index.ts",
+            "src/billing/internal/calc.ts",
+            "./internal/calc",
+        )
+        addSymbols("src/billing/index.ts", {
+            reExports: [{ exported: "*", imported: "*", specifier: "./internal/calc" }],
+            exports: [{ name: "rate", line: 3 }],
+        })
+        addSymbols("src/billing/internal/calc.ts", {
+            exports: [
+                { name: "total", line: 1 },
+                { name: "default", line: 2 },
+            ],
+        })
+        addSymbols("src/billing/internal/rate.ts", { exports: [{ name: "rate", line: 1 }] })
+        addSymbols("src/orders/Order.ts", {
+            imports: [
+                { local: "total", imported: "total", specifier: "../billing/internal/calc" },
+                { local: "calc", imported: "default", specifier: "../billing/internal/calc" },
+                { local: "rate", imported: "rate", specifier: "../billing/internal/rate" },
+                { local: "billing", imported: "*", specifier: "../billing/Invoice" },
+            ],
+        })
+        addImport("src/orders/Order.ts", "../billing/internal/calc", "src/billing/internal/calc.ts")
+        addImport("src/orders/Order.ts", "../billing/internal/rate", "src/billing/internal/rate.ts")
+        addImport("src/orders/Order.ts", "../billing/Invoice", "src/billing/Invoice.ts")
+        addImport(
+            "src/orders/Order.ts",
+            "../billing/internal/setup",
+            "src/billing/internal/calc.ts",
+        )
+
+        const violations = checker.check(sourceFiles, graph, imports, symbolTable)
+
+        expect(violations.map((v) => [v.importPath, v.unexportedNames])).toEqual([
+            ["../billing/internal/calc", ["default"]],
+            ["../billing/internal/rate", ["rate"]],
+            ["../billing/Invoice", ["*"]],
+            ["../billing/internal/setup", ["*"]],
+        ])
+    })
+})
@@ -39,6 +39,30 @@ describe("DependencyGraph", () => {
             expect(node2?.dependents).toContain("src/file1.ts")
         })
 
+        it("should remember which file an import resolved to", () => {
+            const graph = new DependencyGraph()
+            const path1 = ProjectPath.create("/project/src/file1.ts", "/project")
+            const path2 = ProjectPath.create("/project/src/file2.ts", "/project")
+
+            graph.addFile(new SourceFile(path1, "import { x } from './file2.js'"))
+            graph.addFile(new SourceFile(path2, "export const x = 1"))
+            graph.addDependency("src/file1.ts", "src/file2.ts", "./file2.js")
+
+            expect(graph.resolveImport("src/file1.ts", "./file2.js")).toBe("src/file2.ts")
+            expect(graph.resolveImport("src/file1.ts", "./other")).toBeUndefined()
+        })
+
+        it("should ignore dependencies on files outside the graph", () => {
+            const graph = new DependencyGraph()
+            const path1 = ProjectPath.create("/project/src/file1.ts", "/project")
+
+            graph.addFile(new SourceFile(path1, "import express from 'express'"))
+            graph.addDependency("src/file1.ts", "express", "express")
+
+            expect(graph.getNode("src/file1.ts")?.dependencies).toHaveLength(0)
+            expect(graph.resolveImport("src/file1.ts", "express")).toBeUndefined()
+        })
+
         it("should get metrics", () => {
             const graph = new DependencyGraph()
             const path1 = ProjectPath.create("/project/src/file1.ts", "/project")
@@ -56,6 +80,41 @@ describe("DependencyGraph", () => {
         })
     })
 
+    describe("getPackageCoupling", () => {
+        it("should count files outside a package on either side of its imports", () => {
+            const graph = new DependencyGraph()
+            const files = ["domain/Order.ts", "domain/OrderId.ts", "app/PlaceOrder.ts", "main.ts"]
+
+            for (const file of files) {
+                graph.addFile(
+                    new SourceFile(ProjectPath.create(`/project/${file}`, "/project"), ""),
+                )
+            }
+            graph.addDependency("domain/Order.ts", "domain/OrderId.ts")
+            graph.addDependency("app/PlaceOrder.ts", "domain/Order.ts")
+            graph.addDependency("app/PlaceOrder.ts", "domain/OrderId.ts")
+            graph.addDependency("main.ts", "app/PlaceOrder.ts")
+
+            const coupling = graph.getPackageCoupling((file) =>
+                file.path.relative.startsWith("main")
+                    ? undefined
+                    : file.path.relative.split("/")[0],
+            )
+
+            expect([...coupling.keys()]).toEqual(["domain", "app"])
+            expect(coupling.get("domain")).toEqual({
+                files: ["domain/Order.ts", "domain/OrderId.ts"],
+                afferent: 1,
+                efferent: 0,
+            })
+            expect(coupling.get("app")).toEqual({
+                files: ["app/PlaceOrder.ts"],
+                afferent: 1,
+                efferent: 2,
+            })
+        })
+    })
+
     describe("findCycles", () => {
         it("should return empty array when no cycles exist", () => {
             const graph = new DependencyGraph()
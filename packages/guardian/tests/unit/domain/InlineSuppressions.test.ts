@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest"
+import { InlineSuppressions } from "../../../src/domain/value-objects/InlineSuppressions"
+
+describe("InlineSuppressions", () => {
+    describe("parse", () => {
+        it("should parse next-line comments with rules and reason", () => {
+            const suppressions = InlineSuppressions.parse(
+                "// guardian-disable-next-line hardcoded-value -- port is fixed by the spec\n" +
+                    "const port = 8080\n",
+            )
+
+            expect(suppressions.directives).toEqual([
+                {
+                    kind: "disable-next-line",
+                    rules: ["hardcoded-value"],
+                    line: 1,
+                    targetLine: 2,
+                    reason: "port is fixed by the spec",
+                    text: "guardian-disable-next-line hardcoded-value -- port is fixed by the spec",
+                },
+            ])
+        })
+
+        it("should parse trailing disable-line comments", () => {
+            const suppressions = InlineSuppressions.parse(
+                "const a = 1\nconst timeout = 5000 // guardian-disable-line hardcoded-value\n",
+            )
+
+            expect(suppressions.directives[0]).toMatchObject({
+                kind: "disable-line",
+                line: 2,
+                targetLine: 2,
+                reason: undefined,
+            })
+        })
+
+        it("should parse file-level block comments", () => {
+            const suppressions = InlineSuppressions.parse(
+                "/* guardian-disable anemic-model, naming-convention -- legacy DTO */\n",
+            )
+
+            expect(suppressions.directives[0]).toMatchObject({
+                kind: "disable",
+                rules: ["anemic-model", "naming-convention"],
+                targetLine: undefined,
+                reason: "legacy DTO",
+                text: "guardian-disable anemic-model, naming-convention -- legacy DTO",
+            })
+        })
+
+        it("should treat a comment without rules as suppressing every rule", () => {
+            const suppressions = InlineSuppressions.parse("// guardian-disable-next-line\nx()\n")
+
+            expect(suppressions.directives[0].rules).toEqual([])
+            expect(suppressions.findDirective("secret-exposure", 2)).toBeDefined()
+        })
+
+        it("should ignore unrelated comments", () => {
+            const suppressions = InlineSuppressions.parse(
+                "// eslint-disable-next-line\n// guardian-disabled-feature\nconst a = 1\n",
+            )
+
+            expect(suppressions.directives).toHaveLength(0)
+        })
+
+        it("should ignore directives inside strings and template literals", () => {
+            const suppressions = InlineSuppressions.parse(
+                [
+                    'const banner = "// guardian-disable hardcoded-value"',
+                    "const help = `",
+                    "    // guardian-disable-next-line",
+                    "`",
+                    "const note = 'it\\'s /* guardian-disable */'",
+                    'const url = "http://localhost" // guardian-disable-line hardcoded-value',
+                ].join("\n"),
+            )
+
+            expect(suppressions.directives).toEqual([
+                expect.objectContaining({ kind: "disable-line", line: 6, targetLine: 6 }),
+            ])
+        })
+    })
+
+    describe("findDirective", () => {
+        const suppressions = InlineSuppressions.parse(
+            [
+                "/* guardian-disable anemic-model */",
+                "// guardian-disable-next-line hardcoded-value",
+                "const port = 8080",
+                "const host = 'localhost' // guardian-disable-line hardcoded-value secret-exposure",
+            ].join("\n"),
+        )
+
+        it("should match line directives by rule and line", () => {
+            expect(suppressions.findDirective("hardcoded-value", 3)?.kind).toBe("disable-next-line")
+            expect(suppressions.findDirective("secret-exposure", 4)?.kind).toBe("disable-line")
+            expect(suppressions.findDirective("hardcoded-value", 5)).toBeUndefined()
+            expect(suppressions.findDirective("naming-convention", 3)).toBeUndefined()
+        })
+
+        it("should match file-level directives on any line or without one", () => {
+            expect(suppressions.findDirective("anemic-model", 42)?.kind).toBe("disable")
+            expect(suppressions.findDirective("anemic-model")?.kind).toBe("disable")
+        })
+
+        it("should not match line directives without a line", () => {
+            expect(suppressions.findDirective("hardcoded-value")).toBeUndefined()
+        })
+    })
+})
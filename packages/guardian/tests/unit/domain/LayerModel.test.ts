@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest"
+import { LayerModel } from "../../../src/domain/value-objects/LayerModel"
+import { LAYERS } from "../../../src/shared/constants/rules"
+
+describe("LayerModel", () => {
+    describe("default model", () => {
+        const model = LayerModel.default()
+
+        it("should detect built-in layers by path segment", () => {
+            expect(model.detectLayer("src/domain/entities/User.ts")).toBe(LAYERS.DOMAIN)
+            expect(model.detectLayer("application/use-cases/CreateUser.ts")).toBe(
+                LAYERS.APPLICATION,
+            )
+            expect(model.detectLayer("src/infrastructure/db/Repo.ts")).toBe(LAYERS.INFRASTRUCTURE)
+            expect(model.detectLayer("src/shared/utils/helpers.ts")).toBe(LAYERS.SHARED)
+        })
+
+        it("should not match partial segment names", () => {
+            expect(model.detectLayer("src/shared-ui/Button.ts")).toBeUndefined()
+            expect(model.detectLayer("src/domainEvents/UserCreated.ts")).toBeUndefined()
+        })
+
+        it("should match case-insensitively", () => {
+            expect(model.detectLayer("src/Domain/User.ts")).toBe(LAYERS.DOMAIN)
+        })
+
+        it("should apply the built-in dependency matrix", () => {
+            expect(model.canDependOn(LAYERS.DOMAIN, LAYERS.SHARED)).toBe(true)
+            expect(model.canDependOn(LAYERS.DOMAIN, LAYERS.INFRASTRUCTURE)).toBe(false)
+            expect(model.canDependOn(LAYERS.APPLICATION, LAYERS.DOMAIN)).toBe(true)
+            expect(model.canDependOn(LAYERS.APPLICATION, LAYERS.INFRASTRUCTURE)).toBe(false)
+        })
+    })
+
+    describe("custom model", () => {
+        const model = LayerModel.create([
+            { name: "core", patterns: ["**/core/**", "src/model/*.ts"], mayDependOn: [] },
+            { name: "adapters", patterns: ["**/adapters/**"], mayDependOn: ["core"] },
+        ])
+
+        it("should expose layer names in definition order", () => {
+            expect(model.layerNames).toEqual(["core", "adapters"])
+            expect(model.hasLayer("core")).toBe(true)
+            expect(model.hasLayer(LAYERS.DOMAIN)).toBe(false)
+        })
+
+        it("should detect layers from any of their patterns", () => {
+            expect(model.detectLayer("src/core/Order.ts")).toBe("core")
+            expect(model.detectLayer("src/model/Order.ts")).toBe("core")
+            expect(model.detectLayer("src/model/nested/Order.ts")).toBeUndefined()
+            expect(model.detectLayer("src/domain/Order.ts")).toBeUndefined()
+        })
+
+        it("should resolve relative imports against the importing file", () => {
+            expect(model.detectImportLayer("../adapters/Db", "src/core/Order.ts")).toBe("adapters")
+            expect(model.detectImportLayer("./Customer", "src/core/Order.ts")).toBe("core")
+            expect(model.detectImportLayer("lodash", "src/core/Order.ts")).toBeUndefined()
+        })
+
+        it("should use the configured dependency matrix", () => {
+            expect(model.canDependOn("core", "core")).toBe(true)
+            expect(model.canDependOn("core", "adapters")).toBe(false)
+            expect(model.canDependOn("adapters", "core")).toBe(true)
+        })
+
+        it("should not restrict layers outside the model", () => {
+            expect(model.canDependOn("unknown", "core")).toBe(true)
+        })
+
+        it("should allow type-only imports of the layers listed for them", () => {
+            const typed = LayerModel.create([
+                { name: "core", patterns: ["**/core/**"], mayDependOn: [] },
+                {
+                    name: "use-cases",
+                    patterns: ["**/use-cases/**"],
+                    mayDependOn: ["core"],
+                    mayImportTypesFrom: ["adapters"],
+                },
+                { name: "adapters", patterns: ["**/adapters/**"], mayDependOn: ["core"] },
+            ])
+
+            expect(typed.canDependOn("use-cases", "adapters", true)).toBe(true)
+            expect(typed.canDependOn("use-cases", "adapters")).toBe(false)
+            expect(typed.canDependOn("core", "adapters", true)).toBe(false)
+        })
+    })
+})
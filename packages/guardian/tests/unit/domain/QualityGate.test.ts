@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest"
+import { type GateViolation, QualityGate } from "../../../src/domain/value-objects/QualityGate"
+
+const secret: GateViolation = { rule: "secret-exposure", severity: "critical" }
+const magicString: GateViolation = {
+    rule: "hardcoded-value",
+    severity: "medium",
+    type: "magic-string",
+}
+const magicNumber: GateViolation = {
+    rule: "hardcoded-value",
+    severity: "low",
+    type: "magic-number",
+}
+const naming: GateViolation = {
+    rule: "naming-convention",
+    severity: "medium",
+    type: "wrong-suffix",
+}
+
+describe("QualityGate", () => {
+    describe("default", () => {
+        it("should fail on any violation", () => {
+            const result = QualityGate.default().evaluate([magicNumber])
+
+            expect(result.passed).toBe(false)
+            expect(result.failOn).toBe("low")
+            expect(result.failures).toEqual([{ kind: "severity", target: "low", count: 1, max: 0 }])
+        })
+
+        it("should pass without violations", () => {
+            expect(QualityGate.default().evaluate([]).passed).toBe(true)
+        })
+    })
+
+    describe("failOn", () => {
+        it("should ignore violations below the failOn severity", () => {
+            const gate = QualityGate.create("high")
+
+            expect(gate.evaluate([magicString, magicNumber, naming]).passed).toBe(true)
+            expect(gate.evaluate([magicString, secret]).failures).toEqual([
+                { kind: "severity", target: "high", count: 1, max: 0 },
+            ])
+        })
+
+        it("should be replaceable with withFailOn", () => {
+            const gate = QualityGate.create("low", { "secret-exposure": 0 }).withFailOn("critical")
+
+            expect(gate.failOn).toBe("critical")
+            expect(gate.maxViolations.get("secret-exposure")).toBe(0)
+        })
+    })
+
+    describe("maxViolations", () => {
+        it("should allow violations up to the threshold", () => {
+            const gate = QualityGate.create("low", { "magic-string": 2 })
+
+            expect(gate.evaluate([magicString, magicString]).passed).toBe(true)
+            expect(gate.evaluate([magicString, magicString, magicString]).failures).toEqual([
+                { kind: "threshold", target: "magic-string", count: 3, max: 2 },
+            ])
+        })
+
+        it("should fail on any violation of a rule with threshold 0", () => {
+            const gate = QualityGate.create("critical", { "secret-exposure": 0 })
+
+            const result = gate.evaluate([secret])
+
+            expect(result.failures).toEqual([
+                { kind: "threshold", target: "secret-exposure", count: 1, max: 0 },
+            ])
+        })
+
+        it("should prefer hardcode type thresholds over the hardcoded-value rule", () => {
+            const gate = QualityGate.create("critical", {
+                "hardcoded-value": 1,
+                "magic-string": 5,
+            })
+
+            expect(gate.evaluate([magicString, magicString, magicNumber]).passed).toBe(true)
+            expect(gate.evaluate([magicNumber, magicNumber]).failures).toEqual([
+                { kind: "threshold", target: "hardcoded-value", count: 2, max: 1 },
+            ])
+        })
+
+        it("should not match other rules' types against hardcode thresholds", () => {
+            const gate = QualityGate.create("critical", { "magic-string": 0 })
+
+            expect(gate.evaluate([naming]).passed).toBe(true)
+        })
+
+        it("should report threshold and severity failures together", () => {
+            const gate = QualityGate.create("medium", { "magic-string": 0 })
+
+            const result = gate.evaluate([magicString, naming])
+
+            expect(result.passed).toBe(false)
+            expect(result.failures).toHaveLength(2)
+        })
+    })
+})
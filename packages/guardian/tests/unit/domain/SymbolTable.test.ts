@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { SymbolTable } from "../../../src/domain/entities/SymbolTable"
+
+describe("SymbolTable", () => {
+    let table: SymbolTable
+
+    beforeEach(() => {
+        const imports = new Map([
+            ["controllers/UserController.ts\0../domain", "domain/index.ts"],
+            ["controllers/UserController.ts\0../views", "views.ts"],
+            ["controllers/UserController.ts\0express", "missing"],
+            ["domain/index.ts\0./entities/User", "domain/entities/User.ts"],
+            ["domain/index.ts\0./entities/Order", "domain/entities/Order.ts"],
+            ["views.ts\0./domain/entities/User", "domain/entities/User.ts"],
+        ])
+        table = new SymbolTable((from, specifier) => imports.get(`${from}\0${specifier}`))
+
+        table.addFile("domain/entities/User.ts", {
+            declarations: [{ name: "User", line: 3, references: [] }],
+            imports: [],
+            reExports: [],
+            exports: [],
+        })
+        table.addFile("domain/entities/Order.ts", {
+            declarations: [{ name: "Order", line: 1, references: [] }],
+            imports: [],
+            reExports: [],
+            exports: [],
+        })
+        table.addFile("domain/index.ts", {
+            declarations: [],
+            imports: [],
+            reExports: [
+                { exported: "*", imported: "*", specifier: "./entities/User" },
+                { exported: "Purchase", imported: "Order", specifier: "./entities/Order" },
+            ],
+            exports: [],
+        })
+        table.addFile("views.ts", {
+            declarations: [
+                { name: "UserView", line: 4, references: ["User", "Loop"] },
+                { name: "Loop", line: 5, references: ["UserView"] },
+            ],
+            imports: [{ local: "User", imported: "User", specifier: "./domain/entities/User" }],
+            reExports: [],
+            exports: [],
+        })
+        table.addFile("controllers/UserController.ts", {
+            declarations: [{ name: "UserResponse", line: 2, references: [] }],
+            imports: [
+                { local: "Member", imported: "User", specifier: "../domain" },
+                { local: "Purchase", imported: "Purchase", specifier: "../domain" },
+                { local: "domain", imported: "*", specifier: "../domain" },
+                { local: "UserView", imported: "UserView", specifier: "../views" },
+                { local: "Request", imported: "Request", specifier: "express" },
+            ],
+            reExports: [],
+            exports: [],
+        })
+    })
+
+    const resolve = (name: string): string[] =>
+        table
+            .resolveType("controllers/UserController.ts", name)
+            .map((declared) => `${declared.file}#${declared.name}`)
+
+    it("should resolve names declared in the file itself", () => {
+        expect(resolve("UserResponse")).toEqual(["controllers/UserController.ts#UserResponse"])
+    })
+
+    it("should follow aliased imports through re-exports", () => {
+        expect(resolve("Member")).toEqual(["domain/entities/User.ts#User"])
+        expect(resolve("Purchase")).toEqual(["domain/entities/Order.ts#Order"])
+    })
+
+    it("should resolve members of namespace imports", () => {
+        expect(resolve("domain.User")).toEqual(["domain/entities/User.ts#User"])
+        expect(resolve("domain")).toEqual([])
+    })
+
+    it("should expand type aliases declared in other files", () => {
+        expect(resolve("UserView")).toEqual(["domain/entities/User.ts#User"])
+    })
+
+    it("should not resolve names declared outside the project", () => {
+        expect(resolve("Request")).toEqual([])
+        expect(resolve("Unknown")).toEqual([])
+    })
+
+    describe("resolveExternal", () => {
+        beforeEach(() => {
+            const imports = new Map([
+                ["domain/User.ts\0../shared/orm", "shared/orm.ts"],
+                ["domain/User.ts\0../shared", "shared/index.ts"],
+                ["shared/index.ts\0./orm", "shared/orm.ts"],
+            ])
+            table = new SymbolTable((from, specifier) => imports.get(`${from}\0${specifier}`))
+
+            table.addFile("shared/orm.ts", {
+                declarations: [],
+                imports: [{ local: "Model", imported: "Model", specifier: "sequelize" }],
+                reExports: [
+                    { exported: "Table", imported: "Entity", specifier: "typeorm" },
+                    { exported: "*", imported: "*", specifier: "class-validator" },
+                ],
+                exports: [],
+            })
+            table.addFile("shared/index.ts", {
+                declarations: [],
+                imports: [],
+                reExports: [{ exported: "*", imported: "*", specifier: "./orm" }],
+                exports: [],
+            })
+            table.addFile("domain/User.ts", {
+                declarations: [{ name: "Email", line: 2, references: [] }],
+                imports: [
+                    { local: "Injectable", imported: "Injectable", specifier: "@nestjs/common" },
+                    { local: "Table", imported: "Table", specifier: "../shared/orm" },
+                    { local: "Model", imported: "Model", specifier: "../shared" },
+                    { local: "IsEmail", imported: "IsEmail", specifier: "../shared" },
+                    { local: "orm", imported: "*", specifier: "typeorm" },
+                    { local: "Missing", imported: "Missing", specifier: "./Missing" },
+                ],
+                reExports: [],
+                exports: [],
+            })
+        })
+
+        const resolveExternal = (name: string): string | undefined => {
+            const external = table.resolveExternal("domain/User.ts", name)
+            return external && `${external.specifier}#${external.name}`
+        }
+
+        it("should return the package of names imported from it", () => {
+            expect(resolveExternal("Injectable")).toBe("@nestjs/common#Injectable")
+            expect(resolveExternal("orm.Column")).toBe("typeorm#Column")
+        })
+
+        it("should follow re-exports of project files to the package", () => {
+            expect(resolveExternal("Table")).toBe("typeorm#Entity")
+            expect(resolveExternal("Model")).toBe("sequelize#Model")
+            expect(resolveExternal("IsEmail")).toBe("class-validator#IsEmail")
+        })
+
+        it("should not resolve project and unknown names", () => {
+            expect(resolveExternal("Email")).toBeUndefined()
+            expect(resolveExternal("Missing")).toBeUndefined()
+            expect(resolveExternal("Unknown")).toBeUndefined()
+        })
+    })
+})
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { CodeParser } from "../../../src/infrastructure/parsers/CodeParser"
+
+describe("CodeParser", () => {
+    let parser: CodeParser
+
+    beforeEach(() => {
+        parser = new CodeParser()
+    })
+
+    describe("parse", () => {
+        it("should parse .tsx files with the TSX grammar", () => {
+            const code = `export const Title = (props: { text: string }) => <h1>{props.text}</h1>`
+
+            expect(parser.parse(code, "src/ui/Title.tsx").rootNode.hasError).toBe(false)
+            expect(parser.parseTypeScript(code).rootNode.hasError).toBe(true)
+        })
+
+        it("should parse .jsx and .js files with the JavaScript grammar", () => {
+            const jsx = `export const Title = (props) => <h1>{props.text}</h1>`
+            const js = `const add = (a, b) => a + b`
+
+            expect(parser.parse(jsx, "src/ui/Title.jsx").rootNode.hasError).toBe(false)
+            expect(parser.parse(js, "src/math.js").rootNode.hasError).toBe(false)
+        })
+
+        it("should parse .ts files with the TypeScript grammar", () => {
+            const code = `const cast = <T>(value: unknown): T => value as T`
+
+            expect(parser.parse(code, "src/cast.ts").rootNode.hasError).toBe(false)
+        })
+    })
+
+    describe("extractImports", () => {
+        it("should find import statements and require calls with their lines", () => {
+            const code = [
+                `import { User } from "../domain/User"`,
+                `import type { Order } from "../domain/Order"`,
+                `// import { Draft } from "../domain/Draft"`,
+                `const express = require("express")`,
+                `const text = "import { Fake } from './fake'"`,
+            ].join("\n")
+
+            const imports = parser.extractImports(parser.parse(code, "src/app.ts"))
+
+            expect(imports).toEqual([
+                { specifier: "../domain/User", line: 1, kind: "import", isTypeOnly: false },
+                { specifier: "../domain/Order", line: 2, kind: "import", isTypeOnly: true },
+                { specifier: "express", line: 4, kind: "require", isTypeOnly: false },
+            ])
+        })
+
+        it("should find re-exports, dynamic imports and multi-line imports", () => {
+            const code = [
+                `import {`,
+                `    User,`,
+                `    Order,`,
+                `} from "./domain"`,
+                `import "./polyfills"`,
+                `import config = require("./config")`,
+                `export * from "./entities"`,
+                `export { Money as Amount } from "./value-objects/Money"`,
+                `export * as events from "./events"`,
+                `export const load = async () => import("./plugins")`,
+                `const dynamic = (name: string) => import(name)`,
+            ].join("\n")
+
+            const imports = parser.extractImports(parser.parse(code, "src/index.ts"))
+
+            expect(imports.map(({ specifier, line, kind }) => [specifier, line, kind])).toEqual([
+                ["./domain", 1, "import"],
+                ["./polyfills", 5, "import"],
+                ["./config", 6, "require"],
+                ["./entities", 7, "re-export"],
+                ["./value-objects/Money", 8, "re-export"],
+                ["./events", 9, "re-export"],
+                ["./plugins", 10, "dynamic-import"],
+            ])
+        })
+
+        it("should tag imports and re-exports that only bring in types", () => {
+            const code = [
+                `import type { User } from "./User"`,
+                `import { type Order, type OrderId } from "./Order"`,
+                `import { type Invoice, issue } from "./Invoice"`,
+                `import type * as events from "./events"`,
+                `export type { Money } from "./Money"`,
+                `export { type Currency } from "./Currency"`,
+                `export * from "./Price"`,
+            ].join("\n")
+
+            const imports = parser.extractImports(parser.parse(code, "src/index.ts"))
+
+            expect(imports.map(({ specifier, isTypeOnly }) => [specifier, isTypeOnly])).toEqual([
+                ["./User", true],
+                ["./Order", true],
+                ["./Invoice", false],
+                ["./events", true],
+                ["./Money", true],
+                ["./Currency", true],
+                ["./Price", false],
+            ])
+        })
+    })
+
+    describe("countTypes", () => {
+        it("should count interfaces and abstract classes as abstract", () => {
+            const code = [
+                "export interface OrderRepository {}",
+                "export abstract class Entity {}",
+                "export class Order extends Entity {}",
+                "type OrderId = string",
+                "function build() { return class {} }",
+            ].join("\n")
+
+            expect(parser.countTypes(parser.parse(code, "src/domain/Order.ts"))).toEqual({
+                total: 3,
+                abstract: 2,
+            })
+        })
+    })
+
+    describe("extractSymbols", () => {
+        it("should collect type declarations with the types aliases stand for", () => {
+            const code = [
+                "export class User {}",
+                "interface Props {}",
+                "export enum Status { Active }",
+                "export type UserView = Promise<User[] | null> | entities.Order",
+                "type Id = string",
+            ].join("\n")
+
+            const { declarations } = parser.extractSymbols(parser.parse(code, "src/User.ts"))
+
+            expect(declarations).toEqual([
+                { name: "User", line: 1, references: [] },
+                { name: "Props", line: 2, references: [] },
+                { name: "Status", line: 3, references: [] },
+                { name: "UserView", line: 4, references: ["User", "entities.Order"] },
+                { name: "Id", line: 5, references: [] },
+            ])
+        })
+
+        it("should collect import bindings and re-exports", () => {
+            const code = [
+                `import Api, * as entities from "./entities"`,
+                `import { User as Member, type Order } from "./domain"`,
+                `import "./polyfills"`,
+                `export * from "./User"`,
+                `export { Order as Purchase } from "./Order"`,
+                `export * as dtos from "./dtos"`,
+            ].join("\n")
+
+            const { imports, reExports } = parser.extractSymbols(parser.parse(code, "src/index.ts"))
+
+            expect(imports).toEqual([
+                { local: "Api", imported: "default", specifier: "./entities" },
+                { local: "entities", imported: "*", specifier: "./entities" },
+                { local: "Member", imported: "User", specifier: "./domain" },
+                { local: "Order", imported: "Order", specifier: "./domain" },
+            ])
+            expect(reExports).toEqual([
+                { exported: "*", imported: "*", specifier: "./User" },
+                { exported: "Purchase", imported: "Order", specifier: "./Order" },
+            ])
+        })
+
+        it("should collect local exports with their lines", () => {
+            const code = [
+                `export const MAX = 1, { a, b: c } = limits`,
+                `export class User {}`,
+                `export type UserId = string`,
+                `export declare function load(): void`,
+                `const internal = 1`,
+                `export { internal as visible }`,
+                `export default User`,
+                `export { Order } from "./Order"`,
+            ].join("\n")
+
+            const { exports } = parser.extractSymbols(parser.parse(code, "src/index.ts"))
+
+            expect(exports).toEqual([
+                { name: "MAX", line: 1 },
+                { name: "a", line: 1 },
+                { name: "c", line: 1 },
+                { name: "User", line: 2 },
+                { name: "UserId", line: 3 },
+                { name: "load", line: 4 },
+                { name: "visible", line: 6 },
+                { name: "default", line: 7 },
+            ])
+        })
+    })
+})
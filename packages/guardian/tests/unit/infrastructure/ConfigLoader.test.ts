@@ -0,0 +1,507 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { ConfigLoader } from "../../../src/infrastructure/config/ConfigLoader"
+
+describe("ConfigLoader", () => {
+    let loader: ConfigLoader
+    let tempDir: string
+
+    beforeEach(async () => {
+        loader = new ConfigLoader()
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-config-"))
+    })
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const writeFile = async (relativePath: string, content: string): Promise<string> => {
+        const filePath = path.join(tempDir, relativePath)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+        return filePath
+    }
+
+    describe("discover", () => {
+        it("should find config in the given directory", async () => {
+            const configPath = await writeFile("guardian.config.json", "{}")
+
+            const found = await loader.discover(tempDir)
+
+            expect(found).toBe(configPath)
+        })
+
+        it("should walk up the directory tree", async () => {
+            const configPath = await writeFile("guardian.config.json", "{}")
+            const nested = path.join(tempDir, "src", "domain")
+            await fs.mkdir(nested, { recursive: true })
+
+            const found = await loader.discover(nested)
+
+            expect(found).toBe(configPath)
+        })
+
+        it("should prefer the nearest config file", async () => {
+            await writeFile("guardian.config.json", "{}")
+            const nearest = await writeFile("src/guardian.config.json", "{}")
+
+            const found = await loader.discover(path.join(tempDir, "src"))
+
+            expect(found).toBe(nearest)
+        })
+
+        it("should prefer guardian.config.ts over guardian.config.json", async () => {
+            await writeFile("guardian.config.json", "{}")
+            const tsConfig = await writeFile("guardian.config.ts", "export default {}")
+
+            const found = await loader.discover(tempDir)
+
+            expect(found).toBe(tsConfig)
+        })
+    })
+
+    describe("load", () => {
+        it("should return default config when no config file exists", async () => {
+            const config = await loader.load({ rootDir: tempDir, configPath: undefined })
+
+            expect(config.isRuleEnabled("hardcoded-value")).toBe(true)
+            expect(config.getSeverity("hardcoded-value", "low")).toBe("low")
+        })
+
+        it("should load JSON config", async () => {
+            const configPath = await writeFile(
+                "guardian.config.json",
+                JSON.stringify({
+                    exclude: ["legacy"],
+                    rules: {
+                        "hardcoded-value": "off",
+                        "naming-convention": "high",
+                        "anemic-model": { severity: "low" },
+                        "entity-exposure": { enabled: false },
+                    },
+                }),
+            )
+
+            const config = await loader.load({ rootDir: tempDir })
+
+            expect(config.source).toBe(configPath)
+            expect(config.exclude).toEqual(["legacy"])
+            expect(config.isRuleEnabled("hardcoded-value")).toBe(false)
+            expect(config.isRuleEnabled("naming-convention")).toBe(true)
+            expect(config.getSeverity("naming-convention", "medium")).toBe("high")
+            expect(config.getSeverity("anemic-model", "medium")).toBe("low")
+            expect(config.isRuleEnabled("entity-exposure")).toBe(false)
+            expect(config.getSeverity("secret-exposure", "critical")).toBe("critical")
+        })
+
+        it("should load CommonJS config", async () => {
+            await writeFile(
+                "guardian.config.js",
+                'module.exports = { rules: { "circular-dependency": "off" } }',
+            )
+
+            const config = await loader.load({ rootDir: tempDir })
+
+            expect(config.isRuleEnabled("circular-dependency")).toBe(false)
+        })
+
+        it("should load TypeScript config with default export", async () => {
+            await writeFile(
+                "guardian.config.ts",
+                [
+                    'const severity: "high" = "high"',
+                    "export default {",
+                    '    rules: { "anemic-model": severity },',
+                    "}",
+                ].join("\n"),
+            )
+            await fs.symlink(
+                path.join(__dirname, "../../../node_modules"),
+                path.join(tempDir, "node_modules"),
+            )
+
+            const config = await loader.load({ rootDir: tempDir })
+
+            expect(config.getSeverity("anemic-model", "medium")).toBe("high")
+        })
+
+        it("should load JavaScript config with default export in an ES module package", async () => {
+            await writeFile("package.json", '{ "type": "module" }')
+            await writeFile(
+                "guardian.config.js",
+                'export default { rules: { "circular-dependency": "off" } }',
+            )
+            await fs.symlink(
+                path.join(__dirname, "../../../node_modules"),
+                path.join(tempDir, "node_modules"),
+            )
+
+            const config = await loader.load({ rootDir: tempDir })
+
+            expect(config.isRuleEnabled("circular-dependency")).toBe(false)
+        })
+
+        it("should load .mjs config", async () => {
+            await writeFile(
+                "guardian.config.mjs",
+                'const severity = "low"\nexport default { rules: { "anemic-model": severity } }',
+            )
+            await fs.symlink(
+                path.join(__dirname, "../../../node_modules"),
+                path.join(tempDir, "node_modules"),
+            )
+
+            const config = await loader.load({ rootDir: tempDir })
+
+            expect(config.getSeverity("anemic-model", "medium")).toBe("low")
+        })
+
+        it("should load explicit config path", async () => {
+            await writeFile("guardian.config.json", JSON.stringify({ rules: {} }))
+            const custom = await writeFile(
+                "configs/strict.json",
+                JSON.stringify({ rules: { "hardcoded-value": "critical" } }),
+            )
+
+            const config = await loader.load({ rootDir: tempDir, configPath: custom })
+
+            expect(config.source).toBe(custom)
+            expect(config.getSeverity("hardcoded-value", "low")).toBe("critical")
+        })
+
+        it("should prefer inline config over config files", async () => {
+            await writeFile(
+                "guardian.config.json",
+                JSON.stringify({ rules: { "hardcoded-value": "off" } }),
+            )
+
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: { rules: { "naming-convention": "off" } },
+            })
+
+            expect(config.source).toBeUndefined()
+            expect(config.isRuleEnabled("hardcoded-value")).toBe(true)
+            expect(config.isRuleEnabled("naming-convention")).toBe(false)
+        })
+
+        it("should fail on malformed JSON", async () => {
+            await writeFile("guardian.config.json", "{ rules: ")
+
+            await expect(loader.load({ rootDir: tempDir })).rejects.toThrow(
+                "Failed to load config file",
+            )
+        })
+
+        it("should fail on missing explicit config path", async () => {
+            await expect(
+                loader.load({ rootDir: tempDir, configPath: path.join(tempDir, "missing.json") }),
+            ).rejects.toThrow("Failed to load config file")
+        })
+    })
+
+    describe("validation", () => {
+        it("should reject unknown rules", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: { rules: { "no-such-rule": "off" } as never },
+                }),
+            ).rejects.toThrow('unknown rule "no-such-rule"')
+        })
+
+        it("should reject invalid severities", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: { rules: { "hardcoded-value": "error" } as never },
+                }),
+            ).rejects.toThrow('"rules.hardcoded-value" must be "off"')
+        })
+
+        it("should reject invalid object settings", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: {
+                        rules: {
+                            "hardcoded-value": { enabled: "no", severity: "urgent" },
+                        } as never,
+                    },
+                }),
+            ).rejects.toThrow(/enabled" must be a boolean[\s\S]*severity" must be one of/)
+        })
+
+        it("should reject unknown top-level keys", async () => {
+            await expect(
+                loader.load({ rootDir: tempDir, config: { preset: "ddd" } as never }),
+            ).rejects.toThrow('unknown key "preset"')
+        })
+
+        it("should reject non-array exclude", async () => {
+            await expect(
+                loader.load({ rootDir: tempDir, config: { exclude: "dist" } as never }),
+            ).rejects.toThrow('"exclude" must be an array of strings')
+        })
+
+        it("should accept plugins and plugin rules", async () => {
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: {
+                    plugins: ["./house-rules.js"],
+                    rules: { "house-rules/no-date-now": "high" },
+                    gate: { maxViolations: { "house-rules/no-date-now": 3 } },
+                },
+            })
+
+            expect(config.plugins).toEqual(["./house-rules.js"])
+            expect(config.getSeverity("house-rules/no-date-now", "medium")).toBe("high")
+        })
+
+        it("should reject malformed plugins and plugin rules", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: {
+                        plugins: [42],
+                        rules: { "house-rules/no/date": "off" },
+                    } as never,
+                }),
+            ).rejects.toThrow(
+                /"plugins" must be an array of strings[\s\S]*unknown rule "house-rules\/no\/date"/,
+            )
+        })
+
+        it("should load custom layers", async () => {
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: {
+                    layers: {
+                        core: { patterns: ["**/core/**"] },
+                        adapters: { patterns: ["**/adapters/**"], mayDependOn: ["core"] },
+                    },
+                },
+            })
+
+            expect(config.layerModel.layerNames).toEqual(["core", "adapters"])
+            expect(config.layerModel.canDependOn("core", "adapters")).toBe(false)
+            expect(config.layerModel.canDependOn("adapters", "core")).toBe(true)
+        })
+
+        it("should reject layers without patterns", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: { layers: { core: { patterns: [] } } },
+                }),
+            ).rejects.toThrow('"layers.core" must be an object with a non-empty patterns array')
+        })
+
+        it("should reject dependencies on undefined layers", async () => {
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: {
+                        layers: { core: { patterns: ["**/core/**"], mayDependOn: ["utils"] } },
+                    },
+                }),
+            ).rejects.toThrow('"layers.core.mayDependOn" references unknown layer "utils"')
+        })
+
+        it("should load type-only dependencies of layers", async () => {
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: {
+                    layers: {
+                        core: { patterns: ["**/core/**"], mayImportTypesFrom: ["adapters"] },
+                        adapters: { patterns: ["**/adapters/**"], mayDependOn: ["core"] },
+                    },
+                },
+            })
+
+            expect(config.layerModel.canDependOn("core", "adapters", true)).toBe(true)
+            expect(config.layerModel.canDependOn("core", "adapters")).toBe(false)
+            await expect(
+                loader.load({
+                    rootDir: tempDir,
+                    config: {
+                        layers: { core: { patterns: ["**/core/**"], mayImportTypesFrom: ["db"] } },
+                    },
+                }),
+            ).rejects.toThrow('"layers.core.mayImportTypesFrom" references unknown layer "db"')
+        })
+
+        it("should load quality gate settings", async () => {
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: {
+                    gate: {
+                        failOn: "high",
+                        maxViolations: { "secret-exposure": 0, "magic-string": 20 },
+                    },
+                },
+            })
+
+            expect(config.gate.failOn).toBe("high")
+            expect(config.gate.maxViolations.get("magic-string")).toBe(20)
+            expect(config.gate.maxViolations.get("secret-exposure")).toBe(0)
+        })
+
+        it("should reject invalid gate thresholds", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    gate: {
+                        failOn: "severe",
+                        maxViolations: { "magic-strings": 1, "hardcoded-value": -1 },
+                    } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow('"gate.failOn" must be one of')
+            await expect(load).rejects.toThrow(
+                '"gate.maxViolations" unknown rule or hardcode type "magic-strings"',
+            )
+            await expect(load).rejects.toThrow(
+                '"gate.maxViolations.hardcoded-value" must be a non-negative integer',
+            )
+        })
+
+        it("should reject invalid suppression settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    suppressions: { reportUnused: "yes", requireReasons: true } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow('"suppressions.reportUnused" must be a boolean')
+            await expect(load).rejects.toThrow('unknown key "suppressions.requireReasons"')
+        })
+
+        it("should reject invalid package metrics settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    packageMetrics: {
+                        level: "module",
+                        thresholds: { domain: { maxInstability: 1.5, maxCoupling: 3 } },
+                    } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow(
+                '"packageMetrics.level" must be one of folder, layer',
+            )
+            await expect(load).rejects.toThrow(
+                '"packageMetrics.thresholds.domain.maxInstability" must be a number between 0 and 1',
+            )
+            await expect(load).rejects.toThrow(
+                'unknown key "packageMetrics.thresholds.domain.maxCoupling"',
+            )
+        })
+
+        it("should load naming settings", async () => {
+            const config = await loader.load({
+                rootDir: tempDir,
+                config: {
+                    naming: {
+                        useCaseVerbs: ["Sync"],
+                        rules: { domain: { files: "kebab-case", classes: "^[A-Z]\\w*Entity$" } },
+                    },
+                },
+            })
+
+            expect(config.naming).toEqual({
+                preset: "default",
+                useCaseVerbs: ["Sync"],
+                rules: { domain: { files: "kebab-case", classes: "^[A-Z]\\w*Entity$" } },
+            })
+        })
+
+        it("should reject invalid naming settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    naming: {
+                        preset: "strict",
+                        useCaseVerbs: ["sync"],
+                        rules: { domain: { files: 42, classes: "[A-Z", suffix: "Entity" } },
+                    } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow('"naming.preset" must be one of default, none')
+            await expect(load).rejects.toThrow(
+                '"naming.useCaseVerbs" must contain PascalCase verbs',
+            )
+            await expect(load).rejects.toThrow(
+                '"naming.rules.domain.files" must be a valid regular expression or one of',
+            )
+            await expect(load).rejects.toThrow(
+                '"naming.rules.domain.classes" must be a valid regular expression or one of',
+            )
+            await expect(load).rejects.toThrow('unknown key "naming.rules.domain.suffix"')
+        })
+
+        it("should reject invalid framework settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    frameworks: {
+                        categories: { messaging: "kafkajs" },
+                        layers: ["application"],
+                        allow: {},
+                    } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow(
+                '"frameworks.categories.messaging" must be an array of strings',
+            )
+            await expect(load).rejects.toThrow('"frameworks.layers" config must export an object')
+            await expect(load).rejects.toThrow('unknown key "frameworks.allow"')
+        })
+
+        it("should reject invalid bounded context settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: {
+                    boundedContexts: {
+                        contexts: "src/contexts/*",
+                        publicApi: [1],
+                        kernel: [],
+                    } as never,
+                },
+            })
+
+            await expect(load).rejects.toThrow(
+                '"boundedContexts.contexts" must be an array of strings',
+            )
+            await expect(load).rejects.toThrow(
+                '"boundedContexts.publicApi" must be an array of strings',
+            )
+            await expect(load).rejects.toThrow('unknown key "boundedContexts.kernel"')
+        })
+
+        it("should reject invalid dead code settings", async () => {
+            const load = loader.load({
+                rootDir: tempDir,
+                config: { deadCode: { entryPoints: "scripts/**", ignore: [] } as never },
+            })
+
+            await expect(load).rejects.toThrow('"deadCode.entryPoints" must be an array of strings')
+            await expect(load).rejects.toThrow('unknown key "deadCode.ignore"')
+        })
+
+        it("should reject config files that do not export an object", async () => {
+            await writeFile("guardian.config.json", "[]")
+
+            await expect(loader.load({ rootDir: tempDir })).rejects.toThrow(
+                "config must export an object",
+            )
+        })
+    })
+})
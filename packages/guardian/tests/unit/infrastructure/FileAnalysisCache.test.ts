@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { FileAnalysisCache } from "../../../src/infrastructure/cache/FileAnalysisCache"
+
+describe("FileAnalysisCache", () => {
+    let tempDir: string
+    let cacheDir: string
+    let rootDir: string
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-cache-"))
+        cacheDir = path.join(tempDir, ".guardian-cache")
+        rootDir = path.join(tempDir, "src")
+    })
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const saveEntries = async (
+        entries: Record<string, number>,
+        version = "1.0.0",
+        key = "{}",
+    ): Promise<void> => {
+        const cache = new FileAnalysisCache<number>(version)
+        await cache.load({ cacheDir, rootDir, key })
+        for (const [file, value] of Object.entries(entries)) {
+            cache.set(file, `hash-${file}`, value)
+        }
+        await cache.save()
+    }
+
+    it("should return entries saved by a previous run", async () => {
+        await saveEntries({ "User.ts": 3 })
+        const cache = new FileAnalysisCache<number>("1.0.0")
+
+        await cache.load({ cacheDir, rootDir, key: "{}" })
+
+        expect(cache.get("User.ts", "hash-User.ts")).toBe(3)
+        expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0 })
+        expect(path.dirname(cache.getStats().path)).toBe(cacheDir)
+    })
+
+    it("should miss when the content hash changed", async () => {
+        await saveEntries({ "User.ts": 3 })
+        const cache = new FileAnalysisCache<number>("1.0.0")
+
+        await cache.load({ cacheDir, rootDir, key: "{}" })
+
+        expect(cache.get("User.ts", "edited")).toBeUndefined()
+        expect(cache.get("Order.ts", "hash-Order.ts")).toBeUndefined()
+        expect(cache.getStats()).toMatchObject({ hits: 0, misses: 2 })
+    })
+
+    it("should discard the cache when the version or key changed", async () => {
+        await saveEntries({ "User.ts": 3 })
+        const upgraded = new FileAnalysisCache<number>("1.1.0")
+        const reconfigured = new FileAnalysisCache<number>("1.0.0")
+
+        await upgraded.load({ cacheDir, rootDir, key: "{}" })
+        await reconfigured.load({ cacheDir, rootDir, key: '{"rules":{}}' })
+
+        expect(upgraded.get("User.ts", "hash-User.ts")).toBeUndefined()
+        expect(reconfigured.get("User.ts", "hash-User.ts")).toBeUndefined()
+    })
+
+    it("should drop entries that were not set again", async () => {
+        await saveEntries({ "User.ts": 3, "Order.ts": 1 })
+        await saveEntries({ "Order.ts": 1 })
+        const cache = new FileAnalysisCache<number>("1.0.0")
+
+        await cache.load({ cacheDir, rootDir, key: "{}" })
+
+        expect(cache.get("User.ts", "hash-User.ts")).toBeUndefined()
+        expect(cache.get("Order.ts", "hash-Order.ts")).toBe(1)
+    })
+
+    it("should ignore unreadable cache files", async () => {
+        const cache = new FileAnalysisCache<number>("1.0.0")
+        await cache.load({ cacheDir, rootDir, key: "{}" })
+        await fs.mkdir(cacheDir, { recursive: true })
+        await fs.writeFile(cache.getStats().path, "{ broken")
+
+        await cache.load({ cacheDir, rootDir, key: "{}" })
+
+        expect(cache.get("User.ts", "hash-User.ts")).toBeUndefined()
+    })
+
+    it("should keep separate files per analyzed directory", async () => {
+        const app = new FileAnalysisCache<number>("1.0.0")
+        const lib = new FileAnalysisCache<number>("1.0.0")
+
+        await app.load({ cacheDir, rootDir: path.join(tempDir, "app"), key: "{}" })
+        await lib.load({ cacheDir, rootDir: path.join(tempDir, "lib"), key: "{}" })
+
+        expect(app.getStats().path).not.toBe(lib.getStats().path)
+    })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import type { FileWatchHandle } from "../../../src/domain/services/IFileWatcher"
+import { FileWatcher } from "../../../src/infrastructure/watchers/FileWatcher"
+
+const DEBOUNCE_MS = 50
+
+describe("FileWatcher", () => {
+    let tempDir: string
+    let handle: FileWatchHandle | undefined
+    let batches: string[][]
+    let waiting: ((paths: string[]) => void)[]
+
+    beforeEach(async () => {
+        tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "guardian-watcher-")))
+        batches = []
+        waiting = []
+    })
+
+    afterEach(async () => {
+        handle?.close()
+        handle = undefined
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const start = async (options: { exclude?: string[]; files?: string[] } = {}): Promise<void> => {
+        handle = await new FileWatcher(DEBOUNCE_MS).watch({
+            rootDir: path.join(tempDir, "src"),
+            ...options,
+            onChange: (paths) => {
+                const resolve = waiting.shift()
+                if (resolve) {
+                    resolve(paths)
+                } else {
+                    batches.push(paths)
+                }
+            },
+        })
+    }
+
+    const nextBatch = async (): Promise<string[]> => {
+        const batch = batches.shift()
+        return batch ?? new Promise((resolve) => waiting.push(resolve))
+    }
+
+    const writeFile = async (relativePath: string, content = ""): Promise<string> => {
+        const filePath = path.join(tempDir, relativePath)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+        return filePath
+    }
+
+    it("should report changes in one batch", async () => {
+        await writeFile("src/domain/Order.ts")
+        await start()
+
+        const order = await writeFile("src/domain/Order.ts", "export class Order {}")
+        const user = await writeFile("src/User.ts", "export class User {}")
+
+        expect([...new Set(await nextBatch())].sort()).toEqual([user, order].sort())
+    })
+
+    it("should watch directories created after the start", async () => {
+        await fs.mkdir(path.join(tempDir, "src"), { recursive: true })
+        await start()
+
+        await fs.mkdir(path.join(tempDir, "src/application"))
+        await nextBatch()
+        const useCase = await writeFile("src/application/CreateOrder.ts", "export {}")
+
+        expect(await nextBatch()).toContain(useCase)
+    })
+
+    it("should not watch excluded directories", async () => {
+        await writeFile("src/node_modules/lib/index.js")
+        await writeFile("src/generated/api.ts")
+        await start({ exclude: ["node_modules"] })
+
+        await writeFile("src/node_modules/lib/index.js", "module.exports = 1")
+        const generated = await writeFile("src/generated/api.ts", "export {}")
+
+        expect(await nextBatch()).toEqual([generated])
+    })
+
+    it("should watch single files outside the directory", async () => {
+        await fs.mkdir(path.join(tempDir, "src"), { recursive: true })
+        const config = await writeFile("guardian.config.json", "{}")
+        await writeFile("README.md")
+        await start({ files: [config] })
+
+        await writeFile("README.md", "# project")
+        await writeFile("guardian.config.json", '{ "exclude": ["legacy"] }')
+
+        expect(await nextBatch()).toEqual([config])
+    })
+
+    it("should fail for a missing directory", async () => {
+        await expect(start()).rejects.toThrow("Failed to watch directory")
+    })
+})
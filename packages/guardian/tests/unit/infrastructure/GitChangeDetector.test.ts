@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { simpleGit, type SimpleGit } from "simple-git"
+import { GitChangeDetector } from "../../../src/infrastructure/git/GitChangeDetector"
+
+describe("GitChangeDetector", () => {
+    let detector: GitChangeDetector
+    let tempDir: string
+    let git: SimpleGit
+
+    const writeFile = async (relativePath: string, content: string): Promise<void> => {
+        const filePath = path.join(tempDir, relativePath)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+    }
+
+    beforeEach(async () => {
+        detector = new GitChangeDetector()
+        tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "guardian-git-")))
+        git = simpleGit(tempDir)
+
+        await git.init(["--initial-branch=main"])
+        await git.addConfig("user.name", "guardian")
+        await git.addConfig("user.email", "guardian@example.com")
+        await writeFile("src/domain/Order.ts", "export class Order {}\n")
+        await writeFile("src/domain/User.ts", "export class User {}\n")
+        await git.add(".")
+        await git.commit("initial")
+    })
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    describe("since", () => {
+        it("should list files changed since the merge base, including untracked ones", async () => {
+            await git.checkoutLocalBranch("feature")
+            await writeFile("src/domain/Order.ts", "export class Order { id = 1 }\n")
+            await git.commit("change order", ["src/domain/Order.ts"])
+            await writeFile("src/domain/Invoice.ts", "export class Invoice {}\n")
+
+            const changes = await detector.detect({ rootDir: tempDir, since: "main" })
+
+            expect([...changes.changedFiles].sort()).toEqual([
+                path.join("src", "domain", "Invoice.ts"),
+                path.join("src", "domain", "Order.ts"),
+            ])
+            expect(changes.contents.size).toBe(0)
+        })
+
+        it("should return paths relative to the analyzed directory", async () => {
+            await writeFile("src/domain/User.ts", "export class User { name = '' }\n")
+            await writeFile("src/domain/Invoice.ts", "export class Invoice {}\n")
+            await writeFile("README.md", "# changed\n")
+
+            const changes = await detector.detect({
+                rootDir: path.join(tempDir, "src"),
+                since: "main",
+            })
+
+            expect([...changes.changedFiles].sort()).toEqual([
+                path.join("domain", "Invoice.ts"),
+                path.join("domain", "User.ts"),
+            ])
+        })
+
+        it("should fail on unknown refs", async () => {
+            await expect(detector.detect({ rootDir: tempDir, since: "develop" })).rejects.toThrow(
+                'Failed to read git changes: Unknown git ref "develop"',
+            )
+        })
+    })
+
+    describe("staged", () => {
+        it("should list staged files and read unstaged edits from the index", async () => {
+            await writeFile("src/domain/Order.ts", "export class Order { staged = 1 }\n")
+            await git.add("src/domain/Order.ts")
+            await writeFile("src/domain/Order.ts", "export class Order { unstaged = 2 }\n")
+            await writeFile("src/domain/Draft.ts", "export class Draft {}\n")
+
+            const changes = await detector.detect({ rootDir: tempDir, staged: true })
+            const order = path.join("src", "domain", "Order.ts")
+
+            expect([...changes.changedFiles]).toEqual([order])
+            expect(changes.contents.get(order)).toBe("export class Order { staged = 1 }\n")
+            expect([...changes.excludedFiles]).toEqual([path.join("src", "domain", "Draft.ts")])
+        })
+
+        it("should leave out untracked files and read deleted files from the index in a subdirectory", async () => {
+            await writeFile("src/domain/Draft.ts", "export class Draft {}\n")
+            await fs.rm(path.join(tempDir, "src/domain/User.ts"))
+
+            const changes = await detector.detect({
+                rootDir: path.join(tempDir, "src"),
+                staged: true,
+            })
+            const user = path.join("domain", "User.ts")
+
+            expect([...changes.excludedFiles]).toEqual([path.join("domain", "Draft.ts")])
+            expect([...changes.indexOnlyFiles]).toEqual([user])
+            expect(changes.contents.get(user)).toBe("export class User {}\n")
+        })
+    })
+
+    it("should fail outside of a git work tree", async () => {
+        const outside = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-nogit-"))
+
+        try {
+            await expect(detector.detect({ rootDir: outside, staged: true })).rejects.toThrow(
+                "Failed to read git changes",
+            )
+        } finally {
+            await fs.rm(outside, { recursive: true, force: true })
+        }
+    })
+})
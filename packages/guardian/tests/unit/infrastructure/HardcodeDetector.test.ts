@@ -446,6 +446,28 @@ export const CONFIG = {
 
             expect(result).toHaveLength(0)
         })
+
+        it("should skip the constant declarations guardian fix writes", () => {
+            const code = `
+export const API_URL = "http://localhost:8080"
+export const TIMEOUT_MS_2 = 5000
+`
+
+            expect(detector.detectAll(code, "config/environment.ts")).toHaveLength(0)
+        })
+
+        it("should detect values in hand-written modules at fix locations", () => {
+            const code = `
+export const apiUrl = "http://localhost:8080"
+const API_URL = "http://localhost:9090"
+export const CLIENT = { timeout: 5000 }
+`
+            const result = detector.detectAll(code, "config/environment.ts")
+
+            expect(result.map((r) => r.value)).toEqual(
+                expect.arrayContaining(["http://localhost:8080", "http://localhost:9090", 5000]),
+            )
+        })
     })
 
     describe("context and line numbers", () => {
@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import ts from "typescript"
+import { HardcodeFixer } from "../../../src/infrastructure/fixers/HardcodeFixer"
+import type { FixPlan, HardcodeFixTarget } from "../../../src/domain/services/IHardcodeFixer"
+import { HARDCODE_FIX_SKIP_REASONS } from "../../../src/domain/constants/Messages"
+
+describe("HardcodeFixer", () => {
+    let rootDir: string
+    let fixer: HardcodeFixer
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-fix-"))
+        fixer = new HardcodeFixer()
+    })
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true })
+    })
+
+    const write = async (file: string, content: string): Promise<void> => {
+        await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true })
+        await fs.writeFile(path.join(rootDir, file), content)
+    }
+
+    const read = async (file: string): Promise<string> =>
+        fs.readFile(path.join(rootDir, file), "utf-8")
+
+    /**
+     * Target for the first occurrence of `literal` in the file
+     */
+    const target = async (
+        file: string,
+        literal: string,
+        constantName: string,
+        location = "shared/constants",
+    ): Promise<HardcodeFixTarget> => {
+        const lines = (await read(file)).split("\n")
+        const line = lines.findIndex((text) => text.includes(literal))
+        return {
+            file,
+            line: line + 1,
+            column: lines[line].indexOf(literal),
+            constantName,
+            location,
+        }
+    }
+
+    const after = (plan: FixPlan, file: string): string | undefined =>
+        plan.changes.find((change) => change.file === file)?.after
+
+    const typeCheck = (files: string[]): string[] => {
+        const program = ts.createProgram(
+            files.map((file) => path.join(rootDir, file)),
+            {
+                strict: true,
+                noEmit: true,
+                target: ts.ScriptTarget.ES2022,
+                module: ts.ModuleKind.CommonJS,
+                jsx: ts.JsxEmit.Preserve,
+                skipLibCheck: true,
+            },
+        )
+        return ts
+            .getPreEmitDiagnostics(program)
+            .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"))
+    }
+
+    it("should replace the value, create the constants module and import it", async () => {
+        await write(
+            "application/Retry.ts",
+            'import { Logger } from "./Logger"\n\nexport const wait = (): number => 5000\n',
+        )
+
+        const plan = await fixer.plan(rootDir, [
+            await target("application/Retry.ts", "5000", "TIMEOUT_MS"),
+        ])
+
+        expect(after(plan, "application/Retry.ts")).toBe(
+            'import { Logger } from "./Logger"\nimport { TIMEOUT_MS } from "../shared/constants"\n\n' +
+                "export const wait = (): number => TIMEOUT_MS\n",
+        )
+        expect(plan.changes.find((change) => change.file === "shared/constants.ts")).toEqual({
+            file: "shared/constants.ts",
+            before: "",
+            after: "export const TIMEOUT_MS = 5000\n",
+            created: true,
+        })
+        expect(plan.constants).toEqual([
+            {
+                name: "TIMEOUT_MS",
+                value: "5000",
+                file: "shared/constants.ts",
+                usages: 1,
+                reused: false,
+            },
+        ])
+        expect(await read("application/Retry.ts")).toContain("=> 5000")
+    })
+
+    it("should use the index file of an existing constants directory", async () => {
+        await write("domain/constants/index.ts", "export const MAX_ITEMS = 10\n")
+        await write("domain/entities/Order.ts", 'export const label = (): string => "draft"\n')
+
+        const plan = await fixer.plan(rootDir, [
+            await target("domain/entities/Order.ts", '"draft"', "DRAFT", "domain/constants"),
+        ])
+
+        expect(after(plan, "domain/constants/index.ts")).toBe(
+            'export const MAX_ITEMS = 10\n\nexport const DRAFT = "draft"\n',
+        )
+        expect(after(plan, "domain/entities/Order.ts")).toContain(
+            'import { DRAFT } from "../constants"',
+        )
+    })
+
+    it("should share one constant between identical values in different files", async () => {
+        await write("application/A.ts", "export const a = (): number => 3000\n")
+        await write("application/B.ts", "export const b = (): number => 3_000\n")
+
+        const plan = await fixer.plan(rootDir, [
+            await target("application/A.ts", "3000", "DELAY_MS"),
+            await target("application/B.ts", "3_000", "RETRY_DELAY"),
+        ])
+
+        expect(plan.constants).toEqual([expect.objectContaining({ name: "DELAY_MS", usages: 2 })])
+        expect(after(plan, "shared/constants.ts")).toBe("export const DELAY_MS = 3000\n")
+        expect(after(plan, "application/B.ts")).toContain("=> DELAY_MS")
+    })
+
+    it("should move values suggesting different modules to shared constants", async () => {
+        await write("domain/Rules.ts", 'export const role = "admin"\n')
+        await write("infrastructure/Seed.ts", 'export const seed = "admin"\n')
+        await fs.mkdir(path.join(rootDir, "shared"))
+
+        const plan = await fixer.plan(rootDir, [
+            await target("domain/Rules.ts", '"admin"', "ADMIN", "domain/constants"),
+            await target("infrastructure/Seed.ts", '"admin"', "ADMIN", "infrastructure/config"),
+        ])
+
+        expect(plan.changes.map((change) => change.file).sort()).toEqual([
+            "domain/Rules.ts",
+            "infrastructure/Seed.ts",
+            "shared/constants.ts",
+        ])
+    })
+
+    it("should reuse a constant the module already exports with the same value", async () => {
+        await write("shared/constants.ts", "export const DEFAULT_PORT = 8080;\n")
+        await write("main.ts", "export const port = 8080;\n")
+
+        const plan = await fixer.plan(rootDir, [await target("main.ts", "8080", "PORT")])
+
+        expect(plan.constants).toEqual([
+            expect.objectContaining({ name: "DEFAULT_PORT", reused: true }),
+        ])
+        expect(after(plan, "shared/constants.ts")).toBeUndefined()
+        expect(after(plan, "main.ts")).toBe(
+            'import { DEFAULT_PORT } from "./shared/constants";\n\nexport const port = DEFAULT_PORT;\n',
+        )
+    })
+
+    it("should number names taken in the module or in the constants file", async () => {
+        await write("shared/constants.ts", "export const LIMIT = 1\n")
+        await write("a.ts", "const LIMIT_2 = 2\nexport const total = LIMIT_2 + 50\n")
+
+        const plan = await fixer.plan(rootDir, [await target("a.ts", "50", "LIMIT")])
+
+        expect(plan.constants[0].name).toBe("LIMIT_3")
+        expect(after(plan, "a.ts")).toContain("LIMIT_2 + LIMIT_3")
+    })
+
+    it("should give different values with the same suggested name distinct names", async () => {
+        await write("a.ts", "export const first = 10\nexport const second = 20\n")
+
+        const plan = await fixer.plan(rootDir, [
+            await target("a.ts", "10", "MAX_SIZE"),
+            await target("a.ts", "20", "MAX_SIZE"),
+        ])
+
+        expect(plan.constants.map((constant) => constant.name)).toEqual(["MAX_SIZE", "MAX_SIZE_2"])
+        expect(after(plan, "a.ts")).toContain(
+            'import { MAX_SIZE, MAX_SIZE_2 } from "./shared/constants"',
+        )
+    })
+
+    it("should add names to an existing import of the constants module", async () => {
+        await write("shared/constants.ts", "export const A = 1\n")
+        await write("a.ts", "import { A } from './shared/constants'\n\nexport const sum = A + 42\n")
+
+        const plan = await fixer.plan(rootDir, [await target("a.ts", "42", "ANSWER")])
+
+        expect(after(plan, "a.ts")).toBe(
+            "import { A, ANSWER } from './shared/constants'\n\nexport const sum = A + ANSWER\n",
+        )
+    })
+
+    it("should keep the .js extension of ES module imports", async () => {
+        await write(
+            "a.ts",
+            'import { b } from "./b.js"\n\nexport const url = b("https://example.com")\n',
+        )
+
+        const plan = await fixer.plan(rootDir, [
+            await target("a.ts", '"https://example.com"', "API_URL"),
+        ])
+
+        expect(after(plan, "a.ts")).toContain('import { API_URL } from "./shared/constants.js"')
+    })
+
+    it("should wrap JSX attributes and computed property names", async () => {
+        await write(
+            "View.tsx",
+            'export const View = () => <input type="email" />\nexport const map = { "email": 1 }\n',
+        )
+
+        const plan = await fixer.plan(rootDir, [
+            await target("View.tsx", '"email"', "EMAIL_TYPE"),
+            await target("View.tsx", '"email": 1', "EMAIL_TYPE"),
+        ])
+
+        expect(after(plan, "View.tsx")).toContain("<input type={EMAIL_TYPE} />")
+        expect(after(plan, "View.tsx")).toContain("{ [EMAIL_TYPE]: 1 }")
+    })
+
+    it("should skip values that cannot be replaced", async () => {
+        await write(
+            "a.ts",
+            'enum Mode {\n    Fast = "fast",\n}\nconst lib = require("lodash")\nexport const x = 1\n',
+        )
+        await write("b.js", "module.exports = 7\n")
+
+        const plan = await fixer.plan(rootDir, [
+            await target("a.ts", '"fast"', "FAST"),
+            await target("a.ts", '"lodash"', "LODASH"),
+            { ...(await target("a.ts", "x = 1", "X")), column: 0 },
+            await target("b.js", "7", "SEVEN"),
+        ])
+
+        expect(plan.changes).toEqual([])
+        expect(plan.skipped.map((skipped) => skipped.reason)).toEqual([
+            HARDCODE_FIX_SKIP_REASONS.ENUM_MEMBER,
+            HARDCODE_FIX_SKIP_REASONS.MODULE_SPECIFIER,
+            HARDCODE_FIX_SKIP_REASONS.LITERAL_NOT_FOUND,
+            HARDCODE_FIX_SKIP_REASONS.NOT_TYPESCRIPT,
+        ])
+    })
+
+    it("should write changes that type-check", async () => {
+        await write(
+            "services/Client.ts",
+            "const MAX_RETRIES = 2\n\n" +
+                "export function request(attempt: number): string {\n" +
+                '    const mode: string = attempt > 3 ? "slow" : "fast"\n' +
+                "    return attempt > MAX_RETRIES ? mode : String(3)\n" +
+                "}\n",
+        )
+        await write("services/Other.ts", "export const retries = (): number => 3\n")
+        await write("shared/constants.ts", "export const MAX_RETRIES = 5\n")
+
+        const plan = await fixer.plan(rootDir, [
+            await target("services/Client.ts", "3 ?", "MAX_RETRIES"),
+            await target("services/Client.ts", '"slow"', "SLOW_MODE"),
+            await target("services/Client.ts", "3)", "MAX_RETRIES"),
+            await target("services/Other.ts", "3", "MAX_RETRIES"),
+        ])
+        await fixer.apply(rootDir, plan)
+
+        expect(plan.skipped).toEqual([])
+        expect(plan.constants.map((constant) => constant.name)).toEqual([
+            "MAX_RETRIES_2",
+            "SLOW_MODE",
+        ])
+        expect(await read("services/Client.ts")).toContain("String(MAX_RETRIES_2)")
+        expect(typeCheck(["services/Client.ts", "services/Other.ts"])).toEqual([])
+    })
+})
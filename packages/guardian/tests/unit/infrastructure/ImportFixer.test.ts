@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { ImportFixer } from "../../../src/infrastructure/fixers/ImportFixer"
+import { IMPORT_FIX_SKIP_REASONS } from "../../../src/domain/constants/Messages"
+
+describe("ImportFixer", () => {
+    let rootDir: string
+    let fixer: ImportFixer
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-import-fix-"))
+        fixer = new ImportFixer()
+    })
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true })
+    })
+
+    const write = async (file: string, content: string): Promise<void> => {
+        await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true })
+        await fs.writeFile(path.join(rootDir, file), content)
+    }
+
+    const read = async (file: string): Promise<string> =>
+        fs.readFile(path.join(rootDir, file), "utf-8")
+
+    it("should rewrite imports, re-exports and require calls keeping their quotes", async () => {
+        await write(
+            "orders/Order.ts",
+            [
+                'import { calc } from "../billing/internal/calc"',
+                "export { rate } from '../billing/internal/rate'",
+                'const legacy = require("../billing/internal/legacy")',
+                "",
+            ].join("\n"),
+        )
+
+        const plan = await fixer.plan(rootDir, [
+            {
+                file: "orders/Order.ts",
+                line: 1,
+                specifier: "../billing/internal/calc",
+                replacement: "../billing",
+            },
+            {
+                file: "orders/Order.ts",
+                line: 2,
+                specifier: "../billing/internal/rate",
+                replacement: "../billing",
+            },
+            {
+                file: "orders/Order.ts",
+                line: 3,
+                specifier: "../billing/internal/legacy",
+                replacement: "../billing",
+            },
+        ])
+
+        expect(plan.skipped).toEqual([])
+        expect(plan.changes).toHaveLength(1)
+        expect(plan.changes[0].after).toBe(
+            [
+                'import { calc } from "../billing"',
+                "export { rate } from '../billing'",
+                'const legacy = require("../billing")',
+                "",
+            ].join("\n"),
+        )
+
+        await fixer.apply(rootDir, plan)
+
+        expect(await read("orders/Order.ts")).toBe(plan.changes[0].after)
+    })
+
+    it("should skip imports that are no longer on the reported line", async () => {
+        await write("orders/Order.ts", '\nimport { calc } from "../billing/internal/calc"\n')
+
+        const plan = await fixer.plan(rootDir, [
+            {
+                file: "orders/Order.ts",
+                line: 1,
+                specifier: "../billing/internal/calc",
+                replacement: "../billing",
+            },
+        ])
+
+        expect(plan.changes).toEqual([])
+        expect(plan.skipped).toEqual([
+            {
+                file: "orders/Order.ts",
+                line: 1,
+                column: 0,
+                reason: IMPORT_FIX_SKIP_REASONS.IMPORT_NOT_FOUND,
+            },
+        ])
+    })
+
+    it("should skip imports using names the index does not export", async () => {
+        const content = 'import { calc, Invoice } from "../billing/internal/calc"\n'
+        await write("orders/Order.ts", content)
+
+        const plan = await fixer.plan(rootDir, [
+            {
+                file: "orders/Order.ts",
+                line: 1,
+                specifier: "../billing/internal/calc",
+                replacement: "../billing",
+                unexportedNames: ["calc"],
+            },
+        ])
+
+        expect(plan.changes).toEqual([])
+        expect(plan.skipped).toEqual([
+            {
+                file: "orders/Order.ts",
+                line: 1,
+                column: 0,
+                reason: `${IMPORT_FIX_SKIP_REASONS.NOT_EXPORTED_FROM_INDEX}: calc`,
+            },
+        ])
+        expect(await read("orders/Order.ts")).toBe(content)
+    })
+})
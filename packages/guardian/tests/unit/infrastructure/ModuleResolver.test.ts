@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { ModuleResolver } from "../../../src/infrastructure/resolvers/ModuleResolver"
+
+describe("ModuleResolver", () => {
+    let resolver: ModuleResolver
+    let tempDir: string
+
+    beforeEach(async () => {
+        resolver = new ModuleResolver()
+        tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "guardian-resolve-")))
+    })
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const writeFile = async (relativePath: string, content = ""): Promise<string> => {
+        const filePath = path.join(tempDir, relativePath)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+        return filePath
+    }
+
+    const createProject = async (files: string[]): Promise<string[]> => {
+        return Promise.all(files.map((file) => writeFile(file)))
+    }
+
+    describe("relative imports", () => {
+        it("should probe extensions and index files", async () => {
+            const [order, user, shared] = await createProject([
+                "src/domain/Order.ts",
+                "src/domain/User.tsx",
+                "src/shared/index.ts",
+            ])
+            const context = await resolver.createContext(tempDir, [order, user, shared])
+
+            expect(resolver.resolve("./User", order, context)).toBe(user)
+            expect(resolver.resolve("../shared", order, context)).toBe(shared)
+            expect(resolver.resolve("./Missing", order, context)).toBeUndefined()
+        })
+
+        it("should map .js specifiers back to TypeScript sources", async () => {
+            const [order, user, legacy] = await createProject([
+                "src/Order.ts",
+                "src/User.ts",
+                "src/legacy.js",
+            ])
+            const context = await resolver.createContext(tempDir, [order, user, legacy])
+
+            expect(resolver.resolve("./User.js", order, context)).toBe(user)
+            expect(resolver.resolve("./legacy.js", order, context)).toBe(legacy)
+        })
+
+        it("should not resolve packages without tsconfig", async () => {
+            const [order] = await createProject(["src/Order.ts"])
+            const context = await resolver.createContext(tempDir, [order])
+
+            expect(resolver.resolve("express", order, context)).toBeUndefined()
+        })
+    })
+
+    describe("tsconfig", () => {
+        it("should resolve paths aliases", async () => {
+            await writeFile(
+                "tsconfig.json",
+                `{
+                    // comments and trailing commas are allowed
+                    "compilerOptions": {
+                        "baseUrl": ".",
+                        "paths": {
+                            "@/*": ["src/*"],
+                            "@domain/*": ["src/core/domain/*", "src/domain/*"],
+                            "config": ["src/config/index.ts"], /* exact alias */
+                        },
+                    },
+                }`,
+            )
+            const [order, result, user, config] = await createProject([
+                "src/app/Order.ts",
+                "src/shared/Result.ts",
+                "src/domain/User.ts",
+                "src/config/index.ts",
+            ])
+            const context = await resolver.createContext(path.join(tempDir, "src"), [
+                order,
+                result,
+                user,
+                config,
+            ])
+
+            expect(resolver.resolve("@/shared/Result", order, context)).toBe(result)
+            expect(resolver.resolve("@domain/User", order, context)).toBe(user)
+            expect(resolver.resolve("config", order, context)).toBe(config)
+        })
+
+        it("should resolve bare specifiers against baseUrl", async () => {
+            await writeFile(
+                "tsconfig.json",
+                JSON.stringify({ compilerOptions: { baseUrl: "src" } }),
+            )
+            const [order, user] = await createProject(["src/app/Order.ts", "src/domain/User.ts"])
+            const context = await resolver.createContext(tempDir, [order, user])
+
+            expect(resolver.resolve("domain/User", order, context)).toBe(user)
+            expect(resolver.resolve("lodash", order, context)).toBeUndefined()
+        })
+
+        it("should follow extends", async () => {
+            await writeFile(
+                "tsconfig.base.json",
+                JSON.stringify({ compilerOptions: { paths: { "~/*": ["./src/*"] } } }),
+            )
+            await writeFile("tsconfig.json", JSON.stringify({ extends: "./tsconfig.base" }))
+            const [order, user] = await createProject(["src/app/Order.ts", "src/domain/User.ts"])
+            const context = await resolver.createContext(tempDir, [order, user])
+
+            expect(resolver.resolve("~/domain/User", order, context)).toBe(user)
+        })
+
+        it("should ignore malformed tsconfig", async () => {
+            await writeFile("tsconfig.json", "{ compilerOptions: ")
+            const [order, user] = await createProject(["src/Order.ts", "src/User.ts"])
+            const context = await resolver.createContext(tempDir, [order, user])
+
+            expect(resolver.resolve("./User", order, context)).toBe(user)
+        })
+    })
+
+    describe("package entry points", () => {
+        it("should map built entry points back to their sources", async () => {
+            await writeFile(
+                "tsconfig.json",
+                JSON.stringify({ compilerOptions: { outDir: "dist", rootDir: "src" } }),
+            )
+            await writeFile(
+                "package.json",
+                JSON.stringify({
+                    main: "dist/index.js",
+                    types: "dist/index.d.ts",
+                    bin: { tool: "./scripts/tool.js" },
+                    exports: {
+                        ".": { import: "./dist/index.js" },
+                        "./cli": { require: "./dist/cli/main.js" },
+                        "./features/*": "./dist/features/*.js",
+                    },
+                }),
+            )
+            const [index, main, tool, order] = await createProject([
+                "src/index.ts",
+                "src/cli/main.ts",
+                "scripts/tool.js",
+                "src/domain/Order.ts",
+            ])
+            const context = await resolver.createContext(path.join(tempDir, "src"), [
+                index,
+                main,
+                tool,
+                order,
+            ])
+
+            expect([...context.entryPoints].sort()).toEqual([main, index, tool].sort())
+        })
+
+        it("should have no entry points without package.json", async () => {
+            const [order] = await createProject(["src/Order.ts"])
+            const context = await resolver.createContext(tempDir, [order])
+
+            expect(context.entryPoints.size).toBe(0)
+        })
+    })
+})
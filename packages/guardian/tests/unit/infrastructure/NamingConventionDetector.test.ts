@@ -655,6 +655,101 @@ describe("NamingConventionDetector - AST-based", () => {
         })
     })
 
+    describe("Configured Conventions", () => {
+        it("should extend the use case verbs", () => {
+            const code = `export class syncOrders {}`
+            const detect = (useCaseVerbs?: string[]) =>
+                detector.detectViolations(
+                    code,
+                    "syncOrders.ts",
+                    LAYERS.APPLICATION,
+                    "src/application/use-cases/syncOrders.ts",
+                    undefined,
+                    { useCaseVerbs },
+                )
+
+            expect(detect()).toHaveLength(0)
+            expect(detect(["Sync"]).map((v) => v.violationType)).toEqual([
+                NAMING_VIOLATION_TYPES.WRONG_VERB_NOUN,
+            ])
+        })
+
+        it("should check file names of a layer against a named style", () => {
+            const settings = { rules: { domain: { files: "kebab-case" } } }
+            const detect = (fileName: string) =>
+                detector.detectViolations(
+                    `export class User {}`,
+                    fileName,
+                    LAYERS.DOMAIN,
+                    `src/domain/${fileName}`,
+                    undefined,
+                    settings,
+                )
+
+            expect(detect("user-profile.ts")).toHaveLength(0)
+
+            const result = detect("UserProfile.ts")
+            expect(result).toHaveLength(1)
+            expect(result[0].violationType).toBe(NAMING_VIOLATION_TYPES.WRONG_CASE)
+            expect(result[0].expected).toBe("File names must match kebab-case")
+            expect(result[0].filePath).toBe("src/domain/UserProfile.ts")
+        })
+
+        it("should apply rules to the files matching a path glob", () => {
+            const settings = { rules: { "src/domain/entities/**": { files: "dot-suffix" } } }
+            const detect = (filePath: string) =>
+                detector.detectViolations(
+                    `export class User {}`,
+                    filePath.split("/").pop() ?? "",
+                    LAYERS.DOMAIN,
+                    filePath,
+                    undefined,
+                    settings,
+                )
+
+            expect(detect("src/domain/entities/user.entity.ts")).toHaveLength(0)
+            expect(detect("src/domain/services/UserService.ts")).toHaveLength(0)
+            expect(detect("src/domain/entities/user.ts")).toHaveLength(1)
+        })
+
+        it("should replace the built-in class conventions with a configured regex", () => {
+            const settings = { rules: { application: { classes: "^[A-Z][a-zA-Z]*UseCase$" } } }
+            const detect = (code: string) =>
+                detector.detectViolations(
+                    code,
+                    "create-user.use-case.ts",
+                    LAYERS.APPLICATION,
+                    "src/application/create-user.use-case.ts",
+                    undefined,
+                    settings,
+                )
+
+            expect(detect(`export class CreateUserUseCase {}`)).toHaveLength(0)
+
+            const result = detect(`export class createUser {}`)
+            expect(result).toHaveLength(1)
+            expect(result[0].violationType).toBe(NAMING_VIOLATION_TYPES.PATTERN_MISMATCH)
+            expect(result[0].expected).toBe("Class names must match /^[A-Z][a-zA-Z]*UseCase$/")
+            expect(result[0].filePath).toBe("src/application/create-user.use-case.ts:1")
+        })
+
+        it("should skip the built-in conventions with the none preset", () => {
+            const code = `export class userService {}`
+            const detect = (preset?: "default" | "none") =>
+                detector.detectViolations(
+                    code,
+                    "userService.ts",
+                    LAYERS.DOMAIN,
+                    "src/domain/userService.ts",
+                    undefined,
+                    { preset },
+                )
+
+            expect(detect("default")).toHaveLength(1)
+            expect(detect("none")).toHaveLength(0)
+        })
+    })
+
     describe("getMessage()", () => {
         it("should return descriptive error messages", () => {
             const code = `export class userService {}`
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as os from "os"
+import path from "path"
+import { PluginLoader } from "../../../src/infrastructure/plugins/PluginLoader"
+import { GuardianConfig } from "../../../src/domain/value-objects/GuardianConfig"
+import type { GuardianConfigFile } from "../../../src/domain/value-objects/GuardianConfig"
+
+const PLUGIN_SOURCE = `module.exports = {
+    name: "house-rules",
+    version: "1.0.0",
+    detectors: [
+        {
+            name: "no-date-now",
+            severity: "high",
+            detect: (context) => (context.content.includes("Date.now()") ? [{ message: "no" }] : []),
+        },
+    ],
+}
+`
+
+describe("PluginLoader", () => {
+    let loader: PluginLoader
+    let tempDir: string
+
+    beforeEach(async () => {
+        loader = new PluginLoader()
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-plugins-"))
+    })
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const writeFile = async (relativePath: string, content: string): Promise<string> => {
+        const filePath = path.join(tempDir, relativePath)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+        return filePath
+    }
+
+    const configIn = (dir: string, file: GuardianConfigFile): GuardianConfig =>
+        GuardianConfig.create(file, path.join(tempDir, dir, "guardian.config.json"))
+
+    it("should resolve paths from the config file directory", async () => {
+        const modulePath = await writeFile("config/plugins/house-rules.js", PLUGIN_SOURCE)
+
+        const [loaded] = await loader.load(
+            configIn("config", { plugins: ["./plugins/house-rules.js"] }),
+            path.join(tempDir, "src"),
+        )
+
+        expect(loaded.modulePath).toBe(modulePath)
+        expect(loaded.plugin.name).toBe("house-rules")
+        expect(loaded.plugin.detectors.map((detector) => detector.name)).toEqual(["no-date-now"])
+    })
+
+    it("should resolve paths from rootDir without a config file", async () => {
+        await writeFile("house-rules.js", PLUGIN_SOURCE)
+
+        const plugins = await loader.load(
+            GuardianConfig.create({ plugins: ["./house-rules.js"] }),
+            tempDir,
+        )
+
+        expect(plugins).toHaveLength(1)
+    })
+
+    it("should load packages from node_modules", async () => {
+        await writeFile(
+            "node_modules/guardian-plugin-house/package.json",
+            JSON.stringify({ name: "guardian-plugin-house", main: "lib/index.js" }),
+        )
+        await writeFile("node_modules/guardian-plugin-house/lib/index.js", PLUGIN_SOURCE)
+
+        const [loaded] = await loader.load(
+            configIn("", { plugins: ["guardian-plugin-house"] }),
+            tempDir,
+        )
+
+        expect(loaded.plugin.name).toBe("house-rules")
+    })
+
+    it("should load TypeScript plugins with a default export", async () => {
+        await writeFile(
+            "house-rules.ts",
+            `import type { GuardianPlugin } from "@samiyev/guardian"
+
+const plugin: GuardianPlugin = {
+    name: "house-rules",
+    detectors: [{ name: "no-todo", detect: () => [] }],
+}
+
+export default plugin
+`,
+        )
+        await fs.symlink(
+            path.join(__dirname, "../../../node_modules"),
+            path.join(tempDir, "node_modules"),
+        )
+
+        const [loaded] = await loader.load(configIn("", { plugins: ["./house-rules.ts"] }), tempDir)
+
+        expect(loaded.plugin.detectors[0].name).toBe("no-todo")
+    })
+
+    it("should change the fingerprint when the module changes", async () => {
+        const modulePath = await writeFile("house-rules.js", PLUGIN_SOURCE)
+        const before = await loader.loadModule(modulePath)
+
+        await writeFile("house-rules.js", PLUGIN_SOURCE.replace("1.0.0", "1.1.0"))
+        const after = await loader.loadModule(modulePath)
+
+        expect(after.fingerprint).not.toBe(before.fingerprint)
+    })
+
+    it("should change the fingerprint when a required helper changes", async () => {
+        await writeFile("helpers/pattern.js", 'module.exports = require("./source")\n')
+        await writeFile("helpers/source.js", 'module.exports = "Date.now()"\n')
+        const modulePath = await writeFile(
+            "house-rules.js",
+            `const pattern = require("./helpers/pattern")
+
+module.exports = {
+    name: "house-rules",
+    detectors: [{ name: "no-pattern", detect: (context) => (context.content.includes(pattern) ? [{ message: "no" }] : []) }],
+}
+`,
+        )
+        const before = await loader.loadModule(modulePath)
+
+        await writeFile("helpers/source.js", 'module.exports = "Math.random()"\n')
+        const after = await loader.loadModule(modulePath)
+
+        expect(after.fingerprint).not.toBe(before.fingerprint)
+    })
+
+    it("should reject modules that do not export a plugin", async () => {
+        await writeFile("empty.js", "module.exports = { detectors: [] }\n")
+        await writeFile(
+            "bad-detector.js",
+            'module.exports = { name: "x", detectors: [{ name: "a/b", detect() { return [] } }] }\n',
+        )
+
+        await expect(
+            loader.load(configIn("", { plugins: ["./empty.js"] }), tempDir),
+        ).rejects.toThrow("must export an object with a name and a detectors array")
+        await expect(
+            loader.load(configIn("", { plugins: ["./bad-detector.js"] }), tempDir),
+        ).rejects.toThrow('detectors[0] name must be a non-empty string without "/"')
+    })
+
+    it("should reject plugins with the same name", async () => {
+        await writeFile("a.js", PLUGIN_SOURCE)
+        await writeFile("b.js", PLUGIN_SOURCE)
+
+        await expect(
+            loader.load(configIn("", { plugins: ["./a.js", "./b.js"] }), tempDir),
+        ).rejects.toThrow('duplicate plugin name "house-rules"')
+    })
+
+    it("should reject configured rules no plugin provides", async () => {
+        await writeFile("house-rules.js", PLUGIN_SOURCE)
+
+        await expect(
+            loader.load(
+                configIn("", {
+                    plugins: ["./house-rules.js"],
+                    rules: {
+                        "house-rules/no-date-now": "off",
+                        "house-rules/no-math-random": "off",
+                    },
+                    gate: { maxViolations: { "other/rule": 1 } },
+                }),
+                tempDir,
+            ),
+        ).rejects.toThrow(
+            /no loaded plugin provides rule "house-rules\/no-math-random"[\s\S]*"other\/rule"/,
+        )
+    })
+
+    it("should report missing packages", async () => {
+        await expect(
+            loader.load(configIn("", { plugins: ["guardian-plugin-missing"] }), tempDir),
+        ).rejects.toThrow('Failed to load plugin "guardian-plugin-missing"')
+    })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach } from "vitest"
+import path from "path"
+import { WorkerThreadPool } from "../../../src/infrastructure/workers/WorkerThreadPool"
+
+const SQUARE_WORKER = path.join(__dirname, "../../fixtures/workers/square-worker.js")
+
+describe("WorkerThreadPool", () => {
+    let pool: WorkerThreadPool<number, number>
+
+    afterEach(async () => {
+        await pool.close()
+    })
+
+    it("should return results in task order", async () => {
+        pool = new WorkerThreadPool(SQUARE_WORKER, 3)
+
+        const results = await pool.run([5, 4, 3, 2, 1, 0, 7, 8])
+
+        expect(results).toEqual([25, 16, 9, 4, 1, 0, 49, 64])
+    })
+
+    it("should reuse workers across runs", async () => {
+        pool = new WorkerThreadPool(SQUARE_WORKER, 2)
+
+        expect(await pool.run([1, 2])).toEqual([1, 4])
+        expect(await pool.run([3])).toEqual([9])
+        expect(await pool.run([])).toEqual([])
+    })
+
+    it("should reject when a task fails and recover on the next run", async () => {
+        pool = new WorkerThreadPool(SQUARE_WORKER, 2)
+
+        await expect(pool.run([1, -2, 3])).rejects.toThrow("Cannot square -2")
+        expect(await pool.run([2])).toEqual([4])
+    })
+
+    it("should reject when the worker script cannot be loaded", async () => {
+        pool = new WorkerThreadPool(path.join(__dirname, "missing-worker.js"), 1)
+
+        await expect(pool.run([1])).rejects.toThrow()
+    })
+})
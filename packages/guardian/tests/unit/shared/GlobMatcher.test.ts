@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest"
+import { GlobMatcher } from "../../../src/shared/utils/GlobMatcher"
+
+describe("GlobMatcher", () => {
+    it("should match globstar patterns at any depth", () => {
+        const matcher = new GlobMatcher(["**/domain/**"])
+
+        expect(matcher.matches("domain/User.ts")).toBe(true)
+        expect(matcher.matches("src/modules/billing/domain/Invoice.ts")).toBe(true)
+        expect(matcher.matches("src/domain")).toBe(true)
+        expect(matcher.matches("src/subdomain/User.ts")).toBe(false)
+    })
+
+    it("should not let single star cross directories", () => {
+        const matcher = new GlobMatcher(["src/*.ts"])
+
+        expect(matcher.matches("src/index.ts")).toBe(true)
+        expect(matcher.matches("src/nested/index.ts")).toBe(false)
+    })
+
+    it("should support question marks, character classes and alternatives", () => {
+        expect(new GlobMatcher(["v?/*.ts"]).matches("v1/api.ts")).toBe(true)
+        expect(new GlobMatcher(["[a-c]*.ts"]).matches("bar.ts")).toBe(true)
+        expect(new GlobMatcher(["[!a-c]*.ts"]).matches("bar.ts")).toBe(false)
+        expect(new GlobMatcher(["**/*.{ts,tsx}"]).matches("ui/Button.tsx")).toBe(true)
+        expect(new GlobMatcher(["**/*.{ts,tsx}"]).matches("ui/Button.js")).toBe(false)
+    })
+
+    it("should escape regex characters in patterns", () => {
+        const matcher = new GlobMatcher(["src/(legacy)/+.ts"])
+
+        expect(matcher.matches("src/(legacy)/+.ts")).toBe(true)
+        expect(matcher.matches("src/legacy/a.ts")).toBe(false)
+    })
+
+    it("should normalize windows separators and leading ./", () => {
+        const matcher = new GlobMatcher(["./src/**"])
+
+        expect(matcher.matches("src\\domain\\User.ts")).toBe(true)
+    })
+
+    it("should optionally ignore case", () => {
+        expect(new GlobMatcher(["**/domain/**"]).matches("src/Domain/User.ts")).toBe(false)
+        expect(new GlobMatcher(["**/domain/**"], true).matches("src/Domain/User.ts")).toBe(true)
+    })
+})